@@ -0,0 +1,28 @@
+-- Migration: Store the full SavedProject (tasks, subtasks, task states, time logs)
+-- Run this in your PostgreSQL database
+
+-- 1. Project metadata that previously only lived in localStorage
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS initial_prompt TEXT;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS collaborators JSONB DEFAULT '[]'::jsonb;
+
+-- 2. Frontend task IDs (e.g., "task-1762224409786-kl80xwye2", "mock_1") are not UUIDs
+--    and are only unique within a project, so keep them alongside the server UUID
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS client_id TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS phase_title VARCHAR(255);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS base_estimated_hours DECIMAL(8, 2);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS state_estimated_hours DECIMAL(8, 2);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS sop_reference TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS critical_path BOOLEAN DEFAULT false;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS ai_generated BOOLEAN DEFAULT false;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS assigned_to TEXT;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS subtask_hour_mode VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_project_client_id ON tasks(project_id, client_id);
+
+-- 3. Time log entries keep their frontend ID and the collaborator who logged them
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS client_id TEXT;
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS logged_by TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_time_logs_project_client_id ON time_logs(project_id, client_id);
+
+-- Done! POST /api/projects/sync can now persist tasks, subtasks and time logs
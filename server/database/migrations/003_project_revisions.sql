@@ -0,0 +1,9 @@
+-- Migration: Add a revision counter to projects for optimistic concurrency
+-- Run this in your PostgreSQL database
+
+-- Every successful update through PUT /api/projects/:id or POST /api/projects/sync
+-- increments the revision. Clients send the revision they last saw as baseRevision
+-- and receive 409 Conflict when someone else has saved in the meantime.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+
+-- Done! Concurrent edits are now detected instead of silently overwritten
@@ -0,0 +1,86 @@
+-- Migration: Track changes so clients can pull and push only what changed
+-- Run this in your PostgreSQL database
+
+-- Every insert or real update of a project, task or time log takes the next value
+-- of a single sequence. Clients remember the highest value they have seen (the
+-- sync cursor) and ask GET /api/projects/changes?since=<cursor> for newer rows.
+CREATE SEQUENCE IF NOT EXISTS project_change_seq;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS change_seq BIGINT NOT NULL DEFAULT nextval('project_change_seq');
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS change_seq BIGINT NOT NULL DEFAULT nextval('project_change_seq');
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS change_seq BIGINT NOT NULL DEFAULT nextval('project_change_seq');
+
+CREATE INDEX IF NOT EXISTS idx_projects_change_seq ON projects(user_id, change_seq);
+CREATE INDEX IF NOT EXISTS idx_tasks_change_seq ON tasks(project_id, change_seq);
+CREATE INDEX IF NOT EXISTS idx_time_logs_change_seq ON time_logs(project_id, change_seq);
+
+-- Deleted rows leave a tombstone so the change feed can report deletions
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+    seq BIGINT PRIMARY KEY DEFAULT nextval('project_change_seq'),
+    entity_type VARCHAR(20) NOT NULL, -- 'project', 'task' or 'time_log'
+    project_id TEXT NOT NULL,
+    user_id UUID, -- Project owner (set for deleted projects)
+    client_id TEXT, -- Frontend ID of the deleted row
+    parent_id UUID, -- Parent task of a deleted subtask or time log
+    deleted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_project ON sync_tombstones(project_id, seq);
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user ON sync_tombstones(user_id, seq);
+
+-- Bump change_seq on insert and on updates that change anything besides timestamps
+CREATE OR REPLACE FUNCTION set_change_seq()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND
+       (to_jsonb(NEW) - 'updated_at' - 'change_seq') = (to_jsonb(OLD) - 'updated_at' - 'change_seq') THEN
+        NEW.change_seq = OLD.change_seq;
+    ELSE
+        NEW.change_seq = nextval('project_change_seq');
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION record_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'projects' THEN
+        INSERT INTO sync_tombstones (entity_type, project_id, user_id, client_id)
+        VALUES ('project', OLD.id, OLD.user_id, OLD.id);
+    ELSIF TG_TABLE_NAME = 'tasks' THEN
+        INSERT INTO sync_tombstones (entity_type, project_id, client_id, parent_id)
+        VALUES ('task', OLD.project_id, COALESCE(OLD.client_id, OLD.id::text), OLD.parent_task_id);
+    ELSE
+        INSERT INTO sync_tombstones (entity_type, project_id, client_id, parent_id)
+        VALUES ('time_log', OLD.project_id, COALESCE(OLD.client_id, OLD.id::text), OLD.task_id);
+    END IF;
+    RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS set_projects_change_seq ON projects;
+CREATE TRIGGER set_projects_change_seq BEFORE INSERT OR UPDATE ON projects
+    FOR EACH ROW EXECUTE FUNCTION set_change_seq();
+
+DROP TRIGGER IF EXISTS set_tasks_change_seq ON tasks;
+CREATE TRIGGER set_tasks_change_seq BEFORE INSERT OR UPDATE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION set_change_seq();
+
+DROP TRIGGER IF EXISTS set_time_logs_change_seq ON time_logs;
+CREATE TRIGGER set_time_logs_change_seq BEFORE INSERT OR UPDATE ON time_logs
+    FOR EACH ROW EXECUTE FUNCTION set_change_seq();
+
+DROP TRIGGER IF EXISTS record_projects_tombstone ON projects;
+CREATE TRIGGER record_projects_tombstone AFTER DELETE ON projects
+    FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+DROP TRIGGER IF EXISTS record_tasks_tombstone ON tasks;
+CREATE TRIGGER record_tasks_tombstone AFTER DELETE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+DROP TRIGGER IF EXISTS record_time_logs_tombstone ON time_logs;
+CREATE TRIGGER record_time_logs_tombstone AFTER DELETE ON time_logs
+    FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+-- Done! Projects can now be synced incrementally
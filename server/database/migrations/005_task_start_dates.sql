@@ -0,0 +1,8 @@
+-- Migration: Let tasks be scheduled on a specific start date
+-- Run this in your PostgreSQL database
+
+-- Set by dragging a task in the Gantt chart. A task never starts before the
+-- tasks it depends on finish, so this is a "start no earlier than" date.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS start_date DATE;
+
+-- Done! Task start dates now sync with the rest of the task
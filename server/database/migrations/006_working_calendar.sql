@@ -0,0 +1,9 @@
+-- Migration: Store a working calendar per project
+-- Run this in your PostgreSQL database
+
+-- { workingDays: [0-6], hoursPerDay, holidays: ['YYYY-MM-DD'] }, used to
+-- forecast task dates. NULL means the default Monday-Friday, 8h calendar.
+-- Per-collaborator capacity lives on the entries in projects.collaborators.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS calendar JSONB;
+
+-- Done! Project working calendars now sync with the rest of the project
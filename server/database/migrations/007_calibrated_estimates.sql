@@ -0,0 +1,9 @@
+-- Migration: Keep the original estimate of calibrated tasks
+-- Run this in your PostgreSQL database
+
+-- New tasks can have their estimate scaled by how long similar completed
+-- tasks really took. estimated_hours holds the calibrated value; this keeps
+-- the estimate it was calibrated from (NULL for uncalibrated tasks).
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS raw_estimated_hours DECIMAL(8, 2);
+
+-- Done! Raw and calibrated estimates now sync with the rest of the task
@@ -0,0 +1,29 @@
+-- Migration: Meter AI usage and add per-user quotas
+-- Run this in your PostgreSQL database
+
+-- One row per AI call (analyze, report, iterate, test), including calls
+-- cancelled part-way through a stream. key_source records whose API key paid
+-- for it: 'request' (sent with the call), 'stored' (the user's saved key) or
+-- 'shared' (the server's key). Only shared-key calls count against quotas.
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    endpoint VARCHAR(50) NOT NULL, -- analyze, report, iterate, test
+    model VARCHAR(100) NOT NULL,
+    key_source VARCHAR(20) NOT NULL, -- request, stored, shared
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    estimated_cost DECIMAL(12, 6) NOT NULL DEFAULT 0, -- USD
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+
+-- Quotas in USD of estimated cost per user; 0 means unlimited
+INSERT INTO admin_config (key, value, value_type, description) VALUES
+    ('ai_daily_quota_usd', '0', 'number', 'Max estimated AI cost per user per day on the shared key (USD, 0 = unlimited)'),
+    ('ai_monthly_quota_usd', '0', 'number', 'Max estimated AI cost per user per calendar month on the shared key (USD, 0 = unlimited)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Done! AI calls are now metered and can be limited per user
@@ -0,0 +1,14 @@
+-- Migration: Let users and admins choose the AI provider
+-- Run this in your PostgreSQL database
+
+-- anthropic, openai or local; NULL follows the admin_config 'ai_provider' default
+ALTER TABLE users ADD COLUMN IF NOT EXISTS ai_provider VARCHAR(50);
+
+-- Server-wide defaults (empty values fall back to AI_PROVIDER / OPENAI_* env vars)
+INSERT INTO admin_config (key, value, value_type, description) VALUES
+    ('ai_provider', '', 'string', 'Default AI provider: anthropic, openai or local (empty = AI_PROVIDER env var, else anthropic)'),
+    ('ai_openai_base_url', '', 'string', 'API root for the OpenAI-compatible provider (empty = OPENAI_BASE_URL env var, else https://api.openai.com/v1)'),
+    ('ai_openai_model', '', 'string', 'Model for the OpenAI-compatible provider (empty = OPENAI_MODEL env var, else gpt-4o)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Done! AI requests now go to the provider picked by the user or the admin
@@ -0,0 +1,9 @@
+-- Migration: Store a risk register per project
+-- Run this in your PostgreSQL database
+
+-- Array of frontend Risk objects: title, owner, likelihood, impact,
+-- mitigation status, linked task IDs, and an assessment history used for
+-- risk trends in progress reports.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS risks JSONB DEFAULT '[]'::jsonb;
+
+-- Done! Project risk registers now sync with the rest of the project
@@ -0,0 +1,18 @@
+-- Migration: Keep a history of AI progress reports per project
+-- Run this in your PostgreSQL database
+
+-- report holds the frontend AIReport as returned by the model; raw_metrics the
+-- project figures (tasks, hours, risk exposure) when it was generated, so two
+-- reports can be compared side by side.
+CREATE TABLE IF NOT EXISTS ai_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    report JSONB NOT NULL,
+    raw_metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_reports_project_created ON ai_reports(project_id, created_at);
+
+-- Done! AI progress reports are now saved with each project
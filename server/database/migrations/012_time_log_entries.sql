@@ -0,0 +1,24 @@
+-- Migration: Store time log entries (GET/POST/PUT/DELETE /api/time-logs)
+-- Run this in your PostgreSQL database
+
+-- time_logs now holds two kinds of row. 'task_state' rows mirror
+-- TaskState.timeLogs and are written by project sync; 'entry' rows are
+-- frontend TimeLogEntry records (e.g. time logged on a subtask) managed
+-- through /api/time-logs. Project sync leaves 'entry' rows alone.
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'task_state';
+
+-- Entries keep the frontend IDs and names they were logged against, so they
+-- still read correctly if the task was never synced or has been renamed.
+-- logged_by is the person the time was logged for, logged_by_name their name.
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS task_client_id TEXT;
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS task_name TEXT;
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS subtask_client_id TEXT;
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS subtask_name TEXT;
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS logged_by_name TEXT;
+
+-- One row per frontend entry, so uploading browser-stored entries twice is harmless
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_logs_entry_client_id
+    ON time_logs(project_id, client_id) WHERE source = 'entry';
+CREATE INDEX IF NOT EXISTS idx_time_logs_source_date ON time_logs(source, date);
+
+-- Done! Time log entries are now stored on the server
@@ -0,0 +1,22 @@
+-- Migration: Keep each user's running task timer on the server
+-- Run this in your PostgreSQL database
+
+-- One timer per user, so it survives reloads and follows them across devices.
+-- running_since is the start of the current run (NULL while paused) and
+-- accumulated_seconds the time from earlier runs. Stopping the timer turns it
+-- into a time log entry (time_logs row with source 'entry').
+CREATE TABLE IF NOT EXISTS active_timers (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    task_client_id TEXT NOT NULL,
+    task_name TEXT NOT NULL,
+    subtask_client_id TEXT,
+    subtask_name TEXT,
+    logged_by TEXT NOT NULL, -- Person the time is logged for
+    logged_by_name TEXT,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    running_since TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    accumulated_seconds INTEGER NOT NULL DEFAULT 0
+);
+
+-- Done! Task timers are now stored per user
@@ -0,0 +1,28 @@
+-- Migration: Weekly timesheets with submission and approval
+-- Run this in your PostgreSQL database
+
+-- One timesheet per person, project and week (weeks start on Monday). While a
+-- week is submitted or approved its time log entries are locked; a rejected
+-- week can be edited and submitted again. Timesheets are reviewed by the
+-- project owner or collaborators with the 'approver' role (project_collaborators.role).
+CREATE TABLE IF NOT EXISTS timesheets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    logged_by TEXT NOT NULL, -- Person the time is logged for (time_logs.logged_by)
+    logged_by_name TEXT,
+    week_start DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'submitted', -- submitted, approved, rejected
+    total_hours DECIMAL(8, 2) NOT NULL DEFAULT 0, -- Hours in the week when submitted
+    submitted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (project_id, logged_by, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheets_project_status ON timesheets(project_id, status);
+
+-- Done! Timesheets can now be submitted and approved
@@ -0,0 +1,9 @@
+-- Migration: Flag time logs as billable or non-billable
+-- Run this in your PostgreSQL database
+
+-- Cost rollups charge billable time against the project budget at each
+-- person's hourly rate; non-billable time (internal meetings, rework the
+-- client doesn't pay for) is reported on its own. Existing time stays billable.
+ALTER TABLE time_logs ADD COLUMN IF NOT EXISTS billable BOOLEAN NOT NULL DEFAULT true;
+
+-- Done! Time logs can now be marked non-billable
@@ -0,0 +1,9 @@
+-- Migration: Store a plan baseline per project
+-- Run this in your PostgreSQL database
+
+-- Frontend ProjectBaseline: when it was set, the start date, and each task's
+-- planned hours and start/end day on the schedule. Earned value (planned
+-- value, SPI, CPI, ...) is measured against it. NULL means no baseline yet.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS baseline JSONB;
+
+-- Done! Project baselines now sync with the rest of the project
@@ -0,0 +1,54 @@
+-- Migration: Make the sync cursor safe against transactions that commit out of order
+-- Run this in your PostgreSQL database
+
+-- Sequence values are handed out when a row is written, not when its
+-- transaction commits. A transaction can draw change_seq 10 while another
+-- draws 11 and commits first; a pull in between would hand out cursor 11 and
+-- the row at 10 would never be sent once it commits.
+--
+-- Every writer now draws change_seq through next_change_seq(), which holds a
+-- shared advisory lock until its transaction ends. current_change_cursor()
+-- takes the same lock exclusively, so it waits for the writers in flight and
+-- only returns a cursor once everything at or below it has committed (or
+-- rolled back).
+CREATE OR REPLACE FUNCTION next_change_seq()
+RETURNS BIGINT AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock_shared(hashtext('project_change_seq'));
+    RETURN nextval('project_change_seq');
+END;
+$$ language 'plpgsql';
+
+-- Must run outside a transaction that has written projects, tasks or time logs
+-- (it would wait on its own shared lock)
+CREATE OR REPLACE FUNCTION current_change_cursor()
+RETURNS BIGINT AS $$
+DECLARE
+    seq_value BIGINT;
+    seq_called BOOLEAN;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('project_change_seq'));
+    SELECT last_value, is_called INTO seq_value, seq_called FROM project_change_seq;
+    RETURN CASE WHEN seq_called THEN seq_value ELSE 0 END;
+END;
+$$ language 'plpgsql';
+
+ALTER TABLE projects ALTER COLUMN change_seq SET DEFAULT next_change_seq();
+ALTER TABLE tasks ALTER COLUMN change_seq SET DEFAULT next_change_seq();
+ALTER TABLE time_logs ALTER COLUMN change_seq SET DEFAULT next_change_seq();
+ALTER TABLE sync_tombstones ALTER COLUMN seq SET DEFAULT next_change_seq();
+
+CREATE OR REPLACE FUNCTION set_change_seq()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND
+       (to_jsonb(NEW) - 'updated_at' - 'change_seq') = (to_jsonb(OLD) - 'updated_at' - 'change_seq') THEN
+        NEW.change_seq = OLD.change_seq;
+    ELSE
+        NEW.change_seq = next_change_seq();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Done! Pulls no longer skip rows from transactions that commit late
@@ -0,0 +1,11 @@
+-- Migration: Keep time log entries when their task is deleted
+-- Run this in your PostgreSQL database
+
+-- 'entry' rows were linked to their top-level task through task_id, which
+-- cascades on delete. Project sync deletes tasks missing from an upload, so a
+-- task delete silently wiped its entries - even ones in submitted or approved
+-- timesheet weeks. Entries already keep task_client_id, so they no longer
+-- reference the task row at all.
+UPDATE time_logs SET task_id = NULL WHERE source = 'entry' AND task_id IS NOT NULL;
+
+-- Done! Deleting a task no longer removes the time logged against it
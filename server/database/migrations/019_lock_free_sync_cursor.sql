@@ -0,0 +1,52 @@
+-- Migration: Read the sync cursor without waiting for writers
+-- Run this in your PostgreSQL database (needs PostgreSQL 13 or later)
+
+-- 017 made cursor reads take an exclusive advisory lock that every writer
+-- holds shared, so each project list and change feed pull waited for all
+-- writes in flight on the server (and new writes queued behind it).
+--
+-- change_seq is now the writing transaction's ID (plus a fixed offset, so new
+-- values continue above the old sequence numbers). The cursor is the oldest
+-- transaction still running when it's read, minus one: everything below it
+-- has committed or rolled back, and anything that commits later has an ID at
+-- or above it, so the next pull picks it up. Rows from transactions that
+-- committed before the cursor was read but started after the oldest running
+-- one are sent twice, which clients already handle. Nothing waits.
+
+-- Offset added to transaction IDs, fixed once when this runs
+CREATE TABLE IF NOT EXISTS sync_cursor_base (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    xid_offset BIGINT NOT NULL
+);
+
+INSERT INTO sync_cursor_base (xid_offset)
+SELECT GREATEST(0, last_value - pg_current_xact_id()::text::bigint + 1) FROM project_change_seq
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION next_change_seq()
+RETURNS BIGINT AS $$
+BEGIN
+    RETURN pg_current_xact_id()::text::bigint + (SELECT xid_offset FROM sync_cursor_base);
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION current_change_cursor()
+RETURNS BIGINT AS $$
+BEGIN
+    RETURN pg_snapshot_xmin(pg_current_snapshot())::text::bigint + (SELECT xid_offset FROM sync_cursor_base) - 1;
+END;
+$$ language 'plpgsql';
+
+-- One transaction can now leave several tombstones with the same seq
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'sync_tombstones' AND column_name = 'id'
+    ) THEN
+        ALTER TABLE sync_tombstones DROP CONSTRAINT sync_tombstones_pkey;
+        ALTER TABLE sync_tombstones ADD COLUMN id BIGSERIAL PRIMARY KEY;
+    END IF;
+END $$;
+
+-- Done! Cursor reads no longer wait for, or hold up, writes
@@ -0,0 +1,15 @@
+-- Migration: Tie each timesheet to the account whose time it holds
+-- Run this in your PostgreSQL database
+
+-- logged_by holds the browser-side person ID chosen in the timesheet (e.g.
+-- user_<timestamp>_<rand>), which never equals a session's account ID, so the
+-- check that approvers don't review their own week couldn't match. account_id
+-- is the account that person belongs to, resolved when the week is submitted
+-- (logged_by is an account ID, or the person's email matches an account).
+ALTER TABLE timesheets ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+UPDATE timesheets s SET account_id = u.id
+FROM users u
+WHERE s.account_id IS NULL AND u.id::text = s.logged_by;
+
+-- Done! Approvers can no longer approve weeks that are their own
@@ -1,6 +1,7 @@
 /**
  * Database Migration Runner
- * Run with: node server/database/run-migration.js
+ * Run with: node server/database/run-migration.js [migration-file.sql]
+ * Without an argument, every migration in migrations/ is run in filename order.
  */
 
 const fs = require('fs');
@@ -11,18 +12,24 @@ async function runMigration() {
   console.log('🔧 Starting database migration...\n');
 
   try {
-    // Read the migration file
-    const migrationPath = path.join(__dirname, 'migrations', '001_change_project_id_to_text.sql');
-    const migrationSQL = fs.readFileSync(migrationPath, 'utf8');
+    const migrationsDir = path.join(__dirname, 'migrations');
+    const requested = process.argv[2];
+    const migrationFiles = requested
+      ? [path.basename(requested)]
+      : fs.readdirSync(migrationsDir).filter(file => file.endsWith('.sql')).sort();
 
-    console.log('📄 Running migration: 001_change_project_id_to_text.sql');
-    console.log('   This will change project IDs from UUID to TEXT\n');
+    for (const file of migrationFiles) {
+      // Read the migration file
+      const migrationSQL = fs.readFileSync(path.join(migrationsDir, file), 'utf8');
 
-    // Execute the migration
-    await pool.query(migrationSQL);
+      console.log(`📄 Running migration: ${file}`);
 
-    console.log('✅ Migration completed successfully!');
-    console.log('   Projects can now use custom IDs like "project_1762224409786_kl80xwye2"\n');
+      // Execute the migration
+      await pool.query(migrationSQL);
+    }
+
+    console.log('\n✅ Migration completed successfully!');
+    console.log(`   Applied ${migrationFiles.length} migration(s)\n`);
 
     process.exit(0);
   } catch (error) {
@@ -5,6 +5,37 @@
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
+-- Change numbers used to come from this sequence; the offset below keeps newer
+-- ones above them
+CREATE SEQUENCE IF NOT EXISTS project_change_seq;
+
+-- change_seq is the writing transaction's ID plus a fixed offset. The sync
+-- cursor is the oldest transaction still running minus one, so everything at or
+-- below it has committed and later commits land above it; reading it never waits
+-- for writers (PostgreSQL 13 or later)
+CREATE TABLE IF NOT EXISTS sync_cursor_base (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    xid_offset BIGINT NOT NULL
+);
+
+INSERT INTO sync_cursor_base (xid_offset)
+SELECT GREATEST(0, last_value - pg_current_xact_id()::text::bigint + 1) FROM project_change_seq
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION next_change_seq()
+RETURNS BIGINT AS $$
+BEGIN
+    RETURN pg_current_xact_id()::text::bigint + (SELECT xid_offset FROM sync_cursor_base);
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION current_change_cursor()
+RETURNS BIGINT AS $$
+BEGIN
+    RETURN pg_snapshot_xmin(pg_current_snapshot())::text::bigint + (SELECT xid_offset FROM sync_cursor_base) - 1;
+END;
+$$ language 'plpgsql';
+
 -- Users table with authentication
 CREATE TABLE IF NOT EXISTS users (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -15,6 +46,7 @@ CREATE TABLE IF NOT EXISTS users (
     color VARCHAR(50),
     role VARCHAR(50) DEFAULT 'user',
     avatar TEXT,
+    ai_provider VARCHAR(50), -- anthropic, openai, local; NULL = admin default
     active BOOLEAN DEFAULT true,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
@@ -55,22 +87,30 @@ CREATE TABLE IF NOT EXISTS projects (
     start_date DATE,
     target_end_date DATE,
     archived BOOLEAN DEFAULT false,
+    initial_prompt TEXT,
+    revision INTEGER NOT NULL DEFAULT 0, -- Incremented on every update (optimistic concurrency)
+    change_seq BIGINT NOT NULL DEFAULT next_change_seq(), -- Last change (sync cursor)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    -- Store phases as JSONB for flexibility
-    phases JSONB DEFAULT '[]'::jsonb
+    -- Store phases and team members as JSONB for flexibility
+    phases JSONB DEFAULT '[]'::jsonb,
+    collaborators JSONB DEFAULT '[]'::jsonb,
+    calendar JSONB, -- Working days, hours per day and holidays (NULL = Mon-Fri, 8h)
+    baseline JSONB, -- Planned hours and schedule per task for earned value (NULL = none set)
+    risks JSONB DEFAULT '[]'::jsonb -- Risk register with assessment history
 );
 
 CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
 CREATE INDEX IF NOT EXISTS idx_projects_status ON projects(status);
 CREATE INDEX IF NOT EXISTS idx_projects_archived ON projects(archived);
+CREATE INDEX IF NOT EXISTS idx_projects_change_seq ON projects(user_id, change_seq);
 
 -- Project collaborators (for future multi-user collaboration)
 CREATE TABLE IF NOT EXISTS project_collaborators (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    role VARCHAR(50) DEFAULT 'viewer', -- owner, editor, viewer
+    role VARCHAR(50) DEFAULT 'viewer', -- owner, approver, editor, viewer
     added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(project_id, user_id)
 );
@@ -82,20 +122,32 @@ CREATE INDEX IF NOT EXISTS idx_collaborators_user_id ON project_collaborators(us
 CREATE TABLE IF NOT EXISTS tasks (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    client_id TEXT, -- Frontend task/subtask ID (unique within a project)
     name VARCHAR(500) NOT NULL,
     description TEXT,
     phase_id VARCHAR(100),
+    phase_title VARCHAR(255),
     category VARCHAR(100),
     priority VARCHAR(50) DEFAULT 'medium',
     status VARCHAR(50) DEFAULT 'not-started',
     dependencies TEXT[], -- Array of task IDs
     estimated_hours DECIMAL(8, 2),
+    base_estimated_hours DECIMAL(8, 2), -- Estimate before experience adjustment
+    raw_estimated_hours DECIMAL(8, 2), -- Estimate before calibration from past actuals
+    state_estimated_hours DECIMAL(8, 2), -- User-edited estimate from TaskState
     actual_hours DECIMAL(8, 2) DEFAULT 0,
     blocked_reason TEXT,
     completed_date TIMESTAMP WITH TIME ZONE,
     notes TEXT,
+    sop_reference TEXT,
+    critical_path BOOLEAN DEFAULT false,
+    ai_generated BOOLEAN DEFAULT false,
+    assigned_to TEXT, -- Collaborator ID
+    subtask_hour_mode VARCHAR(20), -- manual, auto
+    start_date DATE, -- Scheduled start (Gantt), no earlier than dependencies allow
     "order" INTEGER DEFAULT 0,
-    parent_task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+    parent_task_id UUID REFERENCES tasks(id) ON DELETE CASCADE, -- Set for subtasks
+    change_seq BIGINT NOT NULL DEFAULT next_change_seq(), -- Last change (sync cursor)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -103,16 +155,28 @@ CREATE TABLE IF NOT EXISTS tasks (
 CREATE INDEX IF NOT EXISTS idx_tasks_project_id ON tasks(project_id);
 CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
 CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks(parent_task_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_project_client_id ON tasks(project_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_tasks_change_seq ON tasks(project_id, change_seq);
 
 -- Time logs table
 CREATE TABLE IF NOT EXISTS time_logs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
-    task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+    task_id UUID REFERENCES tasks(id) ON DELETE CASCADE, -- Task state logs only; entries use task_client_id
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    client_id TEXT, -- Frontend time log ID
+    logged_by TEXT, -- Collaborator ID who logged the time
     date DATE NOT NULL,
     hours DECIMAL(8, 2) NOT NULL,
     notes TEXT,
+    source VARCHAR(20) NOT NULL DEFAULT 'task_state', -- 'task_state' (TaskState.timeLogs, via project sync) or 'entry' (/api/time-logs)
+    task_client_id TEXT, -- Frontend task ID (entries)
+    task_name TEXT, -- Task name when logged (entries)
+    subtask_client_id TEXT, -- Frontend subtask ID (entries)
+    subtask_name TEXT, -- Subtask name when logged (entries)
+    logged_by_name TEXT, -- Name of the person the time was logged for (entries)
+    billable BOOLEAN NOT NULL DEFAULT true, -- Counts against the budget at the person's hourly rate
+    change_seq BIGINT NOT NULL DEFAULT next_change_seq(), -- Last change (sync cursor)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
@@ -121,6 +185,62 @@ CREATE INDEX IF NOT EXISTS idx_time_logs_project_id ON time_logs(project_id);
 CREATE INDEX IF NOT EXISTS idx_time_logs_task_id ON time_logs(task_id);
 CREATE INDEX IF NOT EXISTS idx_time_logs_user_id ON time_logs(user_id);
 CREATE INDEX IF NOT EXISTS idx_time_logs_date ON time_logs(date);
+CREATE INDEX IF NOT EXISTS idx_time_logs_project_client_id ON time_logs(project_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_time_logs_change_seq ON time_logs(project_id, change_seq);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_logs_entry_client_id ON time_logs(project_id, client_id) WHERE source = 'entry';
+CREATE INDEX IF NOT EXISTS idx_time_logs_source_date ON time_logs(source, date);
+
+-- Running task timer per user; stopping it creates a time_logs entry
+CREATE TABLE IF NOT EXISTS active_timers (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    task_client_id TEXT NOT NULL,
+    task_name TEXT NOT NULL,
+    subtask_client_id TEXT,
+    subtask_name TEXT,
+    logged_by TEXT NOT NULL, -- Person the time is logged for
+    logged_by_name TEXT,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    running_since TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, -- Start of the current run (NULL while paused)
+    accumulated_seconds INTEGER NOT NULL DEFAULT 0 -- Time from earlier runs
+);
+
+-- Weekly timesheet per person and project; submitted and approved weeks lock their time_logs entries
+CREATE TABLE IF NOT EXISTS timesheets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    logged_by TEXT NOT NULL, -- Person the time is logged for (time_logs.logged_by)
+    logged_by_name TEXT,
+    account_id UUID REFERENCES users(id) ON DELETE SET NULL, -- Account of the person (resolved on submit)
+    week_start DATE NOT NULL, -- Monday
+    status VARCHAR(20) NOT NULL DEFAULT 'submitted', -- submitted, approved, rejected
+    total_hours DECIMAL(8, 2) NOT NULL DEFAULT 0, -- Hours in the week when submitted
+    submitted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (project_id, logged_by, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheets_project_status ON timesheets(project_id, status);
+
+-- Deleted projects, tasks and time logs (reported by the incremental sync change feed)
+CREATE TABLE IF NOT EXISTS sync_tombstones (
+    id BIGSERIAL PRIMARY KEY,
+    seq BIGINT NOT NULL DEFAULT next_change_seq(), -- Change number (several per transaction)
+    entity_type VARCHAR(20) NOT NULL, -- 'project', 'task' or 'time_log'
+    project_id TEXT NOT NULL,
+    user_id UUID, -- Project owner (set for deleted projects)
+    client_id TEXT, -- Frontend ID of the deleted row
+    parent_id UUID, -- Parent task of a deleted subtask or time log
+    deleted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_project ON sync_tombstones(project_id, seq);
+CREATE INDEX IF NOT EXISTS idx_sync_tombstones_user ON sync_tombstones(user_id, seq);
 
 -- Session table (for express-session with connect-pg-simple)
 CREATE TABLE IF NOT EXISTS session (
@@ -156,6 +276,56 @@ CREATE TRIGGER update_tasks_updated_at BEFORE UPDATE ON tasks
 CREATE TRIGGER update_time_logs_updated_at BEFORE UPDATE ON time_logs
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Bump change_seq on insert and on updates that change anything besides timestamps
+CREATE OR REPLACE FUNCTION set_change_seq()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND
+       (to_jsonb(NEW) - 'updated_at' - 'change_seq') = (to_jsonb(OLD) - 'updated_at' - 'change_seq') THEN
+        NEW.change_seq = OLD.change_seq;
+    ELSE
+        NEW.change_seq = next_change_seq();
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Record deletions for the change feed
+CREATE OR REPLACE FUNCTION record_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'projects' THEN
+        INSERT INTO sync_tombstones (entity_type, project_id, user_id, client_id)
+        VALUES ('project', OLD.id, OLD.user_id, OLD.id);
+    ELSIF TG_TABLE_NAME = 'tasks' THEN
+        INSERT INTO sync_tombstones (entity_type, project_id, client_id, parent_id)
+        VALUES ('task', OLD.project_id, COALESCE(OLD.client_id, OLD.id::text), OLD.parent_task_id);
+    ELSE
+        INSERT INTO sync_tombstones (entity_type, project_id, client_id, parent_id)
+        VALUES ('time_log', OLD.project_id, COALESCE(OLD.client_id, OLD.id::text), OLD.task_id);
+    END IF;
+    RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_projects_change_seq BEFORE INSERT OR UPDATE ON projects
+    FOR EACH ROW EXECUTE FUNCTION set_change_seq();
+
+CREATE TRIGGER set_tasks_change_seq BEFORE INSERT OR UPDATE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION set_change_seq();
+
+CREATE TRIGGER set_time_logs_change_seq BEFORE INSERT OR UPDATE ON time_logs
+    FOR EACH ROW EXECUTE FUNCTION set_change_seq();
+
+CREATE TRIGGER record_projects_tombstone AFTER DELETE ON projects
+    FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+CREATE TRIGGER record_tasks_tombstone AFTER DELETE ON tasks
+    FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
+CREATE TRIGGER record_time_logs_tombstone AFTER DELETE ON time_logs
+    FOR EACH ROW EXECUTE FUNCTION record_tombstone();
+
 -- Encryption/Decryption functions for API keys
 -- Note: In production, use environment variable for encryption key
 
@@ -181,7 +351,7 @@ CREATE TABLE IF NOT EXISTS invitations (
     token VARCHAR(255) UNIQUE NOT NULL,
     inviter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     email VARCHAR(255) NOT NULL,
-    role VARCHAR(50) NOT NULL, -- viewer, editor, owner
+    role VARCHAR(50) NOT NULL, -- viewer, editor, approver, owner
     project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
     message TEXT,
     status VARCHAR(50) DEFAULT 'pending', -- pending, accepted, declined, expired
@@ -237,3 +407,45 @@ CREATE TRIGGER update_feedback_updated_at BEFORE UPDATE ON feedback
 -- Trigger for admin_config updated_at
 CREATE TRIGGER update_admin_config_updated_at BEFORE UPDATE ON admin_config
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- AI usage metering: one row per AI call with tokens and estimated cost
+-- key_source: request (key sent with the call), stored (user's saved key), shared (server key)
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    endpoint VARCHAR(50) NOT NULL, -- analyze, report, iterate, command, breakdown, test
+    model VARCHAR(100) NOT NULL,
+    key_source VARCHAR(20) NOT NULL, -- request, stored, shared, none (local provider)
+    input_tokens INTEGER NOT NULL DEFAULT 0,
+    output_tokens INTEGER NOT NULL DEFAULT 0,
+    estimated_cost DECIMAL(12, 6) NOT NULL DEFAULT 0, -- USD
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON ai_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+
+-- Per-user AI quotas on the shared key (USD of estimated cost, 0 = unlimited)
+INSERT INTO admin_config (key, value, value_type, description) VALUES
+    ('ai_daily_quota_usd', '0', 'number', 'Max estimated AI cost per user per day on the shared key (USD, 0 = unlimited)'),
+    ('ai_monthly_quota_usd', '0', 'number', 'Max estimated AI cost per user per calendar month on the shared key (USD, 0 = unlimited)')
+ON CONFLICT (key) DO NOTHING;
+
+-- AI provider defaults (empty values fall back to AI_PROVIDER / OPENAI_* env vars)
+INSERT INTO admin_config (key, value, value_type, description) VALUES
+    ('ai_provider', '', 'string', 'Default AI provider: anthropic, openai or local (empty = AI_PROVIDER env var, else anthropic)'),
+    ('ai_openai_base_url', '', 'string', 'API root for the OpenAI-compatible provider (empty = OPENAI_BASE_URL env var, else https://api.openai.com/v1)'),
+    ('ai_openai_model', '', 'string', 'Model for the OpenAI-compatible provider (empty = OPENAI_MODEL env var, else gpt-4o)')
+ON CONFLICT (key) DO NOTHING;
+
+-- AI progress reports saved per project, with the metrics they were based on
+CREATE TABLE IF NOT EXISTS ai_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    report JSONB NOT NULL, -- Frontend AIReport
+    raw_metrics JSONB NOT NULL DEFAULT '{}'::jsonb, -- Frontend ReportMetrics
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_reports_project_created ON ai_reports(project_id, created_at);
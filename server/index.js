@@ -4,7 +4,6 @@
 
 const express = require('express');
 const cors = require('cors');
-const Anthropic = require('@anthropic-ai/sdk');
 const dotenv = require('dotenv');
 const session = require('express-session');
 const pgSession = require('connect-pg-simple')(session);
@@ -81,7 +80,12 @@ const apiKeyRoutes = require('./routes/apiKeys');
 const projectRoutes = require('./routes/projects');
 const invitationRoutes = require('./routes/invitations');
 const adminRoutes = require('./routes/admin');
-const apiKeyService = require('./services/apiKeyService');
+const timeLogRoutes = require('./routes/timeLogs');
+const timesheetRoutes = require('./routes/timesheets');
+const aiProviders = require('./services/aiProviders');
+const { parseIterationContent } = require('./services/iterationService');
+const { streamMessage } = require('./services/aiStreamService');
+const aiUsageService = require('./services/aiUsageService');
 
 // Mount routes
 app.use('/api/auth', authRoutes);
@@ -89,23 +93,12 @@ app.use('/api/keys', apiKeyRoutes);
 app.use('/api/projects', projectRoutes);
 app.use('/api/invitations', invitationRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/time-logs', timeLogRoutes);
+app.use('/api/timesheets', timesheetRoutes);
 
-// Get Anthropic client with API key (from env, database, or request)
-async function getAnthropicClient(customApiKey, userId) {
-  let apiKey = customApiKey || process.env.VITE_ANTHROPIC_API_KEY;
-
-  // If user is authenticated and no custom key provided, try to get from database
-  if (!apiKey && userId) {
-    try {
-      apiKey = await apiKeyService.getApiKey(userId, 'anthropic');
-    } catch (error) {
-      console.warn('Could not retrieve API key from database:', error.message);
-    }
-  }
-
-  return new Anthropic({
-    apiKey: apiKey,
-  });
+// Response for a caller who has used up their AI quota
+function sendQuotaExceeded(res, error) {
+  return res.status(429).json({ error: error.message, code: error.code });
 }
 
 // Health check endpoint
@@ -114,16 +107,50 @@ app.get('/api/health', (req, res) => {
 });
 
 // Check if API is configured
-app.get('/api/ai/available', (req, res) => {
-  const isAvailable = !!process.env.VITE_ANTHROPIC_API_KEY &&
-                      process.env.VITE_USE_MOCK_AI !== 'true';
+app.get('/api/ai/available', async (req, res) => {
+  const isAvailable = process.env.VITE_USE_MOCK_AI !== 'true' &&
+                      await aiProviders.isDefaultProviderAvailable();
   res.json({ available: isAvailable });
 });
 
+// List AI providers with the caller's choice and the server default
+app.get('/api/ai/providers', async (req, res) => {
+  try {
+    const userId = req.session?.userId;
+    res.json({
+      providers: aiProviders.listProviders(),
+      selected: await aiProviders.getUserProviderName(userId),
+      default: await aiProviders.getDefaultProviderName()
+    });
+  } catch (error) {
+    console.error('❌ Error listing AI providers:', error);
+    res.status(500).json({ error: error.message || 'Failed to list AI providers' });
+  }
+});
+
+// Pick the AI provider for the signed-in user (null follows the server default)
+app.put('/api/ai/provider', async (req, res) => {
+  try {
+    const userId = req.session?.userId;
+    const { provider } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Sign in to choose an AI provider' });
+    }
+
+    await aiProviders.setUserProviderName(userId, provider || null);
+    res.json({ selected: provider || null });
+  } catch (error) {
+    console.error('❌ Error setting AI provider:', error);
+    res.status(error.status || 500).json({ error: error.message || 'Failed to set AI provider' });
+  }
+});
+
 // Analyze project endpoint
+// Pass stream: true to receive the reply as Server-Sent Events (delta/done/error)
 app.post('/api/ai/analyze', async (req, res) => {
   try {
-    const { prompt, model, maxTokens, timeout, apiKey } = req.body;
+    const { prompt, model, maxTokens, timeout, apiKey, stream } = req.body;
     const userId = req.session?.userId;
 
     if (!prompt) {
@@ -136,28 +163,39 @@ app.post('/api/ai/analyze', async (req, res) => {
     console.log('  Max tokens:', maxTokens);
     console.log('  Authenticated user:', userId ? 'Yes' : 'No');
     console.log('  Using custom API key:', apiKey ? 'Yes' : 'No');
-
-    const anthropic = await getAnthropicClient(apiKey, userId);
-
-    const response = await anthropic.messages.create({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: maxTokens || 8000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
+    console.log('  Streaming:', stream ? 'Yes' : 'No');
+
+    const { provider, keySource } = await aiProviders.resolveProvider({ userId, apiKey });
+    await aiUsageService.assertWithinQuota(userId, keySource);
+    console.log('  Provider:', provider.name);
+
+    const request = {
+      prompt,
+      model: provider.resolveModel(model),
+      maxTokens: maxTokens || 8000,
+    };
+    const recordUsage = (usage) => aiUsageService.recordUsage({
+      userId, endpoint: 'analyze', model: request.model, keySource, usage
     });
 
-    console.log('✅ Analysis complete');
+    if (stream) {
+      const content = await streamMessage(res, (options) => provider.analyze(request, options), recordUsage);
+      if (content !== null) console.log('✅ Analysis stream complete');
+      return;
+    }
 
-    const content = response.content[0].type === 'text' ? response.content[0].text : '';
+    const { content, usage } = await provider.analyze(request);
+    recordUsage(usage);
+
+    console.log('✅ Analysis complete');
 
     res.json({ content });
   } catch (error) {
-    console.error('❌ Error calling Anthropic API:', error);
+    console.error('❌ Error calling AI provider:', error);
 
+    if (error.code === 'QUOTA_EXCEEDED') {
+      return sendQuotaExceeded(res, error);
+    }
     if (error.status === 401) {
       return res.status(401).json({ error: 'Invalid API key' });
     }
@@ -189,27 +227,26 @@ app.post('/api/ai/report', async (req, res) => {
     console.log('  Authenticated user:', userId ? 'Yes' : 'No');
     console.log('  Using custom API key:', apiKey ? 'Yes' : 'No');
 
-    const anthropic = await getAnthropicClient(apiKey, userId);
-
-    const response = await anthropic.messages.create({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: maxTokens || 5000,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
+    const { provider, keySource } = await aiProviders.resolveProvider({ userId, apiKey });
+    await aiUsageService.assertWithinQuota(userId, keySource);
 
-    console.log('✅ Report generated');
+    const request = {
+      prompt,
+      model: provider.resolveModel(model),
+      maxTokens: maxTokens || 5000,
+    };
+    const { content, usage } = await provider.report(request);
+    aiUsageService.recordUsage({ userId, endpoint: 'report', model: request.model, keySource, usage });
 
-    const content = response.content[0].type === 'text' ? response.content[0].text : '';
+    console.log('✅ Report generated');
 
     res.json({ content });
   } catch (error) {
     console.error('❌ Error generating report:', error);
 
+    if (error.code === 'QUOTA_EXCEEDED') {
+      return sendQuotaExceeded(res, error);
+    }
     if (error.status === 401) {
       return res.status(401).json({ error: 'Invalid API key' });
     }
@@ -220,6 +257,149 @@ app.post('/api/ai/report', async (req, res) => {
   }
 });
 
+// Task command bar endpoint
+// Turns a typed command into a task filter or bulk edit; the client validates
+// the reply against the project and falls back to its own grammar.
+app.post('/api/ai/command', async (req, res) => {
+  try {
+    const { prompt, model, maxTokens, apiKey } = req.body;
+    const userId = req.session?.userId;
+
+    if (!prompt) {
+      return res.status(400).json({ error: 'Prompt is required' });
+    }
+
+    const { provider, keySource } = await aiProviders.resolveProvider({ userId, apiKey });
+    await aiUsageService.assertWithinQuota(userId, keySource);
+
+    const request = {
+      prompt,
+      model: provider.resolveModel(model),
+      maxTokens: maxTokens || 1000,
+    };
+    const { content, usage } = await provider.command(request);
+    aiUsageService.recordUsage({ userId, endpoint: 'command', model: request.model, keySource, usage });
+
+    res.json({ content });
+  } catch (error) {
+    console.error('❌ Error parsing task command:', error);
+
+    if (error.code === 'QUOTA_EXCEEDED') {
+      return sendQuotaExceeded(res, error);
+    }
+    if (error.status === 401) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to parse command'
+    });
+  }
+});
+
+// Task breakdown endpoint
+// Proposes subtasks for one task; the client validates them and fits their
+// hours to the task's estimate before the user edits and inserts them.
+app.post('/api/ai/breakdown', async (req, res) => {
+  try {
+    const { prompt, model, maxTokens, apiKey, targetHours } = req.body;
+    const userId = req.session?.userId;
+
+    if (!prompt) {
+      return res.status(400).json({ error: 'Prompt is required' });
+    }
+
+    const { provider, keySource } = await aiProviders.resolveProvider({ userId, apiKey });
+    await aiUsageService.assertWithinQuota(userId, keySource);
+
+    const request = {
+      prompt,
+      model: provider.resolveModel(model),
+      maxTokens: maxTokens || 2000,
+      targetHours: Number(targetHours) || 0,
+    };
+    const { content, usage } = await provider.breakdown(request);
+    aiUsageService.recordUsage({ userId, endpoint: 'breakdown', model: request.model, keySource, usage });
+
+    res.json({ content });
+  } catch (error) {
+    console.error('❌ Error breaking down task:', error);
+
+    if (error.code === 'QUOTA_EXCEEDED') {
+      return sendQuotaExceeded(res, error);
+    }
+    if (error.status === 401) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to break down task'
+    });
+  }
+});
+
+// Iterate project endpoint
+// Returns the model's suggested changes after schema validation; changes that
+// don't validate are dropped and listed in `warnings`.
+app.post('/api/ai/iterate', async (req, res) => {
+  try {
+    const { prompt, model, maxTokens, apiKey, taskIds } = req.body;
+    const userId = req.session?.userId;
+
+    if (!prompt) {
+      return res.status(400).json({ error: 'Prompt is required' });
+    }
+    if (taskIds !== undefined && !Array.isArray(taskIds)) {
+      return res.status(400).json({ error: 'taskIds must be an array' });
+    }
+
+    console.log('🔁 Received iteration request');
+    console.log('  Prompt length:', prompt.length, 'characters');
+    console.log('  Authenticated user:', userId ? 'Yes' : 'No');
+    console.log('  Using custom API key:', apiKey ? 'Yes' : 'No');
+
+    const { provider, keySource } = await aiProviders.resolveProvider({ userId, apiKey });
+    await aiUsageService.assertWithinQuota(userId, keySource);
+
+    const request = {
+      prompt,
+      model: provider.resolveModel(model),
+      maxTokens: maxTokens || 8000,
+      taskIds: taskIds || [],
+    };
+    const { content, usage } = await provider.iterate(request);
+    aiUsageService.recordUsage({ userId, endpoint: 'iterate', model: request.model, keySource, usage });
+
+    const iteration = parseIterationContent(content, { taskIds: taskIds || [] });
+
+    console.log(`✅ Iteration complete: ${iteration.changes.length} changes, ${iteration.warnings.length} skipped`);
+
+    res.json({ iteration });
+  } catch (error) {
+    console.error('❌ Error generating iteration:', error);
+
+    if (error.code === 'QUOTA_EXCEEDED') {
+      return sendQuotaExceeded(res, error);
+    }
+    if (error.status === 401) {
+      return res.status(401).json({ error: 'Invalid API key' });
+    }
+    if (error.status === 429) {
+      return res.status(429).json({ error: 'Rate limit exceeded' });
+    }
+    if (error.status === 502) {
+      return res.status(502).json({ error: error.message });
+    }
+    if (error.status === 529) {
+      return res.status(503).json({ error: 'API temporarily overloaded' });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to generate iteration'
+    });
+  }
+});
+
 // Test API key endpoint
 app.post('/api/ai/test', async (req, res) => {
   try {
@@ -232,19 +412,13 @@ app.post('/api/ai/test', async (req, res) => {
 
     console.log('🧪 Testing API key...');
 
-    const anthropic = await getAnthropicClient(apiKey, userId);
+    // Keys sent with requests are Anthropic keys
+    const { provider, keySource } = await aiProviders.resolveProvider({ userId, apiKey, providerName: 'anthropic' });
 
     // Make a minimal API call to test the key
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 50,
-      messages: [
-        {
-          role: 'user',
-          content: 'Hello, respond with "OK" if you can hear me.',
-        },
-      ],
-    });
+    const model = provider.resolveModel();
+    const { usage } = await provider.test(model);
+    aiUsageService.recordUsage({ userId, endpoint: 'test', model, keySource, usage });
 
     console.log('✅ API key is valid');
     res.json({ success: true, message: 'API key is valid' });
@@ -284,6 +458,7 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🗄️  Database: ${process.env.DATABASE_URL ? 'Cloud PostgreSQL (SSL)' : 'Local PostgreSQL'}`);
   console.log(`🤖 Anthropic API: ${process.env.VITE_ANTHROPIC_API_KEY ? 'Configured ✓' : 'Not configured ✗'}`);
+  console.log(`🧩 AI provider (env default): ${process.env.AI_PROVIDER || 'anthropic'}`);
   console.log(`🔧 Mock mode: ${process.env.VITE_USE_MOCK_AI === 'true' ? 'Enabled' : 'Disabled'}`);
   console.log(`🌐 CORS allowed origins: ${allowedOrigins.length > 0 ? allowedOrigins.join(', ') : 'All origins (development only)'}`);
   if (process.env.NODE_ENV === 'production') {
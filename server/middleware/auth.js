@@ -3,6 +3,8 @@
  * Protects routes and ensures users are authenticated
  */
 
+const { getProjectRole, hasRole } = require('../services/projectAccessService');
+
 /**
  * Middleware to check if user is authenticated
  * Protects routes that require authentication
@@ -58,8 +60,56 @@ const requireOwnership = (resourceUserIdGetter) => {
   };
 };
 
+/**
+ * Middleware to check the user's role on a project
+ * Viewers can read, editors can also change tasks and log time, approvers can
+ * also review timesheets, owners can also delete, archive and invite. Sets req.projectRole for the route.
+ * Used in combination with requireAuth.
+ * @param {string} minimumRole - 'viewer', 'editor', 'approver' or 'owner'
+ * @param {Function} [projectIdGetter] - Reads the project ID from the request
+ *   (defaults to the :projectId or :id route parameter). Requests without a
+ *   project ID are passed through.
+ */
+const requireProjectRole = (minimumRole, projectIdGetter = (req) => req.params.projectId || req.params.id) => {
+  return async (req, res, next) => {
+    const projectId = projectIdGetter(req);
+    if (!projectId) {
+      return next();
+    }
+
+    try {
+      const role = await getProjectRole(projectId, req.session.userId);
+
+      // Don't reveal projects the user has no access to
+      if (!role) {
+        return res.status(404).json({
+          success: false,
+          error: 'Project not found'
+        });
+      }
+
+      if (!hasRole(role, minimumRole)) {
+        return res.status(403).json({
+          success: false,
+          error: `This action requires the ${minimumRole} role on the project`
+        });
+      }
+
+      req.projectRole = role;
+      next();
+    } catch (error) {
+      console.error('Project role check error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check project permissions'
+      });
+    }
+  };
+};
+
 module.exports = {
   requireAuth,
   attachUser,
-  requireOwnership
+  requireOwnership,
+  requireProjectRole
 };
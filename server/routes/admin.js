@@ -7,6 +7,7 @@ const express = require('express');
 const router = express.Router();
 const { query } = require('../database/db');
 const { requireAuth } = require('../middleware/auth');
+const aiUsageService = require('../services/aiUsageService');
 
 // Middleware to check if user is admin
 const requireAdmin = async (req, res, next) => {
@@ -67,6 +68,9 @@ router.get('/stats', async (req, res) => {
     );
     const pendingFeedback = parseInt(feedbackResult.rows[0].count);
 
+    // AI calls in the last 24 hours
+    const apiCalls24h = await aiUsageService.countRecentCalls();
+
     res.json({
       success: true,
       stats: {
@@ -75,7 +79,7 @@ router.get('/stats', async (req, res) => {
         totalTasks,
         activeToday,
         pendingFeedback,
-        apiCalls24h: 0, // Placeholder - implement API call tracking if needed
+        apiCalls24h,
       },
     });
   } catch (error) {
@@ -280,6 +284,76 @@ router.put('/ai-config', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/admin/ai-usage
+ * Get AI usage and estimated cost for the last `days` days (default 30)
+ */
+router.get('/ai-usage', async (req, res) => {
+  try {
+    const days = Math.min(365, Math.max(1, parseInt(req.query.days) || 30));
+    const usage = await aiUsageService.getUsageReport(days);
+
+    res.json({
+      success: true,
+      usage,
+    });
+  } catch (error) {
+    console.error('Get AI usage error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve AI usage',
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/ai-usage/quotas
+ * Set the per-user daily and monthly AI quotas (USD, 0 = unlimited)
+ */
+router.put('/ai-usage/quotas', async (req, res) => {
+  try {
+    const { daily, monthly } = req.body;
+    const entries = [
+      ['ai_daily_quota_usd', daily, 'Max estimated AI cost per user per day on the shared key (USD, 0 = unlimited)'],
+      ['ai_monthly_quota_usd', monthly, 'Max estimated AI cost per user per calendar month on the shared key (USD, 0 = unlimited)'],
+    ].filter(([, value]) => value !== undefined);
+
+    if (entries.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No quotas to update',
+      });
+    }
+    if (entries.some(([, value]) => typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Quotas must be non-negative numbers',
+      });
+    }
+
+    for (const [key, value, description] of entries) {
+      await query(
+        `INSERT INTO admin_config (key, value, value_type, description)
+         VALUES ($1, $2, 'number', $3)
+         ON CONFLICT (key)
+         DO UPDATE SET value = $2, value_type = 'number', updated_at = CURRENT_TIMESTAMP`,
+        [key, value.toString(), description]
+      );
+    }
+
+    res.json({
+      success: true,
+      quotas: await aiUsageService.getQuotas(),
+    });
+  } catch (error) {
+    console.error('Update AI quotas error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update AI quotas',
+    });
+  }
+});
+
 /**
  * GET /api/admin/feedback
  * Get all user feedback
@@ -6,7 +6,7 @@
 const express = require('express');
 const router = express.Router();
 const { query } = require('../database/db');
-const { requireAuth } = require('../middleware/auth');
+const { requireAuth, requireProjectRole } = require('../middleware/auth');
 const { sendInvitationEmail } = require('../services/emailService');
 const crypto = require('crypto');
 
@@ -16,8 +16,9 @@ router.use(requireAuth);
 /**
  * POST /api/invitations/send
  * Send a team invitation email
+ * Only the project owner can invite people to a project.
  */
-router.post('/send', async (req, res) => {
+router.post('/send', requireProjectRole('owner', (req) => req.body.projectId), async (req, res) => {
   try {
     const { email, role, projectId, message } = req.body;
     const inviterId = req.session.userId;
@@ -31,7 +32,7 @@ router.post('/send', async (req, res) => {
     }
 
     // Validate role
-    if (!['viewer', 'editor', 'owner'].includes(role)) {
+    if (!['viewer', 'editor', 'approver', 'owner'].includes(role)) {
       return res.status(400).json({
         success: false,
         error: 'Invalid role specified',
@@ -54,20 +55,13 @@ router.post('/send', async (req, res) => {
     const inviter = inviterResult.rows[0];
     let projectName = null;
 
-    // If inviting to a specific project, verify ownership
+    // Ownership of the project was checked by requireProjectRole
     if (projectId) {
       const projectResult = await query(
-        'SELECT name FROM projects WHERE id = $1 AND user_id = $2',
-        [projectId, inviterId]
+        'SELECT name FROM projects WHERE id = $1',
+        [projectId]
       );
 
-      if (projectResult.rows.length === 0) {
-        return res.status(404).json({
-          success: false,
-          error: 'Project not found or you do not have permission',
-        });
-      }
-
       projectName = projectResult.rows[0].name;
     }
 
@@ -6,39 +6,172 @@
 const express = require('express');
 const router = express.Router();
 const { query, transaction } = require('../database/db');
-const { requireAuth } = require('../middleware/auth');
+const { requireAuth, requireProjectRole } = require('../middleware/auth');
+const {
+  syncProjectTasks,
+  applyProjectPatch,
+  loadProjectTasks,
+  getChangeCursor,
+  loadProjectChanges
+} = require('../services/projectSyncService');
+const { subscribe, publishProjectChange } = require('../services/realtimeService');
+const {
+  getProjectRole,
+  hasRole,
+  accessibleProjectsCondition,
+  accessColumns,
+  loadProjectForUser
+} = require('../services/projectAccessService');
 
 // All routes require authentication
 router.use(requireAuth);
 
+/**
+ * Load a project with all its tasks and time logs, as seen by a user
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User ID
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<Object>} Project row with tasks and timeLogs
+ */
+async function loadFullProject(projectId, userId, client) {
+  const project = await loadProjectForUser(projectId, userId, client);
+  const taskData = await loadProjectTasks([projectId], client);
+
+  return {
+    ...project,
+    ...taskData[projectId]
+  };
+}
+
+/**
+ * Respond with 409 Conflict and the current server copy of the project
+ * so the client can merge its changes against it
+ */
+async function sendConflict(res, projectId, userId) {
+  res.status(409).json({
+    success: false,
+    error: 'Project was modified by someone else',
+    conflict: true,
+    project: await loadFullProject(projectId, userId)
+  });
+}
+
+/**
+ * Error for a project the user can't see (404) or can't change (403)
+ * @param {string|null} role - User's role on the project
+ * @returns {Error}
+ */
+function accessError(role) {
+  const error = new Error(role ? 'You do not have permission to change this project' : 'Project not found');
+  error.status = role ? 403 : 404;
+  return error;
+}
+
+/**
+ * Reject metadata that archives or unarchives a project unless the user owns it
+ * @param {string} role - User's role on the project
+ * @param {Object} project - Current project row (needs archived)
+ * @param {Object} [meta] - Incoming frontend ProjectMeta
+ */
+function assertCanArchive(role, project, meta) {
+  if (!meta || meta.archived === undefined || hasRole(role, 'owner')) return;
+
+  if (!!meta.archived !== !!project.archived) {
+    const error = new Error('Only the project owner can archive it');
+    error.status = 403;
+    throw error;
+  }
+}
+
+/**
+ * Overwrite a project's metadata and phases and bump its revision
+ * @param {Object} client - Database client (inside a transaction)
+ * @param {string} projectId - Project ID
+ * @param {Object} meta - Frontend ProjectMeta (calendar and baseline are left as is when
+ *   omitted and cleared when null)
+ * @param {Array} phases - Frontend Phase[]
+ * @param {Array} [risks] - Frontend Risk[] (left as is when omitted)
+ * @returns {Promise<Object>} Updated project row
+ */
+async function writeProjectMeta(client, projectId, meta, phases, risks) {
+  const result = await client.query(
+    `UPDATE projects
+     SET name = $1, description = $2, project_type = $3, experience_level = $4,
+         status = $5, icon = $6, budget = $7, timeline = $8, lead = $9,
+         start_date = $10, target_end_date = $11, phases = $12, archived = $13,
+         initial_prompt = $14, collaborators = $15,
+         calendar = NULLIF(COALESCE($16::jsonb, calendar), 'null'::jsonb),
+         baseline = NULLIF(COALESCE($17::jsonb, baseline), 'null'::jsonb),
+         risks = COALESCE($18, risks),
+         revision = revision + 1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $19
+     RETURNING *`,
+    [
+      meta.name || 'Untitled Project',
+      meta.description || '',
+      meta.projectType || 'other',
+      meta.experienceLevel || 'intermediate',
+      meta.status || 'planning',
+      meta.icon || '📁',
+      meta.budget || null,
+      meta.timeline || '',
+      meta.lead || '',
+      meta.startDate || null,
+      meta.targetEndDate || null,
+      JSON.stringify(phases || []),
+      meta.archived || false,
+      meta.initialPrompt || null,
+      JSON.stringify(meta.collaborators || []),
+      meta.calendar !== undefined ? JSON.stringify(meta.calendar) : null,
+      meta.baseline !== undefined ? JSON.stringify(meta.baseline) : null,
+      risks ? JSON.stringify(risks) : null,
+      projectId
+    ]
+  );
+  return result.rows[0];
+}
+
 /**
  * GET /api/projects
- * Get all projects for current user
+ * Get all projects the current user owns or collaborates on
+ * Each project carries access_role and, for shared projects, shared_by (owner name).
+ * Pass include=tasks to embed each project's tasks and time logs.
+ * The response carries a sync cursor for GET /api/projects/changes.
  */
 router.get('/', async (req, res) => {
   try {
-    const { archived } = req.query;
+    const { archived, include } = req.query;
 
     let queryText = `
-      SELECT * FROM projects
-      WHERE user_id = $1
+      SELECT p.*, ${accessColumns('$1')}
+      FROM projects p
+      WHERE ${accessibleProjectsCondition('$1')}
     `;
 
     const params = [req.session.userId];
 
     // Filter by archived status if specified
     if (archived !== undefined) {
-      queryText += ' AND archived = $2';
+      queryText += ' AND p.archived = $2';
       params.push(archived === 'true');
     }
 
-    queryText += ' ORDER BY updated_at DESC';
+    queryText += ' ORDER BY p.updated_at DESC';
 
+    const cursor = await getChangeCursor();
     const result = await query(queryText, params);
 
+    let projects = result.rows;
+
+    if (include === 'tasks') {
+      const taskData = await loadProjectTasks(projects.map(p => p.id));
+      projects = projects.map(p => ({ ...p, ...taskData[p.id] }));
+    }
+
     res.json({
       success: true,
-      projects: result.rows
+      projects,
+      cursor
     });
   } catch (error) {
     console.error('Get projects error:', error);
@@ -49,51 +182,188 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/projects/changes?since=<cursor>
+ * Get everything that changed in the user's projects since a sync cursor
+ * Each changed project carries only its changed tasks (with subtasks and time logs),
+ * the IDs of deleted tasks and the current task order.
+ */
+router.get('/changes', async (req, res) => {
+  try {
+    const since = req.query.since || '0';
+
+    if (!/^\d+$/.test(since)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid sync cursor'
+      });
+    }
+
+    const feed = await loadProjectChanges(req.session.userId, since);
+
+    res.json({
+      success: true,
+      ...feed
+    });
+  } catch (error) {
+    console.error('Get project changes error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve project changes'
+    });
+  }
+});
+
+/**
+ * POST /api/projects/changes
+ * Apply a batch of incremental project patches
+ * Each patch is applied in its own transaction and reported separately:
+ * { projectId, success, revision } or { projectId, success: false, conflict, project }
+ * (conflict: the project changed since baseRevision), { projectId, success: false, notFound }
+ * or { projectId, success: false, forbidden } (the user can only view the project).
+ */
+router.post('/changes', async (req, res) => {
+  try {
+    const { patches } = req.body;
+
+    if (!Array.isArray(patches)) {
+      return res.status(400).json({
+        success: false,
+        error: 'patches must be an array'
+      });
+    }
+
+    const userId = req.session.userId;
+    const results = [];
+
+    for (const patch of patches) {
+      const projectId = patch.projectId;
+
+      try {
+        const revision = await transaction(async (client) => {
+          const existingProject = await client.query(
+            'SELECT id, revision, archived FROM projects WHERE id = $1 FOR UPDATE',
+            [projectId]
+          );
+
+          const role = await getProjectRole(projectId, userId, client);
+          if (!hasRole(role, 'editor')) {
+            throw accessError(role);
+          }
+          assertCanArchive(role, existingProject.rows[0], patch.meta);
+
+          if (patch.baseRevision !== undefined && patch.baseRevision !== null &&
+              existingProject.rows[0].revision !== patch.baseRevision) {
+            const conflictError = new Error('Project was modified by someone else');
+            conflictError.status = 409;
+            throw conflictError;
+          }
+
+          let updated;
+          if (patch.meta) {
+            updated = await writeProjectMeta(client, projectId, patch.meta, patch.phases, patch.risks);
+          } else {
+            const result = await client.query(
+              `UPDATE projects SET revision = revision + 1, updated_at = CURRENT_TIMESTAMP
+               WHERE id = $1 RETURNING *`,
+              [projectId]
+            );
+            updated = result.rows[0];
+          }
+
+          await applyProjectPatch(client, projectId, userId, patch);
+
+          return updated.revision;
+        });
+
+        results.push({ projectId, success: true, revision });
+        publishProjectChange(projectId, { revision, userId });
+      } catch (error) {
+        if (error.status === 404) {
+          results.push({ projectId, success: false, notFound: true, error: error.message });
+        } else if (error.status === 403) {
+          results.push({ projectId, success: false, forbidden: true, error: error.message });
+        } else if (error.status === 409) {
+          results.push({
+            projectId,
+            success: false,
+            conflict: true,
+            error: error.message,
+            project: await loadFullProject(projectId, userId)
+          });
+        } else {
+          console.error(`Patch project ${projectId} error:`, error);
+          results.push({ projectId, success: false, error: error.message || 'Failed to patch project' });
+        }
+      }
+    }
+
+    res.json({
+      success: true,
+      results
+    });
+  } catch (error) {
+    console.error('Patch projects error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to apply project changes'
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:id/events
+ * Server-Sent Events stream of changes to a project and of who is viewing it
+ * Events: connected, presence ({ viewers }), change ({ revision, userId, deleted })
+ */
+router.get('/:id/events', requireProjectRole('viewer'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const userResult = await query(
+      'SELECT id, name, initials, color FROM users WHERE id = $1',
+      [req.session.userId]
+    );
+
+    const unsubscribe = subscribe(id, userResult.rows[0], res);
+    req.on('close', unsubscribe);
+  } catch (error) {
+    console.error('Project events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to open project event stream'
+      });
+    }
+  }
+});
+
 /**
  * GET /api/projects/:id
  * Get a specific project with all tasks
  */
-router.get('/:id', async (req, res) => {
+router.get('/:id', requireProjectRole('viewer'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Get project
-    const projectResult = await query(
-      'SELECT * FROM projects WHERE id = $1 AND user_id = $2',
-      [id, req.session.userId]
-    );
+    // Get project (owned or shared with the user)
+    const project = await loadProjectForUser(id, req.session.userId);
 
-    if (projectResult.rows.length === 0) {
+    if (!project) {
       return res.status(404).json({
         success: false,
         error: 'Project not found'
       });
     }
 
-    const project = projectResult.rows[0];
-
-    // Get all tasks for this project
-    const tasksResult = await query(
-      `SELECT * FROM tasks
-       WHERE project_id = $1
-       ORDER BY "order", created_at`,
-      [id]
-    );
-
-    // Get time logs for this project
-    const timeLogsResult = await query(
-      `SELECT * FROM time_logs
-       WHERE project_id = $1
-       ORDER BY date DESC`,
-      [id]
-    );
+    // Get all tasks, subtasks and time logs for this project
+    const taskData = await loadProjectTasks([id]);
 
     res.json({
       success: true,
       project: {
         ...project,
-        tasks: tasksResult.rows,
-        timeLogs: timeLogsResult.rows
+        ...taskData[id]
       }
     });
   } catch (error) {
@@ -173,24 +443,12 @@ router.post('/', async (req, res) => {
 /**
  * PUT /api/projects/:id
  * Update a project
+ * Pass baseRevision to reject the update with 409 if the project changed since
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireProjectRole('editor'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Verify ownership
-    const ownerCheck = await query(
-      'SELECT id FROM projects WHERE id = $1 AND user_id = $2',
-      [id, req.session.userId]
-    );
-
-    if (ownerCheck.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        error: 'Project not found'
-      });
-    }
-
     const {
       name,
       description,
@@ -204,7 +462,11 @@ router.put('/:id', async (req, res) => {
       startDate,
       targetEndDate,
       phases,
-      archived
+      calendar,
+      baseline,
+      risks,
+      archived,
+      baseRevision
     } = req.body;
 
     const updates = [];
@@ -259,7 +521,25 @@ router.put('/:id', async (req, res) => {
       updates.push(`phases = $${paramCounter++}`);
       values.push(JSON.stringify(phases));
     }
+    if (calendar !== undefined) {
+      updates.push(`calendar = $${paramCounter++}`);
+      values.push(calendar ? JSON.stringify(calendar) : null);
+    }
+    if (baseline !== undefined) {
+      updates.push(`baseline = $${paramCounter++}`);
+      values.push(baseline ? JSON.stringify(baseline) : null);
+    }
+    if (risks !== undefined) {
+      updates.push(`risks = $${paramCounter++}`);
+      values.push(JSON.stringify(risks || []));
+    }
     if (archived !== undefined) {
+      if (!hasRole(req.projectRole, 'owner')) {
+        return res.status(403).json({
+          success: false,
+          error: 'Only the project owner can archive it'
+        });
+      }
       updates.push(`archived = $${paramCounter++}`);
       values.push(archived);
     }
@@ -271,16 +551,30 @@ router.put('/:id', async (req, res) => {
       });
     }
 
+    updates.push('revision = revision + 1');
     values.push(id);
 
+    // Only apply the update if nobody else saved since the client's base revision
+    let whereClause = `id = $${paramCounter++}`;
+    if (baseRevision !== undefined && baseRevision !== null) {
+      whereClause += ` AND revision = $${paramCounter++}`;
+      values.push(baseRevision);
+    }
+
     const result = await query(
       `UPDATE projects
        SET ${updates.join(', ')}
-       WHERE id = $${paramCounter}
+       WHERE ${whereClause}
        RETURNING *`,
       values
     );
 
+    if (result.rows.length === 0) {
+      return await sendConflict(res, id, req.session.userId);
+    }
+
+    publishProjectChange(id, { revision: result.rows[0].revision, userId: req.session.userId });
+
     res.json({
       success: true,
       message: 'Project updated successfully',
@@ -298,7 +592,9 @@ router.put('/:id', async (req, res) => {
 /**
  * POST /api/projects/sync
  * Sync a complete project (create or update with all tasks)
- * Used for syncing from localStorage to database
+ * Used for syncing from localStorage to database. Tasks, subtasks, task states
+ * and time logs are written in the same transaction as the project itself.
+ * Pass baseRevision to get 409 instead of overwriting someone else's changes.
  */
 router.post('/sync', async (req, res) => {
   try {
@@ -311,82 +607,92 @@ router.post('/sync', async (req, res) => {
       });
     }
 
-    const { meta, tasks = [], taskStates = {}, phases = [] } = projectData;
+    const { meta, tasks = [], taskStates = {}, phases = [], risks, baseRevision } = projectData;
     const projectId = meta.id;
+    const userId = req.session.userId;
 
-    // Check if project already exists
-    const existingProject = await query(
-      'SELECT id FROM projects WHERE id = $1 AND user_id = $2',
-      [projectId, req.session.userId]
-    );
-
-    let result;
-
-    if (existingProject.rows.length > 0) {
-      // Update existing project
-      result = await query(
-        `UPDATE projects
-         SET name = $1, description = $2, project_type = $3, experience_level = $4,
-             status = $5, icon = $6, budget = $7, timeline = $8, lead = $9,
-             start_date = $10, target_end_date = $11, phases = $12, archived = $13,
-             updated_at = CURRENT_TIMESTAMP
-         WHERE id = $14 AND user_id = $15
-         RETURNING *`,
-        [
-          meta.name || 'Untitled Project',
-          meta.description || '',
-          meta.projectType || 'other',
-          meta.experienceLevel || 'intermediate',
-          meta.status || 'planning',
-          meta.icon || '📁',
-          meta.budget || null,
-          meta.timeline || '',
-          meta.lead || '',
-          meta.startDate || null,
-          meta.targetEndDate || null,
-          JSON.stringify(phases),
-          meta.archived || false,
-          projectId,
-          req.session.userId
-        ]
-      );
-    } else {
-      // Create new project with specific ID
-      result = await query(
-        `INSERT INTO projects (
-          id, user_id, name, description, project_type, experience_level,
-          status, icon, budget, timeline, lead, start_date, target_end_date, phases, archived
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-        RETURNING *`,
-        [
-          projectId,
-          req.session.userId,
-          meta.name || 'Untitled Project',
-          meta.description || '',
-          meta.projectType || 'other',
-          meta.experienceLevel || 'intermediate',
-          meta.status || 'planning',
-          meta.icon || '📁',
-          meta.budget || null,
-          meta.timeline || '',
-          meta.lead || '',
-          meta.startDate || null,
-          meta.targetEndDate || null,
-          JSON.stringify(phases),
-          meta.archived || false
-        ]
+    const project = await transaction(async (client) => {
+      // Check if project already exists (and lock it until the sync commits)
+      const existingProject = await client.query(
+        'SELECT id, revision, archived FROM projects WHERE id = $1 FOR UPDATE',
+        [projectId]
       );
-    }
 
-    // TODO: Sync tasks if needed (for now, we're just syncing project metadata)
-    // Tasks are complex with subtasks, states, etc. - can be added later if needed
+      if (existingProject.rows.length > 0) {
+        // Collaborators need the editor role to sync someone else's project
+        const role = await getProjectRole(projectId, userId, client);
+        if (!hasRole(role, 'editor')) {
+          throw accessError(role);
+        }
+        assertCanArchive(role, existingProject.rows[0], meta);
+
+        if (baseRevision !== undefined && baseRevision !== null &&
+            existingProject.rows[0].revision !== baseRevision) {
+          const conflictError = new Error('Project was modified by someone else');
+          conflictError.status = 409;
+          throw conflictError;
+        }
+
+        // Update existing project
+        await writeProjectMeta(client, projectId, meta, phases, risks);
+      } else {
+        // Create new project with specific ID
+        await client.query(
+          `INSERT INTO projects (
+            id, user_id, name, description, project_type, experience_level,
+            status, icon, budget, timeline, lead, start_date, target_end_date, phases, archived,
+            initial_prompt, collaborators, calendar, baseline, risks
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+          RETURNING *`,
+          [
+            projectId,
+            userId,
+            meta.name || 'Untitled Project',
+            meta.description || '',
+            meta.projectType || 'other',
+            meta.experienceLevel || 'intermediate',
+            meta.status || 'planning',
+            meta.icon || '📁',
+            meta.budget || null,
+            meta.timeline || '',
+            meta.lead || '',
+            meta.startDate || null,
+            meta.targetEndDate || null,
+            JSON.stringify(phases),
+            meta.archived || false,
+            meta.initialPrompt || null,
+            JSON.stringify(meta.collaborators || []),
+            meta.calendar ? JSON.stringify(meta.calendar) : null,
+            meta.baseline ? JSON.stringify(meta.baseline) : null,
+            JSON.stringify(risks || [])
+          ]
+        );
+      }
+
+      // Sync tasks, subtasks, task states and time logs
+      await syncProjectTasks(client, projectId, userId, tasks, taskStates);
+
+      return loadFullProject(projectId, userId, client);
+    });
+
+    publishProjectChange(project.id, { revision: project.revision, userId: req.session.userId });
 
     res.json({
       success: true,
       message: 'Project synced successfully',
-      project: result.rows[0]
+      project
     });
   } catch (error) {
+    if (error.status === 409) {
+      return await sendConflict(res, req.body.meta.id, req.session.userId);
+    }
+    if (error.status === 403 || error.status === 404) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
     console.error('Sync project error:', error);
     res.status(500).json({
       success: false,
@@ -399,21 +705,13 @@ router.post('/sync', async (req, res) => {
  * DELETE /api/projects/:id
  * Delete a project (and all associated data)
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireProjectRole('owner'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const result = await query(
-      'DELETE FROM projects WHERE id = $1 AND user_id = $2 RETURNING id',
-      [id, req.session.userId]
-    );
+    await query('DELETE FROM projects WHERE id = $1', [id]);
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        error: 'Project not found'
-      });
-    }
+    publishProjectChange(id, { deleted: true, userId: req.session.userId });
 
     res.json({
       success: true,
@@ -429,26 +727,47 @@ router.delete('/:id', async (req, res) => {
 });
 
 /**
- * POST /api/projects/:id/tasks
- * Add a task to a project
+ * POST /api/projects/:id/leave
+ * Stop collaborating on a project shared with the current user
+ * The project itself is untouched; only the owner can delete it.
  */
-router.post('/:id/tasks', async (req, res) => {
+router.post('/:id/leave', requireProjectRole('viewer'), async (req, res) => {
   try {
-    const { id: projectId } = req.params;
-
-    // Verify project ownership
-    const ownerCheck = await query(
-      'SELECT id FROM projects WHERE id = $1 AND user_id = $2',
-      [projectId, req.session.userId]
-    );
+    const { id } = req.params;
 
-    if (ownerCheck.rows.length === 0) {
-      return res.status(404).json({
+    if (req.projectRole === 'owner') {
+      return res.status(400).json({
         success: false,
-        error: 'Project not found'
+        error: 'The owner can\'t leave their own project'
       });
     }
 
+    await query(
+      'DELETE FROM project_collaborators WHERE project_id = $1 AND user_id = $2',
+      [id, req.session.userId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Left the project'
+    });
+  } catch (error) {
+    console.error('Leave project error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to leave project'
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:id/tasks
+ * Add a task to a project
+ */
+router.post('/:id/tasks', requireProjectRole('editor'), async (req, res) => {
+  try {
+    const { id: projectId } = req.params;
+
     const {
       name,
       description,
@@ -490,6 +809,8 @@ router.post('/:id/tasks', async (req, res) => {
       ]
     );
 
+    publishProjectChange(projectId, { userId: req.session.userId });
+
     res.status(201).json({
       success: true,
       message: 'Task created successfully',
@@ -508,23 +829,10 @@ router.post('/:id/tasks', async (req, res) => {
  * PUT /api/projects/:projectId/tasks/:taskId
  * Update a task
  */
-router.put('/:projectId/tasks/:taskId', async (req, res) => {
+router.put('/:projectId/tasks/:taskId', requireProjectRole('editor'), async (req, res) => {
   try {
     const { projectId, taskId } = req.params;
 
-    // Verify project ownership
-    const ownerCheck = await query(
-      'SELECT id FROM projects WHERE id = $1 AND user_id = $2',
-      [projectId, req.session.userId]
-    );
-
-    if (ownerCheck.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        error: 'Project not found'
-      });
-    }
-
     const updates = [];
     const values = [];
     let paramCounter = 1;
@@ -569,6 +877,8 @@ router.put('/:projectId/tasks/:taskId', async (req, res) => {
       });
     }
 
+    publishProjectChange(projectId, { userId: req.session.userId });
+
     res.json({
       success: true,
       message: 'Task updated successfully',
@@ -587,44 +897,131 @@ router.put('/:projectId/tasks/:taskId', async (req, res) => {
  * DELETE /api/projects/:projectId/tasks/:taskId
  * Delete a task
  */
-router.delete('/:projectId/tasks/:taskId', async (req, res) => {
+router.delete('/:projectId/tasks/:taskId', requireProjectRole('editor'), async (req, res) => {
   try {
     const { projectId, taskId } = req.params;
 
-    // Verify project ownership
-    const ownerCheck = await query(
-      'SELECT id FROM projects WHERE id = $1 AND user_id = $2',
-      [projectId, req.session.userId]
+    const result = await query(
+      'DELETE FROM tasks WHERE id = $1 AND project_id = $2 RETURNING id',
+      [taskId, projectId]
     );
 
-    if (ownerCheck.rows.length === 0) {
+    if (result.rows.length === 0) {
       return res.status(404).json({
         success: false,
-        error: 'Project not found'
+        error: 'Task not found'
+      });
+    }
+
+    publishProjectChange(projectId, { userId: req.session.userId });
+
+    res.json({
+      success: true,
+      message: 'Task deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete task error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete task'
+    });
+  }
+});
+
+/**
+ * GET /api/projects/:id/reports
+ * Saved AI progress reports for a project, newest first
+ */
+router.get('/:id/reports', requireProjectRole('viewer'), async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT r.id, r.project_id, r.report, r.raw_metrics, r.created_at, u.name AS created_by_name
+       FROM ai_reports r
+       LEFT JOIN users u ON r.user_id = u.id
+       WHERE r.project_id = $1
+       ORDER BY r.created_at DESC`,
+      [req.params.id]
+    );
+
+    res.json({
+      success: true,
+      reports: result.rows
+    });
+  } catch (error) {
+    console.error('Get reports error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve reports'
+    });
+  }
+});
+
+/**
+ * POST /api/projects/:id/reports
+ * Save an AI progress report with the metrics it was generated from
+ */
+router.post('/:id/reports', requireProjectRole('editor'), async (req, res) => {
+  try {
+    const { report, rawMetrics } = req.body;
+
+    if (!report || typeof report !== 'object' || Array.isArray(report)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Report is required'
       });
     }
 
     const result = await query(
-      'DELETE FROM tasks WHERE id = $1 AND project_id = $2 RETURNING id',
-      [taskId, projectId]
+      `INSERT INTO ai_reports (project_id, user_id, report, raw_metrics)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, project_id, report, raw_metrics, created_at,
+         (SELECT name FROM users WHERE id = $2) AS created_by_name`,
+      [req.params.id, req.session.userId, JSON.stringify(report), JSON.stringify(rawMetrics || {})]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Report saved successfully',
+      report: result.rows[0]
+    });
+  } catch (error) {
+    console.error('Save report error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to save report'
+    });
+  }
+});
+
+/**
+ * DELETE /api/projects/:projectId/reports/:reportId
+ * Remove a report from a project's history
+ */
+router.delete('/:projectId/reports/:reportId', requireProjectRole('editor'), async (req, res) => {
+  try {
+    const { projectId, reportId } = req.params;
+
+    const result = await query(
+      'DELETE FROM ai_reports WHERE id = $1 AND project_id = $2 RETURNING id',
+      [reportId, projectId]
     );
 
     if (result.rows.length === 0) {
       return res.status(404).json({
         success: false,
-        error: 'Task not found'
+        error: 'Report not found'
       });
     }
 
     res.json({
       success: true,
-      message: 'Task deleted successfully'
+      message: 'Report deleted successfully'
     });
   } catch (error) {
-    console.error('Delete task error:', error);
+    console.error('Delete report error:', error);
     res.status(500).json({
       success: false,
-      error: error.message || 'Failed to delete task'
+      error: error.message || 'Failed to delete report'
     });
   }
 });
@@ -0,0 +1,615 @@
+/**
+ * Time Log Routes
+ * Time log entries (frontend TimeLogEntry) across the projects a user can see.
+ * They're stored in time_logs with source 'entry'. Rows with source
+ * 'task_state' are task time logs from before entries existed, which project
+ * sync keeps in step with TaskState.timeLogs; the app only reads those now.
+ * Each user can also run one timer (/timer), which becomes an entry when stopped.
+ * Entries in a submitted or approved timesheet week can't be added, changed or removed.
+ */
+
+const express = require('express');
+const router = express.Router();
+const db = require('../database/db');
+const { query, transaction } = db;
+const { requireAuth, requireProjectRole } = require('../middleware/auth');
+const { getProjectRole, hasRole, accessibleProjectsCondition } = require('../services/projectAccessService');
+const { weekStartSql, assertWeekOpen } = require('../services/timesheetService');
+
+// All routes require authentication
+router.use(requireAuth);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Most hours one entry can hold (a single day)
+const MAX_ENTRY_HOURS = 24;
+
+// Columns returned for an entry (needs time_logs as l and projects as p)
+const ENTRY_COLUMNS = `l.id, l.project_id, p.name AS project_name, l.client_id,
+  l.task_client_id, l.task_name, l.subtask_client_id, l.subtask_name,
+  l.logged_by, l.logged_by_name, to_char(l.date, 'YYYY-MM-DD') AS date,
+  l.hours, l.notes, l.billable, l.created_at, l.updated_at,
+  (SELECT s.status FROM timesheets s
+   WHERE s.project_id = l.project_id AND s.logged_by = l.logged_by
+     AND s.week_start = ${weekStartSql('l.date')}) AS timesheet_status`;
+
+/**
+ * Error answered with a 4xx status
+ * @param {number} status - HTTP status
+ * @param {string} message
+ * @returns {Error}
+ */
+function requestError(status, message) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+/**
+ * Split a comma-separated query parameter into values
+ * @param {string} [value]
+ * @returns {Array<string>}
+ */
+function listParam(value) {
+  if (!value) return [];
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Check and normalize the fields of an entry
+ * @param {Object} body - Frontend TimeLogEntry fields
+ * @param {boolean} [partial] - Only check the fields present (for updates)
+ * @returns {Object} Column values
+ */
+function parseEntry(body, partial = false) {
+  const fields = {};
+
+  if (!partial || body.date !== undefined) {
+    if (!DATE_PATTERN.test(body.date || '')) throw requestError(400, 'Date must be YYYY-MM-DD');
+    fields.date = body.date;
+  }
+  if (!partial || body.hours !== undefined) {
+    const hours = Number(body.hours);
+    if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_ENTRY_HOURS) {
+      throw requestError(400, `Hours must be more than 0 and at most ${MAX_ENTRY_HOURS}`);
+    }
+    fields.hours = hours;
+  }
+  if (!partial) {
+    if (!body.taskId || !body.taskName) throw requestError(400, 'Task is required');
+    if (!body.userId) throw requestError(400, 'User is required');
+    fields.task_client_id = String(body.taskId);
+    fields.task_name = String(body.taskName);
+    fields.subtask_client_id = body.subtaskId ? String(body.subtaskId) : null;
+    fields.subtask_name = body.subtaskName ? String(body.subtaskName) : null;
+  }
+  if (body.userId !== undefined) {
+    if (!body.userId) throw requestError(400, 'User is required');
+    fields.logged_by = String(body.userId);
+  }
+  if (body.userName !== undefined) fields.logged_by_name = body.userName ? String(body.userName) : null;
+  if (body.notes !== undefined) fields.notes = body.notes ? String(body.notes) : null;
+  if (!partial || body.billable !== undefined) fields.billable = body.billable !== false;
+
+  return fields;
+}
+
+/**
+ * Insert an entry, or leave an existing one with the same frontend ID as it is
+ * Entries only point at their task through task_client_id (task_id stays NULL),
+ * so deleting or re-syncing the task never takes logged time with it.
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User logging the time
+ * @param {string|null} clientId - Frontend entry ID
+ * @param {Object} fields - Result of parseEntry
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<string|null>} Row ID, or null if the entry was already stored
+ */
+async function insertEntry(projectId, userId, clientId, fields, client = db) {
+  const result = await client.query(
+    `INSERT INTO time_logs (
+       project_id, user_id, client_id, source, task_client_id, task_name,
+       subtask_client_id, subtask_name, logged_by, logged_by_name, date, hours, notes, billable
+     )
+     VALUES ($1, $2, $3, 'entry', $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+     ON CONFLICT (project_id, client_id) WHERE source = 'entry' DO NOTHING
+     RETURNING id`,
+    [
+      projectId,
+      userId,
+      clientId,
+      fields.task_client_id,
+      fields.task_name,
+      fields.subtask_client_id,
+      fields.subtask_name,
+      fields.logged_by,
+      fields.logged_by_name || null,
+      fields.date,
+      fields.hours,
+      fields.notes || null,
+      fields.billable,
+    ]
+  );
+
+  return result.rows[0]?.id || null;
+}
+
+/**
+ * Load one entry the user can see
+ * @param {string} id - Row ID
+ * @param {string} userId - User ID
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<Object|null>}
+ */
+async function loadEntry(id, userId, client = db) {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const result = await client.query(
+    `SELECT ${ENTRY_COLUMNS}
+     FROM time_logs l
+     JOIN projects p ON p.id = l.project_id
+     WHERE l.id = $1 AND l.source = 'entry' AND ${accessibleProjectsCondition('$2')}`,
+    [id, userId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Load an entry the user may change
+ * Call it in the transaction that changes the entry, so its week stays open
+ * until the change commits (see assertWeekOpen).
+ * @param {string} id - Row ID
+ * @param {string} userId - User ID
+ * @param {Object} client - Database client in a transaction
+ * @returns {Promise<Object>} Entry row (rejects with a 404, 403 or, when its
+ *   timesheet week is locked, 409 error)
+ */
+async function loadEditableEntry(id, userId, client) {
+  const entry = await loadEntry(id, userId, client);
+  if (!entry) throw requestError(404, 'Time log not found');
+
+  const role = await getProjectRole(entry.project_id, userId, client);
+  if (!hasRole(role, 'editor')) {
+    throw requestError(403, 'This action requires the editor role on the project');
+  }
+  await assertWeekOpen(entry.project_id, entry.logged_by, entry.date, client);
+  return entry;
+}
+
+/**
+ * GET /api/time-logs
+ * Entries in the user's projects, newest first
+ * Query: projectIds, taskIds, subtaskIds, userIds (comma-separated),
+ * startDate, endDate (YYYY-MM-DD, inclusive) and search (task, subtask or notes)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const params = [req.session.userId];
+    const conditions = ["l.source = 'entry'", accessibleProjectsCondition('$1')];
+    const addCondition = (sql, value) => {
+      params.push(value);
+      conditions.push(sql.replace(/\?/g, `$${params.length}`));
+    };
+
+    const { projectIds, taskIds, subtaskIds, userIds, startDate, endDate, search } = req.query;
+    if (listParam(projectIds).length > 0) addCondition('l.project_id = ANY(?)', listParam(projectIds));
+    if (listParam(taskIds).length > 0) addCondition('l.task_client_id = ANY(?)', listParam(taskIds));
+    if (listParam(subtaskIds).length > 0) addCondition('l.subtask_client_id = ANY(?)', listParam(subtaskIds));
+    if (listParam(userIds).length > 0) addCondition('l.logged_by = ANY(?)', listParam(userIds));
+    if (DATE_PATTERN.test(startDate || '')) addCondition('l.date >= ?', startDate);
+    if (DATE_PATTERN.test(endDate || '')) addCondition('l.date <= ?', endDate);
+    if (search && String(search).trim()) {
+      addCondition(
+        '(l.task_name ILIKE ? OR l.subtask_name ILIKE ? OR l.notes ILIKE ?)',
+        `%${String(search).trim().replace(/[\\%_]/g, '\\$&')}%`
+      );
+    }
+
+    const result = await query(
+      `SELECT ${ENTRY_COLUMNS}
+       FROM time_logs l
+       JOIN projects p ON p.id = l.project_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY l.date DESC, l.created_at DESC`,
+      params
+    );
+
+    res.json({
+      success: true,
+      timeLogs: result.rows
+    });
+  } catch (error) {
+    console.error('Get time logs error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve time logs'
+    });
+  }
+});
+
+/**
+ * POST /api/time-logs
+ * Log time against a task (or one of its subtasks)
+ * Body: TimeLogEntry fields; an `id` is kept as the entry's frontend ID.
+ */
+router.post('/', requireProjectRole('editor', (req) => req.body.projectId), async (req, res) => {
+  try {
+    const { projectId, id: clientId } = req.body;
+    if (!projectId) throw requestError(400, 'Project is required');
+
+    const fields = parseEntry(req.body);
+    const rowId = await transaction(async (client) => {
+      await assertWeekOpen(projectId, fields.logged_by, fields.date, client);
+      return insertEntry(projectId, req.session.userId, clientId || null, fields, client);
+    });
+    if (!rowId) throw requestError(409, 'Time log already exists');
+
+    res.status(201).json({
+      success: true,
+      message: 'Time logged successfully',
+      timeLog: await loadEntry(rowId, req.session.userId)
+    });
+  } catch (error) {
+    console.error('Create time log error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to log time'
+    });
+  }
+});
+
+/**
+ * POST /api/time-logs/import
+ * Upload entries kept in the browser (from before time logs were stored on
+ * the server, or logged while offline). Entries already uploaded count as
+ * imported; ones that can't be stored (e.g. their project isn't on the server
+ * yet) are listed in `skipped` so the client can keep them for later.
+ * Body: { entries: TimeLogEntry[] }
+ */
+router.post('/import', async (req, res) => {
+  try {
+    const entries = Array.isArray(req.body.entries) ? req.body.entries : [];
+    const userId = req.session.userId;
+    const roles = new Map();
+    const imported = [];
+    const skipped = [];
+
+    for (const entry of entries) {
+      try {
+        if (!entry || !entry.id || !entry.projectId) throw requestError(400, 'Entry needs an ID and a project');
+
+        if (!roles.has(entry.projectId)) {
+          roles.set(entry.projectId, await getProjectRole(entry.projectId, userId));
+        }
+        const role = roles.get(entry.projectId);
+        if (!role) throw requestError(404, 'Project not found');
+        if (!hasRole(role, 'editor')) throw requestError(403, 'This action requires the editor role on the project');
+
+        const fields = parseEntry(entry);
+        await transaction(async (client) => {
+          await assertWeekOpen(entry.projectId, fields.logged_by, fields.date, client);
+          await insertEntry(entry.projectId, userId, String(entry.id), fields, client);
+        });
+        imported.push(entry.id);
+      } catch (error) {
+        if (!error.status) throw error;
+        skipped.push({ id: entry?.id, error: error.message });
+      }
+    }
+
+    res.json({
+      success: true,
+      imported,
+      skipped
+    });
+  } catch (error) {
+    console.error('Import time logs error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to import time logs'
+    });
+  }
+});
+
+// Columns returned for a timer (needs active_timers as t and projects as p);
+// elapsed_seconds is measured on the database clock so every device agrees
+const TIMER_COLUMNS = `t.project_id, p.name AS project_name, t.task_client_id, t.task_name,
+  t.subtask_client_id, t.subtask_name, t.logged_by, t.logged_by_name, t.started_at,
+  t.running_since IS NOT NULL AS running,
+  t.accumulated_seconds + COALESCE(FLOOR(EXTRACT(EPOCH FROM CURRENT_TIMESTAMP - t.running_since)), 0)::int AS elapsed_seconds`;
+
+/**
+ * Load a user's timer
+ * @param {string} userId - User ID
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<Object|null>}
+ */
+async function loadTimer(userId, client = db) {
+  const result = await client.query(
+    `SELECT ${TIMER_COLUMNS}
+     FROM active_timers t
+     JOIN projects p ON p.id = t.project_id
+     WHERE t.user_id = $1`,
+    [userId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * GET /api/time-logs/timer
+ * The user's running or paused timer (null when there is none)
+ */
+router.get('/timer', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      timer: await loadTimer(req.session.userId)
+    });
+  } catch (error) {
+    console.error('Get timer error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve timer'
+    });
+  }
+});
+
+/**
+ * POST /api/time-logs/timer
+ * Start a timer on a task or subtask; a user has at most one
+ * Body: { projectId, taskId, taskName, subtaskId?, subtaskName?, userId, userName }
+ */
+router.post('/timer', requireProjectRole('editor', (req) => req.body.projectId), async (req, res) => {
+  try {
+    const { projectId, taskId, taskName, subtaskId, subtaskName, userId, userName } = req.body;
+    if (!projectId) throw requestError(400, 'Project is required');
+    if (!taskId || !taskName) throw requestError(400, 'Task is required');
+    if (!userId) throw requestError(400, 'User is required');
+
+    const result = await query(
+      `INSERT INTO active_timers (
+         user_id, project_id, task_client_id, task_name, subtask_client_id, subtask_name, logged_by, logged_by_name
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (user_id) DO NOTHING
+       RETURNING user_id`,
+      [
+        req.session.userId,
+        projectId,
+        String(taskId),
+        String(taskName),
+        subtaskId ? String(subtaskId) : null,
+        subtaskName ? String(subtaskName) : null,
+        String(userId),
+        userName ? String(userName) : null,
+      ]
+    );
+    if (result.rows.length === 0) throw requestError(409, 'A timer is already running');
+
+    res.status(201).json({
+      success: true,
+      message: 'Timer started',
+      timer: await loadTimer(req.session.userId)
+    });
+  } catch (error) {
+    console.error('Start timer error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to start timer'
+    });
+  }
+});
+
+/**
+ * POST /api/time-logs/timer/pause
+ * Pause the running timer, keeping the time so far
+ */
+router.post('/timer/pause', async (req, res) => {
+  try {
+    const result = await query(
+      `UPDATE active_timers
+       SET accumulated_seconds = accumulated_seconds + FLOOR(EXTRACT(EPOCH FROM CURRENT_TIMESTAMP - running_since))::int,
+           running_since = NULL
+       WHERE user_id = $1 AND running_since IS NOT NULL
+       RETURNING user_id`,
+      [req.session.userId]
+    );
+    if (result.rows.length === 0) throw requestError(409, 'No running timer');
+
+    res.json({
+      success: true,
+      timer: await loadTimer(req.session.userId)
+    });
+  } catch (error) {
+    console.error('Pause timer error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to pause timer'
+    });
+  }
+});
+
+/**
+ * POST /api/time-logs/timer/resume
+ * Resume a paused timer
+ */
+router.post('/timer/resume', async (req, res) => {
+  try {
+    const result = await query(
+      `UPDATE active_timers
+       SET running_since = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND running_since IS NULL
+       RETURNING user_id`,
+      [req.session.userId]
+    );
+    if (result.rows.length === 0) throw requestError(409, 'No paused timer');
+
+    res.json({
+      success: true,
+      timer: await loadTimer(req.session.userId)
+    });
+  } catch (error) {
+    console.error('Resume timer error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to resume timer'
+    });
+  }
+});
+
+/**
+ * POST /api/time-logs/timer/stop
+ * Stop the timer and log its time as an entry
+ * Body: { date (YYYY-MM-DD, the user's local day), hours? (to log something
+ * other than the measured time, e.g. for a forgotten timer), notes?, billable? }
+ * A timer stopped before it reached 0.01 hours logs nothing (timeLog is null).
+ * A timer that ran longer than an entry can hold logs 24 hours, so it can
+ * always be stopped; measuredHours says how long it really ran.
+ */
+router.post('/timer/stop', async (req, res) => {
+  try {
+    const userId = req.session.userId;
+
+    const { rowId, measuredHours } = await transaction(async (client) => {
+      const timerResult = await client.query(
+        `SELECT ${TIMER_COLUMNS}
+         FROM active_timers t
+         JOIN projects p ON p.id = t.project_id
+         WHERE t.user_id = $1
+         FOR UPDATE OF t`,
+        [userId]
+      );
+      const timer = timerResult.rows[0];
+      if (!timer) throw requestError(404, 'No timer to stop');
+
+      await client.query('DELETE FROM active_timers WHERE user_id = $1', [userId]);
+
+      const measuredHours = Math.round((timer.elapsed_seconds / 3600) * 100) / 100;
+      const hours = req.body.hours !== undefined && req.body.hours !== null
+        ? Number(req.body.hours)
+        : Math.min(measuredHours, MAX_ENTRY_HOURS);
+      if (hours === 0) return { rowId: null, measuredHours };
+
+      if (!hasRole(await getProjectRole(timer.project_id, userId, client), 'editor')) {
+        throw requestError(403, 'This action requires the editor role on the project');
+      }
+
+      const fields = parseEntry({
+        date: req.body.date,
+        hours,
+        notes: req.body.notes,
+        billable: req.body.billable,
+        taskId: timer.task_client_id,
+        taskName: timer.task_name,
+        subtaskId: timer.subtask_client_id,
+        subtaskName: timer.subtask_name,
+        userId: timer.logged_by,
+        userName: timer.logged_by_name,
+      });
+      await assertWeekOpen(timer.project_id, fields.logged_by, fields.date, client);
+      return { rowId: await insertEntry(timer.project_id, userId, null, fields, client), measuredHours };
+    });
+
+    res.json({
+      success: true,
+      message: rowId ? 'Timer stopped and time logged' : 'Timer stopped',
+      timeLog: rowId ? await loadEntry(rowId, userId) : null,
+      measuredHours
+    });
+  } catch (error) {
+    console.error('Stop timer error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to stop timer'
+    });
+  }
+});
+
+/**
+ * DELETE /api/time-logs/timer
+ * Discard the timer without logging anything
+ */
+router.delete('/timer', async (req, res) => {
+  try {
+    await query('DELETE FROM active_timers WHERE user_id = $1', [req.session.userId]);
+
+    res.json({
+      success: true,
+      message: 'Timer discarded'
+    });
+  } catch (error) {
+    console.error('Discard timer error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to discard timer'
+    });
+  }
+});
+
+/**
+ * PUT /api/time-logs/:id
+ * Change the date, hours, notes, person or billable flag of an entry
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const fields = parseEntry(req.body, true);
+    const columns = Object.keys(fields);
+    const entry = await transaction(async (client) => {
+      const entry = await loadEditableEntry(req.params.id, req.session.userId, client);
+      if (fields.date || fields.logged_by) {
+        await assertWeekOpen(entry.project_id, fields.logged_by || entry.logged_by, fields.date || entry.date, client);
+      }
+
+      if (columns.length > 0) {
+        await client.query(
+          `UPDATE time_logs
+           SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+           WHERE id = $1`,
+          [entry.id, ...columns.map(column => fields[column])]
+        );
+      }
+      return entry;
+    });
+
+    res.json({
+      success: true,
+      message: 'Time log updated successfully',
+      timeLog: await loadEntry(entry.id, req.session.userId)
+    });
+  } catch (error) {
+    console.error('Update time log error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to update time log'
+    });
+  }
+});
+
+/**
+ * DELETE /api/time-logs/:id
+ * Remove an entry
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    await transaction(async (client) => {
+      const entry = await loadEditableEntry(req.params.id, req.session.userId, client);
+      await client.query('DELETE FROM time_logs WHERE id = $1', [entry.id]);
+    });
+
+    res.json({
+      success: true,
+      message: 'Time log deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete time log error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to delete time log'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,263 @@
+/**
+ * Timesheet Routes
+ * Weekly timesheets: a person's time log entries on a project for one week,
+ * submitted by an editor and approved or rejected by the project owner or an
+ * approver. Submitted and approved weeks lock their entries (see
+ * timesheetService); a rejected week can be corrected and submitted again.
+ */
+
+const express = require('express');
+const router = express.Router();
+const { query, transaction } = require('../database/db');
+const { requireAuth, requireProjectRole } = require('../middleware/auth');
+const { getProjectRole, hasRole, accessibleProjectsCondition } = require('../services/projectAccessService');
+const { weekStartSql, lockWeek, resolvePersonAccount, isOwnTimesheet } = require('../services/timesheetService');
+
+// All routes require authentication
+router.use(requireAuth);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STATUSES = ['submitted', 'approved', 'rejected'];
+
+// Columns returned for a timesheet (needs timesheets as s and projects as p)
+const TIMESHEET_COLUMNS = `s.id, s.project_id, p.name AS project_name, s.logged_by, s.logged_by_name,
+  s.account_id, to_char(s.week_start, 'YYYY-MM-DD') AS week_start, s.status, s.total_hours,
+  s.submitted_by, s.submitted_at, su.name AS submitted_by_name,
+  s.reviewed_at, ru.name AS reviewed_by_name, s.review_comment`;
+
+const TIMESHEET_JOINS = `JOIN projects p ON p.id = s.project_id
+  LEFT JOIN users su ON su.id = s.submitted_by
+  LEFT JOIN users ru ON ru.id = s.reviewed_by`;
+
+/**
+ * Error answered with a 4xx status
+ * @param {number} status - HTTP status
+ * @param {string} message
+ * @returns {Error}
+ */
+function requestError(status, message) {
+  const error = new Error(message);
+  error.status = status;
+  return error;
+}
+
+/**
+ * Split a comma-separated query parameter into values
+ * @param {string} [value]
+ * @returns {Array<string>}
+ */
+function listParam(value) {
+  if (!value) return [];
+  return String(value).split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Load one timesheet the user can see
+ * @param {string} id - Timesheet ID
+ * @param {string} userId - User ID
+ * @returns {Promise<Object|null>}
+ */
+async function loadTimesheet(id, userId) {
+  if (!UUID_PATTERN.test(id)) return null;
+
+  const result = await query(
+    `SELECT ${TIMESHEET_COLUMNS}
+     FROM timesheets s
+     ${TIMESHEET_JOINS}
+     WHERE s.id = $1 AND ${accessibleProjectsCondition('$2')}`,
+    [id, userId]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Approve or reject a submitted timesheet
+ * Approvers can't review a week that holds their own time or that they
+ * submitted; the project owner can.
+ * @param {Object} req - Request (params.id, body.comment)
+ * @param {string} status - 'approved' or 'rejected'
+ * @returns {Promise<Object>} The reviewed timesheet
+ */
+async function reviewTimesheet(req, status) {
+  const userId = req.session.userId;
+  const timesheet = await loadTimesheet(req.params.id, userId);
+  if (!timesheet) throw requestError(404, 'Timesheet not found');
+
+  const role = await getProjectRole(timesheet.project_id, userId);
+  if (!hasRole(role, 'approver')) {
+    throw requestError(403, 'This action requires the approver role on the project');
+  }
+
+  // Only the owner, who has no one to answer to, reviews their own time
+  if (role !== 'owner' && isOwnTimesheet(timesheet, userId)) {
+    throw requestError(403, 'Someone else has to review your own timesheet');
+  }
+
+  const comment = req.body.comment ? String(req.body.comment).trim() : '';
+  if (status === 'rejected' && !comment) {
+    throw requestError(400, 'Say what needs fixing when rejecting a timesheet');
+  }
+
+  const result = await query(
+    `UPDATE timesheets
+     SET status = $2, reviewed_by = $3, reviewed_at = CURRENT_TIMESTAMP,
+         review_comment = $4, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND status = 'submitted'
+     RETURNING id`,
+    [timesheet.id, status, userId, comment || null]
+  );
+  if (result.rows.length === 0) {
+    throw requestError(409, `This timesheet is ${timesheet.status}, not waiting for approval`);
+  }
+
+  return loadTimesheet(timesheet.id, userId);
+}
+
+/**
+ * GET /api/timesheets
+ * Timesheets in the user's projects, latest week first
+ * Query: projectIds, userIds, status (comma-separated) and weekStart (any day
+ * of the week, YYYY-MM-DD)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const params = [req.session.userId];
+    const conditions = [accessibleProjectsCondition('$1')];
+    const addCondition = (sql, value) => {
+      params.push(value);
+      conditions.push(sql.replace(/\?/g, `$${params.length}`));
+    };
+
+    const { projectIds, userIds, status, weekStart } = req.query;
+    if (listParam(projectIds).length > 0) addCondition('s.project_id = ANY(?)', listParam(projectIds));
+    if (listParam(userIds).length > 0) addCondition('s.logged_by = ANY(?)', listParam(userIds));
+    const statuses = listParam(status).filter(value => STATUSES.includes(value));
+    if (statuses.length > 0) addCondition('s.status = ANY(?)', statuses);
+    if (DATE_PATTERN.test(weekStart || '')) addCondition(`s.week_start = ${weekStartSql('?')}`, weekStart);
+
+    const result = await query(
+      `SELECT ${TIMESHEET_COLUMNS}
+       FROM timesheets s
+       ${TIMESHEET_JOINS}
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY s.week_start DESC, p.name, s.logged_by_name`,
+      params
+    );
+
+    res.json({
+      success: true,
+      timesheets: result.rows
+    });
+  } catch (error) {
+    console.error('Get timesheets error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve timesheets'
+    });
+  }
+});
+
+/**
+ * POST /api/timesheets/submit
+ * Submit a person's week on a project for approval, locking its entries.
+ * A rejected week can be submitted again; a submitted or approved one can't.
+ * The person is tied to their account (see resolvePersonAccount) so approvers
+ * can't review their own week.
+ * Body: { projectId, userId, userName?, userEmail?, weekStart (any day of the week) }
+ */
+router.post('/submit', requireProjectRole('editor', (req) => req.body.projectId), async (req, res) => {
+  try {
+    const { projectId, userId: loggedBy, userName, userEmail, weekStart } = req.body;
+    if (!projectId) throw requestError(400, 'Project is required');
+    if (!loggedBy) throw requestError(400, 'User is required');
+    if (!DATE_PATTERN.test(weekStart || '')) throw requestError(400, 'Week must be a YYYY-MM-DD date');
+
+    const accountId = await resolvePersonAccount(String(loggedBy), userEmail ? String(userEmail) : null);
+    const result = await transaction(async (client) => {
+      // Wait for writes to the week in flight, so the total counts them
+      await lockWeek(projectId, String(loggedBy), weekStart, client, true);
+      return client.query(
+        `INSERT INTO timesheets (
+           project_id, logged_by, logged_by_name, account_id, week_start, status, total_hours, submitted_by, submitted_at
+         )
+         VALUES (
+           $1, $2, $3, $6, ${weekStartSql('$4')}, 'submitted',
+           (SELECT COALESCE(SUM(hours), 0) FROM time_logs
+            WHERE project_id = $1 AND source = 'entry' AND logged_by = $2
+              AND date >= ${weekStartSql('$4')} AND date < ${weekStartSql('$4')} + 7),
+           $5, CURRENT_TIMESTAMP
+         )
+         ON CONFLICT (project_id, logged_by, week_start) DO UPDATE
+         SET status = 'submitted', logged_by_name = EXCLUDED.logged_by_name,
+             account_id = COALESCE(EXCLUDED.account_id, timesheets.account_id),
+             total_hours = EXCLUDED.total_hours, submitted_by = EXCLUDED.submitted_by,
+             submitted_at = EXCLUDED.submitted_at, reviewed_by = NULL, reviewed_at = NULL,
+             review_comment = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE timesheets.status = 'rejected'
+         RETURNING id`,
+        [projectId, String(loggedBy), userName ? String(userName) : null, weekStart, req.session.userId, accountId]
+      );
+    });
+    if (result.rows.length === 0) {
+      throw requestError(409, 'This week has already been submitted');
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Timesheet submitted for approval',
+      timesheet: await loadTimesheet(result.rows[0].id, req.session.userId)
+    });
+  } catch (error) {
+    console.error('Submit timesheet error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to submit timesheet'
+    });
+  }
+});
+
+/**
+ * POST /api/timesheets/:id/approve
+ * Approve a submitted timesheet; its entries stay read-only
+ * Body: { comment? }
+ */
+router.post('/:id/approve', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      message: 'Timesheet approved',
+      timesheet: await reviewTimesheet(req, 'approved')
+    });
+  } catch (error) {
+    console.error('Approve timesheet error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to approve timesheet'
+    });
+  }
+});
+
+/**
+ * POST /api/timesheets/:id/reject
+ * Send a submitted timesheet back for changes, unlocking its entries
+ * Body: { comment (required) }
+ */
+router.post('/:id/reject', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      message: 'Timesheet rejected',
+      timesheet: await reviewTimesheet(req, 'rejected')
+    });
+  } catch (error) {
+    console.error('Reject timesheet error:', error);
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message || 'Failed to reject timesheet'
+    });
+  }
+});
+
+module.exports = router;
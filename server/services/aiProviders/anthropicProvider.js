@@ -0,0 +1,78 @@
+/**
+ * Anthropic Provider
+ * Sends prompts to Claude through @anthropic-ai/sdk
+ */
+
+const Anthropic = require('@anthropic-ai/sdk');
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+/**
+ * Create an Anthropic provider
+ * @param {string} apiKey - Anthropic API key
+ * @returns {Object} AI provider (see ./index.js)
+ */
+function createAnthropicProvider(apiKey) {
+  const client = new Anthropic({
+    apiKey: apiKey,
+  });
+
+  const complete = async ({ prompt, model, maxTokens }, { onText, signal } = {}) => {
+    const params = {
+      model,
+      max_tokens: maxTokens,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+    };
+
+    if (!onText) {
+      const response = await client.messages.create(params);
+      return {
+        content: response.content[0].type === 'text' ? response.content[0].text : '',
+        usage: response.usage,
+      };
+    }
+
+    const stream = client.messages.stream(params);
+    const abort = () => stream.abort();
+    signal?.addEventListener('abort', abort);
+    stream.on('text', onText);
+
+    try {
+      const message = await stream.finalMessage();
+      return {
+        content: message.content.map(block => (block.type === 'text' ? block.text : '')).join(''),
+        usage: message.usage,
+      };
+    } catch (error) {
+      // Tokens generated before a cancel are still billed
+      error.usage = stream.currentMessage?.usage || null;
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
+  };
+
+  return {
+    name: 'anthropic',
+    resolveModel: (requested) => requested || DEFAULT_MODEL,
+    analyze: complete,
+    report: complete,
+    iterate: complete,
+    command: complete,
+    breakdown: complete,
+    test: (model) => complete({
+      prompt: 'Hello, respond with "OK" if you can hear me.',
+      model,
+      maxTokens: 50,
+    }),
+  };
+}
+
+module.exports = {
+  createAnthropicProvider,
+};
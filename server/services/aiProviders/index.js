@@ -0,0 +1,190 @@
+/**
+ * AI Providers
+ * Picks the provider that serves a user's AI requests and the API key that
+ * pays for them.
+ *
+ * Every provider has the same shape:
+ *   name                      - 'anthropic', 'openai' or 'local'
+ *   resolveModel(requested)   - Model to use when the client asks for `requested`
+ *   analyze(request, options) - Project analysis
+ *   report(request, options)  - Progress report
+ *   iterate(request, options) - Iteration changes (request.taskIds lists the project's tasks)
+ *   command(request, options) - Task command bar query or bulk edit
+ *   breakdown(request, options) - Subtasks for one task (request.targetHours is what they should add up to)
+ *   test(model)               - Minimal call to check the key works
+ * where request is { prompt, model, maxTokens } and options is
+ * { onText, signal } for streaming. Each resolves to { content, usage }, with
+ * usage as { input_tokens, output_tokens }. Errors carry an HTTP-style
+ * `status`, and `usage` for tokens spent before a failure or cancel.
+ *
+ * The provider is the user's own choice (users.ai_provider), else the
+ * admin_config `ai_provider` setting, else the AI_PROVIDER environment
+ * variable, else Anthropic.
+ */
+
+const { query } = require('../../database/db');
+const apiKeyService = require('../apiKeyService');
+const { createAnthropicProvider } = require('./anthropicProvider');
+const { createOpenAIProvider } = require('./openaiProvider');
+const { createLocalProvider } = require('./localProvider');
+
+const PROVIDERS = {
+  anthropic: { label: 'Anthropic Claude', keyService: 'anthropic', envKey: 'VITE_ANTHROPIC_API_KEY' },
+  openai: { label: 'OpenAI-compatible', keyService: 'openai', envKey: 'OPENAI_API_KEY' },
+  local: { label: 'Local fixtures (offline)' },
+};
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+
+/**
+ * Check a provider name
+ * @param {string} name
+ * @returns {boolean}
+ */
+function isProviderName(name) {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, name);
+}
+
+/**
+ * Read provider settings from admin_config
+ * The database may be unavailable in offline development, so failures fall
+ * back to environment variables.
+ * @returns {Promise<Object>} key -> value for the ai_provider/ai_openai_* keys
+ */
+async function getProviderSettings() {
+  try {
+    const result = await query(
+      `SELECT key, value FROM admin_config
+       WHERE key IN ('ai_provider', 'ai_openai_base_url', 'ai_openai_model')`
+    );
+    const settings = {};
+    result.rows.forEach(row => {
+      if (row.value) settings[row.key] = row.value;
+    });
+    return settings;
+  } catch (error) {
+    console.warn('Could not read AI provider settings:', error.message);
+    return {};
+  }
+}
+
+/**
+ * The provider used by users who haven't picked one
+ * @param {Object} [settings] - Result of getProviderSettings
+ * @returns {Promise<string>}
+ */
+async function getDefaultProviderName(settings) {
+  const { ai_provider: configured } = settings || await getProviderSettings();
+  if (isProviderName(configured)) return configured;
+  if (isProviderName(process.env.AI_PROVIDER)) return process.env.AI_PROVIDER;
+  return 'anthropic';
+}
+
+/**
+ * The provider a user picked for themselves
+ * @param {string} [userId] - User's ID
+ * @returns {Promise<string|null>} Provider name, or null to use the default
+ */
+async function getUserProviderName(userId) {
+  if (!userId) return null;
+  try {
+    const result = await query('SELECT ai_provider FROM users WHERE id = $1', [userId]);
+    const name = result.rows[0]?.ai_provider;
+    return isProviderName(name) ? name : null;
+  } catch (error) {
+    console.warn('Could not read user AI provider:', error.message);
+    return null;
+  }
+}
+
+/**
+ * Save a user's provider choice
+ * @param {string} userId - User's ID
+ * @param {string|null} name - Provider name, or null to follow the default
+ * @returns {Promise<void>}
+ */
+async function setUserProviderName(userId, name) {
+  if (name !== null && !isProviderName(name)) {
+    const error = new Error(`Unknown AI provider "${name}"`);
+    error.status = 400;
+    throw error;
+  }
+  await query('UPDATE users SET ai_provider = $1 WHERE id = $2', [name, userId]);
+}
+
+/**
+ * Create the provider for a request, with the key that pays for it
+ * Keys come from the request (Anthropic only: it's what the Settings dialog
+ * stores), then the server's shared key, then the user's stored key.
+ * keySource is 'request', 'shared', 'stored', or 'none' for the local provider.
+ * @param {Object} options
+ * @param {string} [options.userId] - Calling user
+ * @param {string} [options.apiKey] - Key sent with the request
+ * @param {string} [options.providerName] - Force a provider instead of the user's choice
+ * @returns {Promise<{ provider: Object, keySource: string }>}
+ */
+async function resolveProvider({ userId, apiKey, providerName } = {}) {
+  const settings = await getProviderSettings();
+  const name = providerName || await getUserProviderName(userId) || await getDefaultProviderName(settings);
+
+  if (name === 'local') {
+    return { provider: createLocalProvider(), keySource: 'none' };
+  }
+
+  const { keyService, envKey } = PROVIDERS[name];
+  let key = name === 'anthropic' ? apiKey : undefined;
+  let keySource = 'request';
+
+  if (!key) {
+    key = process.env[envKey];
+    keySource = 'shared';
+  }
+
+  // If user is authenticated and no key found yet, try their stored key
+  if (!key && userId) {
+    try {
+      key = await apiKeyService.getApiKey(userId, keyService);
+      keySource = 'stored';
+    } catch (error) {
+      console.warn('Could not retrieve API key from database:', error.message);
+    }
+  }
+
+  const provider = name === 'openai'
+    ? createOpenAIProvider(key, {
+        baseUrl: settings.ai_openai_base_url || process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        model: settings.ai_openai_model || process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+      })
+    : createAnthropicProvider(key);
+
+  return { provider, keySource };
+}
+
+/**
+ * Whether the default provider can serve requests without a user key
+ * @returns {Promise<boolean>}
+ */
+async function isDefaultProviderAvailable() {
+  const name = await getDefaultProviderName();
+  if (name === 'local') return true;
+  return !!process.env[PROVIDERS[name].envKey];
+}
+
+/**
+ * Providers for the settings UI
+ * @returns {Array<{ id: string, label: string }>}
+ */
+function listProviders() {
+  return Object.entries(PROVIDERS).map(([id, { label }]) => ({ id, label }));
+}
+
+module.exports = {
+  isProviderName,
+  listProviders,
+  resolveProvider,
+  getDefaultProviderName,
+  getUserProviderName,
+  setUserProviderName,
+  isDefaultProviderAvailable,
+};
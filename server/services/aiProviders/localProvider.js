@@ -0,0 +1,212 @@
+/**
+ * Local Fixture Provider
+ * Answers every AI request with fixed, valid JSON so the full AI flow
+ * (streaming analysis, reports, iterations) runs offline with no API key.
+ * Replies depend only on the request, never on time or randomness, so tests
+ * can assert on them.
+ */
+
+const MODEL = 'local-fixture';
+
+// Streamed analysis replies are sent in chunks this size, this far apart
+const CHUNK_SIZE = 80;
+const CHUNK_DELAY_MS = 15;
+
+const ANALYSIS_FIXTURE = {
+  suggestedPhases: [
+    { phaseId: 'planning', phaseTitle: 'Planning', description: 'Scope, requirements and plan', color: '#3b82f6', typicalDuration: 5 },
+    { phaseId: 'execution', phaseTitle: 'Execution', description: 'Build and configure the deliverables', color: '#10b981', typicalDuration: 15 },
+    { phaseId: 'closeout', phaseTitle: 'Closeout', description: 'Test, document and hand over', color: '#f59e0b', typicalDuration: 5 },
+  ],
+  suggestedTasks: [
+    { task: 'Define scope and success criteria', phase: 'planning', phaseTitle: 'Planning', baseEstHours: 4, category: 'Planning', criticalPath: true },
+    { task: 'Research options and constraints', phase: 'planning', phaseTitle: 'Planning', baseEstHours: 6, category: 'Research', criticalPath: false },
+    { task: 'Draft the design', phase: 'planning', phaseTitle: 'Planning', baseEstHours: 8, category: 'Design', criticalPath: true },
+    { task: 'Build the core deliverable', phase: 'execution', phaseTitle: 'Execution', baseEstHours: 24, category: 'Development', criticalPath: true },
+    { task: 'Configure supporting systems', phase: 'execution', phaseTitle: 'Execution', baseEstHours: 8, category: 'Configuration', criticalPath: false },
+    { task: 'Review progress with stakeholders', phase: 'execution', phaseTitle: 'Execution', baseEstHours: 2, category: 'Review', criticalPath: false },
+    { task: 'Test against success criteria', phase: 'closeout', phaseTitle: 'Closeout', baseEstHours: 8, category: 'Testing', criticalPath: true },
+    { task: 'Write handover documentation', phase: 'closeout', phaseTitle: 'Closeout', baseEstHours: 4, category: 'Documentation', criticalPath: false },
+  ],
+  estimatedTimeline: '5 weeks',
+  riskFactors: [
+    { category: 'Scope', description: 'Requirements change once work starts', severity: 'medium', mitigation: 'Agree scope in writing before execution' },
+    { category: 'Schedule', description: 'The core build takes longer than estimated', severity: 'high', mitigation: 'Review progress weekly and re-plan early' },
+    { category: 'Quality', description: 'Testing finds issues late', severity: 'low', mitigation: 'Test each part as it is finished' },
+  ],
+  recommendations: [
+    'Confirm scope before starting execution',
+    'Track actual hours against estimates every week',
+    'Keep stakeholders updated at the end of each phase',
+  ],
+  confidence: 0.5,
+};
+
+/**
+ * Rough token count for fixture usage (about four characters per token)
+ * @param {string} text
+ * @returns {number}
+ */
+const countTokens = (text) => Math.ceil(String(text || '').length / 4);
+
+const usageFor = (prompt, content) => ({
+  input_tokens: countTokens(prompt),
+  output_tokens: countTokens(content),
+});
+
+/**
+ * Error matching what fetch throws when a request is aborted
+ * @param {Object} usage - Tokens "spent" before the abort
+ * @returns {Error}
+ */
+function abortError(usage) {
+  const error = new Error('Request was aborted');
+  error.name = 'AbortError';
+  error.usage = usage;
+  return error;
+}
+
+/**
+ * Send a reply to onText in chunks, the way a real model streams
+ * @param {string} prompt - Request prompt (for usage)
+ * @param {string} content - Full reply
+ * @param {Object} options - { onText, signal }
+ * @returns {Promise<Object>} { content, usage }
+ */
+async function reply(prompt, content, { onText, signal } = {}) {
+  if (onText) {
+    for (let i = 0; i < content.length; i += CHUNK_SIZE) {
+      if (signal?.aborted) throw abortError(usageFor(prompt, content.slice(0, i)));
+      onText(content.slice(i, i + CHUNK_SIZE));
+      await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+    }
+  }
+  if (signal?.aborted) throw abortError(usageFor(prompt, content));
+
+  return { content, usage: usageFor(prompt, content) };
+}
+
+/**
+ * Progress report for the project named in the prompt
+ * @param {string} prompt - Report prompt ("PROJECT: <name>" line)
+ * @returns {Object} AIReport fields
+ */
+function buildReport(prompt) {
+  const projectName = (prompt.match(/^PROJECT: (.*)$/m) || [])[1] || 'Project';
+  const completed = (prompt.match(/Tasks Completed: (\d+)\/(\d+)/) || []).slice(1).map(Number);
+  const progress = completed.length === 2 && completed[1] > 0
+    ? `${completed[0]} of ${completed[1]} tasks are complete.`
+    : 'No task progress has been recorded yet.';
+
+  return {
+    projectId: projectName,
+    analysis: {
+      progressAssessment: `${progress} (Local fixture report - no AI model was called.)`,
+      schedulePerformance: 'Schedule performance is not assessed by the local provider.',
+      costPerformance: 'Cost performance is not assessed by the local provider.',
+      qualityMetrics: 'Quality is not assessed by the local provider.',
+    },
+    recommendations: {
+      immediate: ['Resolve blocked tasks'],
+      shortTerm: ['Compare actual hours with estimates'],
+      longTerm: ['Review the plan at each phase boundary'],
+    },
+    predictiveInsights: {
+      completionForecast: 'See the forecast finish date on the project page.',
+      budgetForecast: 'Not forecast by the local provider.',
+      riskAreas: ANALYSIS_FIXTURE.riskFactors.slice(0, 1),
+    },
+    exportData: {
+      rawMetrics: {},
+      formattedReport: `Local fixture report for ${projectName}. ${progress}`,
+      apiPayload: {},
+    },
+  };
+}
+
+/**
+ * Iteration that touches the project's first task, if it has any
+ * @param {string[]} taskIds - IDs of the project's tasks
+ * @returns {Object} Iteration reply
+ */
+function buildIteration(taskIds) {
+  const changes = [
+    {
+      type: 'add_phase',
+      target: 'Review',
+      data: { phaseId: 'local_review', phaseTitle: 'Review', description: 'Added by the local provider', color: '#8b5cf6' },
+      reasoning: 'Fixture change: adds a phase',
+    },
+    {
+      type: 'add_task',
+      data: { task: 'Review the plan', phase: 'local_review', phaseTitle: 'Review', category: 'Review', baseEstHours: 2 },
+      reasoning: 'Fixture change: adds a task to the new phase',
+    },
+  ];
+
+  if (taskIds.length > 0) {
+    changes.push({
+      type: 'add_subtask',
+      target: taskIds[0],
+      data: {
+        subtasks: [
+          { name: 'Prepare', estHours: 1, status: 'pending' },
+          { name: 'Check', estHours: 1, status: 'pending' },
+        ],
+        hourMode: 'manual',
+      },
+      reasoning: 'Fixture change: splits the first task',
+    });
+  }
+
+  return {
+    success: true,
+    changes,
+    explanation: 'Local fixture suggestions - no AI model was called.',
+    previewData: { summary: `${changes.length} fixture changes` },
+  };
+}
+
+/**
+ * Four-step split of one task, sized to the hours it should add up to
+ * @param {number} targetHours - Hours to fill (a default 8 when there's no target)
+ * @returns {Object} Breakdown reply
+ */
+function buildBreakdown(targetHours) {
+  const total = targetHours > 0 ? targetHours : 8;
+  const steps = [
+    ['Clarify requirements', 0.15],
+    ['Prepare', 0.2],
+    ['Do the main work', 0.5],
+    ['Review and hand over', 0.15],
+  ];
+  return {
+    subtasks: steps.map(([name, share]) => ({
+      name,
+      estHours: Math.round(total * share * 4) / 4,
+      notes: 'Local fixture subtask',
+    })),
+  };
+}
+
+/**
+ * Create the local fixture provider
+ * @returns {Object} AI provider (see ./index.js)
+ */
+function createLocalProvider() {
+  return {
+    name: 'local',
+    resolveModel: () => MODEL,
+    analyze: ({ prompt }, options) => reply(prompt, JSON.stringify(ANALYSIS_FIXTURE, null, 2), options),
+    report: ({ prompt }, options) => reply(prompt, JSON.stringify(buildReport(prompt), null, 2), options),
+    iterate: ({ prompt, taskIds = [] }, options) => reply(prompt, JSON.stringify(buildIteration(taskIds), null, 2), options),
+    // Commands are left to the client's built-in grammar
+    command: ({ prompt }, options) => reply(prompt, JSON.stringify({ kind: 'unknown' }), options),
+    breakdown: ({ prompt, targetHours }, options) => reply(prompt, JSON.stringify(buildBreakdown(targetHours), null, 2), options),
+    test: () => reply('', 'OK'),
+  };
+}
+
+module.exports = {
+  createLocalProvider,
+};
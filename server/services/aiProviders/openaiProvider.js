@@ -0,0 +1,127 @@
+/**
+ * OpenAI-Compatible Provider
+ * Sends prompts to any server implementing the OpenAI chat completions API
+ * (OpenAI itself, Azure-style gateways, Ollama, vLLM, LM Studio...).
+ */
+
+/**
+ * Turn a failed response into an Error carrying its HTTP status
+ * @param {Response} response - fetch response
+ * @returns {Promise<Error>}
+ */
+async function responseError(response) {
+  const data = await response.json().catch(() => ({}));
+  const error = new Error(data.error?.message || `OpenAI-compatible API returned HTTP ${response.status}`);
+  error.status = response.status;
+  return error;
+}
+
+/**
+ * Convert OpenAI usage to the Anthropic shape the rest of the server records
+ * @param {Object} [usage] - { prompt_tokens, completion_tokens }
+ * @returns {Object|null} { input_tokens, output_tokens }
+ */
+function toUsage(usage) {
+  if (!usage) return null;
+  return {
+    input_tokens: usage.prompt_tokens || 0,
+    output_tokens: usage.completion_tokens || 0,
+  };
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ * @param {string} apiKey - API key (some local servers accept any value)
+ * @param {Object} config
+ * @param {string} config.baseUrl - API root, e.g. https://api.openai.com/v1
+ * @param {string} config.model - Model used when the client asks for a Claude model
+ * @returns {Object} AI provider (see ./index.js)
+ */
+function createOpenAIProvider(apiKey, { baseUrl, model: defaultModel }) {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const complete = async ({ prompt, model, maxTokens }, { onText, signal } = {}) => {
+    const response = await fetch(`${root}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        messages: [{ role: 'user', content: prompt }],
+        ...(onText && { stream: true, stream_options: { include_usage: true } }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+
+    if (!onText) {
+      const data = await response.json();
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        usage: toUsage(data.usage),
+      };
+    }
+
+    // Server-Sent Events: one JSON chunk per `data:` line, ending with [DONE]
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let usage = null;
+
+    try {
+      for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf('\n');
+
+          if (!line.startsWith('data:')) continue;
+          const data = line.slice(5).trim();
+          if (data === '[DONE]') continue;
+
+          const event = JSON.parse(data);
+          const text = event.choices?.[0]?.delta?.content;
+          if (text) {
+            content += text;
+            onText(text);
+          }
+          if (event.usage) usage = toUsage(event.usage);
+        }
+      }
+    } catch (error) {
+      error.usage = usage;
+      throw error;
+    }
+
+    return { content, usage };
+  };
+
+  return {
+    name: 'openai',
+    // The client's model setting names a Claude model, which only Anthropic serves
+    resolveModel: (requested) => (requested && !requested.startsWith('claude') ? requested : defaultModel),
+    analyze: complete,
+    report: complete,
+    iterate: complete,
+    command: complete,
+    breakdown: complete,
+    test: (model) => complete({
+      prompt: 'Hello, respond with "OK" if you can hear me.',
+      model,
+      maxTokens: 50,
+    }),
+  };
+}
+
+module.exports = {
+  createOpenAIProvider,
+};
@@ -0,0 +1,91 @@
+/**
+ * AI Stream Service
+ * Relays an AI provider's reply to the client over Server-Sent Events while
+ * it is being generated, and aborts the upstream request if the client disconnects
+ * (closing the tab or pressing Cancel).
+ */
+
+/**
+ * Write a single SSE event
+ * @param {Object} res - Express response held open for the stream
+ * @param {string} event - Event name
+ * @param {Object} data - JSON payload
+ */
+function writeEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Map a provider error to the status and message the client sees
+ * @param {Error} error - Error thrown by the provider
+ * @returns {{ status: number, error: string }}
+ */
+function describeAIError(error) {
+  if (error.status === 401) {
+    return { status: 401, error: 'Invalid API key' };
+  }
+  if (error.status === 429) {
+    return { status: 429, error: 'Rate limit exceeded' };
+  }
+  if (error.status === 529) {
+    return { status: 503, error: 'API temporarily overloaded' };
+  }
+  return { status: 500, error: error.message || 'AI request failed' };
+}
+
+/**
+ * Stream a provider's reply to the client
+ * Sends `delta` events ({ text }) as tokens arrive, then `done` ({ content })
+ * with the full text, or `error` ({ status, error }) if the request fails.
+ * @param {Object} res - Express response
+ * @param {Function} generate - Called with { onText, signal }; resolves to
+ *   { content, usage } (a provider method with the request bound in)
+ * @param {Function} [onUsage] - Called with the token usage once the stream
+ *   ends, including the tokens spent on a stream the client cancelled
+ * @returns {Promise<string|null>} Full text, or null if it failed or the client left
+ */
+async function streamMessage(res, generate, onUsage) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+  });
+
+  const controller = new AbortController();
+  let finished = false;
+  let usage = null;
+
+  // Stop paying for tokens nobody will read
+  res.on('close', () => {
+    if (!finished) {
+      console.log('🛑 Client disconnected, aborting AI stream');
+      controller.abort();
+    }
+  });
+
+  try {
+    const result = await generate({
+      onText: (text) => writeEvent(res, 'delta', { text }),
+      signal: controller.signal,
+    });
+    usage = result.usage;
+    writeEvent(res, 'done', { content: result.content });
+    return result.content;
+  } catch (error) {
+    usage = error.usage || null;
+    if (!controller.signal.aborted) {
+      console.error('❌ Error streaming AI reply:', error);
+      writeEvent(res, 'error', describeAIError(error));
+    }
+    return null;
+  } finally {
+    finished = true;
+    res.end();
+    if (onUsage && usage) onUsage(usage);
+  }
+}
+
+module.exports = {
+  streamMessage,
+};
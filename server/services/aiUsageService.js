@@ -0,0 +1,233 @@
+/**
+ * AI Usage Service
+ * Meters every AI call (tokens and estimated cost) and enforces the per-user
+ * daily and monthly quotas set in admin_config. Quotas only apply to calls
+ * paid for by the server's shared API key; users spending their own key are
+ * metered but never blocked.
+ */
+
+const { query } = require('../database/db');
+
+// USD per million tokens, matched against the model name (first match wins)
+const MODEL_PRICING = [
+  { match: 'local', input: 0, output: 0 },
+  { match: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { match: 'gpt-4o', input: 2.5, output: 10 },
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'haiku', input: 0.8, output: 4 },
+  { match: 'sonnet', input: 3, output: 15 },
+];
+const DEFAULT_PRICING = { input: 3, output: 15 };
+
+const QUOTA_KEYS = {
+  daily: 'ai_daily_quota_usd',
+  monthly: 'ai_monthly_quota_usd',
+};
+
+/**
+ * Estimate the cost of a call from its token counts
+ * @param {string} model - Model name
+ * @param {number} inputTokens - Prompt tokens
+ * @param {number} outputTokens - Generated tokens
+ * @returns {number} Estimated cost in USD
+ */
+function estimateCost(model, inputTokens, outputTokens) {
+  const pricing = MODEL_PRICING.find(p => String(model).includes(p.match)) || DEFAULT_PRICING;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1000000;
+}
+
+/**
+ * Record one AI call
+ * Never throws: a metering failure shouldn't fail the request it describes.
+ * @param {Object} entry
+ * @param {string} [entry.userId] - Calling user (missing for anonymous calls)
+ * @param {string} entry.endpoint - analyze, report, iterate, command, breakdown or test
+ * @param {string} entry.model - Model used
+ * @param {string} entry.keySource - request, stored, shared or none (local provider)
+ * @param {Object} [entry.usage] - Provider usage ({ input_tokens, output_tokens })
+ * @returns {Promise<void>}
+ */
+async function recordUsage({ userId, endpoint, model, keySource, usage }) {
+  const inputTokens = usage?.input_tokens || 0;
+  const outputTokens = usage?.output_tokens || 0;
+
+  try {
+    await query(
+      `INSERT INTO ai_usage (user_id, endpoint, model, key_source, input_tokens, output_tokens, estimated_cost)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [userId || null, endpoint, model, keySource, inputTokens, outputTokens,
+        estimateCost(model, inputTokens, outputTokens)]
+    );
+  } catch (error) {
+    console.error('Error recording AI usage:', error);
+  }
+}
+
+/**
+ * Read the configured quotas
+ * @returns {Promise<{ daily: number, monthly: number }>} USD limits, 0 = unlimited
+ */
+async function getQuotas() {
+  const result = await query(
+    'SELECT key, value FROM admin_config WHERE key = ANY($1)',
+    [Object.values(QUOTA_KEYS)]
+  );
+
+  const quotas = { daily: 0, monthly: 0 };
+  result.rows.forEach(row => {
+    const period = Object.keys(QUOTA_KEYS).find(p => QUOTA_KEYS[p] === row.key);
+    quotas[period] = Math.max(0, parseFloat(row.value) || 0);
+  });
+  return quotas;
+}
+
+/**
+ * A user's shared-key spend today and this calendar month
+ * Anonymous calls share a single allowance.
+ * @param {string} [userId] - User's ID
+ * @returns {Promise<{ daily: number, monthly: number }>} Estimated USD spent
+ */
+async function getSharedKeySpend(userId) {
+  const result = await query(
+    `SELECT
+       COALESCE(SUM(estimated_cost) FILTER (WHERE created_at >= CURRENT_DATE), 0) AS daily,
+       COALESCE(SUM(estimated_cost), 0) AS monthly
+     FROM ai_usage
+     WHERE user_id IS NOT DISTINCT FROM $1
+       AND key_source = 'shared'
+       AND created_at >= date_trunc('month', CURRENT_DATE)`,
+    [userId || null]
+  );
+
+  return {
+    daily: parseFloat(result.rows[0].daily),
+    monthly: parseFloat(result.rows[0].monthly),
+  };
+}
+
+/**
+ * Reject the call if the user has used up a quota on the shared key
+ * @param {string} [userId] - User's ID
+ * @param {string} keySource - Whose key the call would use
+ * @throws {Error} With status 429 and code QUOTA_EXCEEDED
+ */
+async function assertWithinQuota(userId, keySource) {
+  if (keySource !== 'shared') return;
+
+  const quotas = await getQuotas();
+  if (!quotas.daily && !quotas.monthly) return;
+
+  const spend = await getSharedKeySpend(userId);
+  const period = ['daily', 'monthly'].find(p => quotas[p] && spend[p] >= quotas[p]);
+  if (!period) return;
+
+  const error = new Error(
+    `${period === 'daily' ? 'Daily' : 'Monthly'} AI quota of $${quotas[period].toFixed(2)} reached. ` +
+    'Add your own API key in Settings to keep going.'
+  );
+  error.status = 429;
+  error.code = 'QUOTA_EXCEEDED';
+  throw error;
+}
+
+/**
+ * Usage summary for the developer dashboard
+ * @param {number} [days=30] - How far back to look
+ * @returns {Promise<Object>} Totals, daily series, and breakdowns by user, endpoint and model
+ */
+async function getUsageReport(days = 30) {
+  const since = `CURRENT_DATE - ($1::int - 1)`;
+
+  const [totals, daily, byUser, byEndpoint, byModel, quotas] = await Promise.all([
+    query(
+      `SELECT COUNT(*) AS requests,
+              COALESCE(SUM(input_tokens), 0) AS input_tokens,
+              COALESCE(SUM(output_tokens), 0) AS output_tokens,
+              COALESCE(SUM(estimated_cost), 0) AS estimated_cost
+       FROM ai_usage WHERE created_at >= ${since}`,
+      [days]
+    ),
+    query(
+      `SELECT to_char(created_at::date, 'YYYY-MM-DD') AS day,
+              COUNT(*) AS requests,
+              SUM(input_tokens + output_tokens) AS tokens,
+              SUM(estimated_cost) AS estimated_cost
+       FROM ai_usage WHERE created_at >= ${since}
+       GROUP BY created_at::date
+       ORDER BY created_at::date`,
+      [days]
+    ),
+    query(
+      `SELECT a.user_id, u.email, u.name,
+              COUNT(*) FILTER (WHERE a.created_at >= ${since}) AS requests,
+              COALESCE(SUM(a.input_tokens) FILTER (WHERE a.created_at >= ${since}), 0) AS input_tokens,
+              COALESCE(SUM(a.output_tokens) FILTER (WHERE a.created_at >= ${since}), 0) AS output_tokens,
+              COALESCE(SUM(a.estimated_cost) FILTER (WHERE a.created_at >= ${since}), 0) AS estimated_cost,
+              COALESCE(SUM(a.estimated_cost) FILTER (
+                WHERE a.key_source = 'shared' AND a.created_at >= CURRENT_DATE), 0) AS shared_today,
+              COALESCE(SUM(a.estimated_cost) FILTER (
+                WHERE a.key_source = 'shared' AND a.created_at >= date_trunc('month', CURRENT_DATE)), 0) AS shared_this_month
+       FROM ai_usage a
+       LEFT JOIN users u ON a.user_id = u.id
+       -- Reach back to the start of the month so quota spend is complete
+       WHERE a.created_at >= LEAST(${since}, date_trunc('month', CURRENT_DATE))
+       GROUP BY a.user_id, u.email, u.name
+       ORDER BY estimated_cost DESC
+       LIMIT 100`,
+      [days]
+    ),
+    query(
+      `SELECT endpoint, COUNT(*) AS requests, SUM(estimated_cost) AS estimated_cost
+       FROM ai_usage WHERE created_at >= ${since}
+       GROUP BY endpoint ORDER BY estimated_cost DESC`,
+      [days]
+    ),
+    query(
+      `SELECT model, COUNT(*) AS requests, SUM(estimated_cost) AS estimated_cost
+       FROM ai_usage WHERE created_at >= ${since}
+       GROUP BY model ORDER BY estimated_cost DESC`,
+      [days]
+    ),
+    getQuotas(),
+  ]);
+
+  const toNumbers = (row) => {
+    const out = {};
+    Object.entries(row).forEach(([key, value]) => {
+      out[key] = ['user_id', 'email', 'name', 'day', 'endpoint', 'model'].includes(key)
+        ? value
+        : parseFloat(value) || 0;
+    });
+    return out;
+  };
+
+  return {
+    days,
+    quotas,
+    totals: toNumbers(totals.rows[0]),
+    daily: daily.rows.map(toNumbers),
+    byUser: byUser.rows.map(toNumbers),
+    byEndpoint: byEndpoint.rows.map(toNumbers),
+    byModel: byModel.rows.map(toNumbers),
+  };
+}
+
+/**
+ * Number of AI calls in the last 24 hours
+ * @returns {Promise<number>}
+ */
+async function countRecentCalls() {
+  const result = await query(
+    `SELECT COUNT(*) AS count FROM ai_usage WHERE created_at >= NOW() - INTERVAL '24 hours'`
+  );
+  return parseInt(result.rows[0].count);
+}
+
+module.exports = {
+  estimateCost,
+  recordUsage,
+  getQuotas,
+  assertWithinQuota,
+  getUsageReport,
+  countRecentCalls,
+};
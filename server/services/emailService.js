@@ -108,6 +108,7 @@ async function sendInvitationEmail({ to, inviterName, inviterEmail, role, projec
           ${
             role === 'viewer' ? '👁️ You can view project details and tasks' :
             role === 'editor' ? '✏️ You can view, create, and edit tasks' :
+            role === 'approver' ? '✅ You can edit tasks and approve timesheets' :
             '👑 You have full access to manage the project'
           }
         </div>
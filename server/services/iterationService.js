@@ -0,0 +1,264 @@
+/**
+ * Iteration Service
+ * Parses and validates the JSON a model returns for "Iterate with AI".
+ * Each change is checked against the schema for its type and against the
+ * project's task IDs; changes that don't fit are dropped with a warning so
+ * one bad suggestion doesn't throw away the rest.
+ */
+
+const CHANGE_TYPES = [
+  'add_task',
+  'add_subtask',
+  'modify_task',
+  'add_phase',
+  'update_estimate',
+  'add_dependency'
+];
+
+const SUBTASK_STATUSES = ['pending', 'in-progress', 'completed', 'blocked'];
+const HOUR_MODES = ['manual', 'auto'];
+
+// Task fields a modify_task change may overwrite
+const MODIFIABLE_TASK_FIELDS = ['task', 'category', 'notes', 'phase', 'phaseTitle', 'sopReference'];
+
+/**
+ * Error for model output that can't be used at all (502: the upstream reply was bad)
+ * @param {string} message - Error message
+ * @returns {Error}
+ */
+function parseError(message) {
+  const error = new Error(message);
+  error.status = 502;
+  return error;
+}
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.trim().length > 0;
+const isHours = (value) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Pull the outermost JSON object out of a model reply (tolerates code fences)
+ * @param {string} content - Raw model text
+ * @returns {Object}
+ */
+function extractJson(content) {
+  const cleaned = String(content || '').trim()
+    .replace(/^```json\s*/i, '')
+    .replace(/^```\s*/, '')
+    .replace(/```\s*$/, '');
+
+  const firstBrace = cleaned.indexOf('{');
+  const lastBrace = cleaned.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace === -1) {
+    throw parseError('No JSON found in iteration response');
+  }
+
+  try {
+    return JSON.parse(cleaned.substring(firstBrace, lastBrace + 1));
+  } catch (error) {
+    throw parseError(`Iteration response is not valid JSON: ${error.message}`);
+  }
+}
+
+/**
+ * Validate a change's data against the schema for its type
+ * @param {Object} change - Raw change from the model
+ * @param {Set<string>} taskIds - IDs of the project's tasks
+ * @param {number} index - Position in the changes array (for subtask IDs)
+ * @returns {{ change?: Object, error?: string }}
+ */
+function validateChange(change, taskIds, index) {
+  if (!change || typeof change !== 'object') {
+    return { error: 'change is not an object' };
+  }
+  if (!CHANGE_TYPES.includes(change.type)) {
+    return { error: `unknown change type "${change.type}"` };
+  }
+
+  const data = change.data && typeof change.data === 'object' ? change.data : {};
+  const reasoning = typeof change.reasoning === 'string' ? change.reasoning : '';
+  const target = typeof change.target === 'string' ? change.target : undefined;
+  const needsTask = ['add_subtask', 'modify_task', 'update_estimate', 'add_dependency'].includes(change.type);
+
+  if (needsTask && (!target || !taskIds.has(target))) {
+    return { error: `${change.type} targets unknown task "${target}"` };
+  }
+
+  switch (change.type) {
+    case 'add_task': {
+      if (!isNonEmptyString(data.task)) return { error: 'add_task needs a task name' };
+      if (!isNonEmptyString(data.phase)) return { error: 'add_task needs a phase' };
+      if (!isHours(data.baseEstHours)) return { error: 'add_task needs baseEstHours >= 0' };
+      const dependencies = Array.isArray(data.dependencies)
+        ? data.dependencies.filter(id => taskIds.has(id))
+        : [];
+      return {
+        change: {
+          type: 'add_task',
+          target,
+          data: {
+            task: data.task.trim(),
+            phase: data.phase,
+            phaseTitle: isNonEmptyString(data.phaseTitle) ? data.phaseTitle : data.phase,
+            category: isNonEmptyString(data.category) ? data.category : 'Other',
+            baseEstHours: data.baseEstHours,
+            adjustedEstHours: isHours(data.adjustedEstHours) ? data.adjustedEstHours : data.baseEstHours,
+            ...(isNonEmptyString(data.notes) && { notes: data.notes }),
+            ...(dependencies.length > 0 && { dependencies })
+          },
+          reasoning
+        }
+      };
+    }
+
+    case 'add_subtask': {
+      if (!Array.isArray(data.subtasks) || data.subtasks.length === 0) {
+        return { error: 'add_subtask needs a non-empty subtasks array' };
+      }
+      const invalid = data.subtasks.findIndex(st => !st || !isNonEmptyString(st.name) ||
+        (st.estHours !== undefined && !isHours(st.estHours)));
+      if (invalid !== -1) {
+        return { error: `add_subtask has an invalid subtask at position ${invalid}` };
+      }
+      const stamp = Date.now();
+      return {
+        change: {
+          type: 'add_subtask',
+          target,
+          data: {
+            subtasks: data.subtasks.map((st, i) => ({
+              id: `subtask_${stamp}_${index}_${i}`,
+              name: st.name.trim(),
+              estHours: st.estHours,
+              status: SUBTASK_STATUSES.includes(st.status) ? st.status : 'pending',
+              order: i
+            })),
+            hourMode: HOUR_MODES.includes(data.hourMode) ? data.hourMode : 'auto'
+          },
+          reasoning
+        }
+      };
+    }
+
+    case 'modify_task': {
+      const fields = {};
+      MODIFIABLE_TASK_FIELDS.forEach(field => {
+        if (typeof data[field] === 'string') fields[field] = data[field];
+      });
+      if (Object.keys(fields).length === 0) {
+        return { error: `modify_task changes none of: ${MODIFIABLE_TASK_FIELDS.join(', ')}` };
+      }
+      return { change: { type: 'modify_task', target, data: fields, reasoning } };
+    }
+
+    case 'add_phase': {
+      const phaseTitle = isNonEmptyString(data.phaseTitle) ? data.phaseTitle : target;
+      if (!isNonEmptyString(phaseTitle)) return { error: 'add_phase needs a phaseTitle' };
+      return {
+        change: {
+          type: 'add_phase',
+          target,
+          data: {
+            phaseId: isNonEmptyString(data.phaseId)
+              ? data.phaseId
+              : phaseTitle.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''),
+            phaseTitle: phaseTitle.trim(),
+            description: typeof data.description === 'string' ? data.description : '',
+            ...(isNonEmptyString(data.color) && { color: data.color })
+          },
+          reasoning
+        }
+      };
+    }
+
+    case 'update_estimate': {
+      if (!isHours(data.newEstimate)) return { error: 'update_estimate needs newEstimate >= 0' };
+      return {
+        change: {
+          type: 'update_estimate',
+          target,
+          data: {
+            newEstimate: data.newEstimate,
+            ...(isHours(data.oldEstimate) && { oldEstimate: data.oldEstimate })
+          },
+          reasoning
+        }
+      };
+    }
+
+    case 'add_dependency': {
+      const dependencies = Array.isArray(data.dependencies) ? data.dependencies : [];
+      const unknown = dependencies.filter(id => !taskIds.has(id) || id === target);
+      if (dependencies.length === 0 || unknown.length > 0) {
+        return { error: `add_dependency needs existing task IDs other than the target (got ${JSON.stringify(dependencies)})` };
+      }
+      return { change: { type: 'add_dependency', target, data: { dependencies }, reasoning } };
+    }
+  }
+}
+
+/**
+ * Describe validated changes for the preview, rather than trusting the
+ * model's own previewData to match its changes
+ * @param {Array} changes - Validated changes
+ * @param {string} [summary] - Model-provided summary
+ * @returns {Object} IterationPreviewData
+ */
+function buildPreviewData(changes, summary) {
+  const newTasks = changes.filter(c => c.type === 'add_task').map(c => c.data);
+  const newSubtasks = changes
+    .filter(c => c.type === 'add_subtask')
+    .map(c => ({ taskId: c.target, subtasks: c.data.subtasks }));
+  const estimateChanges = changes
+    .filter(c => c.type === 'update_estimate' && c.data.oldEstimate !== undefined)
+    .map(c => ({ taskId: c.target, oldEstimate: c.data.oldEstimate, newEstimate: c.data.newEstimate }));
+
+  return {
+    summary: isNonEmptyString(summary) ? summary : `${changes.length} change${changes.length === 1 ? '' : 's'} proposed`,
+    affectedTasks: [...new Set(changes.filter(c => c.target && c.type !== 'add_phase').map(c => c.target))],
+    newTasks,
+    newSubtasks,
+    estimateChanges
+  };
+}
+
+/**
+ * Parse and validate a model's iteration reply
+ * @param {string} content - Raw model text
+ * @param {Object} [options]
+ * @param {string[]} [options.taskIds] - IDs of the project's tasks
+ * @returns {Object} IterationResponse with a warnings array for dropped changes
+ * @throws {Error} With status 502 when the reply has no usable changes array
+ */
+function parseIterationContent(content, { taskIds = [] } = {}) {
+  const parsed = extractJson(content);
+
+  if (!Array.isArray(parsed.changes)) {
+    throw parseError('Invalid iteration response: missing changes array');
+  }
+
+  const knownTaskIds = new Set(taskIds);
+  const changes = [];
+  const warnings = [];
+
+  parsed.changes.forEach((raw, index) => {
+    const { change, error } = validateChange(raw, knownTaskIds, index);
+    if (change) {
+      changes.push(change);
+    } else {
+      warnings.push(`Change ${index + 1} skipped: ${error}`);
+    }
+  });
+
+  return {
+    success: parsed.success !== false,
+    changes,
+    explanation: isNonEmptyString(parsed.explanation) ? parsed.explanation : 'AI suggested changes to your project',
+    previewData: buildPreviewData(changes, parsed.previewData?.summary),
+    warnings
+  };
+}
+
+module.exports = {
+  CHANGE_TYPES,
+  parseIterationContent,
+};
@@ -0,0 +1,101 @@
+/**
+ * Project Access Service
+ * Resolves what a user may do with a project. The owner (projects.user_id) has
+ * full access; collaborators get the role stored in project_collaborators.
+ */
+
+const db = require('../database/db');
+
+// Each role includes the permissions of the roles ranked below it
+const ROLE_RANK = {
+  viewer: 1,
+  editor: 2,
+  approver: 3, // Editor who also reviews timesheets
+  owner: 4
+};
+
+/**
+ * Get a user's role on a project
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User ID
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<string|null>} 'owner', 'approver', 'editor', 'viewer', or null without access
+ */
+async function getProjectRole(projectId, userId, client = db) {
+  const result = await client.query(
+    `SELECT CASE WHEN p.user_id = $2 THEN 'owner' ELSE pc.role END AS role
+     FROM projects p
+     LEFT JOIN project_collaborators pc ON pc.project_id = p.id AND pc.user_id = $2
+     WHERE p.id = $1`,
+    [projectId, userId]
+  );
+
+  return result.rows[0]?.role || null;
+}
+
+/**
+ * Check whether a role grants at least the required role
+ * @param {string|null} role - Role the user has
+ * @param {string} required - Minimum role needed
+ * @returns {boolean}
+ */
+function hasRole(role, required) {
+  return !!role && (ROLE_RANK[role] || 0) >= ROLE_RANK[required];
+}
+
+/**
+ * SQL condition matching the projects a user owns or collaborates on
+ * @param {string} userParam - Query placeholder holding the user ID (e.g. '$1')
+ * @param {string} [alias] - Alias of the projects table
+ * @returns {string}
+ */
+function accessibleProjectsCondition(userParam, alias = 'p') {
+  return `(${alias}.user_id = ${userParam} OR EXISTS (
+    SELECT 1 FROM project_collaborators pc
+    WHERE pc.project_id = ${alias}.id AND pc.user_id = ${userParam}
+  ))`;
+}
+
+/**
+ * Extra SELECT columns describing the user's access to each project:
+ * access_role, and shared_by (owner's name, only for projects shared with the user)
+ * @param {string} userParam - Query placeholder holding the user ID (e.g. '$1')
+ * @param {string} [alias] - Alias of the projects table
+ * @returns {string}
+ */
+function accessColumns(userParam, alias = 'p') {
+  return `CASE WHEN ${alias}.user_id = ${userParam} THEN 'owner' ELSE (
+      SELECT pc.role FROM project_collaborators pc
+      WHERE pc.project_id = ${alias}.id AND pc.user_id = ${userParam}
+    ) END AS access_role,
+    CASE WHEN ${alias}.user_id = ${userParam} THEN NULL ELSE (
+      SELECT u.name FROM users u WHERE u.id = ${alias}.user_id
+    ) END AS shared_by`;
+}
+
+/**
+ * Load a project row with the user's access_role and shared_by
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User ID
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<Object|null>} Project row, or null without access
+ */
+async function loadProjectForUser(projectId, userId, client = db) {
+  const result = await client.query(
+    `SELECT p.*, ${accessColumns('$2')}
+     FROM projects p
+     WHERE p.id = $1 AND ${accessibleProjectsCondition('$2')}`,
+    [projectId, userId]
+  );
+
+  return result.rows[0] || null;
+}
+
+module.exports = {
+  ROLE_RANK,
+  getProjectRole,
+  hasRole,
+  accessibleProjectsCondition,
+  accessColumns,
+  loadProjectForUser,
+};
@@ -0,0 +1,477 @@
+/**
+ * Project Sync Service
+ * Maps the frontend SavedProject shape (tasks, subtasks, task states, time logs)
+ * onto the tasks and time_logs tables
+ */
+
+const db = require('../database/db');
+const { accessibleProjectsCondition, accessColumns } = require('./projectAccessService');
+
+/**
+ * Map frontend task/subtask status to the value stored in the database
+ * @param {string} status - Frontend status
+ * @returns {string} Database status
+ */
+function toDbStatus(status) {
+  if (!status || status === 'pending') {
+    return 'not-started';
+  }
+  return status;
+}
+
+/**
+ * Parse a numeric value that may arrive as a string or be empty
+ * @param {*} value - Value to parse
+ * @returns {number|null} Parsed number or null
+ */
+function toNumberOrNull(value) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const parsed = parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+const TASK_COLUMNS = [
+  'client_id', 'name', 'description', 'phase_id', 'phase_title', 'category',
+  'status', 'dependencies', 'estimated_hours', 'base_estimated_hours',
+  'raw_estimated_hours', 'state_estimated_hours', 'actual_hours', 'blocked_reason', 'completed_date',
+  'notes', 'sop_reference', 'critical_path', 'ai_generated', 'assigned_to',
+  'subtask_hour_mode', 'start_date', 'order', 'parent_task_id'
+];
+
+/**
+ * Insert a task row or update the existing one
+ * @param {Object} client - Database client (inside a transaction)
+ * @param {string} projectId - Project ID
+ * @param {string|undefined} existingId - UUID of the existing row, if any
+ * @param {Object} row - Column values keyed by TASK_COLUMNS
+ * @returns {Promise<string>} UUID of the stored row
+ */
+async function upsertTaskRow(client, projectId, existingId, row) {
+  const values = TASK_COLUMNS.map(column => row[column]);
+  const quoted = TASK_COLUMNS.map(column => `"${column}"`);
+
+  if (existingId) {
+    const assignments = quoted.map((column, index) => `${column} = $${index + 1}`);
+    await client.query(
+      `UPDATE tasks SET ${assignments.join(', ')}
+       WHERE id = $${values.length + 1} AND project_id = $${values.length + 2}`,
+      [...values, existingId, projectId]
+    );
+    return existingId;
+  }
+
+  const placeholders = values.map((_, index) => `$${index + 2}`);
+  const result = await client.query(
+    `INSERT INTO tasks (project_id, ${quoted.join(', ')})
+     VALUES ($1, ${placeholders.join(', ')})
+     RETURNING id`,
+    [projectId, ...values]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Load the UUIDs of a project's existing task and time log rows, keyed by frontend ID
+ * Subtasks and time logs are scoped to their parent task UUID.
+ * @param {Object} client - Database client (inside a transaction)
+ * @param {string} projectId - Project ID
+ * @returns {Promise<Object>} { tasks: Map, timeLogs: Map }
+ */
+async function loadExistingRows(client, projectId) {
+  const existingTasks = await client.query(
+    'SELECT id, client_id, parent_task_id FROM tasks WHERE project_id = $1',
+    [projectId]
+  );
+  const existingLogs = await client.query(
+    "SELECT id, client_id, task_id FROM time_logs WHERE project_id = $1 AND source = 'task_state'",
+    [projectId]
+  );
+
+  const tasks = new Map();
+  existingTasks.rows.forEach(row => {
+    const clientId = row.client_id || row.id;
+    const key = row.parent_task_id ? `${row.parent_task_id}/${clientId}` : clientId;
+    tasks.set(key, row.id);
+  });
+
+  const timeLogs = new Map();
+  existingLogs.rows.forEach(row => {
+    timeLogs.set(`${row.task_id}/${row.client_id || row.id}`, row.id);
+  });
+
+  return { tasks, timeLogs };
+}
+
+/**
+ * Persist one top-level task with its state, subtasks and time logs
+ * Subtasks and time logs of the task that are no longer present are removed.
+ * @param {Object} client - Database client (inside a transaction)
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User performing the sync (owner of new time logs)
+ * @param {Object} existing - Result of loadExistingRows
+ * @param {Object} task - Frontend Task
+ * @param {Object} state - Frontend TaskState
+ * @param {number} order - Position of the task in the project
+ * @returns {Promise<string>} UUID of the stored task row
+ */
+async function upsertTask(client, projectId, userId, existing, task, state = {}, order = 0) {
+  const taskId = await upsertTaskRow(client, projectId, existing.tasks.get(task.id), {
+    client_id: task.id,
+    name: task.task || 'Untitled Task',
+    description: task.notes || '',
+    phase_id: task.phase || null,
+    phase_title: task.phaseTitle || null,
+    category: task.category || 'other',
+    status: toDbStatus(state.status),
+    dependencies: task.dependencies || [],
+    estimated_hours: toNumberOrNull(task.adjustedEstHours) || 0,
+    base_estimated_hours: toNumberOrNull(task.baseEstHours),
+    raw_estimated_hours: toNumberOrNull(task.rawEstHours),
+    state_estimated_hours: toNumberOrNull(state.estHours),
+    actual_hours: toNumberOrNull(state.actualHours) || 0,
+    blocked_reason: state.blockedReason || null,
+    completed_date: state.completedDate || null,
+    notes: state.notes || '',
+    sop_reference: task.sopReference || null,
+    critical_path: task.criticalPath || false,
+    ai_generated: task.aiGenerated || false,
+    assigned_to: task.assignedTo || null,
+    subtask_hour_mode: task.subtaskHourMode || null,
+    start_date: task.startDate || null,
+    order,
+    parent_task_id: null,
+  });
+
+  const keptSubtaskIds = [];
+
+  for (const subtask of task.subtasks || []) {
+    const subtaskId = await upsertTaskRow(client, projectId, existing.tasks.get(`${taskId}/${subtask.id}`), {
+      client_id: subtask.id,
+      name: subtask.name || 'Untitled Subtask',
+      description: '',
+      phase_id: task.phase || null,
+      phase_title: task.phaseTitle || null,
+      category: task.category || 'other',
+      status: toDbStatus(subtask.status),
+      dependencies: [],
+      estimated_hours: toNumberOrNull(subtask.estHours),
+      base_estimated_hours: null,
+      raw_estimated_hours: null,
+      state_estimated_hours: null,
+      actual_hours: toNumberOrNull(subtask.actualHours) || 0,
+      blocked_reason: null,
+      completed_date: subtask.completedDate || null,
+      notes: subtask.notes || '',
+      sop_reference: null,
+      critical_path: false,
+      ai_generated: false,
+      assigned_to: null,
+      subtask_hour_mode: null,
+      start_date: null,
+      order: subtask.order || 0,
+      parent_task_id: taskId,
+    });
+
+    keptSubtaskIds.push(subtaskId);
+  }
+
+  // Remove subtasks that were deleted locally
+  await client.query(
+    'DELETE FROM tasks WHERE parent_task_id = $1 AND NOT (id = ANY($2::uuid[]))',
+    [taskId, keptSubtaskIds]
+  );
+
+  await syncTaskTimeLogs(client, projectId, userId, existing, taskId, state.timeLogs || []);
+
+  return taskId;
+}
+
+/**
+ * Persist all tasks, subtasks and task states of a project
+ * Rows are matched by frontend ID so server UUIDs stay stable between syncs;
+ * anything no longer present in the project is removed.
+ * @param {Object} client - Database client (inside a transaction)
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User performing the sync (owner of new time logs)
+ * @param {Array} tasks - Frontend Task[]
+ * @param {Object} taskStates - Frontend { [taskId]: TaskState }
+ * @returns {Promise<void>}
+ */
+async function syncProjectTasks(client, projectId, userId, tasks = [], taskStates = {}) {
+  const existing = await loadExistingRows(client, projectId);
+  const keptTaskIds = [];
+
+  for (const [index, task] of tasks.entries()) {
+    keptTaskIds.push(await upsertTask(client, projectId, userId, existing, task, taskStates[task.id], index));
+  }
+
+  // Remove tasks that were deleted locally (subtasks and time logs cascade)
+  await client.query(
+    'DELETE FROM tasks WHERE project_id = $1 AND parent_task_id IS NULL AND NOT (id = ANY($2::uuid[]))',
+    [projectId, keptTaskIds]
+  );
+}
+
+/**
+ * Apply an incremental patch to a project's tasks
+ * Only the tasks in the patch are written; the rest of the project is untouched.
+ * @param {Object} client - Database client (inside a transaction)
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User performing the sync
+ * @param {Object} patch - { upsertTasks: [{ task, state, order }], deleteTaskIds, taskOrder }
+ * @returns {Promise<void>}
+ */
+async function applyProjectPatch(client, projectId, userId, patch) {
+  const { upsertTasks = [], deleteTaskIds = [], taskOrder } = patch;
+
+  if (deleteTaskIds.length > 0) {
+    await client.query(
+      `DELETE FROM tasks
+       WHERE project_id = $1 AND parent_task_id IS NULL AND COALESCE(client_id, id::text) = ANY($2::text[])`,
+      [projectId, deleteTaskIds]
+    );
+  }
+
+  if (upsertTasks.length > 0) {
+    const existing = await loadExistingRows(client, projectId);
+    for (const { task, state, order } of upsertTasks) {
+      await upsertTask(client, projectId, userId, existing, task, state, order);
+    }
+  }
+
+  if (taskOrder) {
+    await client.query(
+      `UPDATE tasks SET "order" = ordered.position - 1
+       FROM unnest($2::text[]) WITH ORDINALITY AS ordered(client_id, position)
+       WHERE tasks.project_id = $1 AND tasks.parent_task_id IS NULL
+         AND COALESCE(tasks.client_id, tasks.id::text) = ordered.client_id
+         AND tasks."order" IS DISTINCT FROM ordered.position - 1`,
+      [projectId, taskOrder]
+    );
+  }
+}
+
+/**
+ * Persist the time logs of one task
+ * Only touches 'task_state' rows; entries from /api/time-logs are left alone.
+ * The app logs new time as entries, so these only carry older logs (and
+ * drop the copies of entries timers used to leave among them).
+ * @param {Object} client - Database client (inside a transaction)
+ * @param {string} projectId - Project ID
+ * @param {string} userId - User performing the sync
+ * @param {Object} existing - Result of loadExistingRows
+ * @param {string} taskId - Task UUID
+ * @param {Array} timeLogs - Frontend TimeLog[]
+ * @returns {Promise<void>}
+ */
+async function syncTaskTimeLogs(client, projectId, userId, existing, taskId, timeLogs) {
+  const keptLogIds = [];
+
+  for (const log of timeLogs) {
+    const existingId = existing.timeLogs.get(`${taskId}/${log.id}`);
+
+    if (existingId) {
+      await client.query(
+        `UPDATE time_logs
+         SET date = $1, hours = $2, notes = $3, logged_by = $4, billable = $5
+         WHERE id = $6`,
+        [log.date, toNumberOrNull(log.hours) || 0, log.notes || null, log.loggedBy || null, log.billable !== false, existingId]
+      );
+      keptLogIds.push(existingId);
+    } else {
+      const result = await client.query(
+        `INSERT INTO time_logs (project_id, task_id, user_id, client_id, logged_by, date, hours, notes, billable)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING id`,
+        [projectId, taskId, userId, log.id, log.loggedBy || null, log.date, toNumberOrNull(log.hours) || 0, log.notes || null, log.billable !== false]
+      );
+      keptLogIds.push(result.rows[0].id);
+    }
+  }
+
+  await client.query(
+    "DELETE FROM time_logs WHERE task_id = $1 AND source = 'task_state' AND NOT (id = ANY($2::uuid[]))",
+    [taskId, keptLogIds]
+  );
+}
+
+/**
+ * Load task and time log rows for one or more projects
+ * Task rows carry parent_client_id and time log rows carry task_client_id so the
+ * frontend can rebuild Task.subtasks and TaskState.timeLogs.
+ * @param {Array<string>} projectIds - Project IDs
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @param {Array<string>} [taskIds] - Only load these top-level task UUIDs (with their subtasks and time logs)
+ * @returns {Promise<Object>} { [projectId]: { tasks, timeLogs } }
+ */
+async function loadProjectTasks(projectIds, client = db, taskIds = null) {
+  const byProject = {};
+  projectIds.forEach(id => {
+    byProject[id] = { tasks: [], timeLogs: [] };
+  });
+
+  if (projectIds.length === 0) {
+    return byProject;
+  }
+
+  const params = [projectIds];
+  let taskFilter = '';
+  if (taskIds) {
+    params.push(taskIds);
+    taskFilter = 'AND COALESCE(t.parent_task_id, t.id) = ANY($2::uuid[])';
+  }
+
+  const tasksResult = await client.query(
+    `SELECT t.*, to_char(t.start_date, 'YYYY-MM-DD') AS start_date,
+            parent.client_id AS parent_client_id
+     FROM tasks t
+     LEFT JOIN tasks parent ON parent.id = t.parent_task_id
+     WHERE t.project_id = ANY($1) ${taskFilter}
+     ORDER BY t."order", t.created_at`,
+    params
+  );
+
+  const timeLogsResult = await client.query(
+    `SELECT l.id, l.project_id, l.task_id, l.user_id, l.client_id, l.logged_by,
+            to_char(l.date, 'YYYY-MM-DD') AS date, l.hours, l.notes, l.billable,
+            l.created_at, l.updated_at,
+            COALESCE(t.client_id, t.id::text) AS task_client_id
+     FROM time_logs l
+     LEFT JOIN tasks t ON t.id = l.task_id
+     WHERE l.project_id = ANY($1) AND l.source = 'task_state' ${taskFilter}
+     ORDER BY l.date DESC`,
+    params
+  );
+
+  tasksResult.rows.forEach(row => byProject[row.project_id].tasks.push(row));
+  timeLogsResult.rows.forEach(row => byProject[row.project_id].timeLogs.push(row));
+
+  return byProject;
+}
+
+/**
+ * Get the current sync cursor (just below the oldest transaction still running)
+ * Every change at or below it has committed, and changes committed later land
+ * above it, so nothing is skipped; reading it never waits for writers. Read it
+ * before reading changed rows so anything committed meanwhile is sent again next time.
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<string>} Cursor (bigint as string)
+ */
+async function getChangeCursor(client = db) {
+  const result = await client.query('SELECT current_change_cursor() AS cursor');
+  return String(result.rows[0].cursor);
+}
+
+/**
+ * Load everything that changed since a cursor in the projects a user owns or collaborates on
+ * Changed tasks are returned whole (with all subtasks and time logs) whenever
+ * the task, one of its subtasks or one of its time logs changed or was deleted.
+ * @param {string} userId - User ID
+ * @param {string} since - Cursor from a previous call
+ * @returns {Promise<Object>} { cursor, changes: [{ project, tasks, timeLogs, deletedTaskIds, taskOrder }], deletedProjectIds, projectIds }
+ */
+async function loadProjectChanges(userId, since) {
+  const cursor = await getChangeCursor();
+
+  // Top-level tasks touched since the cursor, directly or through a subtask or time log
+  const changedTasksResult = await db.query(
+    `SELECT DISTINCT t.project_id, COALESCE(t.parent_task_id, t.id) AS task_id
+     FROM tasks t
+     JOIN projects p ON p.id = t.project_id
+     WHERE ${accessibleProjectsCondition('$1')} AND t.change_seq > $2
+     UNION
+     SELECT DISTINCT t.project_id, COALESCE(t.parent_task_id, t.id) AS task_id
+     FROM time_logs l
+     JOIN tasks t ON t.id = l.task_id
+     JOIN projects p ON p.id = t.project_id
+     WHERE ${accessibleProjectsCondition('$1')} AND l.change_seq > $2 AND l.source = 'task_state'
+     UNION
+     SELECT DISTINCT t.project_id, COALESCE(t.parent_task_id, t.id) AS task_id
+     FROM sync_tombstones tb
+     JOIN tasks t ON t.id = tb.parent_id
+     JOIN projects p ON p.id = t.project_id
+     WHERE ${accessibleProjectsCondition('$1')} AND tb.seq > $2`,
+    [userId, since]
+  );
+
+  // Top-level tasks deleted since the cursor (and not re-created under the same ID)
+  const deletedTasksResult = await db.query(
+    `SELECT DISTINCT tb.project_id, tb.client_id
+     FROM sync_tombstones tb
+     JOIN projects p ON p.id = tb.project_id
+     WHERE ${accessibleProjectsCondition('$1')} AND tb.seq > $2 AND tb.entity_type = 'task' AND tb.parent_id IS NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM tasks t
+         WHERE t.project_id = tb.project_id AND t.parent_task_id IS NULL
+           AND COALESCE(t.client_id, t.id::text) = tb.client_id
+       )`,
+    [userId, since]
+  );
+
+  const deletedProjectsResult = await db.query(
+    `SELECT DISTINCT tb.project_id
+     FROM sync_tombstones tb
+     WHERE tb.user_id = $1 AND tb.seq > $2 AND tb.entity_type = 'project'
+       AND NOT EXISTS (SELECT 1 FROM projects p WHERE p.id = tb.project_id)`,
+    [userId, since]
+  );
+
+  const changedProjectsResult = await db.query(
+    `SELECT p.*, ${accessColumns('$1')}
+     FROM projects p
+     WHERE ${accessibleProjectsCondition('$1')} AND (p.change_seq > $2 OR p.id = ANY($3))`,
+    [
+      userId,
+      since,
+      [...changedTasksResult.rows, ...deletedTasksResult.rows].map(row => row.project_id)
+    ]
+  );
+
+  // Every project the user can access, so clients notice shares they gained or lost
+  const accessibleResult = await db.query(
+    `SELECT p.id FROM projects p WHERE ${accessibleProjectsCondition('$1')}`,
+    [userId]
+  );
+
+  const projectIds = changedProjectsResult.rows.map(p => p.id);
+  const taskData = await loadProjectTasks(projectIds, db, changedTasksResult.rows.map(row => row.task_id));
+
+  // Full task order of each changed project, so clients can place new and moved tasks
+  const orderResult = await db.query(
+    `SELECT project_id, array_agg(COALESCE(client_id, id::text) ORDER BY "order", created_at) AS task_order
+     FROM tasks
+     WHERE project_id = ANY($1) AND parent_task_id IS NULL
+     GROUP BY project_id`,
+    [projectIds]
+  );
+  const orderByProject = {};
+  orderResult.rows.forEach(row => {
+    orderByProject[row.project_id] = row.task_order;
+  });
+
+  const changes = changedProjectsResult.rows.map(project => ({
+    project,
+    ...taskData[project.id],
+    deletedTaskIds: deletedTasksResult.rows
+      .filter(row => row.project_id === project.id)
+      .map(row => row.client_id),
+    taskOrder: orderByProject[project.id] || []
+  }));
+
+  return {
+    cursor,
+    changes,
+    deletedProjectIds: deletedProjectsResult.rows.map(row => row.project_id),
+    projectIds: accessibleResult.rows.map(row => row.id)
+  };
+}
+
+module.exports = {
+  syncProjectTasks,
+  applyProjectPatch,
+  loadProjectTasks,
+  getChangeCursor,
+  loadProjectChanges,
+};
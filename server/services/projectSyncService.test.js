@@ -0,0 +1,89 @@
+/**
+ * Project Sync Service tests
+ * Run with: npm test (needs a PostgreSQL database with schema.sql applied;
+ * skipped when none is reachable)
+ */
+
+const test = require('node:test');
+const assert = require('node:assert');
+const db = require('../database/db');
+const { getChangeCursor } = require('./projectSyncService');
+
+const TABLE = `change_cursor_test_${process.pid}`;
+
+/**
+ * Connect a client, or return null when no database is reachable
+ * @returns {Promise<Object|null>} Client
+ */
+async function connectOrNull() {
+  try {
+    return await db.pool.connect();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve with a promise's value, or reject if it takes longer than a second
+ * @param {Promise} promise
+ * @returns {Promise}
+ */
+function withinASecond(promise) {
+  let timer;
+  const timeout = new Promise((resolve, reject) => {
+    timer = setTimeout(() => reject(new Error('timed out waiting for the cursor')), 1000);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+test('sync cursor never skips a change that commits after a later one', async (t) => {
+  const setup = await connectOrNull();
+  if (!setup) {
+    t.skip('no database reachable');
+    await db.pool.end();
+    return;
+  }
+
+  const writerA = await db.pool.connect();
+  const writerB = await db.pool.connect();
+  const reader = await db.pool.connect();
+  const changedSince = async (since) => (await reader.query(
+    `SELECT change_seq FROM ${TABLE} WHERE change_seq > $1 ORDER BY change_seq`,
+    [since]
+  )).rows.map(row => row.change_seq);
+
+  try {
+    // A scratch table numbered the same way as projects, tasks and time logs
+    await setup.query(`
+      CREATE TABLE ${TABLE} (
+        id SERIAL PRIMARY KEY,
+        change_seq BIGINT NOT NULL DEFAULT next_change_seq()
+      );
+      CREATE TRIGGER set_${TABLE}_change_seq BEFORE INSERT OR UPDATE ON ${TABLE}
+        FOR EACH ROW EXECUTE FUNCTION set_change_seq();
+    `);
+    const since = await getChangeCursor(reader);
+
+    // A writes first, B writes later and commits first
+    await writerA.query('BEGIN');
+    const seqA = (await writerA.query(`INSERT INTO ${TABLE} DEFAULT VALUES RETURNING change_seq`)).rows[0].change_seq;
+    await writerB.query('BEGIN');
+    const seqB = (await writerB.query(`INSERT INTO ${TABLE} DEFAULT VALUES RETURNING change_seq`)).rows[0].change_seq;
+    await writerB.query('COMMIT');
+
+    // A pull in between gets its cursor right away and sees B's row
+    const cursor = await withinASecond(getChangeCursor(reader));
+    assert.deepStrictEqual(await changedSince(since), [seqB]);
+    assert.ok(BigInt(cursor) < BigInt(seqA), 'cursor moved past a change that is still uncommitted');
+
+    // Once A commits, the next pull from that cursor sends it
+    await writerA.query('COMMIT');
+    assert.ok((await changedSince(cursor)).includes(seqA));
+  } finally {
+    await writerA.query('ROLLBACK').catch(() => {});
+    await writerB.query('ROLLBACK').catch(() => {});
+    await setup.query(`DROP TABLE IF EXISTS ${TABLE}`);
+    [setup, writerA, writerB, reader].forEach(client => client.release());
+    await db.pool.end();
+  }
+});
@@ -0,0 +1,127 @@
+/**
+ * Realtime Service
+ * Pushes project change and presence events to connected clients over
+ * Server-Sent Events. Subscribers are kept in memory per project, so events
+ * only reach clients connected to the same server instance.
+ */
+
+// Comment line sent periodically so proxies don't close idle streams
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// projectId -> Map<connectionId, { res, user }>
+const subscribers = new Map();
+let nextConnectionId = 1;
+
+/**
+ * Write a single SSE event
+ * @param {Object} res - Express response held open for the stream
+ * @param {string} event - Event name
+ * @param {Object} data - JSON payload
+ */
+function writeEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Send an event to every client subscribed to a project
+ * @param {string} projectId - Project ID
+ * @param {string} event - Event name
+ * @param {Object} data - JSON payload
+ */
+function broadcast(projectId, event, data) {
+  const connections = subscribers.get(projectId);
+  if (!connections) return;
+
+  connections.forEach(({ res }) => writeEvent(res, event, data));
+}
+
+/**
+ * Get the users currently viewing a project (one entry per user)
+ * @param {string} projectId - Project ID
+ * @returns {Array} [{ id, name, initials, color, connections }]
+ */
+function getPresence(projectId) {
+  const connections = subscribers.get(projectId);
+  if (!connections) return [];
+
+  const byUser = new Map();
+  connections.forEach(({ user }) => {
+    const viewer = byUser.get(user.id);
+    if (viewer) {
+      viewer.connections += 1;
+    } else {
+      byUser.set(user.id, { ...user, connections: 1 });
+    }
+  });
+
+  return Array.from(byUser.values());
+}
+
+/**
+ * Broadcast the current viewers of a project
+ * @param {string} projectId - Project ID
+ */
+function broadcastPresence(projectId) {
+  broadcast(projectId, 'presence', { projectId, viewers: getPresence(projectId) });
+}
+
+/**
+ * Open an event stream for a project on the given response
+ * @param {string} projectId - Project ID
+ * @param {Object} user - { id, name, initials, color } of the viewer
+ * @param {Object} res - Express response to hold open
+ * @returns {Function} Call when the client disconnects
+ */
+function subscribe(projectId, user, res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+  });
+
+  const connectionId = nextConnectionId++;
+  if (!subscribers.has(projectId)) {
+    subscribers.set(projectId, new Map());
+  }
+  subscribers.get(projectId).set(connectionId, { res, user });
+
+  writeEvent(res, 'connected', { projectId, connectionId });
+  broadcastPresence(projectId);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    clearInterval(heartbeat);
+
+    const connections = subscribers.get(projectId);
+    if (!connections) return;
+
+    connections.delete(connectionId);
+    if (connections.size === 0) {
+      subscribers.delete(projectId);
+    } else {
+      broadcastPresence(projectId);
+    }
+  };
+}
+
+/**
+ * Notify subscribers that a project changed
+ * Clients pull the actual changes through GET /api/projects/changes.
+ * @param {string} projectId - Project ID
+ * @param {Object} change - { revision, userId, deleted }
+ */
+function publishProjectChange(projectId, change) {
+  broadcast(projectId, 'change', {
+    projectId,
+    ...change,
+    changedAt: new Date().toISOString()
+  });
+}
+
+module.exports = {
+  subscribe,
+  getPresence,
+  publishProjectChange,
+};
@@ -0,0 +1,108 @@
+/**
+ * Timesheet Service
+ * Weekly timesheets lock the time log entries of one person on one project
+ * for a week (Monday to Sunday) while they are submitted or approved.
+ */
+
+const db = require('../database/db');
+
+// Statuses that keep a week's entries from changing
+const LOCKED_STATUSES = ['submitted', 'approved'];
+
+/**
+ * SQL expression for the Monday of the week a date falls in
+ * @param {string} dateSql - Date expression or placeholder (e.g. '$3', 'l.date')
+ * @returns {string}
+ */
+function weekStartSql(dateSql) {
+  return `date_trunc('week', ${dateSql}::date)::date`;
+}
+
+/**
+ * Hold a person's week until the transaction ends
+ * Writers hold it shared while they check the week and write to it; a submit
+ * holds it alone, so it waits for those writes to commit (and counts them) and
+ * writers that come later see the submitted week. It also covers weeks that
+ * have no timesheet row yet to lock.
+ * @param {string} projectId - Project ID
+ * @param {string} loggedBy - Person the time is logged for
+ * @param {string} date - Any day of the week (YYYY-MM-DD)
+ * @param {Object} client - Database client in a transaction
+ * @param {boolean} [exclusive] - Hold it alone (for submitting)
+ * @returns {Promise<void>}
+ */
+async function lockWeek(projectId, loggedBy, date, client, exclusive = false) {
+  await client.query(
+    `SELECT ${exclusive ? 'pg_advisory_xact_lock' : 'pg_advisory_xact_lock_shared'}(
+       hashtext('timesheet_week'), hashtext($1::text || ':' || $2::text || ':' || ${weekStartSql('$3')}::text))`,
+    [projectId, loggedBy, date]
+  );
+}
+
+/**
+ * Make sure entries for a person's week can still change, and keep it that way
+ * Call it in the same transaction as the write: the week (and its timesheet
+ * row, FOR SHARE) stays held until the transaction ends, so it can't be
+ * submitted between the check and the write.
+ * @param {string} projectId - Project ID
+ * @param {string} loggedBy - Person the time is logged for
+ * @param {string} date - Any day of the week (YYYY-MM-DD)
+ * @param {Object} client - Database client in a transaction
+ * @returns {Promise<void>} Rejects with a 409 error when the week is locked
+ */
+async function assertWeekOpen(projectId, loggedBy, date, client) {
+  await lockWeek(projectId, loggedBy, date, client);
+  const result = await client.query(
+    `SELECT status FROM timesheets
+     WHERE project_id = $1 AND logged_by = $2 AND week_start = ${weekStartSql('$3')}
+     FOR SHARE`,
+    [projectId, loggedBy, date]
+  );
+  const status = result.rows[0]?.status;
+  if (!LOCKED_STATUSES.includes(status)) return;
+
+  const error = new Error(status === 'approved'
+    ? 'This week\'s timesheet is approved, so its time can\'t be changed'
+    : 'This week\'s timesheet is waiting for approval, so its time can\'t be changed');
+  error.status = 409;
+  throw error;
+}
+
+/**
+ * Find the account a timesheet person belongs to
+ * People are picked from the browser's team list, so logged_by is only an
+ * account ID when the person was added from one; otherwise their email is matched.
+ * @param {string} loggedBy - Person the time is logged for
+ * @param {string} [email] - The person's email
+ * @param {Object} [client] - Database client (defaults to the pool)
+ * @returns {Promise<string|null>} User ID, or null if the person has no account
+ */
+async function resolvePersonAccount(loggedBy, email, client = db) {
+  const result = await client.query(
+    `SELECT id FROM users
+     WHERE id::text = $1 OR ($2::text IS NOT NULL AND LOWER(email) = LOWER($2))
+     ORDER BY id::text = $1 DESC
+     LIMIT 1`,
+    [loggedBy, email || null]
+  );
+  return result.rows[0]?.id || null;
+}
+
+/**
+ * Whether a timesheet holds a user's own time, or was submitted by them
+ * @param {Object} timesheet - timesheets row (account_id, submitted_by)
+ * @param {string} userId - User ID
+ * @returns {boolean}
+ */
+function isOwnTimesheet(timesheet, userId) {
+  return timesheet.account_id === userId || timesheet.submitted_by === userId;
+}
+
+module.exports = {
+  LOCKED_STATUSES,
+  weekStartSql,
+  lockWeek,
+  assertWeekOpen,
+  resolvePersonAccount,
+  isOwnTimesheet,
+};
@@ -0,0 +1,124 @@
+/**
+ * Timesheet Service tests
+ * Run with: npm test (the account lookup and week locking need a PostgreSQL
+ * database with schema.sql applied and are skipped when none is reachable)
+ */
+
+const test = require('node:test');
+const assert = require('node:assert');
+const db = require('../database/db');
+const { lockWeek, assertWeekOpen, isOwnTimesheet, resolvePersonAccount } = require('./timesheetService');
+
+const APPROVER = '6f1c1b7e-4a3d-4e0b-9a52-1d2f3c4b5a60';
+const EDITOR = '0b9e2c4d-7f61-4c2a-8e3b-5a6d7c8e9f01';
+
+test('a week logged for an approver under a browser-side person ID is their own', () => {
+  const timesheet = { logged_by: 'user_1730000000000_k3j9x2mqa', account_id: APPROVER, submitted_by: EDITOR };
+  assert.strictEqual(isOwnTimesheet(timesheet, APPROVER), true);
+});
+
+test('a week the approver submitted is their own', () => {
+  const timesheet = { logged_by: 'user_1730000000000_k3j9x2mqa', account_id: null, submitted_by: APPROVER };
+  assert.strictEqual(isOwnTimesheet(timesheet, APPROVER), true);
+});
+
+test('someone else\'s week, submitted by someone else, can be reviewed', () => {
+  const timesheet = { logged_by: 'user_1730000000000_k3j9x2mqa', account_id: EDITOR, submitted_by: EDITOR };
+  assert.strictEqual(isOwnTimesheet(timesheet, APPROVER), false);
+});
+
+test('timesheet people resolve to their account by ID or email', async (t) => {
+  let client;
+  try {
+    client = await db.pool.connect();
+  } catch {
+    t.skip('no database reachable');
+    await db.pool.end();
+    return;
+  }
+
+  try {
+    await client.query('BEGIN');
+    const email = `timesheet-test-${process.pid}@example.com`;
+    const accountId = (await client.query(
+      `INSERT INTO users (email, password_hash, name) VALUES ($1, 'x', 'Test') RETURNING id`,
+      [email]
+    )).rows[0].id;
+
+    assert.strictEqual(await resolvePersonAccount(accountId, null, client), accountId);
+    assert.strictEqual(await resolvePersonAccount('user_1730000000000_k3j9x2mqa', email.toUpperCase(), client), accountId);
+    assert.strictEqual(await resolvePersonAccount('user_1730000000000_k3j9x2mqa', null, client), null);
+  } finally {
+    await client.query('ROLLBACK');
+    client.release();
+  }
+});
+
+test('a week can\'t be submitted between the check and the write that follows it', async (t) => {
+  let setup;
+  try {
+    setup = await db.pool.connect();
+  } catch {
+    t.skip('no database reachable');
+    await db.pool.end();
+    return;
+  }
+
+  const writer = await db.pool.connect();
+  const submitter = await db.pool.connect();
+  const projectId = `timesheet_test_${process.pid}`;
+  const person = 'user_1730000000000_k3j9x2mqa';
+  const date = '2026-03-04';
+  let accountId;
+
+  try {
+    accountId = (await setup.query(
+      `INSERT INTO users (email, password_hash, name) VALUES ($1, 'x', 'Test') RETURNING id`,
+      [`timesheet-lock-${process.pid}@example.com`]
+    )).rows[0].id;
+    await setup.query(`INSERT INTO projects (id, user_id, name) VALUES ($1, $2, 'Test')`, [projectId, accountId]);
+
+    // The writer finds the week open and logs time, but hasn't committed yet
+    await writer.query('BEGIN');
+    await assertWeekOpen(projectId, person, date, writer);
+    await writer.query(
+      `INSERT INTO time_logs (project_id, user_id, source, task_client_id, task_name, logged_by, date, hours)
+       VALUES ($1, $2, 'entry', 't1', 'Task', $3, $4, 3)`,
+      [projectId, accountId, person, date]
+    );
+
+    // A submit waits for it, then counts its hours
+    await submitter.query('BEGIN');
+    let submitted = false;
+    const submitting = lockWeek(projectId, person, date, submitter, true).then(async () => {
+      const result = await submitter.query(
+        `INSERT INTO timesheets (project_id, logged_by, week_start, total_hours)
+         VALUES ($1, $2, date_trunc('week', $3::date)::date,
+           (SELECT SUM(hours) FROM time_logs WHERE project_id = $1 AND logged_by = $2))
+         RETURNING total_hours`,
+        [projectId, person, date]
+      );
+      submitted = true;
+      return result.rows[0].total_hours;
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.strictEqual(submitted, false, 'submitted while a write to the week was in flight');
+
+    await writer.query('COMMIT');
+    assert.strictEqual(Number(await submitting), 3);
+
+    // A writer that comes along now waits for the submit and finds the week locked
+    await writer.query('BEGIN');
+    const checking = assert.rejects(assertWeekOpen(projectId, person, date, writer), { status: 409 });
+    await submitter.query('COMMIT');
+    await checking;
+    await writer.query('ROLLBACK');
+  } finally {
+    await writer.query('ROLLBACK').catch(() => {});
+    await submitter.query('ROLLBACK').catch(() => {});
+    await setup.query('DELETE FROM projects WHERE id = $1', [projectId]);
+    if (accountId) await setup.query('DELETE FROM users WHERE id = $1', [accountId]);
+    [setup, writer, submitter].forEach(client => client.release());
+    await db.pool.end();
+  }
+});
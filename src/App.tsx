@@ -2,15 +2,23 @@
 // Universal Project Manager - Main Application
 // ============================================
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { theme } from './config/theme';
-import { DEFAULT_PROJECT_META, DEFAULT_CATEGORIES } from './config/constants';
+import { DEFAULT_PROJECT_META, DEFAULT_CATEGORIES, DEFAULT_WORKING_CALENDAR } from './config/constants';
 import { useTaskManagement } from './hooks/useTaskManagement';
 import { useIsMobileOrTablet } from './hooks/useMediaQuery';
 import { storageService } from './services/storageService';
-import { aiService } from './services/aiService';
+import { aiService, isAbortError } from './services/aiService';
 import { calculateProgress, calculatePercentComplete } from './utils/calculations';
+import { computeCriticalPath, applyCriticalPath } from './utils/criticalPath';
+import { scheduleResources } from './utils/resourceScheduler';
+import { parseDay } from './utils/ganttSchedule';
+import { applyIterationChanges, revertIterationChanges } from './utils/iterationChanges';
+import { buildCalibrationModel, calibrateTasks } from './utils/estimateCalibration';
+import { seedRisksFromAI, getRiskExposure } from './utils/riskRegister';
+import { matchesTaskQuery, applyTaskMutation, type TaskCommandContext } from './utils/taskCommands';
 import { exportToCSV } from './utils/csvExport';
+import { getSubtaskLoggedHours, dropCopiedTimeLogs } from './utils/loggedHours';
 import AIAnalysisModal from './components/modals/AIAnalysisModal';
 import ImportModal from './components/modals/ImportModal';
 import AddTaskModal from './components/modals/AddTaskModal';
@@ -26,6 +34,9 @@ import SettingsModal from './components/modals/SettingsModal';
 import NewProjectChoiceModal from './components/modals/NewProjectChoiceModal';
 import CreateBlankProjectModal from './components/modals/CreateBlankProjectModal';
 import ImportProjectModal from './components/modals/ImportProjectModal';
+import ConflictResolutionModal from './components/modals/ConflictResolutionModal';
+import RiskRegisterModal from './components/modals/RiskRegisterModal';
+import AIReportsModal from './components/modals/AIReportsModal';
 import DropdownButton from './components/DropdownButton';
 import DevNotes from './components/dev/DevNotes';
 import Dashboard from './components/Dashboard';
@@ -34,10 +45,11 @@ import { SubtaskList } from './components/SubtaskList';
 import { TimeTrackingModal } from './components/modals/TimeTrackingModal';
 import { UserManagementModal } from './components/modals/UserManagementModal';
 import { TimeLogViewerModal } from './components/modals/TimeLogViewerModal';
+import TimesheetModal from './components/modals/TimesheetModal';
 import Login from './components/Login';
 import Register from './components/Register';
 import { MobileNav, MobileTaskCard } from './components/mobile';
-import type { ProjectMeta, AIAnalysisRequest, TaskStatus, Task, Collaborator, SavedProject, IterationResponse } from './types';
+import type { ProjectMeta, AIAnalysisRequest, AIRequestOptions, TaskStatus, Task, Collaborator, SavedProject, IterationResponse, IterationUndoEntry, MergeConflict, ConflictResolution, ProjectViewer, Risk, RiskFactor, TaskCommand, TaskMutation, CalibrationModel } from './types';
 import {
   getProject,
   saveProject as saveProjectToStorage,
@@ -46,12 +58,25 @@ import {
   syncFromServer,
   setSyncEnabled,
   setSyncStatusCallback,
+  setPendingChangesCallback,
+  startOutboxReplay,
+  setProjectMergeCallback,
+  getPendingConflicts,
+  resolveConflicts,
+  handleRemoteChange,
   getLastSyncTime,
+  getAllProjects,
 } from './services/projectStorage';
-import { createTimeLog } from './services/timeLogService';
+import { subscribeToProject } from './services/realtimeService';
+import { createTimeLog, uploadLocalTimeLogs, getAllTimeLogs, getProjectTimeLogs, getActiveTimer, startTimer, stopTimer, getTimerElapsedSeconds, type ActiveTimer, type TimeLogEntry } from './services/timeLogService';
+import { clearOutbox, getPendingCount } from './services/syncOutbox';
 import { getActiveUsers } from './services/userService';
 import * as authService from './services/authApiService';
 import { SyncIndicator, type SyncStatus } from './components/SyncIndicator';
+import { PresenceIndicator } from './components/PresenceIndicator';
+import { TaskCommandBar } from './components/TaskCommandBar';
+import { TaskTimer } from './components/TaskTimer';
+import { GanttChart } from './components/GanttChart';
 
 interface MoveHistory {
   taskId: string;
@@ -59,6 +84,18 @@ interface MoveHistory {
   toIndex: number;
 }
 
+/**
+ * Learn estimate calibration from every project's completed tasks and the
+ * time logged on them
+ */
+async function loadCalibrationModel(): Promise<CalibrationModel> {
+  const entries = await getAllTimeLogs().catch(error => {
+    console.error('[Calibration] Failed to load time logs:', error);
+    return [] as TimeLogEntry[];
+  });
+  return buildCalibrationModel(getAllProjects(), entries);
+}
+
 function App() {
   // Authentication state
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
@@ -72,6 +109,7 @@ function App() {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
   const [syncError, setSyncError] = useState<string>('');
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(getLastSyncTime());
+  const [pendingChanges, setPendingChanges] = useState<number>(0);
 
   // Register sync status callback
   useEffect(() => {
@@ -89,11 +127,21 @@ function App() {
       }
     });
 
+    setPendingChangesCallback(setPendingChanges);
+
     return () => {
       setSyncStatusCallback(null);
+      setPendingChangesCallback(null);
     };
   }, []);
 
+  // Move time logs kept in the browser to the server once their projects are synced
+  const uploadTimeLogs = () => {
+    uploadLocalTimeLogs()
+      .then(count => count > 0 && console.log(`[TimeLogs] Uploaded ${count} locally stored time logs`))
+      .catch(error => console.error('[TimeLogs] Upload failed:', error));
+  };
+
   // Check authentication status on mount
   useEffect(() => {
     const checkAuth = async () => {
@@ -118,6 +166,7 @@ function App() {
           setSyncEnabled(true);
           await syncFromServer();
           console.log('[Auth] Projects synced from server on app load');
+          uploadTimeLogs();
         } else {
           console.log('[Auth] No authenticated user found');
           setIsAuthenticated(false);
@@ -151,6 +200,7 @@ function App() {
       setSyncEnabled(true);
       await syncFromServer();
       console.log('[Auth] Projects synced from server after login');
+      uploadTimeLogs();
       console.log('[Auth] Login flow complete, showing dashboard');
     } catch (error: any) {
       console.error('[Auth] Login failed:', error);
@@ -181,15 +231,27 @@ function App() {
     }
   };
 
+  // Replay queued changes while logged in, and again whenever the connection returns
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return startOutboxReplay();
+  }, [isAuthenticated]);
+
   // Handle logout
   const handleLogout = async () => {
     try {
       await authService.logout();
       setIsAuthenticated(false);
       setCurrentUser(null);
+      setActiveTimer(null);
 
-      // Disable sync when logging out
+      // Disable sync when logging out; queued changes must not replay as the next user
       setSyncEnabled(false);
+      if (getPendingCount() > 0) {
+        console.warn(`Discarding ${getPendingCount()} unsynced change(s) on logout`);
+      }
+      clearOutbox();
+      setPendingChanges(0);
       console.log('Database sync disabled after logout');
     } catch (error) {
       console.error('Logout error:', error);
@@ -234,6 +296,8 @@ function App() {
   const [categories, setCategories] = useState<string[]>(savedData?.categories || DEFAULT_CATEGORIES);
   const [progressSnapshots, setProgressSnapshots] = useState<ProgressSnapshot[]>(savedData?.progressSnapshots || []);
   const [moveHistory, setMoveHistory] = useState<MoveHistory[]>([]);
+  const [iterationHistory, setIterationHistory] = useState<IterationUndoEntry[]>([]);
+  const [risks, setRisks] = useState<Risk[]>([]);
 
   // Modal states
   const [showNewProjectChoiceModal, setShowNewProjectChoiceModal] = useState(false);
@@ -255,6 +319,16 @@ function App() {
   const [showTimeTrackingModal, setShowTimeTrackingModal] = useState(false);
   const [showUserManagementModal, setShowUserManagementModal] = useState(false);
   const [showTimeLogViewerModal, setShowTimeLogViewerModal] = useState(false);
+  const [showTimesheetModal, setShowTimesheetModal] = useState(false);
+  const [showConflictModal, setShowConflictModal] = useState(false);
+  const [showRiskRegisterModal, setShowRiskRegisterModal] = useState(false);
+  const [showAIReportsModal, setShowAIReportsModal] = useState(false);
+
+  // Sync conflicts waiting for resolution in the current project
+  const [syncConflicts, setSyncConflicts] = useState<MergeConflict[]>([]);
+
+  // Other people with the current project open (realtime presence)
+  const [projectViewers, setProjectViewers] = useState<ProjectViewer[]>([]);
 
   // Dropdown state
   const [openDropdown, setOpenDropdown] = useState<'tools' | 'data' | 'export' | null>(null);
@@ -275,6 +349,10 @@ function App() {
 
   // Status filter
   const [statusFilter, setStatusFilter] = useState<TaskStatus | 'all'>('all');
+  const [taskView, setTaskView] = useState<'list' | 'gantt'>('list');
+
+  // Filter from the command bar, applied on top of the phase and status filters
+  const [commandFilter, setCommandFilter] = useState<TaskCommand | null>(null);
 
   // Drag and drop
   const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
@@ -288,6 +366,53 @@ function App() {
     return saved || null;
   });
 
+  // The user's task timer. It lives on the server; refetch it whenever the
+  // window comes back into view so one started or stopped elsewhere shows up.
+  const [activeTimer, setActiveTimer] = useState<ActiveTimer | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const refreshTimer = () => {
+      if (document.visibilityState !== 'visible') return;
+      getActiveTimer()
+        .then(setActiveTimer)
+        .catch(error => console.error('[Timer] Failed to load timer:', error));
+    };
+
+    refreshTimer();
+    window.addEventListener('focus', refreshTimer);
+    document.addEventListener('visibilitychange', refreshTimer);
+    return () => {
+      window.removeEventListener('focus', refreshTimer);
+      document.removeEventListener('visibilitychange', refreshTimer);
+    };
+  }, [isAuthenticated]);
+
+  // The open project's time log entries, the record of the hours logged on its
+  // tasks. Bump timeLogsVersion to reload them after logging time.
+  const [projectTimeLogs, setProjectTimeLogs] = useState<TimeLogEntry[]>([]);
+  const [timeLogsVersion, setTimeLogsVersion] = useState(0);
+  const refreshTimeLogs = () => setTimeLogsVersion(prev => prev + 1);
+
+  useEffect(() => {
+    if (!currentProjectId) {
+      setProjectTimeLogs([]);
+      return;
+    }
+
+    let cancelled = false;
+    getProjectTimeLogs(currentProjectId)
+      .then(entries => {
+        if (cancelled) return;
+        setProjectTimeLogs(entries);
+        // Timers used to copy their entries into the task's time logs; drop those copies
+        setTaskStates(prev => dropCopiedTimeLogs(prev, entries));
+      })
+      .catch(error => console.error('[Time] Failed to load time logs:', error));
+    return () => { cancelled = true; };
+  }, [currentProjectId, timeLogsVersion]);
+
   // Calculate phases from tasks
   const phases: { [key: string]: string } = {};
   tasks.forEach(task => {
@@ -297,16 +422,55 @@ function App() {
   });
 
   // Calculate statistics
-  const stats = calculateProgress(tasks, taskStates);
+  const stats = calculateProgress(tasks, taskStates, projectTimeLogs);
   const percentComplete = calculatePercentComplete(stats.overall.completed, stats.overall.total);
 
+  // Critical path from task dependencies and estimates
+  const criticalPath = computeCriticalPath(tasks, taskStates);
+
+  // Dated forecast of the remaining work from the working calendar and each
+  // assignee's capacity, starting today or on the project start if that's later
+  // Rebuilt each time the Add Task modal opens, so it reflects the latest saved actuals
+  const [calibrationModel, setCalibrationModel] = useState<CalibrationModel | null>(null);
+
+  useEffect(() => {
+    if (!showAddTaskModal) return;
+    let cancelled = false;
+    loadCalibrationModel().then(model => {
+      if (!cancelled) setCalibrationModel(model);
+    });
+    return () => { cancelled = true; };
+  }, [showAddTaskModal]);
+
+  const workingCalendar = projectMeta.calendar || DEFAULT_WORKING_CALENDAR;
+  const projectStart = projectMeta.startDate ? parseDay(projectMeta.startDate) : null;
+  const resourceSchedule = scheduleResources(
+    tasks,
+    taskStates,
+    workingCalendar,
+    projectMeta.collaborators || [],
+    projectStart && projectStart > new Date() ? projectStart : new Date(),
+    projectTimeLogs
+  );
+  const forecastLate = !!(resourceSchedule.finishDate && projectMeta.targetEndDate &&
+    resourceSchedule.finishDate > projectMeta.targetEndDate.slice(0, 10));
+  const formatShortDate = (day: string) =>
+    parseDay(day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
   // Filter tasks
   const filteredTasks = tasks.filter(task => {
     const phaseMatch = selectedPhase === 'all' || task.phase === selectedPhase;
     const statusMatch = statusFilter === 'all' || (taskStates[task.id]?.status || 'pending') === statusFilter;
-    return phaseMatch && statusMatch;
+    const commandMatch = !commandFilter || matchesTaskQuery(task, taskStates[task.id], commandFilter.query);
+    return phaseMatch && statusMatch && commandMatch;
   });
 
+  const taskCommandContext: TaskCommandContext = {
+    phases: Object.entries(phases).map(([phaseId, phaseTitle]) => ({ phaseId, phaseTitle })),
+    collaborators: projectMeta.collaborators || [],
+    categories,
+  };
+
   // Calculate task counts per phase
   const phaseTaskCounts: { [key: string]: number } = {};
   tasks.forEach(task => {
@@ -331,11 +495,16 @@ function App() {
         color: phaseColors[phaseId] || '#607D8B',
         typicalDuration: 0,
       })),
+      risks,
     };
 
     saveProjectToStorage(project);
   };
 
+  // Latest saveCurrentProject for callbacks registered once per project (e.g. realtime events)
+  const saveCurrentProjectRef = useRef(saveCurrentProject);
+  saveCurrentProjectRef.current = saveCurrentProject;
+
   const loadProject = (projectId: string) => {
     const project = getProject(projectId);
     if (!project) {
@@ -354,11 +523,23 @@ function App() {
       colors[phase.phaseId] = phase.color;
     });
     setPhaseColors(colors);
+    setRisks(project.risks || []);
+    setCommandFilter(null);
+
+    // Undo only applies to the project the iteration was made on
+    setIterationHistory([]);
 
     // Set current project and view
     setCurrentProjectIdState(projectId);
     setCurrentProjectId(projectId);
     setCurrentView('project');
+
+    // Surface conflicts from an earlier background sync of this project
+    const conflicts = getPendingConflicts(projectId);
+    setSyncConflicts(conflicts);
+    if (conflicts.length > 0) {
+      setShowConflictModal(true);
+    }
   };
 
   const handleOpenProject = (projectId: string) => {
@@ -441,6 +622,7 @@ function App() {
       colors[phase.phaseId] = phase.color;
     });
     setPhaseColors(colors);
+    setRisks(newProject.risks || []);
 
     setCurrentProjectIdState(newProjectId);
     setCurrentProjectId(newProjectId);
@@ -489,6 +671,7 @@ function App() {
     setTasks([]);
     setTaskStates({});
     setPhaseColors({});
+    setRisks([]);
     setCurrentProjectIdState(newProjectId);
     setCurrentProjectId(newProjectId);
     setCurrentView('project');
@@ -529,6 +712,7 @@ function App() {
             color: phaseColors[phaseId] || '#607D8B',
             typicalDuration: 0,
           })),
+          risks,
         };
         saveProjectToStorage(project);
 
@@ -540,6 +724,14 @@ function App() {
     return () => clearInterval(interval);
   }, [autoSaveInterval, currentProjectId, currentView]);
 
+  // Keep the critical path badges in step with estimates and dependencies
+  useEffect(() => {
+    const flagged = applyCriticalPath(tasks, computeCriticalPath(tasks, taskStates));
+    if (flagged !== tasks) {
+      setTasks(flagged);
+    }
+  }, [tasks, taskStates]);
+
   // Save autosave interval to localStorage when it changes
   useEffect(() => {
     localStorage.setItem('autoSaveInterval', autoSaveInterval.toString());
@@ -581,6 +773,7 @@ function App() {
           color: phaseColors[phaseId] || '#607D8B',
           typicalDuration: 0,
         })),
+        risks,
       };
 
       saveProjectToStorage(project);
@@ -588,7 +781,57 @@ function App() {
     }, 2000);
 
     return () => clearTimeout(timeoutId);
-  }, [tasks, taskStates, currentProjectId, currentView]);
+  }, [tasks, taskStates, risks, currentProjectId, currentView]);
+
+  // Register merge callback - another device or teammate saved this project concurrently
+  useEffect(() => {
+    setProjectMergeCallback((project, conflicts) => {
+      if (project.meta.id !== getCurrentProjectId()) return;
+
+      if (conflicts.length > 0) {
+        setSyncConflicts(conflicts);
+        setShowConflictModal(true);
+      } else {
+        // Clean merge was stored locally - reload it so the next save includes the server's changes
+        loadProject(project.meta.id);
+      }
+    });
+
+    return () => {
+      setProjectMergeCallback(null);
+    };
+  }, []);
+
+  // Live updates and presence for the open project
+  useEffect(() => {
+    if (!isAuthenticated || currentView !== 'project' || !currentProjectId) {
+      setProjectViewers([]);
+      return;
+    }
+
+    const unsubscribe = subscribeToProject(currentProjectId, {
+      onChange: (event) => {
+        if (event.deleted) {
+          handleRemoteChange(event.projectId).then(() => {
+            alert('This project was deleted on another device.');
+            setCurrentView('dashboard');
+            setCurrentProjectIdState(null);
+          });
+          return;
+        }
+
+        // Store unsaved edits first so they are merged with the incoming changes instead of overwritten
+        saveCurrentProjectRef.current();
+        handleRemoteChange(event.projectId, event.revision);
+      },
+      onPresence: setProjectViewers,
+    });
+
+    return () => {
+      unsubscribe();
+      setProjectViewers([]);
+    };
+  }, [isAuthenticated, currentView, currentProjectId]);
 
   // Click-outside handler to close dropdowns
   useEffect(() => {
@@ -641,6 +884,7 @@ function App() {
             color: phaseColors[phaseId] || '#607D8B',
             typicalDuration: 0,
           })),
+          risks,
         };
 
         console.log('Saving to project storage:', project.meta.id);
@@ -664,10 +908,16 @@ function App() {
     }
   };
 
-  const handleAIAnalysis = async (request: AIAnalysisRequest, useRealAI: boolean) => {
+  const handleAIAnalysis = async (request: AIAnalysisRequest, useRealAI: boolean, options?: AIRequestOptions) => {
     try {
       const service = useRealAI ? aiService : aiService; // Will use mock if no API key
-      const result = await service.analyzeProjectAndGenerateTasks(request);
+      const result = await service.analyzeProjectAndGenerateTasks(request, options);
+      // Scale the AI's estimates by how long similar tasks really took
+      const suggestedTasks = calibrateTasks(
+        result.suggestedTasks,
+        await loadCalibrationModel(),
+        request.projectType
+      );
 
       // Create new project metadata with generated ID
       const newProjectId = `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -692,12 +942,16 @@ function App() {
         newPhaseColors[phase.phaseId] = phase.color;
       });
 
+      // Start the risk register with the risks the analysis found
+      const { risks: seededRisks } = seedRisksFromAI([], result.riskFactors, 'ai_analysis');
+
       // Create new project
       const newProject: SavedProject = {
         meta: newProjectMeta,
-        tasks: result.suggestedTasks,
+        tasks: suggestedTasks,
         taskStates: {},
         phases: result.suggestedPhases,
+        risks: seededRisks,
       };
 
       // Save the new project
@@ -705,16 +959,22 @@ function App() {
 
       // Load the new project into view
       setProjectMeta(newProjectMeta);
-      setTasks(result.suggestedTasks);
+      setTasks(suggestedTasks);
       setTaskStates({});
       setPhaseColors(newPhaseColors);
+      setRisks(seededRisks);
       setCurrentProjectIdState(newProjectId);
       setCurrentProjectId(newProjectId);
       setCurrentView('project');
 
       setShowAIAnalysisModal(false);
-      alert(`Project created! Generated ${result.suggestedTasks.length} tasks across ${result.suggestedPhases.length} phases!`);
+      const calibratedCount = suggestedTasks.filter(t => t.rawEstHours !== undefined).length;
+      alert(`Project created! Generated ${suggestedTasks.length} tasks across ${result.suggestedPhases.length} phases!` +
+        (calibratedCount > 0 ? `\n${calibratedCount} estimates were calibrated from your completed work.` : '') +
+        (seededRisks.length > 0 ? `\n${seededRisks.length} risks were added to the risk register.` : ''));
     } catch (error) {
+      // Cancelled from the modal, which stays open with the form filled in
+      if (isAbortError(error)) throw error;
       console.error('AI Analysis Error:', error);
       alert('Failed to analyze project. Please try again.');
     }
@@ -767,6 +1027,7 @@ function App() {
       setTasks(newTasks);
       setTaskStates({});
       setPhaseColors(newPhaseColors);
+      setRisks([]);
       setCurrentProjectIdState(newProjectId);
       setCurrentProjectId(newProjectId);
       setCurrentView('project');
@@ -802,7 +1063,7 @@ function App() {
   };
 
   const handleExportCSV = () => {
-    exportToCSV(tasks, taskStates, projectMeta, stats);
+    exportToCSV(tasks, taskStates, projectMeta, stats, projectTimeLogs);
   };
 
   const handleExportJSON = () => {
@@ -871,8 +1132,8 @@ function App() {
     });
   };
 
-  const handleLogSubtaskTime = (taskId: string, subtaskId: string, hours: number) => {
-    // Get current user
+  // Person time is logged for: the selected user, or the first one if none is selected
+  const resolveTimeLogUser = (): { userId: string; userName: string } | null => {
     const users = getActiveUsers();
     let userId = currentUserId;
     let userName = 'Unknown User';
@@ -887,7 +1148,7 @@ function App() {
       } else {
         // No users exist, show alert
         alert('Please add users in the User Management section before logging time.');
-        return;
+        return null;
       }
     } else {
       const user = users.find(u => u.id === userId);
@@ -896,6 +1157,13 @@ function App() {
       }
     }
 
+    return { userId, userName };
+  };
+
+  const handleLogSubtaskTime = (taskId: string, subtaskId: string, hours: number) => {
+    const user = resolveTimeLogUser();
+    if (!user) return;
+
     // Find the task and subtask
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
@@ -903,27 +1171,77 @@ function App() {
     const subtask = task.subtasks?.find(st => st.id === subtaskId);
     if (!subtask) return;
 
-    // Update subtask actual hours
-    const currentActual = subtask.actualHours || 0;
-    updateSubtask(taskId, subtaskId, {
-      actualHours: currentActual + hours
-    });
+    // Without a project there's nowhere to keep an entry, so the subtask keeps the hours
+    if (!currentProjectId) {
+      setTasks(prev => prev.map(t => t.id !== taskId ? t : {
+        ...t,
+        subtasks: t.subtasks?.map(st =>
+          st.id === subtaskId ? { ...st, actualHours: (st.actualHours || 0) + hours } : st
+        ),
+      }));
+      return;
+    }
 
-    // Create time log entry
-    if (currentProjectId) {
-      createTimeLog({
+    // The entry is the record of the time; a submitted or approved week refuses it
+    createTimeLog({
+      projectId: currentProjectId,
+      projectName: projectMeta.name,
+      taskId: task.id,
+      taskName: task.task,
+      subtaskId: subtask.id,
+      subtaskName: subtask.name,
+      userId: user.userId,
+      userName: user.userName,
+      date: new Date().toISOString().split('T')[0],
+      hours: hours,
+      notes: `Logged ${hours}h on ${subtask.name}`,
+    })
+      .then(refreshTimeLogs)
+      .catch(error => {
+        console.error('Error saving time log:', error);
+        alert(`Couldn't log ${hours}h on the subtask: ${error.message}`);
+      });
+  };
+
+  // A stopped timer's entry counts towards its task's hours; show it wherever they're on screen
+  const handleTimerLogged = (entry: TimeLogEntry) => {
+    if (entry.projectId === currentProjectId) refreshTimeLogs();
+    if (currentView === 'dashboard') setProjectSyncKey(prev => prev + 1);
+  };
+
+  // One timer per user: starting another stops (and logs) the current one first
+  const handleStartTimer = async (taskId: string, subtaskId?: string) => {
+    if (!currentProjectId) return;
+    const task = tasks.find(t => t.id === taskId);
+    const subtask = subtaskId ? task?.subtasks?.find(st => st.id === subtaskId) : undefined;
+    if (!task || (subtaskId && !subtask)) return;
+
+    const user = resolveTimeLogUser();
+    if (!user) return;
+
+    try {
+      if (activeTimer) {
+        const current = activeTimer.subtaskName || activeTimer.taskName;
+        if (!confirm(`Stop the timer on "${current}" and log its time first?`)) return;
+        const entry = await stopTimer();
+        setActiveTimer(null);
+        if (entry) handleTimerLogged(entry);
+        if (entry && getTimerElapsedSeconds(activeTimer) > 24 * 3600) {
+          alert(`The timer on "${current}" ran for over 24 hours, so 24h were logged. Correct the entry in the time logs if that's too much.`);
+        }
+      }
+
+      setActiveTimer(await startTimer({
         projectId: currentProjectId,
-        projectName: projectMeta.name,
         taskId: task.id,
         taskName: task.task,
-        subtaskId: subtask.id,
-        subtaskName: subtask.name,
-        userId: userId!,
-        userName: userName,
-        date: new Date().toISOString().split('T')[0],
-        hours: hours,
-        notes: `Logged ${hours}h on ${subtask.name}`,
-      });
+        subtaskId: subtask?.id,
+        subtaskName: subtask?.name,
+        ...user,
+      }));
+    } catch (error: any) {
+      console.error('Error starting timer:', error);
+      alert(`Couldn't start the timer: ${error.message}`);
     }
   };
 
@@ -935,88 +1253,37 @@ function App() {
     deleteSubtask(taskId, subtaskId);
   };
 
+  const handleResolveConflicts = (resolution: ConflictResolution) => {
+    if (!currentProjectId) return;
+
+    const resolved = resolveConflicts(currentProjectId, resolution);
+    setShowConflictModal(false);
+    if (resolved) {
+      loadProject(resolved.meta.id);
+    }
+  };
+
   const handleSaveProjectInfo = (updatedMeta: ProjectMeta) => {
     setProjectMeta(updatedMeta);
   };
 
-  const handleApplyIterationChanges = (response: IterationResponse) => {
-    const updatedTasks = [...tasks];
-
-    response.changes.forEach(change => {
-      switch (change.type) {
-        case 'add_subtask':
-          const taskIndex = updatedTasks.findIndex(t => t.id === change.target);
-          if (taskIndex !== -1) {
-            const existingSubtasks = updatedTasks[taskIndex].subtasks || [];
-            updatedTasks[taskIndex] = {
-              ...updatedTasks[taskIndex],
-              subtasks: [...existingSubtasks, ...change.data.subtasks],
-              subtaskHourMode: change.data.hourMode || 'auto'
-            };
-          }
-          break;
-
-        case 'add_task':
-          const newTask: Task = {
-            id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            task: change.data.task,
-            phase: change.data.phase,
-            phaseTitle: change.data.phaseTitle,
-            category: change.data.category,
-            baseEstHours: change.data.baseEstHours,
-            adjustedEstHours: change.data.adjustedEstHours || change.data.baseEstHours,
-            aiGenerated: true
-          };
-          updatedTasks.push(newTask);
-
-          // Initialize task state
-          setTaskStates(prev => ({
-            ...prev,
-            [newTask.id]: {
-              estHours: newTask.adjustedEstHours,
-              actualHours: '0',
-              status: 'pending',
-              notes: '',
-            }
-          }));
-          break;
-
-        case 'modify_task':
-          const modTaskIndex = updatedTasks.findIndex(t => t.id === change.target);
-          if (modTaskIndex !== -1) {
-            updatedTasks[modTaskIndex] = {
-              ...updatedTasks[modTaskIndex],
-              ...change.data
-            };
-          }
-          break;
-
-        case 'update_estimate':
-          const estTaskIndex = updatedTasks.findIndex(t => t.id === change.target);
-          if (estTaskIndex !== -1) {
-            updatedTasks[estTaskIndex].baseEstHours = change.data.newEstimate;
-            updatedTasks[estTaskIndex].adjustedEstHours = change.data.newEstimate;
-          }
-          break;
-
-        case 'add_phase':
-          // Phase would need to be added to the phases array
-          // Not implementing full phase management here
-          break;
-
-        case 'add_dependency':
-          const depTaskIndex = updatedTasks.findIndex(t => t.id === change.target);
-          if (depTaskIndex !== -1) {
-            updatedTasks[depTaskIndex].dependencies = [
-              ...(updatedTasks[depTaskIndex].dependencies || []),
-              ...change.data.dependencies
-            ];
-          }
-          break;
-      }
-    });
+  const handleApplyIterationChanges = async (response: IterationResponse) => {
+    // New tasks get the same calibration as AI-generated and manually added ones
+    const model = await loadCalibrationModel();
+    const changes = response.changes.map(change => change.type === 'add_task'
+      ? { ...change, data: calibrateTasks([change.data], model, projectMeta.projectType)[0] }
+      : change);
+
+    const result = applyIterationChanges(
+      { tasks, taskStates, phaseColors },
+      changes,
+      response.previewData.summary || response.explanation
+    );
 
-    setTasks(updatedTasks);
+    setTasks(result.tasks);
+    setTaskStates(result.taskStates);
+    setPhaseColors(result.phaseColors);
+    setIterationHistory([...iterationHistory, result.undo]);
 
     // Update project metadata
     setProjectMeta({
@@ -1024,8 +1291,25 @@ function App() {
       updatedAt: new Date().toISOString()
     });
 
-    // Show success message (you could add a toast notification here)
-    alert('✅ Project updated successfully!');
+    alert(`✅ Applied ${response.changes.length} change${response.changes.length !== 1 ? 's' : ''}. Use "Undo AI Changes" to revert them.`);
+  };
+
+  const handleApplyTaskCommand = (taskIds: string[], mutation: TaskMutation) => {
+    const result = applyTaskMutation(tasks, taskStates, taskIds, mutation, taskCommandContext);
+    setTasks(result.tasks);
+    setTaskStates(result.taskStates);
+  };
+
+  const handleUndoIteration = () => {
+    if (iterationHistory.length === 0) return;
+
+    const lastIteration = iterationHistory[iterationHistory.length - 1];
+    const reverted = revertIterationChanges({ tasks, taskStates, phaseColors }, lastIteration);
+
+    setTasks(reverted.tasks);
+    setTaskStates(reverted.taskStates);
+    setPhaseColors(reverted.phaseColors);
+    setIterationHistory(iterationHistory.slice(0, -1));
   };
 
   const handleSavePhases = (newPhases: { [key: string]: string }, newPhaseColors: { [key: string]: string }) => {
@@ -1064,9 +1348,11 @@ function App() {
 
   const handleSaveSnapshot = () => {
     const note = prompt('Add a note for this snapshot (optional):');
+    const timestamp = new Date().toISOString();
+    const riskExposure = getRiskExposure(risks, timestamp.split('T')[0]);
 
     const snapshot: ProgressSnapshot = {
-      timestamp: new Date().toISOString(),
+      timestamp,
       percentComplete,
       totalTasks: stats.overall.total,
       completedTasks: stats.overall.completed,
@@ -1074,6 +1360,9 @@ function App() {
       blockedTasks: stats.overall.blocked,
       totalEstHours: stats.totalEst,
       totalActualHours: stats.totalActual,
+      openRisks: riskExposure.openRisks,
+      highRisks: riskExposure.highRisks,
+      riskExposure: riskExposure.exposure,
       note: note || undefined,
     };
 
@@ -1081,6 +1370,13 @@ function App() {
     alert('Progress snapshot saved!');
   };
 
+  // Add risks raised by an AI progress report to the register
+  const handleReportRisks = (riskAreas: RiskFactor[]): number => {
+    const { risks: seeded, added } = seedRisksFromAI(risks, riskAreas, 'ai_report');
+    if (added > 0) setRisks(seeded);
+    return added;
+  };
+
   const handleDeleteSnapshot = (timestamp: string) => {
     setProgressSnapshots(progressSnapshots.filter(s => s.timestamp !== timestamp));
   };
@@ -1231,6 +1527,13 @@ function App() {
           background: theme.bgPrimary,
           padding: '2rem',
         }}>
+          {activeTimer && (
+            <TaskTimer
+              timer={activeTimer}
+              onTimerChange={setActiveTimer}
+              onTimeLogged={handleTimerLogged}
+            />
+          )}
           <Dashboard
             key={projectSyncKey}
             onOpenProject={handleOpenProject}
@@ -1283,6 +1586,13 @@ function App() {
     );
   }
 
+  // Shared projects carry the user's role; local-only projects belong to the user
+  const projectRole = projectMeta.accessRole || 'owner';
+  const canEditProject = projectRole !== 'viewer';
+  const isProjectOwner = projectRole === 'owner';
+  // The user's timer, if it's on a task in this project
+  const timedTask = activeTimer?.projectId === currentProjectId ? activeTimer : null;
+
   return (
     <>
       <DevNotes />
@@ -1360,9 +1670,29 @@ function App() {
               status={syncStatus}
               lastSyncTime={lastSyncTime || undefined}
               error={syncError}
+              onClick={syncConflicts.length > 0 ? () => setShowConflictModal(true) : undefined}
+              pendingCount={pendingChanges}
             />
           )}
 
+          {/* Who else is viewing this project */}
+          <PresenceIndicator viewers={projectViewers} currentUserId={currentUser?.id} />
+
+          {projectMeta.sharedBy && (
+            <span
+              style={{
+                padding: '0.2rem 0.6rem',
+                borderRadius: '12px',
+                background: theme.bgTertiary,
+                color: canEditProject ? theme.textSecondary : theme.statusInProgress,
+                fontSize: '0.8rem',
+                fontWeight: '600',
+              }}
+              title={`Shared by ${projectMeta.sharedBy}`}>
+              {canEditProject ? '✏️ Editor' : '👁️ View only'}
+            </span>
+          )}
+
           {/* Autosave Settings */}
           <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
             <span>Autosave:</span>
@@ -1385,20 +1715,22 @@ function App() {
             </select>
           </div>
 
-          <button
-            onClick={() => handleSave(true)}
-            style={{
-              padding: '0.25rem 0.75rem',
-              fontSize: '0.85rem',
-              background: theme.accentGreen,
-              color: '#fff',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              fontWeight: '600',
-            }}>
-            💾 Save Now
-          </button>
+          {canEditProject && (
+            <button
+              onClick={() => handleSave(true)}
+              style={{
+                padding: '0.25rem 0.75rem',
+                fontSize: '0.85rem',
+                background: theme.accentGreen,
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontWeight: '600',
+              }}>
+              💾 Save Now
+            </button>
+          )}
 
           <button
             onClick={() => setShowSettingsModal(true)}
@@ -1437,6 +1769,14 @@ function App() {
         </div>
       </header>
 
+        {activeTimer && (
+          <TaskTimer
+            timer={activeTimer}
+            onTimerChange={setActiveTimer}
+            onTimeLogged={handleTimerLogged}
+          />
+        )}
+
       {/* Action Buttons - Hybrid Layout (Hidden on mobile) */}
       {!isMobile && (
       <div style={{ marginBottom: '2rem' }}>
@@ -1447,62 +1787,68 @@ function App() {
           marginBottom: '10px',
           flexWrap: 'wrap',
         }}>
-          <button
-            onClick={() => setShowAIAnalysisModal(true)}
-            style={{
-              height: '40px',
-              padding: '10px 20px',
-              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-              color: '#fff',
-              border: 'none',
-              borderRadius: '6px',
-              fontSize: '0.95rem',
-              fontWeight: '500',
-              cursor: 'pointer',
-              transition: 'filter 0.2s ease',
-            }}
-            onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
-            onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
-            🤖 AI Setup
-          </button>
+          {canEditProject && (
+            <button
+              onClick={() => setShowAIAnalysisModal(true)}
+              style={{
+                height: '40px',
+                padding: '10px 20px',
+                background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '0.95rem',
+                fontWeight: '500',
+                cursor: 'pointer',
+                transition: 'filter 0.2s ease',
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
+              onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
+              🤖 AI Setup
+            </button>
+          )}
 
-          <button
-            onClick={() => setShowAddTaskModal(true)}
-            style={{
-              height: '40px',
-              padding: '10px 20px',
-              background: theme.accentGreen,
-              color: '#fff',
-              border: 'none',
-              borderRadius: '6px',
-              fontSize: '0.95rem',
-              fontWeight: '500',
-              cursor: 'pointer',
-              transition: 'filter 0.2s ease',
-            }}
-            onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
-            onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
-            ➕ Add Task
-          </button>
+          {canEditProject && (
+            <button
+              onClick={() => setShowAddTaskModal(true)}
+              style={{
+                height: '40px',
+                padding: '10px 20px',
+                background: theme.accentGreen,
+                color: '#fff',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '0.95rem',
+                fontWeight: '500',
+                cursor: 'pointer',
+                transition: 'filter 0.2s ease',
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
+              onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
+              ➕ Add Task
+            </button>
+          )}
 
-          <button
-            onClick={() => setShowImportModal(true)}
-            style={{
-              height: '40px',
-              padding: '10px 20px',
-              background: '#00ACC1',
-              color: '#fff',
-              border: 'none',
-              borderRadius: '6px',
-              fontSize: '0.95rem',
-              fontWeight: '500',
-              cursor: 'pointer',
-              transition: 'filter 0.2s ease',
-            }}
-            onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
-            onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
-            📥 Import
-          </button>
+          {canEditProject && (
+            <button
+              onClick={() => setShowImportModal(true)}
+              style={{
+                height: '40px',
+                padding: '10px 20px',
+                background: '#00ACC1',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '0.95rem',
+                fontWeight: '500',
+                cursor: 'pointer',
+                transition: 'filter 0.2s ease',
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
+              onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
+              📥 Import
+            </button>
+          )}
 
           <button
             onClick={() => setShowProjectInfoModal(true)}
@@ -1523,24 +1869,26 @@ function App() {
             ℹ️ Project Info
           </button>
 
-          <button
-            onClick={() => setShowIterateProjectModal(true)}
-            style={{
-              height: '40px',
-              padding: '10px 20px',
-              background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-              color: '#fff',
-              border: 'none',
-              borderRadius: '6px',
-              fontSize: '0.95rem',
-              fontWeight: '500',
-              cursor: 'pointer',
-              transition: 'filter 0.2s ease',
-            }}
-            onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
-            onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
-            🤖 Iterate with AI
-          </button>
+          {canEditProject && (
+            <button
+              onClick={() => setShowIterateProjectModal(true)}
+              style={{
+                height: '40px',
+                padding: '10px 20px',
+                background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '0.95rem',
+                fontWeight: '500',
+                cursor: 'pointer',
+                transition: 'filter 0.2s ease',
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.filter = 'brightness(1.1)'; }}
+              onMouseLeave={(e) => { e.currentTarget.style.filter = 'brightness(1)'; }}>
+              🤖 Iterate with AI
+            </button>
+          )}
         </div>
 
         {/* Row 2 - Secondary Actions (Dropdowns) */}
@@ -1558,9 +1906,13 @@ function App() {
               onClick={() => setOpenDropdown(openDropdown === 'tools' ? null : 'tools')}
               items={[
                 { icon: '👤', label: 'User Management', onClick: () => { setShowUserManagementModal(true); setOpenDropdown(null); } },
-                { icon: '👥', label: 'Manage Team', onClick: () => { setShowCollaboratorModal(true); setOpenDropdown(null); } },
-                { icon: '📊', label: 'Edit Phases', onClick: () => { setShowPhaseManagementModal(true); setOpenDropdown(null); } },
-                { icon: '🏷️', label: 'Edit Categories', onClick: () => { setShowCategoryManagementModal(true); setOpenDropdown(null); } },
+                ...(isProjectOwner ? [
+                  { icon: '👥', label: 'Manage Team', onClick: () => { setShowCollaboratorModal(true); setOpenDropdown(null); } },
+                ] : []),
+                ...(canEditProject ? [
+                  { icon: '📊', label: 'Edit Phases', onClick: () => { setShowPhaseManagementModal(true); setOpenDropdown(null); } },
+                  { icon: '🏷️', label: 'Edit Categories', onClick: () => { setShowCategoryManagementModal(true); setOpenDropdown(null); } },
+                ] : []),
               ]}
             />
 
@@ -1570,11 +1922,14 @@ function App() {
               onClick={() => setOpenDropdown(openDropdown === 'data' ? null : 'data')}
               items={[
                 { icon: '📋', label: 'Time Log Viewer', onClick: () => { setShowTimeLogViewerModal(true); setOpenDropdown(null); } },
+                { icon: '🗓️', label: 'Timesheets', onClick: () => { setShowTimesheetModal(true); setOpenDropdown(null); } },
                 { icon: '⏱️', label: 'Time Tracking', onClick: () => { setShowTimeTrackingModal(true); setOpenDropdown(null); } },
                 { icon: '📸', label: 'Create Snapshot', onClick: () => { handleSaveSnapshot(); setOpenDropdown(null); } },
                 { icon: '🔄', label: 'View Versions', onClick: () => { setShowVersionModal(true); setOpenDropdown(null); } },
                 { icon: '📜', label: 'View History', onClick: () => { setShowReportsHistoryModal(true); setOpenDropdown(null); } },
+                { icon: '🤖', label: 'AI Reports', onClick: () => { setShowAIReportsModal(true); setOpenDropdown(null); } },
                 { icon: '📊', label: 'View Analytics', onClick: () => { setShowAnalyticsModal(true); setOpenDropdown(null); } },
+                { icon: '⚠️', label: 'Risk Register', onClick: () => { setShowRiskRegisterModal(true); setOpenDropdown(null); } },
               ]}
             />
 
@@ -1608,27 +1963,51 @@ function App() {
                 ↩️ Undo Move
               </button>
             )}
+
+            {canEditProject && iterationHistory.length > 0 && (
+              <button
+                onClick={handleUndoIteration}
+                title={`Revert: ${iterationHistory[iterationHistory.length - 1].summary}`}
+                style={{
+                  height: '40px',
+                  padding: '10px 20px',
+                  background: '#2a2a2a',
+                  color: '#e0e0e0',
+                  border: 'none',
+                  borderRadius: '6px',
+                  fontSize: '0.95rem',
+                  fontWeight: '500',
+                  cursor: 'pointer',
+                  transition: 'background 0.2s ease',
+                }}
+                onMouseEnter={(e) => { e.currentTarget.style.background = '#3a3a3a'; }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = '#2a2a2a'; }}>
+                ↩️ Undo AI Changes ({iterationHistory[iterationHistory.length - 1].changeCount})
+              </button>
+            )}
           </div>
 
-          <button
-            onClick={handleClearAll}
-            style={{
-              height: '40px',
-              padding: '10px 20px',
-              background: '#d32f2f',
-              color: '#fff',
-              border: 'none',
-              borderRadius: '6px',
-              fontSize: '0.95rem',
-              fontWeight: '500',
-              cursor: 'pointer',
-              marginLeft: 'auto',
-              transition: 'background 0.2s ease',
-            }}
-            onMouseEnter={(e) => { e.currentTarget.style.background = '#b71c1c'; }}
-            onMouseLeave={(e) => { e.currentTarget.style.background = '#d32f2f'; }}>
-            🗑️ Clear All
-          </button>
+          {canEditProject && (
+            <button
+              onClick={handleClearAll}
+              style={{
+                height: '40px',
+                padding: '10px 20px',
+                background: '#d32f2f',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '6px',
+                fontSize: '0.95rem',
+                fontWeight: '500',
+                cursor: 'pointer',
+                marginLeft: 'auto',
+                transition: 'background 0.2s ease',
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.background = '#b71c1c'; }}
+              onMouseLeave={(e) => { e.currentTarget.style.background = '#d32f2f'; }}>
+              🗑️ Clear All
+            </button>
+          )}
         </div>
       </div>
       )}
@@ -1722,6 +2101,16 @@ function App() {
             </div>
             <div style={{ color: theme.textMuted, fontSize: '0.9rem' }}>Blocked</div>
           </div>
+          <div
+            style={{ textAlign: 'center', padding: '1rem', background: theme.bgTertiary, borderRadius: '8px' }}
+            title={forecastLate
+              ? `Forecast is after the target end date (${projectMeta.targetEndDate})`
+              : 'Remaining work scheduled on the working calendar and team capacity'}>
+            <div style={{ fontSize: '1.75rem', fontWeight: '600', color: forecastLate ? theme.accentRed : theme.textPrimary }}>
+              {resourceSchedule.finishDate ? formatShortDate(resourceSchedule.finishDate) : '—'}
+            </div>
+            <div style={{ color: theme.textMuted, fontSize: '0.9rem' }}>Forecast Finish</div>
+          </div>
         </div>
       </div>
 
@@ -1768,6 +2157,17 @@ function App() {
         </div>
       )}
 
+      {/* Command Bar */}
+      <TaskCommandBar
+        tasks={tasks}
+        taskStates={taskStates}
+        context={taskCommandContext}
+        activeFilter={commandFilter}
+        onFilter={setCommandFilter}
+        onApply={handleApplyTaskCommand}
+        readOnly={!canEditProject}
+      />
+
       {/* Status Filter */}
       <div style={{ marginBottom: '1.5rem' }}>
         <label style={{ marginRight: '0.75rem', color: theme.textMuted, fontWeight: '600' }}>
@@ -1801,11 +2201,68 @@ function App() {
         border: `1px solid ${theme.border}`,
         marginBottom: isMobile ? '80px' : '0', // Add space for mobile nav
       }}>
-        <h3 style={{ marginBottom: '1rem', color: theme.textPrimary }}>
-          Tasks {filteredTasks.length !== tasks.length && `(${filteredTasks.length} of ${tasks.length})`}
-        </h3>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', gap: '1rem', flexWrap: 'wrap' }}>
+          <h3 style={{ margin: 0, color: theme.textPrimary }}>
+            {taskView === 'gantt'
+              ? 'Timeline'
+              : <>Tasks {filteredTasks.length !== tasks.length && `(${filteredTasks.length} of ${tasks.length})`}</>}
+          </h3>
+          <div style={{ display: 'flex', gap: '0.25rem' }}>
+            {(['list', 'gantt'] as const).map(view => (
+              <button
+                key={view}
+                onClick={() => setTaskView(view)}
+                style={{
+                  padding: '0.4rem 0.9rem',
+                  background: taskView === view ? theme.accentBlue : theme.bgTertiary,
+                  color: taskView === view ? '#fff' : theme.textSecondary,
+                  border: `1px solid ${theme.border}`,
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontSize: '0.85rem',
+                  fontWeight: '600',
+                }}>
+                {view === 'list' ? '📋 List' : '📅 Gantt'}
+              </button>
+            ))}
+          </div>
+        </div>
 
-        {filteredTasks.length === 0 ? (
+        {/* Dependency cycles keep tasks off the critical path */}
+        {criticalPath.cycles.length > 0 && (
+          <div style={{
+            padding: '0.75rem 1rem',
+            marginBottom: '1rem',
+            background: 'rgba(244, 67, 54, 0.1)',
+            border: `1px solid ${theme.accentRed}`,
+            borderRadius: '8px',
+            color: theme.textPrimary,
+            fontSize: '0.9rem',
+          }}>
+            ⚠️ Circular dependencies - these tasks can't be scheduled until the cycle is broken:
+            {criticalPath.cycles.map((cycle, index) => (
+              <div key={index} style={{ marginTop: '0.25rem', color: theme.textSecondary }}>
+                {cycle.map(taskId => tasks.find(t => t.id === taskId)?.task || taskId).join(' → ')}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {taskView === 'gantt' ? (
+          // Timeline of every task (filters apply to the list view only)
+          <GanttChart
+            tasks={tasks}
+            taskStates={taskStates}
+            phases={phases}
+            phaseColors={phaseColors}
+            criticalPath={criticalPath}
+            projectStartDate={projectMeta.startDate}
+            hoursPerDay={workingCalendar.hoursPerDay}
+            forecast={resourceSchedule.windows}
+            readOnly={!canEditProject}
+            onRescheduleTask={(taskId, startDate) => updateTask(taskId, { startDate })}
+          />
+        ) : filteredTasks.length === 0 ? (
           <div style={{ textAlign: 'center', padding: '3rem', color: theme.textMuted }}>
             <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🚀</div>
             <h3 style={{ marginBottom: '0.5rem' }}>No tasks found!</h3>
@@ -1833,6 +2290,9 @@ function App() {
                     onDelete={handleDeleteTask}
                     onToggleSubtasks={handleToggleSubtasks}
                     isSubtasksExpanded={expandedSubtasks.has(task.id)}
+                    readOnly={!canEditProject}
+                    onStartTimer={isAuthenticated ? (taskId) => handleStartTimer(taskId) : undefined}
+                    isTiming={timedTask?.taskId === task.id && !timedTask.subtaskId}
                   />
                   {/* Expanded Subtask List for Mobile */}
                   {task.subtasks && task.subtasks.length > 0 && expandedSubtasks.has(task.id) && (
@@ -1848,10 +2308,13 @@ function App() {
                         subtasks={task.subtasks}
                         onSubtaskToggle={(subtaskId) => toggleSubtaskStatus(task.id, subtaskId)}
                         onLogTime={(subtaskId, hours) => handleLogSubtaskTime(task.id, subtaskId, hours)}
+                        onStartTimer={isAuthenticated ? (subtaskId) => handleStartTimer(task.id, subtaskId) : undefined}
+                        timingSubtaskId={timedTask?.taskId === task.id ? timedTask.subtaskId : undefined}
+                        loggedHours={getSubtaskLoggedHours(task, projectTimeLogs)}
                         onSubtaskEdit={(subtaskId, updates) => handleEditSubtask(task.id, subtaskId, updates)}
                         onSubtaskDelete={(subtaskId) => handleDeleteSubtask(task.id, subtaskId)}
-                        showTimeTracking={true}
-                        editable={true}
+                        showTimeTracking={canEditProject}
+                        editable={canEditProject}
                       />
                     </div>
                   )}
@@ -1879,14 +2342,14 @@ function App() {
                   return (
                     <React.Fragment key={task.id}>
                       <tr
-                        draggable
+                        draggable={canEditProject}
                         onDragStart={() => handleDragStart(task.id)}
                         onDragOver={handleDragOver}
                         onDrop={() => handleDrop(task.id)}
                         style={{
                           borderBottom: `1px solid ${theme.border}`,
                           transition: 'background 0.2s',
-                          cursor: 'grab',
+                          cursor: canEditProject ? 'grab' : 'default',
                           opacity: draggedTaskId === task.id ? 0.5 : 1,
                         }}
                         onMouseEnter={(e) => e.currentTarget.style.background = theme.hover}
@@ -1897,6 +2360,7 @@ function App() {
                           checked={state.status === 'complete'}
                           onChange={(e) => handleCheckboxChange(task.id, e.target.checked)}
                           onClick={(e) => e.stopPropagation()}
+                          disabled={!canEditProject}
                           style={{
                             width: '20px',
                             height: '20px',
@@ -1910,17 +2374,37 @@ function App() {
                           <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
                             <span>{task.task}</span>
                             {task.criticalPath && (
-                              <span style={{
-                                padding: '0.25rem 0.5rem',
-                                background: theme.accentRed,
-                                color: '#fff',
-                                fontSize: '0.75rem',
-                                borderRadius: '4px',
-                                fontWeight: '600',
-                              }}>
+                              <span
+                                style={{
+                                  padding: '0.25rem 0.5rem',
+                                  background: theme.accentRed,
+                                  color: '#fff',
+                                  fontSize: '0.75rem',
+                                  borderRadius: '4px',
+                                  fontWeight: '600',
+                                }}
+                                title={criticalPath.schedules[task.id]
+                                  ? `Starts at hour ${criticalPath.schedules[task.id].earliestStart} - no slack`
+                                  : undefined}>
                                 CRITICAL
                               </span>
                             )}
+                            {!task.criticalPath && (criticalPath.schedules[task.id]?.totalFloat ?? 0) > 0 && (
+                              <span
+                                style={{ color: theme.textMuted, fontSize: '0.75rem' }}
+                                title="Hours this task can slip without delaying the project">
+                                {criticalPath.schedules[task.id].totalFloat.toFixed(1)}h slack
+                              </span>
+                            )}
+                            {resourceSchedule.windows[task.id] && (
+                              <span
+                                style={{ color: theme.textMuted, fontSize: '0.75rem' }}
+                                title="Forecast from the working calendar and the assignee's capacity">
+                                📅 {formatShortDate(resourceSchedule.windows[task.id].start)}
+                                {resourceSchedule.windows[task.id].end !== resourceSchedule.windows[task.id].start &&
+                                  ` – ${formatShortDate(resourceSchedule.windows[task.id].end)}`}
+                              </span>
+                            )}
                             {task.assignedTo && (() => {
                             const collab = (projectMeta.collaborators || []).find(c => c.id === task.assignedTo);
                             if (!collab) return null;
@@ -2017,7 +2501,8 @@ function App() {
                           // Calculate total estimated and actual hours from subtasks
                           if (task.subtasks && task.subtasks.length > 0) {
                             const totalEst = task.subtasks.reduce((sum, st) => sum + (st.estHours || 0), 0);
-                            const totalActual = task.subtasks.reduce((sum, st) => sum + (st.actualHours || 0), 0);
+                            const loggedHours = getSubtaskLoggedHours(task, projectTimeLogs);
+                            const totalActual = task.subtasks.reduce((sum, st) => sum + (loggedHours[st.id] || 0), 0);
 
                             if (totalActual > 0) {
                               const isOverEstimate = totalActual > totalEst;
@@ -2038,7 +2523,21 @@ function App() {
                             }
                             return `${totalEst.toFixed(1)}h`;
                           }
-                          return `${state.estHours || task.adjustedEstHours}h`;
+                          const estimate = state.estHours || task.adjustedEstHours;
+                          if (task.rawEstHours !== undefined && task.rawEstHours !== estimate) {
+                            return (
+                              <div
+                                style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '0.25rem' }}
+                                title="Calibrated from how long similar completed tasks took"
+                              >
+                                <div style={{ fontSize: '0.75rem', color: theme.textMuted }}>
+                                  Raw: {task.rawEstHours}h
+                                </div>
+                                <div>{estimate}h</div>
+                              </div>
+                            );
+                          }
+                          return `${estimate}h`;
                         })()}
                       </td>
                       <td style={{ padding: '1rem', textAlign: 'center' }}>
@@ -2047,6 +2546,7 @@ function App() {
                             value={state.status || 'pending'}
                             onChange={(e) => handleStatusChange(task.id, e.target.value as TaskStatus)}
                             onClick={(e) => e.stopPropagation()}
+                            disabled={!canEditProject}
                             style={{
                               padding: '0.5rem 0.75rem',
                               background: getStatusColor(state.status),
@@ -2064,32 +2564,54 @@ function App() {
                             <option value="blocked" style={{ background: theme.bgSecondary, color: theme.textPrimary }}>Blocked</option>
                             <option value="on-hold" style={{ background: theme.bgSecondary, color: theme.textPrimary }}>On Hold</option>
                           </select>
-                          <button
-                            onClick={() => handleEditTask(task)}
-                            style={{
-                              padding: '0.5rem 0.75rem',
-                              background: theme.accentBlue,
-                              color: '#fff',
-                              border: 'none',
-                              borderRadius: '4px',
-                              cursor: 'pointer',
-                              fontWeight: '600',
-                            }}>
-                            ✏️
-                          </button>
-                          <button
-                            onClick={() => handleDeleteTask(task.id)}
-                            style={{
-                              padding: '0.5rem 0.75rem',
-                              background: theme.accentRed,
-                              color: '#fff',
-                              border: 'none',
-                              borderRadius: '4px',
-                              cursor: 'pointer',
-                              fontWeight: '600',
-                            }}>
-                            🗑️
-                          </button>
+                          {canEditProject && (
+                            <>
+                              {isAuthenticated && (
+                                <button
+                                  onClick={() => handleStartTimer(task.id)}
+                                  disabled={timedTask?.taskId === task.id && !timedTask.subtaskId}
+                                  title={timedTask?.taskId === task.id && !timedTask.subtaskId ? 'Timing this task' : 'Start a timer on this task'}
+                                  style={{
+                                    padding: '0.5rem 0.75rem',
+                                    background: theme.accentGreen,
+                                    color: '#fff',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontWeight: '600',
+                                    opacity: timedTask?.taskId === task.id && !timedTask.subtaskId ? 0.5 : 1,
+                                  }}>
+                                  ⏱️
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleEditTask(task)}
+                                style={{
+                                  padding: '0.5rem 0.75rem',
+                                  background: theme.accentBlue,
+                                  color: '#fff',
+                                  border: 'none',
+                                  borderRadius: '4px',
+                                  cursor: 'pointer',
+                                  fontWeight: '600',
+                                }}>
+                                ✏️
+                              </button>
+                              <button
+                                onClick={() => handleDeleteTask(task.id)}
+                                style={{
+                                  padding: '0.5rem 0.75rem',
+                                  background: theme.accentRed,
+                                  color: '#fff',
+                                  border: 'none',
+                                  borderRadius: '4px',
+                                  cursor: 'pointer',
+                                  fontWeight: '600',
+                                }}>
+                                🗑️
+                              </button>
+                            </>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -2101,10 +2623,13 @@ function App() {
                             subtasks={task.subtasks}
                             onSubtaskToggle={(subtaskId) => toggleSubtaskStatus(task.id, subtaskId)}
                             onLogTime={(subtaskId, hours) => handleLogSubtaskTime(task.id, subtaskId, hours)}
+                            onStartTimer={isAuthenticated ? (subtaskId) => handleStartTimer(task.id, subtaskId) : undefined}
+                            timingSubtaskId={timedTask?.taskId === task.id ? timedTask.subtaskId : undefined}
+                            loggedHours={getSubtaskLoggedHours(task, projectTimeLogs)}
                             onSubtaskEdit={(subtaskId, updates) => handleEditSubtask(task.id, subtaskId, updates)}
                             onSubtaskDelete={(subtaskId) => handleDeleteSubtask(task.id, subtaskId)}
-                            showTimeTracking={true}
-                            editable={true}
+                            showTimeTracking={canEditProject}
+                            editable={canEditProject}
                           />
                         </td>
                       </tr>
@@ -2138,6 +2663,8 @@ function App() {
         onAddTask={addTask}
         phases={phases}
         categories={categories}
+        projectType={projectMeta.projectType}
+        calibrationModel={calibrationModel}
       />
 
       <EditTaskModal
@@ -2147,14 +2674,18 @@ function App() {
           setTaskToEdit(null);
         }}
         onUpdateTask={handleUpdateTask}
-        onUpdateTaskState={(taskId: string, state: any) => {
-          setTaskStates((prev: any) => ({ ...prev, [taskId]: state }));
-        }}
         task={taskToEdit}
         taskState={taskToEdit ? taskStates[taskToEdit.id] || {} : null}
+        tasks={tasks}
+        taskSchedule={taskToEdit ? criticalPath.schedules[taskToEdit.id] : undefined}
         phases={phases}
         categories={categories}
         collaborators={projectMeta.collaborators || []}
+        projectId={currentProjectId}
+        projectName={projectMeta.name}
+        timeLogEntries={projectTimeLogs}
+        onTimeLogsChange={refreshTimeLogs}
+        resolveTimeLogUser={resolveTimeLogUser}
       />
 
       <ProjectInfoModal
@@ -2206,6 +2737,28 @@ function App() {
         onDeleteSnapshot={handleDeleteSnapshot}
       />
 
+      <RiskRegisterModal
+        show={showRiskRegisterModal}
+        onClose={() => setShowRiskRegisterModal(false)}
+        risks={risks}
+        onSave={setRisks}
+        tasks={tasks}
+        taskStates={taskStates}
+        projectMeta={projectMeta}
+        readOnly={!canEditProject}
+      />
+
+      <AIReportsModal
+        show={showAIReportsModal}
+        onClose={() => setShowAIReportsModal(false)}
+        projectMeta={projectMeta}
+        tasks={tasks}
+        taskStates={taskStates}
+        risks={risks}
+        canGenerate={canEditProject}
+        onRisksFound={handleReportRisks}
+      />
+
       <AnalyticsReportsModal
         show={showAnalyticsModal}
         onClose={() => setShowAnalyticsModal(false)}
@@ -2214,6 +2767,7 @@ function App() {
         projectMeta={projectMeta}
         phases={phases}
         phaseColors={phaseColors}
+        onSetBaseline={canEditProject ? (baseline) => setProjectMeta({ ...projectMeta, baseline }) : undefined}
       />
 
       <CollaboratorManagementModal
@@ -2248,6 +2802,7 @@ function App() {
         taskStates={taskStates}
         phases={phases}
         phaseColors={phaseColors}
+        timeLogs={projectTimeLogs}
       />
 
       <UserManagementModal
@@ -2257,7 +2812,26 @@ function App() {
 
       <TimeLogViewerModal
         show={showTimeLogViewerModal}
-        onClose={() => setShowTimeLogViewerModal(false)}
+        onClose={() => {
+          setShowTimeLogViewerModal(false);
+          refreshTimeLogs();
+        }}
+      />
+
+      <TimesheetModal
+        show={showTimesheetModal}
+        onClose={() => {
+          setShowTimesheetModal(false);
+          refreshTimeLogs();
+        }}
+        projectId={currentProjectId}
+      />
+
+      <ConflictResolutionModal
+        show={showConflictModal}
+        onClose={() => setShowConflictModal(false)}
+        conflicts={syncConflicts}
+        onResolve={handleResolveConflicts}
       />
 
       {/* Footer */}
@@ -2272,7 +2846,7 @@ function App() {
       {/* Mobile Navigation */}
       {isMobile && (
         <MobileNav
-          onAddTask={() => setShowAddTaskModal(true)}
+          onAddTask={canEditProject ? () => setShowAddTaskModal(true) : undefined}
           onOpenMenu={() => setShowProjectInfoModal(true)}
           onSave={() => handleSave(true)}
           onBack={handleBackToDashboard}
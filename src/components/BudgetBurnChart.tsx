@@ -0,0 +1,111 @@
+/**
+ * Budget Burn Chart Component
+ * Plots the project's cumulative billable cost over time against its budget,
+ * with the even burn from start to target end date as a guide.
+ */
+
+import React from 'react';
+import { theme } from '../config/theme';
+import type { BudgetBurnPoint } from '../utils/costTracking';
+import { formatCost } from '../utils/costTracking';
+import { parseDay, daysBetween } from '../utils/ganttSchedule';
+
+interface BudgetBurnChartProps {
+  burn: BudgetBurnPoint[];
+  budget?: number;
+  startDate?: string;               // Project start (YYYY-MM-DD)
+  endDate?: string;                 // Project target end (YYYY-MM-DD)
+}
+
+const WIDTH = 760;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 72 };
+
+export const BudgetBurnChart: React.FC<BudgetBurnChartProps> = ({ burn, budget, startDate, endDate }) => {
+  if (burn.length === 0) {
+    return (
+      <div style={{ padding: '20px', textAlign: 'center', color: theme.textMuted, fontSize: '14px' }}>
+        No priced time yet. Log billable time and give your team hourly rates to see the budget burn.
+      </div>
+    );
+  }
+
+  // Timeline: project start (or first cost) to target end (or last cost)
+  const days = burn.map(point => parseDay(point.date));
+  if (startDate) days.push(parseDay(startDate));
+  if (endDate) days.push(parseDay(endDate));
+  const first = new Date(Math.min(...days.map(d => d.getTime())));
+  const last = new Date(Math.max(...days.map(d => d.getTime())));
+  const totalDays = Math.max(1, daysBetween(first, last));
+
+  const spent = burn[burn.length - 1].cost;
+  const maxCost = Math.max(spent, budget || 0) * 1.1 || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (date: string | Date) =>
+    PADDING.left + (daysBetween(first, typeof date === 'string' ? parseDay(date) : date) / totalDays) * plotWidth;
+  const y = (cost: number) => PADDING.top + plotHeight - (cost / maxCost) * plotHeight;
+
+  // Cost only changes on days with logged time, so draw it as steps
+  let path = `M ${x(burn[0].date)} ${y(0)}`;
+  burn.forEach(point => {
+    path += ` H ${x(point.date)} V ${y(point.cost)}`;
+  });
+
+  const overBudget = budget !== undefined && spent > budget;
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(fraction => (maxCost / 1.1) * fraction);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} style={{ width: '100%', height: 'auto', display: 'block' }}>
+        {/* Cost grid */}
+        {ticks.map(cost => (
+          <g key={cost}>
+            <line x1={PADDING.left} y1={y(cost)} x2={WIDTH - PADDING.right} y2={y(cost)} stroke={theme.border} strokeWidth={0.5} />
+            <text x={PADDING.left - 6} y={y(cost) + 4} fontSize={11} fill={theme.textMuted} textAnchor="end">
+              {formatCost(Math.round(cost)).replace(/\.00$/, '')}
+            </text>
+          </g>
+        ))}
+
+        {/* Date labels at both ends */}
+        <text x={PADDING.left} y={HEIGHT - 10} fontSize={11} fill={theme.textMuted}>
+          {first.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 10} fontSize={11} fill={theme.textMuted} textAnchor="end">
+          {last.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+        </text>
+
+        {/* Even burn from start to target end */}
+        {budget !== undefined && startDate && endDate && (
+          <line
+            x1={x(startDate)} y1={y(0)} x2={x(endDate)} y2={y(budget)}
+            stroke={theme.textMuted} strokeWidth={1.5} strokeDasharray="4 4"
+          />
+        )}
+
+        {/* Budget */}
+        {budget !== undefined && (
+          <line
+            x1={PADDING.left} y1={y(budget)} x2={WIDTH - PADDING.right} y2={y(budget)}
+            stroke={theme.accentRed} strokeWidth={1.5} strokeDasharray="6 3"
+          />
+        )}
+
+        {/* Spent */}
+        <path d={path} fill="none" stroke={overBudget ? theme.accentRed : theme.accentBlue} strokeWidth={2.5} />
+        {burn.map(point => (
+          <circle key={point.date} cx={x(point.date)} cy={y(point.cost)} r={3} fill={overBudget ? theme.accentRed : theme.accentBlue}>
+            <title>{`${point.date}: ${formatCost(point.cost)} spent`}</title>
+          </circle>
+        ))}
+      </svg>
+
+      <div style={{ display: 'flex', gap: '20px', justifyContent: 'center', fontSize: '12px', color: theme.textSecondary, marginTop: '8px' }}>
+        <span><span style={{ color: overBudget ? theme.accentRed : theme.accentBlue }}>━</span> Spent</span>
+        {budget !== undefined && <span><span style={{ color: theme.accentRed }}>╌</span> Budget</span>}
+        {budget !== undefined && startDate && endDate && <span><span style={{ color: theme.textMuted }}>╌</span> Even burn to target date</span>}
+      </div>
+    </div>
+  );
+};
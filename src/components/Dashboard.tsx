@@ -3,7 +3,7 @@
 // ============================================
 
 import React, { useState, useEffect } from 'react';
-import { SavedProject, ProjectStatus } from '../types';
+import { SavedProject, ProjectStatus, ProjectRole } from '../types';
 import {
   getAllProjects,
   getProjectsByStatus,
@@ -16,6 +16,7 @@ import {
 } from '../services/projectStorage';
 import { UserManagementModal } from './modals/UserManagementModal';
 import { TimeLogViewerModal } from './modals/TimeLogViewerModal';
+import { getAllTimeLogs, type TimeLogEntry } from '../services/timeLogService';
 
 interface DashboardProps {
   onOpenProject: (projectId: string) => void;
@@ -31,12 +32,23 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onNewProject, curr
   const [menuOpen, setMenuOpen] = useState<string | null>(null);
   const [showUserManagementModal, setShowUserManagementModal] = useState(false);
   const [showTimeLogViewerModal, setShowTimeLogViewerModal] = useState(false);
+  const [timeLogs, setTimeLogs] = useState<TimeLogEntry[]>([]);
 
   // Load projects
   useEffect(() => {
     loadProjects();
   }, [filter, showArchived]);
 
+  // Time logged on the projects, reloaded after the time logs were viewed (and maybe edited)
+  useEffect(() => {
+    if (showTimeLogViewerModal) return;
+    let cancelled = false;
+    getAllTimeLogs()
+      .then(logs => { if (!cancelled) setTimeLogs(logs); })
+      .catch(error => console.error('Failed to load time logs:', error));
+    return () => { cancelled = true; };
+  }, [showTimeLogViewerModal]);
+
   const loadProjects = () => {
     if (showArchived) {
       setProjects(getArchivedProjects());
@@ -59,13 +71,21 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onNewProject, curr
 
   const counts = getFilterCounts();
 
+  // Projects other users shared with us get their own section
+  const ownProjects = projects.filter(p => !p.meta.sharedBy);
+  const sharedProjects = projects.filter(p => p.meta.sharedBy);
+
   const handleOpenProject = (projectId: string) => {
     setCurrentProjectId(projectId);
     onOpenProject(projectId);
   };
 
   const handleDeleteProject = (projectId: string) => {
-    if (confirm('Are you sure you want to delete this project? This cannot be undone.')) {
+    const shared = projects.find(p => p.meta.id === projectId)?.meta.sharedBy;
+    const message = shared
+      ? `Leave this project shared by ${shared}? It stays with its owner, who can share it with you again.`
+      : 'Are you sure you want to delete this project? This cannot be undone.';
+    if (confirm(message)) {
       deleteProject(projectId);
       loadProjects();
     }
@@ -122,6 +142,116 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onNewProject, curr
     return labels[type] || type;
   };
 
+  const getRoleLabel = (role?: ProjectRole): string => {
+    const labels: Record<ProjectRole, string> = {
+      owner: 'Owner',
+      approver: 'Approver',
+      editor: 'Editor',
+      viewer: 'Viewer',
+    };
+    return role ? labels[role] : labels.viewer;
+  };
+
+  const renderProjectCard = (project: SavedProject) => {
+    const stats = calculateProjectStats(project, timeLogs.filter(log => log.projectId === project.meta.id));
+    const badge = getStatusBadge(project.meta.status);
+
+    return (
+      <div
+        key={project.meta.id}
+        style={styles.projectCard}
+        onClick={() => handleOpenProject(project.meta.id)}>
+        {/* Card Header */}
+        <div style={styles.cardHeader}>
+          <div style={styles.projectIcon}>{project.meta.icon || '📁'}</div>
+          <div style={styles.cardTitle}>
+            <h3>{project.meta.name}</h3>
+            <div style={styles.projectType}>{getProjectTypeLabel(project.meta.projectType)}</div>
+            {project.meta.sharedBy && (
+              <div style={styles.sharedBy}>
+                Shared by {project.meta.sharedBy} · {getRoleLabel(project.meta.accessRole)}
+              </div>
+            )}
+          </div>
+          <div style={styles.cardMenu}>
+            <button
+              style={styles.menuBtn}
+              onClick={(e) => {
+                e.stopPropagation();
+                setMenuOpen(menuOpen === project.meta.id ? null : project.meta.id);
+              }}>
+              ⋮
+            </button>
+            {menuOpen === project.meta.id && (
+              <div style={styles.menuDropdown}>
+                {/* Only owners can archive or delete */}
+                {!project.meta.sharedBy && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleArchiveProject(project.meta.id);
+                      setMenuOpen(null);
+                    }}>
+                    {project.meta.archived ? '📤 Unarchive' : '📦 Archive'}
+                  </button>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleExportProject(project.meta.id);
+                    setMenuOpen(null);
+                  }}>
+                  💾 Export
+                </button>
+                {!project.meta.sharedBy && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteProject(project.meta.id);
+                      setMenuOpen(null);
+                    }}
+                    style={{ color: '#ef4444' }}>
+                    🗑️ Delete
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Progress */}
+        <div style={styles.progressSection}>
+          <div style={styles.progressBarContainer}>
+            <div style={{ ...styles.progressBar, width: `${stats.progress}%` }} />
+          </div>
+          <div style={styles.progressText}>Progress: {stats.progress}%</div>
+        </div>
+
+        {/* Stats */}
+        <div style={styles.cardStats}>
+          {stats.totalActualHours} / {stats.totalEstHours} hours
+        </div>
+
+        {/* Status Badge */}
+        <div style={{ ...styles.statusBadge, ...styles[`status_${badge.className}` as keyof typeof styles] }}>
+          {badge.icon} {badge.label}
+        </div>
+
+        {/* Actions */}
+        <div style={styles.cardActions}>
+          <button
+            style={styles.btnOpen}
+            onClick={(e) => {
+              e.stopPropagation();
+              handleOpenProject(project.meta.id);
+            }}>
+            Open Project
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div style={styles.dashboard}>
       {/* Header */}
@@ -221,7 +351,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onNewProject, curr
 
       {/* Projects Grid */}
       <div style={styles.projectsGrid}>
-        {projects.length === 0 ? (
+        {ownProjects.length === 0 ? (
           <div style={styles.emptyState}>
             <div style={styles.emptyStateIcon}>📋</div>
             <h3>No Projects Found</h3>
@@ -233,98 +363,23 @@ const Dashboard: React.FC<DashboardProps> = ({ onOpenProject, onNewProject, curr
             )}
           </div>
         ) : (
-          projects.map((project) => {
-            const stats = calculateProjectStats(project);
-            const badge = getStatusBadge(project.meta.status);
-
-            return (
-              <div
-                key={project.meta.id}
-                style={styles.projectCard}
-                onClick={() => handleOpenProject(project.meta.id)}>
-                {/* Card Header */}
-                <div style={styles.cardHeader}>
-                  <div style={styles.projectIcon}>{project.meta.icon || '📁'}</div>
-                  <div style={styles.cardTitle}>
-                    <h3>{project.meta.name}</h3>
-                    <div style={styles.projectType}>{getProjectTypeLabel(project.meta.projectType)}</div>
-                  </div>
-                  <div style={styles.cardMenu}>
-                    <button
-                      style={styles.menuBtn}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setMenuOpen(menuOpen === project.meta.id ? null : project.meta.id);
-                      }}>
-                      ⋮
-                    </button>
-                    {menuOpen === project.meta.id && (
-                      <div style={styles.menuDropdown}>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleArchiveProject(project.meta.id);
-                            setMenuOpen(null);
-                          }}>
-                          {project.meta.archived ? '📤 Unarchive' : '📦 Archive'}
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleExportProject(project.meta.id);
-                            setMenuOpen(null);
-                          }}>
-                          💾 Export
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteProject(project.meta.id);
-                            setMenuOpen(null);
-                          }}
-                          style={{ color: '#ef4444' }}>
-                          🗑️ Delete
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                </div>
-
-                {/* Progress */}
-                <div style={styles.progressSection}>
-                  <div style={styles.progressBarContainer}>
-                    <div style={{ ...styles.progressBar, width: `${stats.progress}%` }} />
-                  </div>
-                  <div style={styles.progressText}>Progress: {stats.progress}%</div>
-                </div>
-
-                {/* Stats */}
-                <div style={styles.cardStats}>
-                  {stats.totalActualHours} / {stats.totalEstHours} hours
-                </div>
-
-                {/* Status Badge */}
-                <div style={{ ...styles.statusBadge, ...styles[`status_${badge.className}` as keyof typeof styles] }}>
-                  {badge.icon} {badge.label}
-                </div>
-
-                {/* Actions */}
-                <div style={styles.cardActions}>
-                  <button
-                    style={styles.btnOpen}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleOpenProject(project.meta.id);
-                    }}>
-                    Open Project
-                  </button>
-                </div>
-              </div>
-            );
-          })
+          ownProjects.map(renderProjectCard)
         )}
       </div>
 
+      {/* Projects shared with the current user */}
+      {sharedProjects.length > 0 && (
+        <>
+          <div style={styles.sectionHeader}>
+            <h2 style={styles.sectionTitle}>Shared with me</h2>
+            <span style={styles.count}>{sharedProjects.length}</span>
+          </div>
+          <div style={styles.projectsGrid}>
+            {sharedProjects.map(renderProjectCard)}
+          </div>
+        </>
+      )}
+
       {/* Modals */}
       <UserManagementModal
         show={showUserManagementModal}
@@ -447,6 +502,20 @@ const styles: Record<string, React.CSSProperties> = {
     height: '18px',
     cursor: 'pointer',
   },
+  sectionHeader: {
+    padding: '20px 30px 0',
+    background: '#0b0f14',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    color: '#e6eef8',
+    borderTop: '1px solid #2a3441',
+  },
+  sectionTitle: {
+    fontSize: '20px',
+    fontWeight: 600,
+    margin: 0,
+  },
   projectsGrid: {
     padding: '30px',
     display: 'grid',
@@ -480,6 +549,11 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '13px',
     color: '#8b98a9',
   },
+  sharedBy: {
+    fontSize: '12px',
+    color: '#00A3FF',
+    marginTop: '4px',
+  },
   cardMenu: {
     position: 'relative',
   },
@@ -11,7 +11,7 @@ interface DeveloperDashboardProps {
   onClose: () => void;
 }
 
-type TabType = 'overview' | 'projects' | 'apiKeys' | 'aiConfig' | 'feedback';
+type TabType = 'overview' | 'projects' | 'apiKeys' | 'aiConfig' | 'aiUsage' | 'feedback';
 
 export const DeveloperDashboard: React.FC<DeveloperDashboardProps> = ({ onClose }) => {
   const [activeTab, setActiveTab] = useState<TabType>('overview');
@@ -20,11 +20,13 @@ export const DeveloperDashboard: React.FC<DeveloperDashboardProps> = ({ onClose
   const [apiKeys, setApiKeys] = useState<any[]>([]);
   const [aiConfig, setAiConfig] = useState<any>({});
   const [feedback, setFeedback] = useState<any[]>([]);
+  const [aiUsage, setAiUsage] = useState<any>(null);
+  const [usageDays, setUsageDays] = useState(30);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     loadData();
-  }, [activeTab]);
+  }, [activeTab, usageDays]);
 
   const loadData = async () => {
     setLoading(true);
@@ -56,6 +58,12 @@ export const DeveloperDashboard: React.FC<DeveloperDashboardProps> = ({ onClose
           if (configData.success) setAiConfig(configData.config);
           break;
 
+        case 'aiUsage':
+          const usageRes = await fetch(`${API_URL}/api/admin/ai-usage?days=${usageDays}`, { credentials: 'include' });
+          const usageData = await usageRes.json();
+          if (usageData.success) setAiUsage(usageData.usage);
+          break;
+
         case 'feedback':
           const feedbackRes = await fetch(`${API_URL}/api/admin/feedback`, { credentials: 'include' });
           const feedbackData = await feedbackRes.json();
@@ -125,6 +133,9 @@ export const DeveloperDashboard: React.FC<DeveloperDashboardProps> = ({ onClose
         <TabButton active={activeTab === 'aiConfig'} onClick={() => setActiveTab('aiConfig')}>
           🤖 AI Config
         </TabButton>
+        <TabButton active={activeTab === 'aiUsage'} onClick={() => setActiveTab('aiUsage')}>
+          💰 AI Usage
+        </TabButton>
         <TabButton active={activeTab === 'feedback'} onClick={() => setActiveTab('feedback')}>
           💬 Feedback
         </TabButton>
@@ -143,6 +154,9 @@ export const DeveloperDashboard: React.FC<DeveloperDashboardProps> = ({ onClose
             {activeTab === 'projects' && <ProjectsTab projects={allProjects} />}
             {activeTab === 'apiKeys' && <APIKeysTab keys={apiKeys} onRefresh={loadData} />}
             {activeTab === 'aiConfig' && <AIConfigTab config={aiConfig} onRefresh={loadData} />}
+            {activeTab === 'aiUsage' && (
+              <AIUsageTab usage={aiUsage} days={usageDays} onChangeDays={setUsageDays} onRefresh={loadData} />
+            )}
             {activeTab === 'feedback' && <FeedbackTab feedback={feedback} onRefresh={loadData} />}
           </>
         )}
@@ -192,7 +206,7 @@ const OverviewTab: React.FC<{ stats: any }> = ({ stats }) => {
   );
 };
 
-const StatCard: React.FC<{ title: string; value: number; icon: string; color: string }> = ({
+const StatCard: React.FC<{ title: string; value: number | string; icon: string; color: string }> = ({
   title,
   value,
   icon,
@@ -338,16 +352,321 @@ const APIKeysTab: React.FC<{ keys: any[]; onRefresh: () => void }> = ({ keys, on
   );
 };
 
+// AI provider settings stored in admin_config
+const AI_PROVIDER_FIELDS = [
+  {
+    key: 'ai_provider',
+    label: 'Default Provider',
+    description: 'Default AI provider: anthropic, openai or local (empty = AI_PROVIDER env var, else anthropic)',
+  },
+  {
+    key: 'ai_openai_base_url',
+    label: 'OpenAI-Compatible Base URL',
+    description: 'API root for the OpenAI-compatible provider (empty = OPENAI_BASE_URL env var, else https://api.openai.com/v1)',
+    placeholder: 'https://api.openai.com/v1',
+  },
+  {
+    key: 'ai_openai_model',
+    label: 'OpenAI-Compatible Model',
+    description: 'Model for the OpenAI-compatible provider (empty = OPENAI_MODEL env var, else gpt-4o)',
+    placeholder: 'gpt-4o',
+  },
+];
+
 // AI Config Tab
-const AIConfigTab: React.FC<{ config: any; onRefresh: () => void }> = () => (
-  <div>
-    <h2 style={{ color: theme.textPrimary, marginBottom: '1rem' }}>AI Assistant Configuration</h2>
-    <p style={{ color: theme.textMuted, marginBottom: '2rem' }}>
-      Configure AI capabilities and parameters
-    </p>
-    {/* AI config form will go here */}
-  </div>
-);
+const AIConfigTab: React.FC<{ config: any; onRefresh: () => void }> = ({ config, onRefresh }) => {
+  const [values, setValues] = useState<{ [key: string]: string }>(() => {
+    const initial: { [key: string]: string } = {};
+    AI_PROVIDER_FIELDS.forEach(({ key }) => {
+      initial[key] = config?.[key] ? String(config[key]) : '';
+    });
+    return initial;
+  });
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+      for (const { key, description } of AI_PROVIDER_FIELDS) {
+        const response = await fetch(`${API_URL}/api/admin/ai-config`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ key, value: values[key].trim(), valueType: 'string', description }),
+        });
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error);
+      }
+      onRefresh();
+    } catch (error) {
+      alert('Failed to save AI configuration: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '12px',
+    background: theme.bgPrimary,
+    border: `1px solid ${theme.border}`,
+    borderRadius: '8px',
+    color: theme.textPrimary,
+  };
+
+  return (
+    <div>
+      <h2 style={{ color: theme.textPrimary, marginBottom: '1rem' }}>AI Assistant Configuration</h2>
+      <p style={{ color: theme.textMuted, marginBottom: '2rem' }}>
+        Choose the AI provider used by everyone who hasn't picked one in their settings.
+        The local provider returns fixed sample data, so the AI features work offline.
+      </p>
+
+      <div style={{
+        background: theme.bgSecondary,
+        padding: '1.5rem',
+        borderRadius: '8px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '1rem',
+        maxWidth: '600px',
+      }}>
+        {AI_PROVIDER_FIELDS.map(({ key, label, placeholder }) => (
+          <label key={key} style={{ color: theme.textMuted, fontSize: '0.9rem' }}>
+            {label}
+            <div style={{ marginTop: '0.25rem' }}>
+              {key === 'ai_provider' ? (
+                <select
+                  value={values[key]}
+                  onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                  style={inputStyle}
+                >
+                  <option value="">Environment default</option>
+                  <option value="anthropic">Anthropic Claude</option>
+                  <option value="openai">OpenAI-compatible</option>
+                  <option value="local">Local fixtures (offline)</option>
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={values[key]}
+                  placeholder={placeholder}
+                  onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                  style={inputStyle}
+                />
+              )}
+            </div>
+          </label>
+        ))}
+        <div>
+          <TouchButton onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Configuration'}
+          </TouchButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const formatCost = (value: number) => `$${(value || 0).toFixed(value >= 100 ? 0 : 2)}`;
+
+// AI Usage Tab
+const AIUsageTab: React.FC<{
+  usage: any;
+  days: number;
+  onChangeDays: (days: number) => void;
+  onRefresh: () => void;
+}> = ({ usage, days, onChangeDays, onRefresh }) => {
+  const [dailyQuota, setDailyQuota] = useState(String(usage?.quotas?.daily ?? 0));
+  const [monthlyQuota, setMonthlyQuota] = useState(String(usage?.quotas?.monthly ?? 0));
+  const [savingQuotas, setSavingQuotas] = useState(false);
+
+  if (!usage) return <div style={{ color: theme.textMuted }}>No data available</div>;
+
+  const handleSaveQuotas = async () => {
+    const daily = parseFloat(dailyQuota);
+    const monthly = parseFloat(monthlyQuota);
+    if (!(daily >= 0) || !(monthly >= 0)) {
+      alert('Quotas must be 0 (unlimited) or a positive amount');
+      return;
+    }
+
+    setSavingQuotas(true);
+    try {
+      const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+      const response = await fetch(`${API_URL}/api/admin/ai-usage/quotas`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ daily, monthly }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+      onRefresh();
+    } catch (error) {
+      alert('Failed to save quotas: ' + (error as Error).message);
+    } finally {
+      setSavingQuotas(false);
+    }
+  };
+
+  const maxDailyCost = Math.max(...usage.daily.map((d: any) => d.estimated_cost), 0);
+  const quotaCell = (spent: number, quota: number) => (
+    <span style={{ color: quota && spent >= quota ? theme.accentRed : theme.textSecondary }}>
+      {formatCost(spent)}{quota ? ` / ${formatCost(quota)}` : ''}
+    </span>
+  );
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap', gap: '1rem' }}>
+        <h2 style={{ color: theme.textPrimary, margin: 0 }}>AI Usage &amp; Cost</h2>
+        <select
+          value={days}
+          onChange={(e) => onChangeDays(parseInt(e.target.value))}
+          style={{
+            padding: '8px 12px',
+            background: theme.bgSecondary,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '8px',
+            color: theme.textPrimary,
+          }}
+        >
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+        </select>
+      </div>
+      <p style={{ color: theme.textMuted, marginBottom: '2rem' }}>
+        Costs are estimates from token counts. Quotas only limit calls made with the shared server key.
+      </p>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '1.5rem', marginBottom: '2rem' }}>
+        <StatCard title="AI Calls" value={usage.totals.requests} icon="📡" color={theme.accentBlue} />
+        <StatCard title="Input Tokens" value={usage.totals.input_tokens} icon="📥" color={theme.accentPurple} />
+        <StatCard title="Output Tokens" value={usage.totals.output_tokens} icon="📤" color={theme.accentTeal} />
+        <StatCard title="Estimated Cost" value={formatCost(usage.totals.estimated_cost)} icon="💰" color={theme.accentOrange} />
+      </div>
+
+      {/* Quotas */}
+      <div style={{
+        background: theme.bgSecondary,
+        padding: '1.5rem',
+        borderRadius: '8px',
+        marginBottom: '2rem',
+      }}>
+        <h3 style={{ color: theme.textPrimary, marginBottom: '1rem' }}>Per-User Quotas (USD, 0 = unlimited)</h3>
+        <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+          {[
+            { label: 'Daily', value: dailyQuota, onChange: setDailyQuota },
+            { label: 'Monthly', value: monthlyQuota, onChange: setMonthlyQuota },
+          ].map(({ label, value, onChange }) => (
+            <label key={label} style={{ color: theme.textMuted, fontSize: '0.9rem' }}>
+              {label}
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                style={{
+                  display: 'block',
+                  marginTop: '0.25rem',
+                  width: '160px',
+                  padding: '12px',
+                  background: theme.bgPrimary,
+                  border: `1px solid ${theme.border}`,
+                  borderRadius: '8px',
+                  color: theme.textPrimary,
+                }}
+              />
+            </label>
+          ))}
+          <TouchButton onClick={handleSaveQuotas} disabled={savingQuotas}>
+            {savingQuotas ? 'Saving...' : 'Save Quotas'}
+          </TouchButton>
+        </div>
+      </div>
+
+      {/* Daily cost */}
+      <h3 style={{ color: theme.textPrimary, marginBottom: '1rem' }}>Daily Cost</h3>
+      {usage.daily.length === 0 ? (
+        <p style={{ color: theme.textMuted, marginBottom: '2rem' }}>No AI calls in this period</p>
+      ) : (
+        <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '120px', marginBottom: '2rem' }}>
+          {usage.daily.map((day: any) => (
+            <div
+              key={day.day}
+              title={`${day.day}: ${formatCost(day.estimated_cost)} · ${day.requests} calls · ${day.tokens.toLocaleString()} tokens`}
+              style={{
+                flex: 1,
+                minWidth: '4px',
+                height: `${maxDailyCost > 0 ? Math.max(2, (day.estimated_cost / maxDailyCost) * 100) : 2}%`,
+                background: theme.accentBlue,
+                borderRadius: '2px 2px 0 0',
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* By user */}
+      <h3 style={{ color: theme.textPrimary, marginBottom: '1rem' }}>By User</h3>
+      <div style={{ overflowX: 'auto', marginBottom: '2rem' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ background: theme.bgSecondary, borderBottom: `2px solid ${theme.border}` }}>
+              <th style={tableHeaderStyle}>User</th>
+              <th style={tableHeaderStyle}>Calls</th>
+              <th style={tableHeaderStyle}>Tokens (in / out)</th>
+              <th style={tableHeaderStyle}>Cost</th>
+              <th style={tableHeaderStyle}>Shared Key Today</th>
+              <th style={tableHeaderStyle}>Shared Key This Month</th>
+            </tr>
+          </thead>
+          <tbody>
+            {usage.byUser.map((row: any) => (
+              <tr key={row.user_id || 'anonymous'} style={{ borderBottom: `1px solid ${theme.border}` }}>
+                <td style={tableCellStyle}>{row.email || row.name || 'Anonymous'}</td>
+                <td style={tableCellStyle}>{row.requests.toLocaleString()}</td>
+                <td style={tableCellStyle}>
+                  {row.input_tokens.toLocaleString()} / {row.output_tokens.toLocaleString()}
+                </td>
+                <td style={tableCellStyle}>{formatCost(row.estimated_cost)}</td>
+                <td style={tableCellStyle}>{quotaCell(row.shared_today, usage.quotas.daily)}</td>
+                <td style={tableCellStyle}>{quotaCell(row.shared_this_month, usage.quotas.monthly)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* By endpoint and model */}
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', gap: '2rem' }}>
+        {[
+          { title: 'By Feature', rows: usage.byEndpoint, key: 'endpoint' },
+          { title: 'By Model', rows: usage.byModel, key: 'model' },
+        ].map(({ title, rows, key }) => (
+          <div key={title}>
+            <h3 style={{ color: theme.textPrimary, marginBottom: '1rem' }}>{title}</h3>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <tbody>
+                {rows.map((row: any) => (
+                  <tr key={row[key]} style={{ borderBottom: `1px solid ${theme.border}` }}>
+                    <td style={tableCellStyle}>{row[key]}</td>
+                    <td style={tableCellStyle}>{row.requests.toLocaleString()} calls</td>
+                    <td style={tableCellStyle}>{formatCost(row.estimated_cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
 
 // Feedback Tab
 const FeedbackTab: React.FC<{ feedback: any[]; onRefresh: () => void }> = ({ feedback }) => (
@@ -0,0 +1,276 @@
+/**
+ * Gantt Chart Component
+ * Lays tasks out on a timeline grouped by phase, with dependency arrows and
+ * the critical path highlighted. Bars can be dragged to reschedule a task.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { theme } from '../config/theme';
+import type { Task, TaskState, CriticalPathResult, TaskWindow } from '../types';
+import {
+  scheduleTasks,
+  getTimelineStart,
+  addDays,
+  formatDay,
+  daysBetween,
+} from '../utils/ganttSchedule';
+
+interface GanttChartProps {
+  tasks: Task[];
+  taskStates: { [key: string]: TaskState };
+  phases: { [key: string]: string };           // phaseId -> phaseTitle
+  phaseColors: { [key: string]: string };
+  criticalPath: CriticalPathResult;
+  projectStartDate?: string;
+  hoursPerDay?: number;
+  forecast?: { [taskId: string]: TaskWindow }; // Resource-aware dates, shown in tooltips
+  readOnly?: boolean;
+  onRescheduleTask: (taskId: string, startDate: string | undefined) => void;
+}
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 44;
+const LABEL_WIDTH = 240;
+const DAY_WIDTH = 28;
+const BAR_HEIGHT = 18;
+
+type Row = { type: 'phase'; phaseId: string } | { type: 'task'; task: Task };
+
+export const GanttChart: React.FC<GanttChartProps> = ({
+  tasks,
+  taskStates,
+  phases,
+  phaseColors,
+  criticalPath,
+  projectStartDate,
+  hoursPerDay = 8,
+  forecast = {},
+  readOnly = false,
+  onRescheduleTask,
+}) => {
+  const [drag, setDrag] = useState<{ taskId: string; originX: number; deltaDays: number } | null>(null);
+
+  const timelineStart = getTimelineStart(tasks, projectStartDate);
+  const bars = scheduleTasks(tasks, taskStates, timelineStart, hoursPerDay);
+  const critical = new Set(criticalPath.criticalTaskIds);
+
+  // Phase header followed by its tasks, phases in order of first appearance
+  const rows: Row[] = [];
+  Object.keys(phases).forEach(phaseId => {
+    rows.push({ type: 'phase', phaseId });
+    tasks.filter(t => t.phase === phaseId).forEach(task => rows.push({ type: 'task', task }));
+  });
+  const rowIndex = new Map<string, number>();
+  rows.forEach((row, index) => {
+    if (row.type === 'task') rowIndex.set(row.task.id, index);
+  });
+
+  const lastDay = Math.max(7, ...Object.values(bars).map(bar => Math.ceil(bar.endDay)));
+  const totalDays = lastDay + 7;
+  const chartWidth = totalDays * DAY_WIDTH;
+  const chartHeight = HEADER_HEIGHT + rows.length * ROW_HEIGHT;
+  const todayOffset = daysBetween(timelineStart, new Date(new Date().setHours(0, 0, 0, 0)));
+
+  // Follow the mouse while a bar is being dragged, commit on release
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setDrag(prev => prev && { ...prev, deltaDays: Math.round((e.clientX - prev.originX) / DAY_WIDTH) });
+    };
+    const handleMouseUp = () => {
+      const bar = bars[drag.taskId];
+      if (bar && drag.deltaDays !== 0) {
+        const startDay = Math.max(0, Math.round(bar.startDay) + drag.deltaDays);
+        onRescheduleTask(drag.taskId, formatDay(addDays(timelineStart, startDay)));
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag]);
+
+  const barX = (taskId: string) => {
+    const bar = bars[taskId];
+    const offset = drag?.taskId === taskId ? drag.deltaDays : 0;
+    return (bar.startDay + offset) * DAY_WIDTH;
+  };
+  const barWidth = (taskId: string) => Math.max(4, (bars[taskId].endDay - bars[taskId].startDay) * DAY_WIDTH);
+  const rowY = (index: number) => HEADER_HEIGHT + index * ROW_HEIGHT;
+
+  if (tasks.length === 0) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center', color: theme.textMuted }}>
+        No tasks to schedule yet
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', border: `1px solid ${theme.border}`, borderRadius: '8px', overflow: 'hidden' }}>
+        {/* Task names */}
+        <div style={{ width: LABEL_WIDTH, flexShrink: 0, borderRight: `1px solid ${theme.border}`, background: theme.bgSecondary }}>
+          <div style={{ height: HEADER_HEIGHT, borderBottom: `1px solid ${theme.border}` }} />
+          {rows.map(row => row.type === 'phase' ? (
+            <div
+              key={`phase-${row.phaseId}`}
+              style={{
+                height: ROW_HEIGHT,
+                display: 'flex',
+                alignItems: 'center',
+                padding: '0 0.75rem',
+                fontWeight: '600',
+                fontSize: '0.85rem',
+                color: phaseColors[row.phaseId] || theme.textPrimary,
+                background: theme.bgTertiary,
+              }}>
+              {phases[row.phaseId] || row.phaseId}
+            </div>
+          ) : (
+            <div
+              key={row.task.id}
+              title={row.task.task}
+              style={{
+                height: ROW_HEIGHT,
+                display: 'flex',
+                alignItems: 'center',
+                padding: '0 0.75rem 0 1.5rem',
+                fontSize: '0.85rem',
+                color: theme.textPrimary,
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+              }}>
+              {row.task.task}
+            </div>
+          ))}
+        </div>
+
+        {/* Timeline */}
+        <div style={{ overflowX: 'auto', flex: 1, background: theme.bgPrimary }}>
+          <svg width={chartWidth} height={chartHeight} style={{ display: 'block', userSelect: 'none' }}>
+            <defs>
+              <marker id="gantt-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L6,3 L0,6 z" fill={theme.textMuted} />
+              </marker>
+              <marker id="gantt-arrow-critical" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L6,3 L0,6 z" fill={theme.accentRed} />
+              </marker>
+            </defs>
+
+            {/* Day grid and date labels (weeks labelled, days numbered) */}
+            {Array.from({ length: totalDays }, (_, day) => {
+              const date = addDays(timelineStart, day);
+              const weekend = date.getDay() === 0 || date.getDay() === 6;
+              return (
+                <g key={day}>
+                  <rect
+                    x={day * DAY_WIDTH}
+                    y={HEADER_HEIGHT}
+                    width={DAY_WIDTH}
+                    height={rows.length * ROW_HEIGHT}
+                    fill={weekend ? theme.bgSecondary : 'transparent'}
+                  />
+                  <line x1={day * DAY_WIDTH} y1={HEADER_HEIGHT - 16} x2={day * DAY_WIDTH} y2={chartHeight} stroke={theme.border} strokeWidth={0.5} />
+                  {date.getDay() === 1 && (
+                    <text x={day * DAY_WIDTH + 2} y={14} fontSize={11} fill={theme.textSecondary}>
+                      {date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                    </text>
+                  )}
+                  <text x={day * DAY_WIDTH + DAY_WIDTH / 2} y={HEADER_HEIGHT - 6} fontSize={10} fill={theme.textMuted} textAnchor="middle">
+                    {date.getDate()}
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* Phase bands */}
+            {rows.map((row, index) => row.type === 'phase' && (
+              <rect key={`band-${row.phaseId}`} x={0} y={rowY(index)} width={chartWidth} height={ROW_HEIGHT} fill={theme.bgTertiary} opacity={0.6} />
+            ))}
+
+            {/* Today */}
+            {todayOffset >= 0 && todayOffset <= totalDays && (
+              <line x1={todayOffset * DAY_WIDTH} y1={HEADER_HEIGHT} x2={todayOffset * DAY_WIDTH} y2={chartHeight} stroke={theme.accentBlue} strokeDasharray="4 3" />
+            )}
+
+            {/* Dependency arrows: from the end of the dependency to the start of the task */}
+            {tasks.flatMap(task => (task.dependencies || [])
+              .filter(depId => bars[depId] && bars[task.id] && rowIndex.has(depId) && rowIndex.has(task.id))
+              .map(depId => {
+                const x1 = barX(depId) + barWidth(depId);
+                const y1 = rowY(rowIndex.get(depId)!) + ROW_HEIGHT / 2;
+                const x2 = barX(task.id);
+                const y2 = rowY(rowIndex.get(task.id)!) + ROW_HEIGHT / 2;
+                const onCriticalPath = critical.has(depId) && critical.has(task.id);
+                return (
+                  <path
+                    key={`${depId}->${task.id}`}
+                    d={`M${x1},${y1} H${x1 + 6} V${y2} H${x2}`}
+                    fill="none"
+                    stroke={onCriticalPath ? theme.accentRed : theme.textMuted}
+                    strokeWidth={onCriticalPath ? 1.5 : 1}
+                    markerEnd={`url(#${onCriticalPath ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+                  />
+                );
+              }))}
+
+            {/* Task bars */}
+            {rows.map((row, index) => {
+              if (row.type !== 'task' || !bars[row.task.id]) return null;
+              const task = row.task;
+              const bar = bars[task.id];
+              const isCritical = critical.has(task.id);
+              const isComplete = taskStates[task.id]?.status === 'complete';
+              const start = addDays(timelineStart, Math.floor(bar.startDay));
+              const float = criticalPath.schedules[task.id]?.totalFloat;
+
+              return (
+                <g
+                  key={task.id}
+                  onMouseDown={readOnly ? undefined : (e) => {
+                    e.preventDefault();
+                    setDrag({ taskId: task.id, originX: e.clientX, deltaDays: 0 });
+                  }}
+                  onDoubleClick={readOnly || !bar.pinned ? undefined : () => onRescheduleTask(task.id, undefined)}
+                  style={{ cursor: readOnly ? 'default' : drag?.taskId === task.id ? 'grabbing' : 'grab' }}>
+                  <title>
+                    {`${task.task}\nStarts ${formatDay(start)} · ${(bar.endDay - bar.startDay).toFixed(1)} days`}
+                    {isCritical ? '\nOn the critical path' : float !== undefined ? `\n${float.toFixed(1)}h slack` : ''}
+                    {forecast[task.id] ? `\nForecast ${forecast[task.id].start} to ${forecast[task.id].end}` : ''}
+                    {bar.pinned && !readOnly ? '\nDouble-click to follow dependencies again' : ''}
+                  </title>
+                  <rect
+                    x={barX(task.id)}
+                    y={rowY(index) + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                    width={barWidth(task.id)}
+                    height={BAR_HEIGHT}
+                    rx={4}
+                    fill={isCritical ? theme.accentRed : phaseColors[task.phase] || theme.accentBlue}
+                    opacity={isComplete ? 0.45 : 1}
+                    stroke={bar.pinned ? theme.textPrimary : 'none'}
+                    strokeWidth={bar.pinned ? 1 : 0}
+                  />
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div style={{ display: 'flex', gap: '1.5rem', flexWrap: 'wrap', marginTop: '0.75rem', fontSize: '0.8rem', color: theme.textMuted }}>
+        <span><span style={{ color: theme.accentRed }}>■</span> Critical path</span>
+        <span>▭ Outlined: start date set by hand</span>
+        <span><span style={{ color: theme.accentBlue }}>┆</span> Today</span>
+        <span>{hoursPerDay}h per day{!readOnly && ' · Drag a bar to reschedule'}</span>
+      </div>
+    </div>
+  );
+};
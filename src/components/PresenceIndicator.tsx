@@ -0,0 +1,80 @@
+/**
+ * Presence Indicator Component
+ * Shows who else currently has the project open
+ */
+
+import React from 'react';
+import { theme } from '../config/theme';
+import type { ProjectViewer } from '../types';
+
+interface PresenceIndicatorProps {
+  viewers: ProjectViewer[];
+  currentUserId?: string;
+  maxAvatars?: number;
+}
+
+export const PresenceIndicator: React.FC<PresenceIndicatorProps> = ({
+  viewers,
+  currentUserId,
+  maxAvatars = 4,
+}) => {
+  const others = viewers.filter(v => v.id !== currentUserId);
+  if (others.length === 0) return null;
+
+  const shown = others.slice(0, maxAvatars);
+  const hidden = others.length - shown.length;
+  const names = others.map(v => v.name).join(', ');
+
+  return (
+    <div
+      style={{ display: 'inline-flex', alignItems: 'center', gap: '0.5rem' }}
+      title={`Also viewing: ${names}`}
+    >
+      <div style={{ display: 'flex' }}>
+        {shown.map((viewer, index) => (
+          <div
+            key={viewer.id}
+            style={{
+              width: '28px',
+              height: '28px',
+              borderRadius: '50%',
+              background: viewer.color || theme.accentBlue,
+              color: '#fff',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '0.7rem',
+              fontWeight: '600',
+              border: `2px solid ${theme.bgSecondary}`,
+              marginLeft: index === 0 ? 0 : '-8px',
+            }}
+          >
+            {viewer.initials || viewer.name.slice(0, 2).toUpperCase()}
+          </div>
+        ))}
+        {hidden > 0 && (
+          <div
+            style={{
+              width: '28px',
+              height: '28px',
+              borderRadius: '50%',
+              background: theme.bgTertiary,
+              color: theme.textSecondary,
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '0.7rem',
+              border: `2px solid ${theme.bgSecondary}`,
+              marginLeft: '-8px',
+            }}
+          >
+            +{hidden}
+          </div>
+        )}
+      </div>
+      <span style={{ fontSize: '0.85rem', color: theme.textMuted }}>
+        {others.length === 1 ? `${others[0].name} is viewing` : `${others.length} others viewing`}
+      </span>
+    </div>
+  );
+};
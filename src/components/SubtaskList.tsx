@@ -7,6 +7,9 @@ interface SubtaskListProps {
   onSubtaskEdit?: (subtaskId: string, updates: Partial<Subtask>) => void;
   onSubtaskDelete?: (subtaskId: string) => void;
   onLogTime?: (subtaskId: string, hours: number) => void;
+  onStartTimer?: (subtaskId: string) => void;
+  timingSubtaskId?: string;            // Subtask the user's timer is on, if it's in this list
+  loggedHours?: { [subtaskId: string]: number };  // Hours logged per subtask (see getSubtaskLoggedHours)
   editable?: boolean;
   showTimeTracking?: boolean;
 }
@@ -17,6 +20,9 @@ export const SubtaskList: React.FC<SubtaskListProps> = ({
   onSubtaskEdit,
   onSubtaskDelete,
   onLogTime,
+  onStartTimer,
+  timingSubtaskId,
+  loggedHours,
   editable = false,
   showTimeTracking = false
 }) => {
@@ -41,7 +47,9 @@ export const SubtaskList: React.FC<SubtaskListProps> = ({
 
   // Calculate total estimated and actual hours
   const totalEstHours = sortedSubtasks.reduce((sum, st) => sum + (st.estHours || 0), 0);
-  const totalActualHours = sortedSubtasks.reduce((sum, st) => sum + (st.actualHours || 0), 0);
+  const getActualHours = (subtask: Subtask) =>
+    (loggedHours ? loggedHours[subtask.id] : subtask.actualHours) || 0;
+  const totalActualHours = sortedSubtasks.reduce((sum, st) => sum + getActualHours(st), 0);
 
   const handleLogTime = (subtaskId: string) => {
     const hours = parseFloat(timeInput);
@@ -219,11 +227,11 @@ export const SubtaskList: React.FC<SubtaskListProps> = ({
                       {subtask.estHours !== undefined && (
                         <span style={styles.estHours}>Est: {subtask.estHours.toFixed(2)}h</span>
                       )}
-                      <span style={subtask.actualHours !== undefined && subtask.actualHours > (subtask.estHours || 0)
+                      <span style={getActualHours(subtask) > (subtask.estHours || 0)
                         ? { ...styles.actualHours, color: '#f44336' }
                         : styles.actualHours
                       }>
-                        Act: {(subtask.actualHours || 0).toFixed(2)}h
+                        Act: {getActualHours(subtask).toFixed(2)}h
                       </span>
                     </span>
                   )}
@@ -244,6 +252,22 @@ export const SubtaskList: React.FC<SubtaskListProps> = ({
                       + Log Time
                     </button>
                   )}
+                  {showTimeTracking && onStartTimer && (
+                    timingSubtaskId === subtask.id ? (
+                      <span style={styles.timingBadge}>⏱️ Timing</span>
+                    ) : (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onStartTimer(subtask.id);
+                        }}
+                        title="Start a timer on this subtask"
+                        style={styles.logTimeButton}
+                      >
+                        ▶ Timer
+                      </button>
+                    )
+                  )}
                   {editable && onSubtaskEdit && (
                     <button
                       onClick={(e) => {
@@ -405,6 +429,14 @@ const styles: { [key: string]: React.CSSProperties } = {
     cursor: 'pointer',
     marginLeft: '8px',
   },
+  timingBadge: {
+    padding: '2px 8px',
+    fontSize: '10px',
+    color: '#FF9800',
+    border: '1px solid #FF9800',
+    borderRadius: '3px',
+    marginLeft: '8px',
+  },
   editButton: {
     padding: '2px 8px',
     fontSize: '11px',
@@ -6,18 +6,22 @@
 import React from 'react';
 import { theme } from '../config/theme';
 
-export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error';
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error' | 'offline';
 
 interface SyncIndicatorProps {
   status: SyncStatus;
   lastSyncTime?: string;
   error?: string;
+  onClick?: () => void;             // Makes the indicator clickable (e.g. to review conflicts)
+  pendingCount?: number;            // Changes queued for the server
 }
 
 export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
   status,
   lastSyncTime,
   error,
+  onClick,
+  pendingCount = 0,
 }) => {
   const getStatusInfo = () => {
     switch (status) {
@@ -39,6 +43,12 @@ export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
           text: error || 'Sync failed',
           color: theme.accentRed,
         };
+      case 'offline':
+        return {
+          icon: '📴',
+          text: 'Offline',
+          color: theme.statusInProgress,
+        };
       default:
         return {
           icon: '○',
@@ -62,8 +72,10 @@ export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
         fontSize: '0.85rem',
         color: statusInfo.color,
         fontWeight: '500',
+        cursor: onClick ? 'pointer' : 'default',
       }}
       title={error || statusInfo.text}
+      onClick={onClick}
     >
       <span
         style={{
@@ -74,6 +86,19 @@ export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
         {statusInfo.icon}
       </span>
       <span>{statusInfo.text}</span>
+      {pendingCount > 0 && (
+        <span
+          style={{
+            padding: '0 6px',
+            borderRadius: '8px',
+            background: `${statusInfo.color}33`,
+            fontSize: '0.75rem',
+          }}
+          title={`${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`}
+        >
+          {pendingCount} pending
+        </span>
+      )}
     </div>
   );
 };
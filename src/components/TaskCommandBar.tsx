@@ -0,0 +1,271 @@
+/**
+ * Task Command Bar Component
+ * Type a filter ("blocked tasks assigned to Dana in phase 2") or a bulk edit
+ * ("move all design tasks to on-hold"). Commands are parsed by the AI when it
+ * is reachable, otherwise by the built-in grammar; bulk edits are previewed
+ * before anything changes.
+ */
+
+import React, { useState } from 'react';
+import { theme } from '../config/theme';
+import { aiService } from '../services/aiService';
+import {
+  parseTaskCommandLocally,
+  previewTaskMutation,
+  type TaskCommandContext,
+} from '../utils/taskCommands';
+import type { Task, TaskState, TaskCommand, TaskMutation, TaskMutationPreview } from '../types';
+
+interface TaskCommandBarProps {
+  tasks: Task[];
+  taskStates: { [key: string]: TaskState };
+  context: TaskCommandContext;
+  activeFilter: TaskCommand | null;
+  onFilter: (command: TaskCommand | null) => void;
+  onApply: (taskIds: string[], mutation: TaskMutation) => void;
+  readOnly?: boolean;
+}
+
+interface PendingEdit {
+  command: TaskCommand;
+  preview: TaskMutationPreview[];
+  selected: Set<string>;
+}
+
+const SOURCE_LABELS: { [source in TaskCommand['source']]: string } = {
+  ai: '🤖 AI',
+  local: '⌨️ Built-in',
+};
+
+export const TaskCommandBar: React.FC<TaskCommandBarProps> = ({
+  tasks,
+  taskStates,
+  context,
+  activeFilter,
+  onFilter,
+  onApply,
+  readOnly = false,
+}) => {
+  const [input, setInput] = useState('');
+  const [parsing, setParsing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pendingEdit, setPendingEdit] = useState<PendingEdit | null>(null);
+
+  const parseCommand = async (text: string): Promise<TaskCommand | null> => {
+    try {
+      const command = await aiService.parseTaskCommand(text, context);
+      if (command) return command;
+    } catch (error) {
+      // No key, quota reached or backend down: the built-in grammar still works
+      console.warn('AI command parsing unavailable:', error);
+    }
+    return parseTaskCommandLocally(text, context);
+  };
+
+  const handleSubmit = async () => {
+    const text = input.trim();
+    if (!text || parsing) return;
+
+    setParsing(true);
+    setMessage(null);
+    setPendingEdit(null);
+    try {
+      const command = await parseCommand(text);
+      if (!command) {
+        setMessage('Couldn\'t understand that. Try "blocked tasks assigned to Dana" or "move design tasks to on-hold".');
+        return;
+      }
+
+      if (command.kind === 'filter') {
+        onFilter(command);
+        setInput('');
+        return;
+      }
+
+      if (readOnly) {
+        setMessage('You need edit access to change tasks.');
+        return;
+      }
+
+      const preview = previewTaskMutation(tasks, taskStates, command.query, command.mutation!, context);
+      if (preview.length === 0) {
+        setMessage(`${command.description}: no tasks would change.`);
+        return;
+      }
+      setPendingEdit({ command, preview, selected: new Set(preview.map(p => p.taskId)) });
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggleSelected = (taskId: string) => {
+    if (!pendingEdit) return;
+    const selected = new Set(pendingEdit.selected);
+    if (selected.has(taskId)) {
+      selected.delete(taskId);
+    } else {
+      selected.add(taskId);
+    }
+    setPendingEdit({ ...pendingEdit, selected });
+  };
+
+  const handleApply = () => {
+    if (!pendingEdit || pendingEdit.selected.size === 0) return;
+    onApply([...pendingEdit.selected], pendingEdit.command.mutation!);
+    setMessage(`Updated ${pendingEdit.selected.size} task${pendingEdit.selected.size === 1 ? '' : 's'}.`);
+    setPendingEdit(null);
+    setInput('');
+  };
+
+  return (
+    <div style={{ marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          placeholder='⌘ Filter or edit tasks, e.g. "blocked tasks assigned to Dana in phase 2" or "move all design tasks to on-hold"'
+          disabled={parsing}
+          style={{
+            flex: 1,
+            padding: '0.6rem 1rem',
+            borderRadius: '6px',
+            border: `1px solid ${theme.border}`,
+            background: theme.bgSecondary,
+            color: theme.textPrimary,
+            fontSize: '0.95rem',
+          }}
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={parsing || !input.trim()}
+          style={{
+            padding: '0.6rem 1.25rem',
+            background: theme.accentBlue,
+            color: '#fff',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: parsing ? 'wait' : 'pointer',
+            opacity: parsing || !input.trim() ? 0.6 : 1,
+            fontWeight: '600',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {parsing ? '⏳ Working...' : 'Run'}
+        </button>
+      </div>
+
+      {activeFilter && (
+        <div style={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          marginTop: '0.5rem',
+          padding: '0.35rem 0.75rem',
+          background: theme.bgTertiary,
+          border: `1px solid ${theme.accentBlue}`,
+          borderRadius: '16px',
+          fontSize: '0.9rem',
+          color: theme.textPrimary,
+        }}>
+          <span>🔎 {activeFilter.description}</span>
+          <span style={{ color: theme.textMuted, fontSize: '0.8rem' }}>{SOURCE_LABELS[activeFilter.source]}</span>
+          <button
+            onClick={() => onFilter(null)}
+            title="Clear filter"
+            style={{ background: 'transparent', border: 'none', color: theme.textMuted, cursor: 'pointer' }}
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <div style={{ marginTop: '0.5rem', color: theme.textMuted, fontSize: '0.9rem' }}>{message}</div>
+      )}
+
+      {pendingEdit && (
+        <div style={{
+          marginTop: '0.75rem',
+          padding: '1rem',
+          background: theme.bgSecondary,
+          border: `1px solid ${theme.accentOrange}`,
+          borderRadius: '8px',
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem', gap: '1rem' }}>
+            <div style={{ color: theme.textPrimary, fontWeight: '600' }}>
+              {pendingEdit.command.description}
+              <span style={{ marginLeft: '0.5rem', color: theme.textMuted, fontSize: '0.8rem', fontWeight: 'normal' }}>
+                {SOURCE_LABELS[pendingEdit.command.source]}
+              </span>
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button
+                onClick={() => setPendingEdit(null)}
+                style={{
+                  padding: '0.5rem 1rem',
+                  background: theme.bgTertiary,
+                  color: theme.textPrimary,
+                  border: `1px solid ${theme.border}`,
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontWeight: '600',
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={pendingEdit.selected.size === 0}
+                style={{
+                  padding: '0.5rem 1rem',
+                  background: theme.accentGreen,
+                  color: '#fff',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: pendingEdit.selected.size === 0 ? 'not-allowed' : 'pointer',
+                  opacity: pendingEdit.selected.size === 0 ? 0.6 : 1,
+                  fontWeight: '600',
+                }}
+              >
+                Apply to {pendingEdit.selected.size} task{pendingEdit.selected.size === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+
+          <div style={{ maxHeight: '240px', overflowY: 'auto' }}>
+            {pendingEdit.preview.map(item => (
+              <label
+                key={item.taskId}
+                style={{
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: '0.5rem',
+                  padding: '0.4rem 0',
+                  borderBottom: `1px solid ${theme.border}`,
+                  cursor: 'pointer',
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={pendingEdit.selected.has(item.taskId)}
+                  onChange={() => toggleSelected(item.taskId)}
+                  style={{ marginTop: '0.2rem' }}
+                />
+                <div>
+                  <div style={{ color: theme.textPrimary }}>{item.taskName}</div>
+                  {item.changes.map(change => (
+                    <div key={change.field} style={{ color: theme.textMuted, fontSize: '0.85rem' }}>
+                      {change.field}: {change.before} → <span style={{ color: theme.accentGreen }}>{change.after}</span>
+                    </div>
+                  ))}
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+/**
+ * Task Timer Component
+ * The user's running (or paused) task timer: elapsed time, pause/resume,
+ * and stopping it into a time log entry. The timer lives on the server, so
+ * this only shows it and ticks the clock between fetches. A timer left
+ * running past the warning threshold is flagged as possibly forgotten.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { theme } from '../config/theme';
+import {
+  pauseTimer,
+  resumeTimer,
+  stopTimer,
+  discardTimer,
+  getTimerElapsedSeconds,
+  getTimerWarningHours,
+  type ActiveTimer,
+  type TimeLogEntry,
+} from '../services/timeLogService';
+
+interface TaskTimerProps {
+  timer: ActiveTimer;
+  onTimerChange: (timer: ActiveTimer | null) => void;
+  onTimeLogged: (entry: TimeLogEntry) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.35rem 0.75rem',
+  border: 'none',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  fontWeight: '600',
+  fontSize: '0.85rem',
+};
+
+const formatElapsed = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return [h, m, s].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+// Timed hours rounded to the quarter-hour steps the time log inputs use
+const toLoggedHours = (seconds: number) => Math.round((seconds / 3600) * 4) / 4;
+
+export const TaskTimer: React.FC<TaskTimerProps> = ({ timer, onTimerChange, onTimeLogged }) => {
+  const [now, setNow] = useState(Date.now());
+  const [busy, setBusy] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const [hoursInput, setHoursInput] = useState('');
+  const [notesInput, setNotesInput] = useState('');
+  const [billable, setBillable] = useState(true);
+
+  useEffect(() => {
+    if (!timer.running) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const elapsed = getTimerElapsedSeconds(timer, now);
+  const warningHours = getTimerWarningHours();
+  const forgotten = timer.running && elapsed >= warningHours * 3600;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Timer request failed:', error);
+      alert(error.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTogglePause = () => run(async () => {
+    onTimerChange(timer.running ? await pauseTimer() : await resumeTimer());
+  });
+
+  const handleBeginStop = () => {
+    // An entry holds at most a day, so a forgotten timer starts out at 24h
+    setHoursInput(String(Math.min(toLoggedHours(elapsed), 24)));
+    setNotesInput('');
+    setBillable(true);
+    setStopping(true);
+  };
+
+  const handleStop = () => {
+    const hours = parseFloat(hoursInput);
+    if (isNaN(hours) || hours < 0 || hours > 24) {
+      alert('Please enter between 0 and 24 hours');
+      return;
+    }
+    run(async () => {
+      const entry = await stopTimer({ hours, notes: notesInput.trim() || undefined, billable });
+      setStopping(false);
+      onTimerChange(null);
+      if (entry) onTimeLogged(entry);
+    });
+  };
+
+  const handleDiscard = () => {
+    if (!confirm(`Discard ${formatElapsed(elapsed)} on "${timer.subtaskName || timer.taskName}" without logging it?`)) return;
+    run(async () => {
+      await discardTimer();
+      setStopping(false);
+      onTimerChange(null);
+    });
+  };
+
+  return (
+    <div style={{
+      padding: '0.75rem 1rem',
+      marginBottom: '1rem',
+      background: theme.bgSecondary,
+      border: `1px solid ${forgotten ? theme.accentOrange : theme.border}`,
+      borderRadius: '8px',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <span style={{
+          fontFamily: 'monospace',
+          fontSize: '1.4rem',
+          fontWeight: '600',
+          color: timer.running ? theme.accentGreen : theme.textMuted,
+        }}>
+          ⏱️ {formatElapsed(elapsed)}
+        </span>
+        <div style={{ flex: 1, minWidth: '200px' }}>
+          <div style={{ color: theme.textPrimary, fontWeight: '600' }}>
+            {timer.taskName}{timer.subtaskName && ` › ${timer.subtaskName}`}
+          </div>
+          <div style={{ color: theme.textMuted, fontSize: '0.8rem' }}>
+            {timer.projectName}{timer.running ? '' : ' · Paused'}
+          </div>
+        </div>
+        {!stopping && (
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button
+              onClick={handleTogglePause}
+              disabled={busy}
+              style={{ ...buttonStyle, background: theme.bgTertiary, color: theme.textPrimary, border: `1px solid ${theme.border}` }}
+            >
+              {timer.running ? '⏸ Pause' : '▶ Resume'}
+            </button>
+            <button
+              onClick={handleBeginStop}
+              disabled={busy}
+              style={{ ...buttonStyle, background: theme.accentRed, color: '#fff' }}
+            >
+              ⏹ Stop
+            </button>
+            <button
+              onClick={handleDiscard}
+              disabled={busy}
+              title="Discard without logging time"
+              style={{ ...buttonStyle, background: 'transparent', color: theme.textMuted }}
+            >
+              ✕
+            </button>
+          </div>
+        )}
+      </div>
+
+      {forgotten && (
+        <div style={{ marginTop: '0.5rem', color: theme.accentOrange, fontSize: '0.85rem' }}>
+          ⚠️ This timer has been running for over {warningHours}h. Did you forget to stop it? Correct the hours when you stop it.
+        </div>
+      )}
+
+      {stopping && (
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginTop: '0.75rem', flexWrap: 'wrap' }}>
+          <input
+            type="number"
+            value={hoursInput}
+            onChange={(e) => setHoursInput(e.target.value)}
+            min="0"
+            max="24"
+            step="0.25"
+            title="Hours to log"
+            style={{
+              width: '90px',
+              padding: '0.4rem',
+              borderRadius: '6px',
+              border: `1px solid ${theme.border}`,
+              background: theme.bgTertiary,
+              color: theme.textPrimary,
+            }}
+          />
+          <input
+            type="text"
+            value={notesInput}
+            onChange={(e) => setNotesInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleStop()}
+            placeholder="What did you work on? (optional)"
+            style={{
+              flex: 1,
+              minWidth: '180px',
+              padding: '0.4rem',
+              borderRadius: '6px',
+              border: `1px solid ${theme.border}`,
+              background: theme.bgTertiary,
+              color: theme.textPrimary,
+            }}
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', color: theme.textSecondary, fontSize: '0.85rem', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={billable}
+              onChange={(e) => setBillable(e.target.checked)}
+            />
+            Billable
+          </label>
+          <button
+            onClick={handleStop}
+            disabled={busy}
+            style={{ ...buttonStyle, background: theme.accentGreen, color: '#fff' }}
+          >
+            Log Time
+          </button>
+          <button
+            onClick={() => setStopping(false)}
+            disabled={busy}
+            style={{ ...buttonStyle, background: theme.bgTertiary, color: theme.textPrimary, border: `1px solid ${theme.border}` }}
+          >
+            Keep Timing
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
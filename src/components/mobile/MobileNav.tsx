@@ -14,7 +14,7 @@ import { theme } from '../../config/theme';
 import { TouchButton } from './TouchButton';
 
 export interface MobileNavProps {
-  onAddTask: () => void;
+  onAddTask?: () => void;             // Omit to hide the add button (read-only projects)
   onOpenMenu: () => void;
   onSave: () => void;
   onFilter?: () => void;
@@ -181,18 +181,20 @@ export const MobileNav: React.FC<MobileNavProps> = ({
             </button>
           )}
 
-          <button
-            onClick={onAddTask}
-            style={{
-              ...navButtonStyles,
-              background: theme.accentGreen,
-              color: '#fff',
-              fontWeight: '600',
-              transform: 'scale(1.1)',
-            }}
-          >
-            <span style={{ ...navIconStyles, fontSize: '2rem' }}>+</span>
-          </button>
+          {onAddTask && (
+            <button
+              onClick={onAddTask}
+              style={{
+                ...navButtonStyles,
+                background: theme.accentGreen,
+                color: '#fff',
+                fontWeight: '600',
+                transform: 'scale(1.1)',
+              }}
+            >
+              <span style={{ ...navIconStyles, fontSize: '2rem' }}>+</span>
+            </button>
+          )}
 
           <button
             onClick={onSave}
@@ -25,6 +25,9 @@ export interface MobileTaskCardProps {
   onDelete: (taskId: string) => void;
   onToggleSubtasks?: (taskId: string) => void;
   isSubtasksExpanded?: boolean;
+  readOnly?: boolean;                  // Viewers can't change status, edit or delete
+  onStartTimer?: (taskId: string) => void;
+  isTiming?: boolean;                  // The user's timer is on this task
 }
 
 export const MobileTaskCard: React.FC<MobileTaskCardProps> = ({
@@ -37,6 +40,9 @@ export const MobileTaskCard: React.FC<MobileTaskCardProps> = ({
   onDelete,
   onToggleSubtasks,
   isSubtasksExpanded = false,
+  readOnly = false,
+  onStartTimer,
+  isTiming = false,
 }) => {
   const [showActions, setShowActions] = useState(false);
   const [touchStartX, setTouchStartX] = useState<number | null>(null);
@@ -83,7 +89,7 @@ export const MobileTaskCard: React.FC<MobileTaskCardProps> = ({
   };
 
   const handleTouchEnd = () => {
-    if (swipeDistance < -50) {
+    if (swipeDistance < -50 && !readOnly) {
       setShowActions(true);
     }
     setSwipeDistance(0);
@@ -139,6 +145,7 @@ export const MobileTaskCard: React.FC<MobileTaskCardProps> = ({
           type="checkbox"
           checked={taskState.status === 'complete'}
           onChange={(e) => onCheckboxChange(task.id, e.target.checked)}
+          disabled={readOnly}
           style={{
             width: '24px',
             height: '24px',
@@ -214,6 +221,7 @@ export const MobileTaskCard: React.FC<MobileTaskCardProps> = ({
         <select
           value={taskState.status || 'pending'}
           onChange={(e) => onStatusChange(task.id, e.target.value as TaskStatus)}
+          disabled={readOnly}
           style={{
             flex: 1,
             padding: '8px 12px',
@@ -316,7 +324,7 @@ export const MobileTaskCard: React.FC<MobileTaskCardProps> = ({
       )}
 
       {/* Action buttons */}
-      {showActions ? (
+      {readOnly ? null : showActions ? (
         <div style={{ display: 'flex', gap: '8px' }}>
           <TouchButton
             variant="secondary"
@@ -330,6 +338,20 @@ export const MobileTaskCard: React.FC<MobileTaskCardProps> = ({
           >
             Edit
           </TouchButton>
+          {onStartTimer && !isTiming && (
+            <TouchButton
+              variant="success"
+              size="small"
+              icon="▶"
+              onClick={() => {
+                onStartTimer(task.id);
+                setShowActions(false);
+              }}
+              fullWidth
+            >
+              Timer
+            </TouchButton>
+          )}
           <TouchButton
             variant="danger"
             size="small"
@@ -2,17 +2,17 @@
 // Universal Project Manager - AI Analysis Modal
 // ============================================
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { theme } from '../../config/theme';
 import Modal from '../Modal';
-import { aiService } from '../../services/aiService';
+import { aiService, isAbortError } from '../../services/aiService';
 import { getAvailableProjectTypes } from '../../config/projectTemplates';
-import type { AIAnalysisRequest, ProjectType, ExperienceLevel } from '../../types';
+import type { AIAnalysisRequest, AIRequestOptions, AIStreamProgress, ProjectType, ExperienceLevel } from '../../types';
 
 interface AIAnalysisModalProps {
   show: boolean;
   onClose: () => void;
-  onAnalysisComplete: (request: AIAnalysisRequest, useRealAI: boolean) => void;
+  onAnalysisComplete: (request: AIAnalysisRequest, useRealAI: boolean, options?: AIRequestOptions) => Promise<void>;
 }
 
 const inputStyle = {
@@ -37,6 +37,8 @@ export default function AIAnalysisModal({
   const [timeline, setTimeline] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [hasAPIKey, setHasAPIKey] = useState(false);
+  const [progress, setProgress] = useState<AIStreamProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const projectTypes = getAvailableProjectTypes();
 
@@ -47,6 +49,11 @@ export default function AIAnalysisModal({
     }
   }, [show]);
 
+  // Closing the modal cancels an analysis that is still running
+  useEffect(() => {
+    if (!show) abortControllerRef.current?.abort();
+  }, [show]);
+
   const handleAnalyze = async () => {
     if (!description.trim()) {
       alert('Please enter a project description');
@@ -61,10 +68,16 @@ export default function AIAnalysisModal({
       timeline: timeline || undefined,
     };
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsAnalyzing(true);
+    setProgress(null);
 
     try {
-      await onAnalysisComplete(request, hasAPIKey);
+      await onAnalysisComplete(request, hasAPIKey, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
 
       // Reset form
       setDescription('');
@@ -72,13 +85,21 @@ export default function AIAnalysisModal({
       setTimeline('');
       onClose();
     } catch (error) {
-      alert('Error during analysis. Please try again.');
-      console.error(error);
+      if (!isAbortError(error)) {
+        alert('Error during analysis. Please try again.');
+        console.error(error);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsAnalyzing(false);
+      setProgress(null);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   return (
     <Modal show={show} onClose={onClose} title="🤖 AI Project Analysis" width="700px">
       {!hasAPIKey && (
@@ -229,16 +250,63 @@ export default function AIAnalysisModal({
       </button>
 
       {isAnalyzing && (
-        <p
+        <div
           style={{
             marginTop: '1rem',
-            textAlign: 'center',
-            color: theme.textMuted,
-            fontSize: '0.9rem',
+            padding: '1rem',
+            background: theme.bgTertiary,
+            borderRadius: '6px',
+            border: `1px solid ${theme.border}`,
           }}
         >
-          This may take 10-30 seconds. Analyzing your project requirements...
-        </p>
+          {progress ? (
+            <>
+              <div style={{ display: 'flex', gap: '1.5rem', color: theme.textPrimary, fontWeight: '600', marginBottom: '0.5rem' }}>
+                <span>📁 {progress.phases.length} phase{progress.phases.length !== 1 ? 's' : ''}</span>
+                <span>✅ {progress.tasksParsed} task{progress.tasksParsed !== 1 ? 's' : ''}</span>
+              </div>
+              {progress.phases.length > 0 && (
+                <div style={{ color: theme.textSecondary, fontSize: '0.85rem', marginBottom: '0.25rem' }}>
+                  {progress.phases.join(' · ')}
+                </div>
+              )}
+              {progress.lastTask && (
+                <div
+                  style={{
+                    color: theme.textMuted,
+                    fontSize: '0.85rem',
+                    whiteSpace: 'nowrap',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                  }}
+                >
+                  Latest: {progress.lastTask}
+                </div>
+              )}
+            </>
+          ) : (
+            <div style={{ color: theme.textMuted, fontSize: '0.9rem', textAlign: 'center' }}>
+              Waiting for the first results...
+            </div>
+          )}
+
+          <button
+            onClick={handleCancel}
+            style={{
+              marginTop: '0.75rem',
+              width: '100%',
+              padding: '0.6rem',
+              background: 'transparent',
+              color: theme.accentRed,
+              border: `1px solid ${theme.accentRed}`,
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontWeight: '600',
+            }}
+          >
+            Cancel
+          </button>
+        </div>
       )}
     </Modal>
   );
@@ -0,0 +1,235 @@
+// ============================================
+// Universal Project Manager - AI Task Breakdown Modal
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { theme } from '../../config/theme';
+import Modal from '../Modal';
+import { aiService } from '../../services/aiService';
+import { fitSubtaskHours, getBreakdownTargetHours, BREAKDOWN_HOUR_STEP } from '../../utils/subtaskBreakdown';
+import type { Task, Subtask, SubtaskHourMode } from '../../types';
+
+interface AIBreakdownModalProps {
+  show: boolean;
+  onClose: () => void;
+  onAdd: (subtasks: Subtask[]) => void;
+  task: Task;                        // The task as currently edited
+  existingSubtasks: Subtask[];
+  hourMode: SubtaskHourMode;
+}
+
+const inputStyle = {
+  padding: '0.5rem',
+  borderRadius: '6px',
+  border: `1px solid ${theme.border}`,
+  background: theme.bgTertiary,
+  color: theme.textPrimary,
+  fontSize: '0.9rem',
+};
+
+const buttonStyle = {
+  padding: '0.5rem 1rem',
+  borderRadius: '6px',
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: '600',
+  fontSize: '0.9rem',
+};
+
+const formatHours = (hours: number) => `${Math.round(hours * 100) / 100}h`;
+
+export default function AIBreakdownModal({
+  show,
+  onClose,
+  onAdd,
+  task,
+  existingSubtasks,
+  hourMode,
+}: AIBreakdownModalProps) {
+  const [proposals, setProposals] = useState<Subtask[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetHours = getBreakdownTargetHours(task, existingSubtasks, hourMode);
+  const existingHours = existingSubtasks.reduce((sum, st) => sum + (st.estHours || 0), 0);
+  const proposedHours = proposals.reduce((sum, st) => sum + (st.estHours || 0), 0);
+  const validProposals = proposals.filter(st => st.name.trim());
+
+  const generate = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProposals(await aiService.breakDownTask(task, existingSubtasks, hourMode));
+    } catch (err) {
+      console.error('Task breakdown failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to break down task');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Ask for a breakdown each time the modal opens
+  useEffect(() => {
+    if (show) {
+      setProposals([]);
+      generate();
+    }
+  }, [show]);
+
+  const updateProposal = (id: string, changes: Partial<Subtask>) => {
+    setProposals(proposals.map(st => (st.id === id ? { ...st, ...changes } : st)));
+  };
+
+  const handleAddRow = () => {
+    const order = proposals.reduce(
+      (max, st) => Math.max(max, st.order + 1),
+      existingSubtasks.reduce((max, st) => Math.max(max, st.order + 1), 0)
+    );
+    setProposals([
+      ...proposals,
+      { id: `subtask-${Date.now()}`, name: '', estHours: undefined, status: 'pending', notes: '', order },
+    ]);
+  };
+
+  const handleInsert = () => {
+    if (validProposals.length === 0) return;
+    onAdd(validProposals.map(st => ({ ...st, name: st.name.trim() })));
+    onClose();
+  };
+
+  // What inserting does to the task's estimate
+  const estimateNote = hourMode === 'auto'
+    ? `Hours are auto-calculated from subtasks: the task estimate becomes ${formatHours(existingHours + proposedHours)}.`
+    : targetHours > 0
+      ? `The task estimate stays at ${formatHours(task.adjustedEstHours)}; ${formatHours(targetHours)} of it isn't covered by subtasks yet.`
+      : `The task estimate stays at ${formatHours(task.adjustedEstHours)}, which existing subtasks already cover.`;
+  const offTarget = targetHours > 0 && Math.abs(proposedHours - targetHours) >= BREAKDOWN_HOUR_STEP / 2;
+
+  return (
+    <Modal show={show} onClose={onClose} title="🤖 Break Down with AI" width="700px">
+      <div style={{ marginBottom: '1rem', color: theme.textMuted, fontSize: '0.9rem' }}>
+        Proposed subtasks for <strong style={{ color: theme.textPrimary }}>{task.task}</strong>.
+        Edit, remove or add rows before inserting them.
+      </div>
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '2rem', color: theme.textMuted }}>
+          ⏳ Breaking down the task...
+        </div>
+      ) : error ? (
+        <div style={{
+          padding: '1rem',
+          marginBottom: '1rem',
+          background: theme.bgSecondary,
+          border: `1px solid ${theme.accentRed}`,
+          borderRadius: '8px',
+          color: theme.accentRed,
+        }}>
+          {error}
+        </div>
+      ) : (
+        <div style={{ maxHeight: '50vh', overflowY: 'auto', marginBottom: '1rem' }}>
+          {proposals.map(subtask => (
+            <div key={subtask.id} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+              <input
+                type="text"
+                value={subtask.name}
+                onChange={(e) => updateProposal(subtask.id, { name: e.target.value })}
+                placeholder="Subtask name"
+                title={subtask.notes || undefined}
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <input
+                type="number"
+                value={subtask.estHours ?? ''}
+                onChange={(e) => {
+                  const hours = parseFloat(e.target.value);
+                  updateProposal(subtask.id, { estHours: isNaN(hours) || hours < 0 ? undefined : hours });
+                }}
+                min="0"
+                step={BREAKDOWN_HOUR_STEP}
+                placeholder="hrs"
+                style={{ ...inputStyle, width: '90px' }}
+              />
+              <button
+                onClick={() => setProposals(proposals.filter(st => st.id !== subtask.id))}
+                title="Remove subtask"
+                style={{
+                  background: 'transparent',
+                  border: 'none',
+                  color: theme.accentRed,
+                  cursor: 'pointer',
+                  fontSize: '1rem',
+                  padding: '0.25rem',
+                }}
+              >
+                🗑️
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={handleAddRow}
+            style={{ ...buttonStyle, background: theme.bgTertiary, color: theme.textPrimary, border: `1px solid ${theme.border}` }}
+          >
+            + Add Row
+          </button>
+        </div>
+      )}
+
+      {!loading && proposals.length > 0 && (
+        <div style={{
+          padding: '0.75rem 1rem',
+          marginBottom: '1rem',
+          background: theme.bgSecondary,
+          borderRadius: '8px',
+          border: `1px solid ${offTarget ? theme.accentOrange : theme.border}`,
+          fontSize: '0.9rem',
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+            <span style={{ color: theme.textPrimary }}>
+              Total: <strong>{formatHours(proposedHours)}</strong>
+              {targetHours > 0 && <span style={{ color: theme.textMuted }}> of {formatHours(targetHours)} to cover</span>}
+            </span>
+            {offTarget && (
+              <button
+                onClick={() => setProposals(fitSubtaskHours(proposals, targetHours))}
+                style={{ ...buttonStyle, background: theme.accentOrange, color: '#fff' }}
+              >
+                Fit to {formatHours(targetHours)}
+              </button>
+            )}
+          </div>
+          <div style={{ marginTop: '0.5rem', color: theme.textMuted, fontSize: '0.85rem' }}>{estimateNote}</div>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end', paddingTop: '1rem', borderTop: `1px solid ${theme.border}` }}>
+        <button
+          onClick={generate}
+          disabled={loading}
+          style={{ ...buttonStyle, background: theme.bgTertiary, color: theme.textPrimary, border: `1px solid ${theme.border}`, marginRight: 'auto' }}
+        >
+          🔄 Regenerate
+        </button>
+        <button
+          onClick={onClose}
+          style={{ ...buttonStyle, background: theme.textMuted, color: theme.bgPrimary }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleInsert}
+          disabled={loading || validProposals.length === 0}
+          style={{
+            ...buttonStyle,
+            background: theme.accentBlue,
+            color: '#fff',
+            opacity: loading || validProposals.length === 0 ? 0.6 : 1,
+          }}
+        >
+          Insert {validProposals.length} Subtask{validProposals.length !== 1 ? 's' : ''}
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,442 @@
+// ============================================
+// Universal Project Manager - AI Reports Modal
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { theme } from '../../config/theme';
+import Modal from '../Modal';
+import { aiService } from '../../services/aiService';
+import { getProjectReports, saveProjectReport, deleteProjectReport } from '../../services/projectApiService';
+import { getProjectTimeLogs } from '../../services/timeLogService';
+import { buildReportMetrics, diffReports, REPORT_METRIC_LABELS } from '../../utils/reportDiff';
+import type {
+  ProjectMeta,
+  Task,
+  TaskState,
+  Risk,
+  RiskFactor,
+  SavedAIReport,
+  ReportDiffPart,
+  ReportMetrics,
+} from '../../types';
+
+interface AIReportsModalProps {
+  show: boolean;
+  onClose: () => void;
+  projectMeta: ProjectMeta;
+  tasks: Task[];
+  taskStates: { [key: string]: TaskState };
+  risks: Risk[];
+  canGenerate: boolean;
+  onRisksFound: (riskAreas: RiskFactor[]) => number; // Returns how many were added to the register
+}
+
+const DIFF_COLORS: { [change in ReportDiffPart['change']]: { background: string; color: string } } = {
+  added: { background: 'rgba(76, 175, 80, 0.25)', color: theme.textPrimary },
+  removed: { background: 'rgba(244, 67, 54, 0.25)', color: theme.textSecondary },
+  unchanged: { background: 'transparent', color: theme.textPrimary },
+};
+
+const sectionStyle = {
+  padding: '1rem',
+  background: theme.bgTertiary,
+  borderRadius: '6px',
+  marginBottom: '0.75rem',
+};
+
+const headingStyle = {
+  margin: '0 0 0.5rem 0',
+  color: theme.textMuted,
+  fontSize: '0.85rem',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.05em',
+};
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+function DiffText({ parts }: { parts: ReportDiffPart[] }) {
+  if (parts.length === 0) {
+    return <span style={{ color: theme.textMuted, fontStyle: 'italic' }}>Not provided</span>;
+  }
+  return (
+    <>
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          style={{
+            ...DIFF_COLORS[part.change],
+            textDecoration: part.change === 'removed' ? 'line-through' : 'none',
+            borderRadius: '2px',
+          }}
+        >
+          {part.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function AIReportsModal({
+  show,
+  onClose,
+  projectMeta,
+  tasks,
+  taskStates,
+  risks,
+  canGenerate,
+  onRisksFound,
+}: AIReportsModalProps) {
+  const [reports, setReports] = useState<SavedAIReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!show) return;
+
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    setCompareIds([]);
+    getProjectReports(projectMeta.id)
+      .then(loaded => {
+        setReports(loaded);
+        setSelectedId(loaded[0]?.id || null);
+      })
+      .catch(err => setError(err.message || 'Failed to load reports'))
+      .finally(() => setLoading(false));
+  }, [show, projectMeta.id]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const entries = await getProjectTimeLogs(projectMeta.id);
+      const report = await aiService.generateProgressReport(projectMeta, tasks, taskStates, risks, entries);
+      const saved = await saveProjectReport(projectMeta.id, report, buildReportMetrics(tasks, taskStates, risks, entries));
+      setReports([saved, ...reports]);
+      setSelectedId(saved.id);
+      setCompareIds([]);
+
+      const added = onRisksFound(report.predictiveInsights?.riskAreas || []);
+      if (added > 0) {
+        setNotice(`${added} new risk${added === 1 ? ' was' : 's were'} added to the risk register.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate report');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDelete = async (reportId: string) => {
+    if (!confirm('Delete this report from the history?')) return;
+    try {
+      await deleteProjectReport(projectMeta.id, reportId);
+      const remaining = reports.filter(r => r.id !== reportId);
+      setReports(remaining);
+      setCompareIds(compareIds.filter(id => id !== reportId));
+      if (selectedId === reportId) setSelectedId(remaining[0]?.id || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete report');
+    }
+  };
+
+  // Keep at most two reports ticked; ticking a third replaces the oldest tick
+  const toggleCompare = (reportId: string) => {
+    if (compareIds.includes(reportId)) {
+      setCompareIds(compareIds.filter(id => id !== reportId));
+    } else {
+      setCompareIds([...compareIds, reportId].slice(-2));
+    }
+  };
+
+  const comparing = compareIds.length === 2;
+  const [older, newer] = comparing
+    ? compareIds
+        .map(id => reports.find(r => r.id === id)!)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    : [];
+  const selected = reports.find(r => r.id === selectedId);
+
+  const renderReport = (saved: SavedAIReport) => {
+    const { report, rawMetrics } = saved;
+    const sections: [string, string | undefined][] = [
+      ['Progress Assessment', report.analysis?.progressAssessment],
+      ['Schedule Performance', report.analysis?.schedulePerformance],
+      ['Cost Performance', report.analysis?.costPerformance],
+      ['Quality Metrics', report.analysis?.qualityMetrics],
+      ['Completion Forecast', report.predictiveInsights?.completionForecast],
+      ['Budget Forecast', report.predictiveInsights?.budgetForecast],
+    ];
+    const recommendations: [string, string[] | undefined][] = [
+      ['Immediate', report.recommendations?.immediate],
+      ['Short Term', report.recommendations?.shortTerm],
+      ['Long Term', report.recommendations?.longTerm],
+    ];
+
+    return (
+      <div>
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fit, minmax(110px, 1fr))',
+          gap: '0.5rem',
+          marginBottom: '0.75rem',
+        }}>
+          {(Object.keys(REPORT_METRIC_LABELS) as (keyof ReportMetrics)[])
+            .filter(key => rawMetrics?.[key] !== undefined)
+            .map(key => (
+              <div key={key} style={{ ...sectionStyle, marginBottom: 0, padding: '0.5rem', textAlign: 'center' }}>
+                <div style={{ fontSize: '1.1rem', fontWeight: '600', color: theme.textPrimary }}>{rawMetrics[key]}</div>
+                <div style={{ fontSize: '0.75rem', color: theme.textMuted }}>{REPORT_METRIC_LABELS[key]}</div>
+              </div>
+            ))}
+        </div>
+
+        {sections.filter(([, text]) => text).map(([label, text]) => (
+          <div key={label} style={sectionStyle}>
+            <h4 style={headingStyle}>{label}</h4>
+            <div style={{ color: theme.textPrimary, lineHeight: 1.5 }}>{text}</div>
+          </div>
+        ))}
+
+        <div style={sectionStyle}>
+          <h4 style={headingStyle}>Recommendations</h4>
+          {recommendations.map(([label, items]) => (items && items.length > 0) && (
+            <div key={label} style={{ marginBottom: '0.5rem' }}>
+              <div style={{ color: theme.textSecondary, fontWeight: '600', fontSize: '0.9rem' }}>{label}</div>
+              <ul style={{ margin: '0.25rem 0 0 1.25rem', padding: 0, color: theme.textPrimary }}>
+                {items.map((item, index) => <li key={index}>{item}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {(report.predictiveInsights?.riskAreas || []).length > 0 && (
+          <div style={sectionStyle}>
+            <h4 style={headingStyle}>Risk Areas</h4>
+            {report.predictiveInsights.riskAreas.map((risk, index) => (
+              <div key={index} style={{ marginBottom: '0.5rem', color: theme.textPrimary }}>
+                <strong style={{ textTransform: 'capitalize' }}>[{risk.severity}]</strong> {risk.description}
+                {risk.mitigation && (
+                  <div style={{ color: theme.textSecondary, fontSize: '0.9rem' }}>🛡️ {risk.mitigation}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderComparison = (olderReport: SavedAIReport, newerReport: SavedAIReport) => {
+    const diff = diffReports(olderReport, newerReport);
+
+    return (
+      <div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+          {[olderReport, newerReport].map((r, index) => (
+            <div key={r.id} style={{ color: theme.textMuted, fontSize: '0.9rem', fontWeight: '600' }}>
+              {index === 0 ? 'Older' : 'Newer'}: {formatDate(r.createdAt)}
+            </div>
+          ))}
+        </div>
+
+        <div style={sectionStyle}>
+          <h4 style={headingStyle}>Metrics</h4>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9rem' }}>
+            <tbody>
+              {diff.metrics.map(metric => (
+                <tr key={metric.key} style={{ borderBottom: `1px solid ${theme.border}` }}>
+                  <td style={{ padding: '0.35rem 0', color: theme.textSecondary }}>{metric.label}</td>
+                  <td style={{ padding: '0.35rem 0', color: theme.textPrimary, textAlign: 'right' }}>{metric.before}</td>
+                  <td style={{ padding: '0.35rem 0', color: theme.textPrimary, textAlign: 'right' }}>{metric.after}</td>
+                  <td style={{
+                    padding: '0.35rem 0',
+                    textAlign: 'right',
+                    fontWeight: '600',
+                    color: metric.delta === 0 ? theme.textMuted : theme.accentBlue,
+                  }}>
+                    {metric.delta === 0 ? '—' : formatDelta(metric.delta)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {diff.texts.map(text => (
+          <div key={text.label} style={sectionStyle}>
+            <h4 style={headingStyle}>
+              {text.label}
+              {!text.changed && (
+                <span style={{ marginLeft: '0.5rem', textTransform: 'none', fontWeight: 'normal' }}>(unchanged)</span>
+              )}
+            </h4>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', lineHeight: 1.5 }}>
+              <div><DiffText parts={text.before} /></div>
+              <div><DiffText parts={text.after} /></div>
+            </div>
+          </div>
+        ))}
+
+        {diff.lists.filter(list => list.items.length > 0).map(list => (
+          <div key={list.label} style={sectionStyle}>
+            <h4 style={headingStyle}>{list.label}</h4>
+            {list.items.map((item, index) => (
+              <div
+                key={index}
+                style={{
+                  ...DIFF_COLORS[item.change],
+                  padding: '0.25rem 0.5rem',
+                  marginBottom: '0.25rem',
+                  borderRadius: '4px',
+                  textDecoration: item.change === 'removed' ? 'line-through' : 'none',
+                }}
+              >
+                {item.change === 'added' ? '+ ' : item.change === 'removed' ? '− ' : '  '}
+                {item.text}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Modal show={show} onClose={onClose} title="🤖 AI Progress Reports" width="1100px">
+      <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        {canGenerate && (
+          <button
+            onClick={handleGenerate}
+            disabled={generating}
+            style={{
+              padding: '0.6rem 1rem',
+              background: theme.accentPurple,
+              color: '#fff',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: generating ? 'wait' : 'pointer',
+              opacity: generating ? 0.6 : 1,
+              fontWeight: '600',
+            }}
+          >
+            {generating ? '⏳ Generating...' : '✨ Generate Report'}
+          </button>
+        )}
+        <span style={{ color: theme.textMuted, fontSize: '0.9rem' }}>
+          Tick two reports to compare them side by side.
+        </span>
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem',
+          marginBottom: '1rem',
+          background: 'rgba(244, 67, 54, 0.15)',
+          border: `1px solid ${theme.accentRed}`,
+          borderRadius: '6px',
+          color: theme.textPrimary,
+        }}>
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div style={{
+          padding: '0.75rem',
+          marginBottom: '1rem',
+          background: 'rgba(76, 175, 80, 0.15)',
+          border: `1px solid ${theme.accentGreen}`,
+          borderRadius: '6px',
+          color: theme.textPrimary,
+        }}>
+          {notice}
+        </div>
+      )}
+
+      {loading ? (
+        <div style={{ textAlign: 'center', padding: '3rem', color: theme.textMuted }}>Loading reports...</div>
+      ) : reports.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: '3rem', color: theme.textMuted }}>
+          <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>🤖</div>
+          <h3 style={{ marginBottom: '0.5rem' }}>No AI reports yet</h3>
+          <p>Generated reports are saved here so you can see how the assessment changes over time</p>
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: '260px 1fr', gap: '1rem' }}>
+          {/* History */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', maxHeight: '65vh', overflowY: 'auto' }}>
+            {reports.map(saved => {
+              const active = comparing ? compareIds.includes(saved.id) : saved.id === selectedId;
+              return (
+                <div
+                  key={saved.id}
+                  onClick={() => { setSelectedId(saved.id); if (comparing) setCompareIds([]); }}
+                  style={{
+                    padding: '0.75rem',
+                    background: theme.bgTertiary,
+                    borderRadius: '6px',
+                    border: `1px solid ${active ? theme.accentBlue : theme.border}`,
+                    cursor: 'pointer',
+                  }}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(saved.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => toggleCompare(saved.id)}
+                      title="Compare"
+                    />
+                    <span style={{ color: theme.textPrimary, fontWeight: '600', fontSize: '0.9rem', flex: 1 }}>
+                      {formatDate(saved.createdAt)}
+                    </span>
+                    {canGenerate && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(saved.id); }}
+                        title="Delete report"
+                        style={{
+                          background: 'transparent',
+                          border: 'none',
+                          color: theme.textMuted,
+                          cursor: 'pointer',
+                        }}
+                      >
+                        🗑️
+                      </button>
+                    )}
+                  </div>
+                  <div style={{ color: theme.textMuted, fontSize: '0.8rem', marginTop: '0.25rem' }}>
+                    {saved.rawMetrics?.percentComplete ?? 0}% complete
+                    {saved.createdByName ? ` · ${saved.createdByName}` : ''}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Detail */}
+          <div style={{ maxHeight: '65vh', overflowY: 'auto' }}>
+            {comparing && older && newer
+              ? renderComparison(older, newer)
+              : selected && renderReport(selected)}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
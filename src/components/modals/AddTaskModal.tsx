@@ -5,7 +5,8 @@
 import { useState } from 'react';
 import { theme } from '../../config/theme';
 import Modal from '../Modal';
-import type { Task } from '../../types';
+import { getCalibrationFactor, calibrateEstimate } from '../../utils/estimateCalibration';
+import type { Task, ProjectType, CalibrationModel } from '../../types';
 
 interface AddTaskModalProps {
   show: boolean;
@@ -13,6 +14,8 @@ interface AddTaskModalProps {
   onAddTask: (task: Task) => void;
   phases: { [key: string]: string }; // phaseId -> phaseTitle
   categories: string[];
+  projectType: ProjectType;
+  calibrationModel: CalibrationModel | null; // Learned from completed tasks across projects
 }
 
 const inputStyle = {
@@ -31,16 +34,26 @@ export default function AddTaskModal({
   onAddTask,
   phases,
   categories,
+  projectType,
+  calibrationModel,
 }: AddTaskModalProps) {
   const [taskName, setTaskName] = useState('');
   const [selectedPhase, setSelectedPhase] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [estHours, setEstHours] = useState('');
   const [notes, setNotes] = useState('');
-  const [criticalPath, setCriticalPath] = useState(false);
+  const [useCalibration, setUseCalibration] = useState(true);
 
   const phaseEntries = Object.entries(phases);
 
+  const rawHours = parseFloat(estHours) || 0;
+  const calibration = calibrationModel && selectedCategory
+    ? getCalibrationFactor(calibrationModel, projectType, selectedCategory)
+    : null;
+  const calibratedHours = calibration && calibration.factor !== 1 && rawHours > 0
+    ? calibrateEstimate(rawHours, calibration.factor)
+    : null;
+
   const handleSave = () => {
     if (!taskName.trim()) {
       alert('Please enter a task name');
@@ -65,10 +78,13 @@ export default function AddTaskModal({
       phase: selectedPhase,
       phaseTitle: phases[selectedPhase],
       category: selectedCategory,
-      adjustedEstHours: parseFloat(estHours),
-      criticalPath: criticalPath,
+      adjustedEstHours: rawHours,
       notes: notes.trim() || undefined,
     };
+    if (calibratedHours !== null && useCalibration) {
+      newTask.rawEstHours = rawHours;
+      newTask.adjustedEstHours = calibratedHours;
+    }
 
     onAddTask(newTask);
 
@@ -78,7 +94,7 @@ export default function AddTaskModal({
     setSelectedCategory('');
     setEstHours('');
     setNotes('');
-    setCriticalPath(false);
+    setUseCalibration(true);
     onClose();
   };
 
@@ -148,6 +164,31 @@ export default function AddTaskModal({
           step="0.5"
           style={inputStyle}
         />
+        {calibration && calibratedHours !== null && (
+          <label style={{
+            display: 'flex',
+            alignItems: 'flex-start',
+            gap: '0.5rem',
+            marginTop: '0.5rem',
+            padding: '0.75rem',
+            background: theme.bgTertiary,
+            borderRadius: '6px',
+            fontSize: '0.85rem',
+            color: theme.textSecondary,
+            cursor: 'pointer',
+          }}>
+            <input
+              type="checkbox"
+              checked={useCalibration}
+              onChange={(e) => setUseCalibration(e.target.checked)}
+              style={{ marginTop: '0.15rem' }}
+            />
+            <span>
+              Use calibrated estimate: <strong style={{ color: theme.textPrimary }}>{calibratedHours}h</strong>
+              {' '}(×{calibration.factor} from {calibration.label})
+            </span>
+          </label>
+        )}
       </div>
 
       <div style={{ marginBottom: '1rem' }}>
@@ -167,24 +208,6 @@ export default function AddTaskModal({
         />
       </div>
 
-      <div style={{ marginBottom: '1.5rem' }}>
-        <label style={{
-          display: 'flex',
-          alignItems: 'center',
-          gap: '0.5rem',
-          cursor: 'pointer',
-          color: theme.textPrimary,
-        }}>
-          <input
-            type="checkbox"
-            checked={criticalPath}
-            onChange={(e) => setCriticalPath(e.target.checked)}
-            style={{ cursor: 'pointer' }}
-          />
-          <span style={{ fontWeight: '600' }}>Mark as Critical Path</span>
-        </label>
-      </div>
-
       {/* Action Buttons */}
       <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
         <button
@@ -194,7 +217,7 @@ export default function AddTaskModal({
             setSelectedCategory('');
             setEstHours('');
             setNotes('');
-            setCriticalPath(false);
+            setUseCalibration(true);
             onClose();
           }}
           style={{
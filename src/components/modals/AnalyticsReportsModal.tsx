@@ -2,9 +2,15 @@
 // Universal Project Manager - Analytics & Reports Modal
 // ============================================
 
+import { useState, useEffect } from 'react';
 import { theme } from '../../config/theme';
 import Modal from '../Modal';
-import type { Task, TaskState, ProjectMeta } from '../../types';
+import { BudgetBurnChart } from '../BudgetBurnChart';
+import type { Task, TaskState, ProjectMeta, ProjectBaseline } from '../../types';
+import { getProjectTimeLogs, type TimeLogEntry } from '../../services/timeLogService';
+import { getAllUsers } from '../../services/userService';
+import { buildCostReport, formatCost } from '../../utils/costTracking';
+import { calculateEarnedValue, createBaseline, getTaskActualHours } from '../../utils/calculations';
 
 interface AnalyticsReportsModalProps {
   show: boolean;
@@ -14,6 +20,7 @@ interface AnalyticsReportsModalProps {
   projectMeta: ProjectMeta;
   phases: { [key: string]: string };
   phaseColors: { [key: string]: string };
+  onSetBaseline?: (baseline: ProjectBaseline | null) => void; // Omitted for read-only projects
 }
 
 interface PhaseReport {
@@ -24,6 +31,15 @@ interface PhaseReport {
   estimatedHours: number;
   actualHours: number;
   variance: number;
+  cost: number;
+}
+
+interface TaskCostItem {
+  task: string;
+  phase: string;
+  billableHours: number;
+  nonBillableHours: number;
+  cost: number;
 }
 
 interface TimeVarianceItem {
@@ -58,7 +74,17 @@ export default function AnalyticsReportsModal({
   projectMeta,
   phases,
   phaseColors: _phaseColors,
+  onSetBaseline,
 }: AnalyticsReportsModalProps) {
+  // Time log entries (timer, timesheet and subtask time), for their cost
+  const [timeLogEntries, setTimeLogEntries] = useState<TimeLogEntry[]>([]);
+
+  useEffect(() => {
+    if (!show) return;
+    getProjectTimeLogs(projectMeta.id)
+      .then(setTimeLogEntries)
+      .catch(error => console.error('Error loading time logs:', error));
+  }, [show, projectMeta.id]);
 
   const generateReports = () => {
     const reports = {
@@ -67,6 +93,14 @@ export default function AnalyticsReportsModal({
       categoryBreakdown: {} as { [key: string]: CategoryData },
       upcomingTasks: [] as UpcomingTask[],
       atRiskTasks: [] as UpcomingTask[],
+      cost: buildCostReport(tasks, taskStates, projectMeta, timeLogEntries, getAllUsers()),
+      taskCosts: [] as TaskCostItem[],
+      earnedValue: calculateEarnedValue(tasks, taskStates, {
+        baseline: projectMeta.baseline,
+        projectStartDate: projectMeta.startDate,
+        hoursPerDay: projectMeta.calendar?.hoursPerDay,
+        entries: timeLogEntries,
+      }),
     };
 
     // Phase Timeline Report
@@ -79,7 +113,7 @@ export default function AnalyticsReportsModal({
       phaseTasks.forEach(task => {
         const state = taskStates[task.id] || {};
         phaseEstTotal += parseFloat(String(state.estHours || task.adjustedEstHours)) || 0;
-        phaseActualTotal += parseFloat(state.actualHours || '0') || 0;
+        phaseActualTotal += getTaskActualHours(task, taskStates[task.id], timeLogEntries);
         if (state.status === 'complete') completed++;
       });
 
@@ -92,6 +126,7 @@ export default function AnalyticsReportsModal({
           estimatedHours: parseFloat(phaseEstTotal.toFixed(1)),
           actualHours: parseFloat(phaseActualTotal.toFixed(1)),
           variance: parseFloat((phaseActualTotal - phaseEstTotal).toFixed(1)),
+          cost: reports.cost.byPhase[phaseId]?.cost || 0,
         });
       }
     });
@@ -100,7 +135,7 @@ export default function AnalyticsReportsModal({
     tasks.forEach(task => {
       const state = taskStates[task.id] || {};
       const estHours = parseFloat(String(state.estHours || task.adjustedEstHours)) || 0;
-      const actualHours = parseFloat(state.actualHours || '0') || 0;
+      const actualHours = getTaskActualHours(task, taskStates[task.id], timeLogEntries);
 
       if (actualHours > 0 && estHours > 0) {
         const variance = actualHours - estHours;
@@ -120,6 +155,20 @@ export default function AnalyticsReportsModal({
     // Sort by absolute variance (worst first)
     reports.timeVariance.sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance));
 
+    // Cost per task (most expensive first)
+    tasks.forEach(task => {
+      const taskCost = reports.cost.byTask[task.id];
+      if (!taskCost || taskCost.billableHours + taskCost.nonBillableHours === 0) return;
+      reports.taskCosts.push({
+        task: task.task,
+        phase: task.phaseTitle,
+        billableHours: parseFloat(taskCost.billableHours.toFixed(1)),
+        nonBillableHours: parseFloat(taskCost.nonBillableHours.toFixed(1)),
+        cost: taskCost.cost,
+      });
+    });
+    reports.taskCosts.sort((a, b) => b.cost - a.cost);
+
     // Category Breakdown
     const categories = [...new Set(tasks.map(t => t.category))];
     categories.forEach(category => {
@@ -131,7 +180,7 @@ export default function AnalyticsReportsModal({
       catTasks.forEach(task => {
         const state = taskStates[task.id] || {};
         catEstTotal += parseFloat(String(state.estHours || task.adjustedEstHours)) || 0;
-        catActualTotal += parseFloat(state.actualHours || '0') || 0;
+        catActualTotal += getTaskActualHours(task, taskStates[task.id], timeLogEntries);
         if (state.status === 'complete') completed++;
       });
 
@@ -173,11 +222,36 @@ export default function AnalyticsReportsModal({
     csv += `Project Lead: ${projectMeta.lead || 'N/A'}\n\n`;
 
     csv += '=== PHASE TIMELINE & PROGRESS ===\n';
-    csv += 'Phase,Total Tasks,Completed,Completion %,Estimated Hours,Actual Hours,Variance\n';
+    csv += 'Phase,Total Tasks,Completed,Completion %,Estimated Hours,Actual Hours,Variance,Cost\n';
     reports.phaseTimeline.forEach(phase => {
-      csv += `"${phase.phase}",${phase.totalTasks},${phase.completed},${phase.completionPercent}%,${phase.estimatedHours},${phase.actualHours},${phase.variance}\n`;
+      csv += `"${phase.phase}",${phase.totalTasks},${phase.completed},${phase.completionPercent}%,${phase.estimatedHours},${phase.actualHours},${phase.variance},${phase.cost.toFixed(2)}\n`;
     });
 
+    const { cost } = reports;
+    csv += '\n=== BUDGET & COST ===\n';
+    csv += `Budget,${cost.budget !== undefined ? cost.budget.toFixed(2) : 'N/A'}\n`;
+    csv += `Spent (billable),${cost.total.cost.toFixed(2)}\n`;
+    csv += `Remaining,${cost.budgetRemaining !== undefined ? cost.budgetRemaining.toFixed(2) : 'N/A'}\n`;
+    csv += `Billable Hours,${cost.total.billableHours.toFixed(1)}\n`;
+    csv += `Non-billable Hours,${cost.total.nonBillableHours.toFixed(1)}\n`;
+    csv += `Non-billable Cost,${cost.total.nonBillableCost.toFixed(2)}\n`;
+    csv += `Hours Without a Rate,${cost.total.unratedHours.toFixed(1)}\n`;
+    if (reports.taskCosts.length > 0) {
+      csv += '\nTask,Phase,Billable Hours,Non-billable Hours,Cost\n';
+      reports.taskCosts.forEach(item => {
+        csv += `"${item.task}","${item.phase}",${item.billableHours},${item.nonBillableHours},${item.cost.toFixed(2)}\n`;
+      });
+    }
+
+    const ev = reports.earnedValue;
+    csv += '\n=== EARNED VALUE (HOURS) ===\n';
+    csv += `Measured Against,${ev.fromBaseline ? `Baseline set ${projectMeta.baseline!.setAt.split('T')[0]}` : 'Current plan (no baseline)'}\n`;
+    csv += `As Of,${ev.asOf}\n`;
+    csv += 'BAC,PV,EV,AC,SV,CV,SPI,CPI,EAC,ETC,VAC\n';
+    csv += [ev.bac, ev.pv, ev.ev, ev.ac, ev.sv, ev.cv].map(value => value.toFixed(1)).join(',');
+    csv += `,${ev.spi?.toFixed(2) ?? ''},${ev.cpi?.toFixed(2) ?? ''}`;
+    csv += `,${[ev.eac, ev.etc, ev.vac].map(value => value.toFixed(1)).join(',')}\n`;
+
     csv += '\n=== TIME VARIANCE REPORT ===\n';
     csv += 'Task,Phase,Estimated Hours,Actual Hours,Variance,Variance %\n';
     reports.timeVariance.forEach(item => {
@@ -255,6 +329,7 @@ export default function AnalyticsReportsModal({
             <th>Est. Hours</th>
             <th>Actual Hours</th>
             <th>Variance</th>
+            <th>Cost</th>
           </tr>
           ${reports.phaseTimeline.map(phase => `
             <tr>
@@ -266,10 +341,43 @@ export default function AnalyticsReportsModal({
               <td class="${phase.variance > 0 ? 'negative' : 'positive'}">
                 ${phase.variance > 0 ? '+' : ''}${phase.variance}h
               </td>
+              <td>${formatCost(phase.cost)}</td>
             </tr>
           `).join('')}
         </table>
 
+        <h2>💰 Budget & Cost</h2>
+        <p><strong>Budget:</strong> ${reports.cost.budget !== undefined ? formatCost(reports.cost.budget) : 'Not set'}</p>
+        <p><strong>Spent (billable):</strong> ${formatCost(reports.cost.total.cost)}${reports.cost.budgetUsedPercent !== undefined ? ` (${reports.cost.budgetUsedPercent.toFixed(0)}% of budget)` : ''}</p>
+        ${reports.cost.budgetRemaining !== undefined ? `
+          <p><strong>Remaining:</strong> <span class="${reports.cost.budgetRemaining < 0 ? 'negative' : 'positive'}">${formatCost(reports.cost.budgetRemaining)}</span></p>
+        ` : ''}
+        <p><strong>Non-billable:</strong> ${reports.cost.total.nonBillableHours.toFixed(1)}h (${formatCost(reports.cost.total.nonBillableCost)})</p>
+        ${reports.cost.total.unratedHours > 0 ? `
+          <p><strong>Hours without a rate:</strong> ${reports.cost.total.unratedHours.toFixed(1)}h (not costed)</p>
+        ` : ''}
+
+        <h2>📐 Earned Value (hours)</h2>
+        <p>${reports.earnedValue.fromBaseline
+          ? `Measured against the baseline set ${new Date(projectMeta.baseline!.setAt).toLocaleDateString()}`
+          : 'No baseline set; measured against the current plan'}, as of ${reports.earnedValue.asOf}</p>
+        <table>
+          <tr>
+            <th>BAC</th><th>PV</th><th>EV</th><th>AC</th><th>SPI</th><th>CPI</th><th>EAC</th><th>ETC</th><th>VAC</th>
+          </tr>
+          <tr>
+            <td>${reports.earnedValue.bac.toFixed(1)}h</td>
+            <td>${reports.earnedValue.pv.toFixed(1)}h</td>
+            <td>${reports.earnedValue.ev.toFixed(1)}h</td>
+            <td>${reports.earnedValue.ac.toFixed(1)}h</td>
+            <td class="${(reports.earnedValue.spi ?? 1) < 1 ? 'negative' : 'positive'}">${reports.earnedValue.spi?.toFixed(2) ?? '—'}</td>
+            <td class="${(reports.earnedValue.cpi ?? 1) < 1 ? 'negative' : 'positive'}">${reports.earnedValue.cpi?.toFixed(2) ?? '—'}</td>
+            <td>${reports.earnedValue.eac.toFixed(1)}h</td>
+            <td>${reports.earnedValue.etc.toFixed(1)}h</td>
+            <td class="${reports.earnedValue.vac < 0 ? 'negative' : 'positive'}">${reports.earnedValue.vac.toFixed(1)}h</td>
+          </tr>
+        </table>
+
         ${reports.timeVariance.length > 0 ? `
           <h2>⚠️ Top Time Variances</h2>
           <table>
@@ -393,6 +501,7 @@ export default function AnalyticsReportsModal({
                   <th style={{ padding: '12px', textAlign: 'right', color: '#fff' }}>Est. Hours</th>
                   <th style={{ padding: '12px', textAlign: 'right', color: '#fff' }}>Actual Hours</th>
                   <th style={{ padding: '12px', textAlign: 'right', color: '#fff' }}>Variance</th>
+                  <th style={{ padding: '12px', textAlign: 'right', color: '#fff' }}>Cost</th>
                 </tr>
               </thead>
               <tbody>
@@ -437,6 +546,9 @@ export default function AnalyticsReportsModal({
                     }}>
                       {phase.variance > 0 ? '+' : ''}{phase.variance}h
                     </td>
+                    <td style={{ padding: '12px', textAlign: 'right', color: theme.textSecondary }}>
+                      {formatCost(phase.cost)}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -444,6 +556,197 @@ export default function AnalyticsReportsModal({
           </div>
         </div>
 
+        {/* Budget & Cost */}
+        <div style={{ marginBottom: '30px' }}>
+          <h3 style={{ color: theme.accentGreen, marginBottom: '15px', fontSize: '18px' }}>
+            💰 Budget & Cost
+          </h3>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))',
+            gap: '15px',
+            marginBottom: '15px',
+          }}>
+            {[
+              { label: 'Budget', value: reports.cost.budget !== undefined ? formatCost(reports.cost.budget) : 'Not set', color: theme.textPrimary },
+              {
+                label: reports.cost.budgetUsedPercent !== undefined
+                  ? `Spent (${reports.cost.budgetUsedPercent.toFixed(0)}% of budget)`
+                  : 'Spent',
+                value: formatCost(reports.cost.total.cost),
+                color: theme.accentBlue,
+              },
+              {
+                label: 'Remaining',
+                value: reports.cost.budgetRemaining !== undefined ? formatCost(reports.cost.budgetRemaining) : '—',
+                color: (reports.cost.budgetRemaining ?? 0) < 0 ? theme.accentRed : theme.accentGreen,
+              },
+              {
+                label: `Non-billable (${reports.cost.total.nonBillableHours.toFixed(1)}h)`,
+                value: formatCost(reports.cost.total.nonBillableCost),
+                color: theme.textSecondary,
+              },
+            ].map(card => (
+              <div key={card.label} style={{
+                background: theme.bgTertiary,
+                padding: '15px',
+                borderRadius: '8px',
+                border: `1px solid ${theme.border}`,
+              }}>
+                <div style={{ fontSize: '12px', color: theme.textMuted, marginBottom: '6px' }}>{card.label}</div>
+                <div style={{ fontSize: '20px', fontWeight: 'bold', color: card.color }}>{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {reports.cost.total.unratedHours > 0 && (
+            <div style={{
+              padding: '10px 12px',
+              marginBottom: '15px',
+              borderRadius: '6px',
+              background: theme.bgTertiary,
+              borderLeft: `4px solid ${theme.accentOrange}`,
+              color: theme.textSecondary,
+              fontSize: '13px',
+            }}>
+              ⚠️ {reports.cost.total.unratedHours.toFixed(1)}h of logged time isn't costed: it has no person, or
+              the person has no hourly rate. Set rates in User Management or per project in Collaborators.
+            </div>
+          )}
+
+          <BudgetBurnChart
+            burn={reports.cost.burn}
+            budget={reports.cost.budget}
+            startDate={projectMeta.startDate}
+            endDate={projectMeta.targetEndDate}
+          />
+
+          {reports.taskCosts.length > 0 && (
+            <div style={{ overflowX: 'auto', marginTop: '15px' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ background: theme.brandNavy }}>
+                    <th style={{ padding: '12px', textAlign: 'left', color: '#fff' }}>Task</th>
+                    <th style={{ padding: '12px', textAlign: 'left', color: '#fff' }}>Phase</th>
+                    <th style={{ padding: '12px', textAlign: 'right', color: '#fff' }}>Billable</th>
+                    <th style={{ padding: '12px', textAlign: 'right', color: '#fff' }}>Non-billable</th>
+                    <th style={{ padding: '12px', textAlign: 'right', color: '#fff' }}>Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reports.taskCosts.slice(0, 15).map((item, idx) => (
+                    <tr key={idx} style={{ borderBottom: `1px solid ${theme.border}` }}>
+                      <td style={{ padding: '12px', color: theme.textPrimary }}>{item.task}</td>
+                      <td style={{ padding: '12px', color: theme.textSecondary, fontSize: '12px' }}>{item.phase}</td>
+                      <td style={{ padding: '12px', textAlign: 'right', color: theme.textSecondary }}>{item.billableHours}h</td>
+                      <td style={{ padding: '12px', textAlign: 'right', color: theme.textSecondary }}>{item.nonBillableHours}h</td>
+                      <td style={{ padding: '12px', textAlign: 'right', color: theme.textPrimary, fontWeight: 'bold' }}>
+                        {formatCost(item.cost)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Earned Value */}
+        <div style={{ marginBottom: '30px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px', gap: '10px', flexWrap: 'wrap' }}>
+            <h3 style={{ color: theme.accentBlue, margin: 0, fontSize: '18px' }}>
+              📐 Earned Value (hours)
+            </h3>
+            {onSetBaseline && (
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button
+                  onClick={() => {
+                    if (projectMeta.baseline && !confirm('Replace the current baseline with today\'s plan?')) return;
+                    onSetBaseline(createBaseline(tasks, taskStates, projectMeta.startDate, projectMeta.calendar?.hoursPerDay));
+                  }}
+                  style={{
+                    padding: '8px 14px',
+                    background: theme.accentBlue,
+                    color: '#fff',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontWeight: '600',
+                    fontSize: '13px',
+                  }}
+                >
+                  📌 {projectMeta.baseline ? 'Reset Baseline' : 'Set Baseline'}
+                </button>
+                {projectMeta.baseline && (
+                  <button
+                    onClick={() => confirm('Clear the baseline? Earned value will be measured against the current plan.') && onSetBaseline(null)}
+                    style={{
+                      padding: '8px 14px',
+                      background: theme.bgTertiary,
+                      color: theme.textPrimary,
+                      border: `1px solid ${theme.border}`,
+                      borderRadius: '6px',
+                      cursor: 'pointer',
+                      fontSize: '13px',
+                    }}
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          <div style={{ color: theme.textMuted, fontSize: '13px', marginBottom: '15px' }}>
+            {reports.earnedValue.fromBaseline
+              ? `Measured against the baseline set ${new Date(projectMeta.baseline!.setAt).toLocaleDateString()}`
+              : 'No baseline set, so this is measured against the current plan. Set a baseline to track drift from it.'}
+            {reports.earnedValue.unbaselinedTasks > 0 && ` ${reports.earnedValue.unbaselinedTasks} task(s) added since aren't included.`}
+            {' '}{Math.round(reports.earnedValue.percentComplete)}% of the work is done, {Math.round(reports.earnedValue.percentPlanned)}% was planned by today.
+          </div>
+          <div style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))',
+            gap: '12px',
+          }}>
+            {[
+              { label: 'Planned Value (PV)', value: `${reports.earnedValue.pv.toFixed(1)}h`, hint: 'Hours of work scheduled to be done by today' },
+              { label: 'Earned Value (EV)', value: `${reports.earnedValue.ev.toFixed(1)}h`, hint: 'Planned hours of the work actually done' },
+              { label: 'Actual Cost (AC)', value: `${reports.earnedValue.ac.toFixed(1)}h`, hint: 'Hours logged' },
+              {
+                label: 'SPI',
+                value: reports.earnedValue.spi?.toFixed(2) ?? '—',
+                hint: 'Schedule performance (EV / PV); below 1 is behind schedule',
+                color: (reports.earnedValue.spi ?? 1) < 1 ? theme.accentRed : theme.accentGreen,
+              },
+              {
+                label: 'CPI',
+                value: reports.earnedValue.cpi?.toFixed(2) ?? '—',
+                hint: 'Cost performance (EV / AC); below 1 is over budget',
+                color: (reports.earnedValue.cpi ?? 1) < 1 ? theme.accentRed : theme.accentGreen,
+              },
+              { label: 'Budget at Completion', value: `${reports.earnedValue.bac.toFixed(1)}h`, hint: 'Planned hours of all the work (BAC)' },
+              { label: 'Estimate at Completion', value: `${reports.earnedValue.eac.toFixed(1)}h`, hint: 'Forecast total hours at the current CPI (EAC)' },
+              { label: 'Estimate to Complete', value: `${reports.earnedValue.etc.toFixed(1)}h`, hint: 'Forecast hours still to spend (ETC)' },
+              {
+                label: 'Variance at Completion',
+                value: `${reports.earnedValue.vac > 0 ? '+' : ''}${reports.earnedValue.vac.toFixed(1)}h`,
+                hint: 'BAC - EAC; negative means the work will take more hours than planned (VAC)',
+                color: reports.earnedValue.vac < 0 ? theme.accentRed : theme.accentGreen,
+              },
+            ].map(card => (
+              <div key={card.label} title={card.hint} style={{
+                background: theme.bgTertiary,
+                padding: '12px',
+                borderRadius: '8px',
+                border: `1px solid ${theme.border}`,
+              }}>
+                <div style={{ fontSize: '12px', color: theme.textMuted, marginBottom: '6px' }}>{card.label}</div>
+                <div style={{ fontSize: '18px', fontWeight: 'bold', color: card.color || theme.textPrimary }}>{card.value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Time Variance Report */}
         {reports.timeVariance.length > 0 && (
           <div style={{ marginBottom: '30px' }}>
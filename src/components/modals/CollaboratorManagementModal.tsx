@@ -40,6 +40,8 @@ export default function CollaboratorManagementModal({
   const [newName, setNewName] = useState('');
   const [newEmail, setNewEmail] = useState('');
   const [newRole, setNewRole] = useState('');
+  const [newCapacity, setNewCapacity] = useState('');
+  const [newRate, setNewRate] = useState('');
   const [selectedColor, setSelectedColor] = useState(PRESET_COLORS[0]);
 
   useEffect(() => {
@@ -55,12 +57,38 @@ export default function CollaboratorManagementModal({
       .substring(0, 2);
   };
 
+  // Blank means "use the project calendar's hours per day"
+  const parseCapacity = (value: string): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const hours = parseFloat(value);
+    return isNaN(hours) || hours < 0 || hours > 24 ? null : hours;
+  };
+
+  // Blank means "use the person's own rate" (User Management)
+  const parseRate = (value: string): number | undefined | null => {
+    if (!value.trim()) return undefined;
+    const rate = parseFloat(value);
+    return isNaN(rate) || rate < 0 ? null : rate;
+  };
+
   const handleAdd = () => {
     if (!newName.trim()) {
       alert('Please enter a name');
       return;
     }
 
+    const capacity = parseCapacity(newCapacity);
+    if (capacity === null) {
+      alert('Capacity must be between 0 and 24 hours per day');
+      return;
+    }
+
+    const rate = parseRate(newRate);
+    if (rate === null) {
+      alert('Hourly rate can\'t be negative');
+      return;
+    }
+
     const newCollaborator: Collaborator = {
       id: `collab_${Date.now()}`,
       name: newName.trim(),
@@ -68,15 +96,35 @@ export default function CollaboratorManagementModal({
       role: newRole.trim() || undefined,
       color: selectedColor,
       initials: generateInitials(newName.trim()),
+      capacityHoursPerDay: capacity,
+      hourlyRate: rate,
     };
 
     setLocalCollaborators([...localCollaborators, newCollaborator]);
     setNewName('');
     setNewEmail('');
     setNewRole('');
+    setNewCapacity('');
+    setNewRate('');
     setSelectedColor(PRESET_COLORS[Math.floor(Math.random() * PRESET_COLORS.length)]);
   };
 
+  const handleCapacityChange = (id: string, value: string) => {
+    const capacity = parseCapacity(value);
+    if (capacity === null) return;
+    setLocalCollaborators(localCollaborators.map(c =>
+      c.id === id ? { ...c, capacityHoursPerDay: capacity } : c
+    ));
+  };
+
+  const handleRateChange = (id: string, value: string) => {
+    const rate = parseRate(value);
+    if (rate === null) return;
+    setLocalCollaborators(localCollaborators.map(c =>
+      c.id === id ? { ...c, hourlyRate: rate } : c
+    ));
+  };
+
   const handleDelete = (id: string) => {
     if (confirm('Remove this collaborator? This will unassign them from all tasks.')) {
       setLocalCollaborators(localCollaborators.filter(c => c.id !== id));
@@ -152,6 +200,39 @@ export default function CollaboratorManagementModal({
             </div>
           </div>
 
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', color: theme.textMuted, fontWeight: '600', fontSize: '0.9rem' }}>
+                Capacity (hours/day, Optional)
+              </label>
+              <input
+                type="number"
+                value={newCapacity}
+                onChange={(e) => setNewCapacity(e.target.value)}
+                placeholder="Project calendar default"
+                min="0"
+                max="24"
+                step="0.5"
+                style={inputStyle}
+              />
+            </div>
+
+            <div>
+              <label style={{ display: 'block', marginBottom: '0.5rem', color: theme.textMuted, fontWeight: '600', fontSize: '0.9rem' }}>
+                Hourly Rate on This Project ($, Optional)
+              </label>
+              <input
+                type="number"
+                value={newRate}
+                onChange={(e) => setNewRate(e.target.value)}
+                placeholder="Their own rate"
+                min="0"
+                step="5"
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
           <div style={{ marginBottom: '1rem' }}>
             <label style={{ display: 'block', marginBottom: '0.5rem', color: theme.textMuted, fontWeight: '600', fontSize: '0.9rem' }}>
               Avatar Color
@@ -268,6 +349,37 @@ export default function CollaboratorManagementModal({
                     </div>
                   </div>
 
+                  {/* Capacity */}
+                  <div style={{ flexShrink: 0, textAlign: 'center' }}>
+                    <input
+                      type="number"
+                      value={collab.capacityHoursPerDay ?? ''}
+                      onChange={(e) => handleCapacityChange(collab.id, e.target.value)}
+                      placeholder="—"
+                      min="0"
+                      max="24"
+                      step="0.5"
+                      title="Hours per working day (blank uses the project calendar)"
+                      style={{ ...inputStyle, width: '70px', padding: '0.4rem' }}
+                    />
+                    <div style={{ fontSize: '0.75rem', color: theme.textMuted, marginTop: '0.25rem' }}>h/day</div>
+                  </div>
+
+                  {/* Hourly Rate */}
+                  <div style={{ flexShrink: 0, textAlign: 'center' }}>
+                    <input
+                      type="number"
+                      value={collab.hourlyRate ?? ''}
+                      onChange={(e) => handleRateChange(collab.id, e.target.value)}
+                      placeholder="—"
+                      min="0"
+                      step="5"
+                      title="Hourly rate on this project (blank uses their own rate)"
+                      style={{ ...inputStyle, width: '80px', padding: '0.4rem' }}
+                    />
+                    <div style={{ fontSize: '0.75rem', color: theme.textMuted, marginTop: '0.25rem' }}>$/hour</div>
+                  </div>
+
                   {/* Delete Button */}
                   <button
                     onClick={() => handleDelete(collab.id)}
@@ -0,0 +1,164 @@
+// ============================================
+// Universal Project Manager - Conflict Resolution Modal
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { theme } from '../../config/theme';
+import Modal from '../Modal';
+import type { MergeConflict, ConflictResolution } from '../../types';
+
+interface ConflictResolutionModalProps {
+  show: boolean;
+  onClose: () => void;
+  conflicts: MergeConflict[];
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+/**
+ * Render a conflicting value for display
+ */
+function formatValue(value: any): string {
+  if (value === undefined || value === null || value === '') return '(deleted / empty)';
+  if (typeof value === 'object') {
+    // Whole-task conflicts carry { task, state }; list items carry a name or date
+    if (value.task) return value.task.task;
+    if (value.name) return `${value.name}${value.estHours !== undefined ? ` (${value.estHours}h)` : ''}`;
+    if (value.hours !== undefined) return `${value.hours}h on ${value.date}${value.notes ? ` - ${value.notes}` : ''}`;
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export default function ConflictResolutionModal({
+  show,
+  onClose,
+  conflicts,
+  onResolve,
+}: ConflictResolutionModalProps) {
+  const [resolution, setResolution] = useState<ConflictResolution>({});
+
+  // Default every conflict to keeping the local change
+  useEffect(() => {
+    const initial: ConflictResolution = {};
+    conflicts.forEach(c => {
+      initial[c.id] = 'local';
+    });
+    setResolution(initial);
+  }, [conflicts]);
+
+  const setAll = (side: 'local' | 'remote') => {
+    const all: ConflictResolution = {};
+    conflicts.forEach(c => {
+      all[c.id] = side;
+    });
+    setResolution(all);
+  };
+
+  const optionStyle = (selected: boolean) => ({
+    flex: 1,
+    padding: '0.75rem',
+    borderRadius: '6px',
+    border: `2px solid ${selected ? theme.accentBlue : theme.border}`,
+    background: selected ? `${theme.accentBlue}22` : theme.bgTertiary,
+    color: theme.textPrimary,
+    cursor: 'pointer',
+    textAlign: 'left' as const,
+    fontSize: '0.9rem',
+    wordBreak: 'break-word' as const,
+  });
+
+  return (
+    <Modal show={show} onClose={onClose} title="⚠️ Resolve Sync Conflicts" width="800px">
+      <p style={{ color: theme.textSecondary, marginBottom: '1rem' }}>
+        Someone else changed this project while you were editing it. Non-conflicting changes
+        were merged automatically. Choose which version to keep for each item below.
+      </p>
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+        <button
+          onClick={() => setAll('local')}
+          style={{
+            padding: '0.5rem 1rem',
+            background: theme.bgTertiary,
+            color: theme.textPrimary,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '6px',
+            cursor: 'pointer',
+          }}>
+          Keep all mine
+        </button>
+        <button
+          onClick={() => setAll('remote')}
+          style={{
+            padding: '0.5rem 1rem',
+            background: theme.bgTertiary,
+            color: theme.textPrimary,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '6px',
+            cursor: 'pointer',
+          }}>
+          Keep all theirs
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem', marginBottom: '1.5rem' }}>
+        {conflicts.map(conflict => (
+          <div
+            key={conflict.id}
+            style={{
+              padding: '1rem',
+              background: theme.bgSecondary,
+              border: `1px solid ${theme.border}`,
+              borderRadius: '8px',
+            }}>
+            <div style={{ color: theme.textPrimary, fontWeight: '600', marginBottom: '0.75rem' }}>
+              {conflict.label}
+            </div>
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+              <button
+                onClick={() => setResolution({ ...resolution, [conflict.id]: 'local' })}
+                style={optionStyle(resolution[conflict.id] === 'local')}>
+                <div style={{ color: theme.textMuted, fontSize: '0.75rem', marginBottom: '0.25rem' }}>MINE</div>
+                {formatValue(conflict.localValue)}
+              </button>
+              <button
+                onClick={() => setResolution({ ...resolution, [conflict.id]: 'remote' })}
+                style={optionStyle(resolution[conflict.id] === 'remote')}>
+                <div style={{ color: theme.textMuted, fontSize: '0.75rem', marginBottom: '0.25rem' }}>THEIRS (SERVER)</div>
+                {formatValue(conflict.remoteValue)}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
+        <button
+          onClick={onClose}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: theme.bgTertiary,
+            color: theme.textPrimary,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '6px',
+            cursor: 'pointer',
+          }}>
+          Decide Later
+        </button>
+        <button
+          onClick={() => onResolve(resolution)}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: theme.accentGreen,
+            color: '#fff',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            fontWeight: '600',
+          }}>
+          Apply & Sync
+        </button>
+      </div>
+    </Modal>
+  );
+}
@@ -6,18 +6,27 @@ import { useState, useEffect } from 'react';
 import { theme } from '../../config/theme';
 import Modal from '../Modal';
 import { BulkAddSubtasksModal } from './BulkAddSubtasksModal';
-import type { Task, TaskState, Collaborator, TimeLog, Subtask, SubtaskHourMode } from '../../types';
+import AIBreakdownModal from './AIBreakdownModal';
+import { createTimeLog, deleteTimeLog, isTimeLogLocked, type TimeLogEntry } from '../../services/timeLogService';
+import { collectLoggedTime, getLegacyTimeLogs } from '../../utils/loggedHours';
+import type { Task, TaskState, TaskSchedule, Collaborator, Subtask, SubtaskHourMode } from '../../types';
 
 interface EditTaskModalProps {
   show: boolean;
   onClose: () => void;
   onUpdateTask: (task: Task) => void;
-  onUpdateTaskState: (taskId: string, state: TaskState) => void;
   task: Task | null;
   taskState: TaskState | null;
+  tasks?: Task[];                    // All project tasks, to pick dependencies from
+  taskSchedule?: TaskSchedule;       // Critical path timing of this task
   phases: { [key: string]: string }; // phaseId -> phaseTitle
   categories: string[];
   collaborators?: Collaborator[];
+  projectId?: string | null;         // Project the task's time is logged in
+  projectName?: string;
+  timeLogEntries?: TimeLogEntry[];   // The project's time log entries
+  onTimeLogsChange?: () => void;     // Called after an entry was added or deleted
+  resolveTimeLogUser?: () => { userId: string; userName: string } | null;  // Who logs time with no one picked
 }
 
 const inputStyle = {
@@ -43,12 +52,18 @@ export default function EditTaskModal({
   show,
   onClose,
   onUpdateTask,
-  onUpdateTaskState,
   task,
   taskState,
+  tasks = [],
+  taskSchedule,
   phases,
   categories,
   collaborators = [],
+  projectId,
+  projectName = '',
+  timeLogEntries = [],
+  onTimeLogsChange,
+  resolveTimeLogUser,
 }: EditTaskModalProps) {
   // Task fields
   const [taskName, setTaskName] = useState('');
@@ -56,25 +71,54 @@ export default function EditTaskModal({
   const [selectedCategory, setSelectedCategory] = useState('');
   const [estHours, setEstHours] = useState('');
   const [notes, setNotes] = useState('');
-  const [criticalPath, setCriticalPath] = useState(false);
+  const [dependencies, setDependencies] = useState<string[]>([]);
   const [assignedTo, setAssignedTo] = useState('');
 
   // Time logging
-  const [timeLogs, setTimeLogs] = useState<TimeLog[]>([]);
   const [showAddTimeLog, setShowAddTimeLog] = useState(false);
   const [newLogHours, setNewLogHours] = useState('');
   const [newLogDate, setNewLogDate] = useState('');
   const [newLogNotes, setNewLogNotes] = useState('');
+  const [newLogBy, setNewLogBy] = useState('');
+  const [newLogBillable, setNewLogBillable] = useState(true);
+  const [savingTimeLog, setSavingTimeLog] = useState(false);
 
   // Subtask management
   const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [subtaskHourMode, setSubtaskHourMode] = useState<SubtaskHourMode>('manual');
   const [showBulkAddSubtasks, setShowBulkAddSubtasks] = useState(false);
+  const [showAIBreakdown, setShowAIBreakdown] = useState(false);
 
   const phaseEntries = Object.entries(phases);
 
-  // Calculate total logged time
-  const totalLoggedHours = timeLogs.reduce((sum, log) => sum + log.hours, 0);
+  // Time logged on the task itself: its entries, and its time logs from before entries existed (read-only)
+  const taskEntries = task
+    ? timeLogEntries.filter(entry => entry.taskId === task.id && !entry.subtaskId)
+    : [];
+  const legacyLogs = task ? getLegacyTimeLogs(task, taskState || undefined, timeLogEntries) : [];
+  const totalLoggedHours = task
+    ? collectLoggedTime([task], taskState ? { [task.id]: taskState } : {}, timeLogEntries)
+      .filter(log => !log.subtaskId)
+      .reduce((sum, log) => sum + log.hours, 0)
+    : 0;
+  const loggedItems = [
+    ...taskEntries.map(entry => ({
+      id: entry.id,
+      date: entry.date,
+      hours: entry.hours,
+      notes: entry.notes,
+      loggedBy: entry.userName || entry.userId,
+      billable: entry.billable,
+      entry,
+    })),
+    ...legacyLogs.map(log => ({
+      ...log,
+      loggedBy: log.loggedBy
+        ? collaborators.find(c => c.id === log.loggedBy)?.name || 'Former collaborator'
+        : undefined,
+      entry: undefined,
+    })),
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
   // Calculate total subtask hours
   const totalSubtaskHours = subtasks.reduce((sum, st) => sum + (st.estHours || 0), 0);
@@ -87,21 +131,20 @@ export default function EditTaskModal({
       setSelectedCategory(task.category);
       setEstHours(task.adjustedEstHours.toString());
       setNotes(task.notes || '');
-      setCriticalPath(task.criticalPath || false);
+      setDependencies(task.dependencies || []);
       setAssignedTo(task.assignedTo || '');
       setSubtasks(task.subtasks || []);
       setSubtaskHourMode(task.subtaskHourMode || 'manual');
     }
 
-    if (taskState) {
-      setTimeLogs(taskState.timeLogs || []);
-    }
-
-    // Set default date to today for new time logs
+    // Set default date to today for new time logs, logged by the assignee
     setNewLogDate(new Date().toISOString().split('T')[0]);
-  }, [task, taskState]);
+    setNewLogBy(task?.assignedTo || '');
+  }, [task]);
 
-  const handleAddTimeLog = () => {
+  // The time is kept as a time log entry, so week locks, timesheets and reports all see it
+  const handleAddTimeLog = async () => {
+    if (!task) return;
     const hours = parseFloat(newLogHours);
     if (!hours || hours <= 0) {
       alert('Please enter valid hours (greater than 0)');
@@ -112,26 +155,56 @@ export default function EditTaskModal({
       return;
     }
 
-    const newLog: TimeLog = {
-      id: `log_${Date.now()}`,
-      date: newLogDate,
-      hours: hours,
-      notes: newLogNotes.trim() || undefined,
-    };
+    if (!projectId) {
+      alert('Open the task\'s project to log time on it');
+      return;
+    }
 
-    const updatedLogs = [...timeLogs, newLog];
-    setTimeLogs(updatedLogs);
+    const collaborator = collaborators.find(c => c.id === newLogBy);
+    const user = collaborator
+      ? { userId: collaborator.id, userName: collaborator.name }
+      : resolveTimeLogUser?.();
+    if (!user) return;
+
+    setSavingTimeLog(true);
+    try {
+      await createTimeLog({
+        projectId,
+        projectName,
+        taskId: task.id,
+        taskName: task.task,
+        userId: user.userId,
+        userName: user.userName,
+        date: newLogDate,
+        hours: hours,
+        notes: newLogNotes.trim() || undefined,
+        billable: newLogBillable ? undefined : false,
+      });
+      onTimeLogsChange?.();
+    } catch (error) {
+      console.error('Error saving time log:', error);
+      alert(`Couldn't log ${hours}h on the task: ${error instanceof Error ? error.message : error}`);
+      return;
+    } finally {
+      setSavingTimeLog(false);
+    }
 
     // Reset form
     setNewLogHours('');
     setNewLogNotes('');
     setNewLogDate(new Date().toISOString().split('T')[0]);
+    setNewLogBillable(true);
     setShowAddTimeLog(false);
   };
 
-  const handleDeleteTimeLog = (logId: string) => {
-    if (confirm('Delete this time log entry?')) {
-      setTimeLogs(timeLogs.filter(log => log.id !== logId));
+  const handleDeleteTimeLog = async (entry: TimeLogEntry) => {
+    if (!confirm('Delete this time log entry?')) return;
+    try {
+      await deleteTimeLog(entry);
+      onTimeLogsChange?.();
+    } catch (error) {
+      console.error('Error deleting time log:', error);
+      alert(`Couldn't delete the time log: ${error instanceof Error ? error.message : error}`);
     }
   };
 
@@ -193,7 +266,9 @@ export default function EditTaskModal({
       phaseTitle: phases[selectedPhase],
       category: selectedCategory,
       adjustedEstHours: finalEstHours,
-      criticalPath: criticalPath,
+      // A hand-edited estimate replaces the calibrated one, so drop its raw value
+      rawEstHours: finalEstHours === task.adjustedEstHours ? task.rawEstHours : undefined,
+      dependencies,
       notes: notes.trim() || undefined,
       assignedTo: assignedTo || undefined,
       subtasks: subtasks.length > 0 ? subtasks : undefined,
@@ -201,17 +276,6 @@ export default function EditTaskModal({
     };
 
     onUpdateTask(updatedTask);
-
-    // Update task state with time logs
-    if (taskState) {
-      const updatedState: TaskState = {
-        ...taskState,
-        timeLogs: timeLogs,
-        actualHours: totalLoggedHours.toFixed(1), // Update legacy field
-      };
-      onUpdateTaskState(task.id, updatedState);
-    }
-
     onClose();
   };
 
@@ -380,6 +444,33 @@ export default function EditTaskModal({
                   />
                 </div>
               </div>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem', alignItems: 'end' }}>
+                <div>
+                  <label style={{ display: 'block', marginBottom: '0.25rem', color: theme.textMuted, fontSize: '0.85rem', fontWeight: '600' }}>
+                    Logged By
+                  </label>
+                  <select
+                    value={newLogBy}
+                    onChange={(e) => setNewLogBy(e.target.value)}
+                    style={{ ...inputStyle, padding: '0.5rem' }}
+                  >
+                    <option value="">Me</option>
+                    {collaborators.map((collab) => (
+                      <option key={collab.id} value={collab.id}>
+                        {collab.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: theme.textPrimary, fontSize: '0.9rem', padding: '0.5rem 0', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={newLogBillable}
+                    onChange={(e) => setNewLogBillable(e.target.checked)}
+                  />
+                  Billable
+                </label>
+              </div>
               <div style={{ marginBottom: '0.75rem' }}>
                 <label style={{ display: 'block', marginBottom: '0.25rem', color: theme.textMuted, fontSize: '0.85rem', fontWeight: '600' }}>
                   Notes (Optional)
@@ -399,22 +490,24 @@ export default function EditTaskModal({
               </div>
               <button
                 onClick={handleAddTimeLog}
+                disabled={savingTimeLog}
                 style={{
                   ...buttonStyle,
                   background: theme.accentGreen,
                   color: '#fff',
                   width: '100%',
+                  opacity: savingTimeLog ? 0.6 : 1,
                 }}
               >
-                Add Time Entry
+                {savingTimeLog ? 'Logging...' : 'Add Time Entry'}
               </button>
             </div>
           )}
 
           {/* Time Log Entries */}
-          {timeLogs.length > 0 ? (
+          {loggedItems.length > 0 ? (
             <div style={{ maxHeight: '200px', overflowY: 'auto' }}>
-              {timeLogs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(log => (
+              {loggedItems.map(log => (
                 <div
                   key={log.id}
                   style={{
@@ -430,6 +523,14 @@ export default function EditTaskModal({
                       <div style={{ display: 'flex', gap: '1rem', color: theme.textPrimary, fontWeight: '600', fontSize: '0.95rem' }}>
                         <span>📅 {new Date(log.date).toLocaleDateString()}</span>
                         <span style={{ color: theme.accentBlue }}>⏱️ {log.hours} hrs</span>
+                        {log.loggedBy && (
+                          <span style={{ color: theme.textSecondary, fontWeight: 'normal' }}>
+                            👤 {log.loggedBy}
+                          </span>
+                        )}
+                        {log.billable === false && (
+                          <span style={{ color: theme.textMuted, fontWeight: 'normal' }}>Non-billable</span>
+                        )}
                       </div>
                       {log.notes && (
                         <div style={{ color: theme.textMuted, fontSize: '0.85rem', marginTop: '0.25rem' }}>
@@ -437,21 +538,31 @@ export default function EditTaskModal({
                         </div>
                       )}
                     </div>
-                    <button
-                      onClick={() => handleDeleteTimeLog(log.id)}
-                      style={{
-                        background: 'transparent',
-                        border: 'none',
-                        color: theme.accentRed,
-                        cursor: 'pointer',
-                        fontSize: '1.2rem',
-                        padding: '0',
-                        lineHeight: 1,
-                      }}
-                      title="Delete"
-                    >
-                      🗑️
-                    </button>
+                    {/* Entries in a submitted or approved week, and logs from before entries, are read-only */}
+                    {log.entry && !isTimeLogLocked(log.entry) ? (
+                      <button
+                        onClick={() => handleDeleteTimeLog(log.entry)}
+                        style={{
+                          background: 'transparent',
+                          border: 'none',
+                          color: theme.accentRed,
+                          cursor: 'pointer',
+                          fontSize: '1.2rem',
+                          padding: '0',
+                          lineHeight: 1,
+                        }}
+                        title="Delete"
+                      >
+                        🗑️
+                      </button>
+                    ) : (
+                      <span
+                        style={{ color: theme.textMuted, fontSize: '1rem' }}
+                        title={log.entry ? 'This week\'s timesheet is submitted or approved' : 'Logged before time log entries; read-only'}
+                      >
+                        🔒
+                      </span>
+                    )}
                   </div>
                 </div>
               ))}
@@ -490,16 +601,30 @@ export default function EditTaskModal({
                 )}
               </div>
             </div>
-            <button
-              onClick={() => setShowBulkAddSubtasks(true)}
-              style={{
-                ...buttonStyle,
-                background: theme.accentGreen,
-                color: '#fff',
-              }}
-            >
-              + Bulk Add
-            </button>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button
+                onClick={() => setShowAIBreakdown(true)}
+                disabled={!taskName.trim()}
+                style={{
+                  ...buttonStyle,
+                  background: theme.accentPurple,
+                  color: '#fff',
+                  opacity: taskName.trim() ? 1 : 0.6,
+                }}
+              >
+                🤖 Break Down with AI
+              </button>
+              <button
+                onClick={() => setShowBulkAddSubtasks(true)}
+                style={{
+                  ...buttonStyle,
+                  background: theme.accentGreen,
+                  color: '#fff',
+                }}
+              >
+                + Bulk Add
+              </button>
+            </div>
           </div>
 
           {/* Hour Mode Selection */}
@@ -590,7 +715,7 @@ export default function EditTaskModal({
               color: theme.textMuted,
               fontSize: '0.9rem'
             }}>
-              No subtasks yet. Click "+ Bulk Add" to add multiple subtasks at once.
+              No subtasks yet. Click "🤖 Break Down with AI" for suggestions, or "+ Bulk Add" to add multiple subtasks at once.
             </div>
           )}
         </div>
@@ -613,23 +738,56 @@ export default function EditTaskModal({
           />
         </div>
 
-        {/* Critical Path */}
+        {/* Dependencies */}
         <div style={{ marginBottom: '1.5rem' }}>
-          <label style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: '0.5rem',
-            cursor: 'pointer',
-            color: theme.textPrimary,
-          }}>
-            <input
-              type="checkbox"
-              checked={criticalPath}
-              onChange={(e) => setCriticalPath(e.target.checked)}
-              style={{ cursor: 'pointer' }}
-            />
-            <span style={{ fontWeight: '600' }}>Mark as Critical Path</span>
+          <label style={{ display: 'block', marginBottom: '0.5rem', color: theme.textPrimary, fontWeight: '600' }}>
+            Depends On
           </label>
+          {tasks.filter(t => t.id !== task?.id).length === 0 ? (
+            <div style={{ color: theme.textMuted, fontSize: '0.85rem' }}>No other tasks in this project</div>
+          ) : (
+            <div style={{
+              maxHeight: '160px',
+              overflowY: 'auto',
+              padding: '0.5rem',
+              borderRadius: '6px',
+              border: `1px solid ${theme.border}`,
+              background: theme.bgTertiary,
+            }}>
+              {tasks.filter(t => t.id !== task?.id).map(other => (
+                <label
+                  key={other.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    padding: '0.25rem 0',
+                    cursor: 'pointer',
+                    color: theme.textPrimary,
+                    fontSize: '0.9rem',
+                  }}>
+                  <input
+                    type="checkbox"
+                    checked={dependencies.includes(other.id)}
+                    onChange={(e) => setDependencies(prev => (
+                      e.target.checked ? [...prev, other.id] : prev.filter(id => id !== other.id)
+                    ))}
+                    style={{ cursor: 'pointer' }}
+                  />
+                  <span>{other.task}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {/* Critical path is calculated from dependencies and estimates */}
+          <div style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: theme.textMuted }}>
+            {taskSchedule
+              ? taskSchedule.isCritical
+                ? `On the critical path - starts at hour ${taskSchedule.earliestStart.toFixed(1)}, no slack`
+                : `Not critical - starts at hour ${taskSchedule.earliestStart.toFixed(1)}, ${taskSchedule.totalFloat.toFixed(1)}h slack`
+              : 'Part of a dependency cycle - not scheduled'}
+          </div>
         </div>
       </div>
 
@@ -665,6 +823,23 @@ export default function EditTaskModal({
         taskName={taskName}
         taskEstHours={parseFloat(estHours) || 0}
       />
+
+      {/* AI Breakdown Modal */}
+      <AIBreakdownModal
+        show={showAIBreakdown}
+        onClose={() => setShowAIBreakdown(false)}
+        onAdd={handleBulkAddSubtasks}
+        task={{
+          ...task,
+          task: taskName,
+          phaseTitle: phases[selectedPhase] || task.phaseTitle,
+          category: selectedCategory,
+          adjustedEstHours: parseFloat(estHours) || 0,
+          notes: notes.trim() || undefined,
+        }}
+        existingSubtasks={subtasks}
+        hourMode={subtaskHourMode}
+      />
     </Modal>
   );
 }
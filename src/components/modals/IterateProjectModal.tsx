@@ -5,7 +5,7 @@
 import React, { useState } from 'react';
 import Modal from '../Modal';
 import { theme } from '../../config/theme';
-import type { SavedProject, IterationResponse } from '../../types';
+import type { SavedProject, IterationResponse, ProjectChange } from '../../types';
 import { aiService } from '../../services/aiService';
 
 interface IterateProjectModalProps {
@@ -25,6 +25,8 @@ export function IterateProjectModal({
   const [isGenerating, setIsGenerating] = useState(false);
   const [preview, setPreview] = useState<IterationResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
 
   const handleGenerate = async () => {
     if (!request.trim()) {
@@ -38,6 +40,8 @@ export function IterateProjectModal({
     try {
       const response = await aiService.iterateProject(request, project);
       setPreview(response);
+      setSelected(response.changes.map(() => true));
+      setEditingIndex(null);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       setError(errorMessage);
@@ -47,17 +51,45 @@ export function IterateProjectModal({
     }
   };
 
+  const selectedChanges = preview ? preview.changes.filter((_, i) => selected[i]) : [];
+
   const handleApply = () => {
-    if (preview) {
-      onApplyChanges(preview);
+    if (preview && selectedChanges.length > 0) {
+      onApplyChanges({
+        ...preview,
+        changes: selectedChanges,
+        previewData: {
+          ...preview.previewData,
+          summary: selectedChanges.length === preview.changes.length
+            ? preview.previewData.summary
+            : `${selectedChanges.length} of ${preview.changes.length} changes: ${preview.previewData.summary}`,
+        },
+      });
       handleClose();
     }
   };
 
+  const toggleChange = (index: number) => {
+    setSelected(selected.map((value, i) => (i === index ? !value : value)));
+  };
+
+  // Edit a proposed task's data before it's accepted
+  const updateChangeData = (index: number, data: Partial<ProjectChange['data']>) => {
+    if (!preview) return;
+    setPreview({
+      ...preview,
+      changes: preview.changes.map((change, i) =>
+        i === index ? { ...change, data: { ...change.data, ...data } } : change
+      ),
+    });
+  };
+
   const handleClose = () => {
     setRequest('');
     setPreview(null);
     setError(null);
+    setSelected([]);
+    setEditingIndex(null);
     onClose();
   };
 
@@ -66,54 +98,131 @@ export function IterateProjectModal({
     handleGenerate();
   };
 
+  const taskName = (taskId?: string) => project.tasks.find(t => t.id === taskId)?.task || taskId;
+
+  const describeChange = (change: ProjectChange): string => {
+    switch (change.type) {
+      case 'add_task':
+        return `➕ New task: ${change.data.task} (${change.data.baseEstHours} hrs, ${change.data.category})`;
+      case 'add_subtask':
+        return `📝 Add ${change.data.subtasks.length} subtask${change.data.subtasks.length !== 1 ? 's' : ''} to ${taskName(change.target)}`;
+      case 'modify_task':
+        return `✏️ ${taskName(change.target)}: update ${Object.keys(change.data).join(', ')}`;
+      case 'update_estimate':
+        return `⏱️ ${taskName(change.target)}: ${
+          change.data.oldEstimate !== undefined ? `${change.data.oldEstimate} → ` : ''}${change.data.newEstimate} hrs`;
+      case 'add_dependency':
+        return `🔗 ${taskName(change.target)} waits for ${
+          change.data.dependencies.map((id: string) => taskName(id)).join(', ')}`;
+      case 'add_phase':
+        return `📁 New phase: ${change.data.phaseTitle}`;
+    }
+  };
+
+  const renderTaskEditor = (change: ProjectChange, index: number) => (
+    <div style={styles.editor}>
+      <input
+        type="text"
+        value={change.data.task}
+        onChange={(e) => updateChangeData(index, { task: e.target.value })}
+        placeholder="Task name"
+        style={styles.editorInput}
+      />
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.5rem' }}>
+        <input
+          type="number"
+          value={change.data.baseEstHours}
+          onChange={(e) => {
+            const hours = parseFloat(e.target.value) || 0;
+            updateChangeData(index, { baseEstHours: hours, adjustedEstHours: hours });
+          }}
+          min="0"
+          step="0.5"
+          title="Estimated hours"
+          style={styles.editorInput}
+        />
+        <input
+          type="text"
+          value={change.data.category}
+          onChange={(e) => updateChangeData(index, { category: e.target.value })}
+          placeholder="Category"
+          style={styles.editorInput}
+        />
+        <select
+          value={change.data.phase}
+          onChange={(e) => {
+            const phase = project.phases.find(p => p.phaseId === e.target.value);
+            updateChangeData(index, { phase: e.target.value, phaseTitle: phase?.phaseTitle || e.target.value });
+          }}
+          style={styles.editorInput}
+        >
+          {!project.phases.some(p => p.phaseId === change.data.phase) && (
+            <option value={change.data.phase}>{change.data.phaseTitle} (new)</option>
+          )}
+          {project.phases.map(phase => (
+            <option key={phase.phaseId} value={phase.phaseId}>{phase.phaseTitle}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+
   const renderPreview = () => {
     if (!preview) return null;
 
-    const { previewData } = preview;
-
     return (
-      <div style={styles.previewTree}>
-        {/* New Subtasks */}
-        {previewData.newSubtasks && previewData.newSubtasks.length > 0 && (
-          <div style={styles.previewSection}>
-            {previewData.newSubtasks.map(({ taskId, subtasks }) => {
-              const task = project.tasks.find(t => t.id === taskId);
-              return (
-                <div key={taskId} style={styles.previewTask}>
-                  <strong style={{ color: theme.textPrimary }}>
-                    Task: {task?.task || taskId}
-                  </strong>
+      <div>
+        {preview.changes.map((change, index) => (
+          <div
+            key={index}
+            style={{
+              ...styles.changeCard,
+              opacity: selected[index] ? 1 : 0.5,
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'flex-start', gap: '0.75rem' }}>
+              <input
+                type="checkbox"
+                checked={!!selected[index]}
+                onChange={() => toggleChange(index)}
+                style={{ marginTop: '0.2rem', accentColor: theme.accentBlue, cursor: 'pointer' }}
+              />
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ color: theme.textPrimary }}>{describeChange(change)}</div>
+                {change.reasoning && (
+                  <div style={{ color: theme.textMuted, fontSize: '0.85rem', marginTop: '0.25rem' }}>
+                    {change.reasoning}
+                  </div>
+                )}
+
+                {change.type === 'add_subtask' && (
                   <ul style={styles.subtaskList}>
-                    {subtasks.slice(0, 5).map((st, i) => (
+                    {change.data.subtasks.slice(0, 5).map((st: { name: string; estHours?: number }, i: number) => (
                       <li key={i} style={{ color: theme.textSecondary }}>
                         ├─ {st.name} {st.estHours ? `(${st.estHours.toFixed(2)} hrs)` : ''}
                       </li>
                     ))}
-                    {subtasks.length > 5 && (
+                    {change.data.subtasks.length > 5 && (
                       <li style={{ color: theme.textMuted }}>
-                        └─ ... {subtasks.length - 5} more subtasks
+                        └─ ... {change.data.subtasks.length - 5} more subtasks
                       </li>
                     )}
                   </ul>
-                </div>
-              );
-            })}
-          </div>
-        )}
-
-        {/* New Tasks */}
-        {previewData.newTasks && previewData.newTasks.length > 0 && (
-          <div style={styles.previewSection}>
-            <strong style={{ color: theme.textPrimary }}>New Tasks:</strong>
-            <ul style={styles.subtaskList}>
-              {previewData.newTasks.map((task, i) => (
-                <li key={i} style={{ color: theme.textSecondary }}>
-                  • {task.task} ({task.baseEstHours} hrs)
-                </li>
-              ))}
-            </ul>
+                )}
+
+                {change.type === 'add_task' && editingIndex === index && renderTaskEditor(change, index)}
+              </div>
+              {change.type === 'add_task' && (
+                <button
+                  onClick={() => setEditingIndex(editingIndex === index ? null : index)}
+                  style={styles.editButton}
+                >
+                  {editingIndex === index ? 'Done' : 'Edit'}
+                </button>
+              )}
+            </div>
           </div>
-        )}
+        ))}
       </div>
     );
   };
@@ -219,15 +328,18 @@ export function IterateProjectModal({
               {preview.explanation}
             </p>
 
-            {preview.previewData.newSubtasks && preview.previewData.newSubtasks.length > 0 && (
+            {preview.changes.length > 0 && (
               <div style={styles.changeItem}>
-                ✅ Add {preview.previewData.newSubtasks.reduce((sum, ns) => sum + ns.subtasks.length, 0)} subtasks
+                ✅ {selectedChanges.length} of {preview.changes.length} change{preview.changes.length !== 1 ? 's' : ''} selected
               </div>
             )}
 
-            {preview.previewData.newTasks && preview.previewData.newTasks.length > 0 && (
-              <div style={styles.changeItem}>
-                ✅ Add {preview.previewData.newTasks.length} new task{preview.previewData.newTasks.length !== 1 ? 's' : ''}
+            {preview.warnings && preview.warnings.length > 0 && (
+              <div style={styles.warningMessage}>
+                <strong>⚠️ {preview.warnings.length} suggestion{preview.warnings.length !== 1 ? 's' : ''} skipped:</strong>
+                <ul style={{ margin: '0.5rem 0 0 0', paddingLeft: '1.25rem' }}>
+                  {preview.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                </ul>
               </div>
             )}
           </div>
@@ -236,7 +348,7 @@ export function IterateProjectModal({
 
           {/* Task Preview */}
           <div style={styles.taskPreview}>
-            <h3 style={styles.sectionTitle}>📋 Preview:</h3>
+            <h3 style={styles.sectionTitle}>📋 Choose changes to apply:</h3>
             {renderPreview()}
           </div>
 
@@ -262,12 +374,14 @@ export function IterateProjectModal({
             </button>
             <button
               onClick={handleApply}
+              disabled={selectedChanges.length === 0}
               style={{
                 ...styles.button,
-                ...styles.primaryButton
+                ...styles.primaryButton,
+                opacity: selectedChanges.length === 0 ? 0.5 : 1
               }}
             >
-              ✅ Apply Changes
+              ✅ Apply {selectedChanges.length === preview.changes.length ? 'Changes' : `${selectedChanges.length} Selected`}
             </button>
           </div>
         </div>
@@ -340,6 +454,15 @@ const styles: { [key: string]: React.CSSProperties } = {
     borderRadius: '6px',
     color: '#ef4444',
   },
+  warningMessage: {
+    marginTop: '0.75rem',
+    padding: '0.75rem',
+    backgroundColor: 'rgba(245, 158, 11, 0.1)',
+    border: '1px solid rgba(245, 158, 11, 0.3)',
+    borderRadius: '6px',
+    color: '#f59e0b',
+    fontSize: '0.9rem',
+  },
   aiRequest: {
     padding: '1rem',
     backgroundColor: theme.bgSecondary,
@@ -365,20 +488,44 @@ const styles: { [key: string]: React.CSSProperties } = {
     maxHeight: '400px',
     overflowY: 'auto',
   },
-  previewTree: {
-    fontFamily: "'Courier New', monospace",
+  changeCard: {
+    padding: '0.75rem',
+    marginBottom: '0.5rem',
+    backgroundColor: theme.bgSecondary,
+    border: `1px solid ${theme.border}`,
+    borderRadius: '6px',
     fontSize: '0.9rem',
   },
-  previewSection: {
-    marginBottom: '1rem',
+  editor: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '0.5rem',
+    marginTop: '0.75rem',
   },
-  previewTask: {
-    marginBottom: '0.75rem',
+  editorInput: {
+    width: '100%',
+    padding: '0.5rem',
+    border: `1px solid ${theme.border}`,
+    borderRadius: '6px',
+    backgroundColor: theme.bgTertiary,
+    color: theme.textPrimary,
+    fontSize: '0.9rem',
+  },
+  editButton: {
+    padding: '0.35rem 0.75rem',
+    backgroundColor: 'transparent',
+    color: theme.accentBlue,
+    border: `1px solid ${theme.accentBlue}`,
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontSize: '0.85rem',
+    flexShrink: 0,
   },
   subtaskList: {
     listStyle: 'none',
     paddingLeft: '1rem',
     margin: '0.5rem 0 0 0',
+    fontFamily: "'Courier New', monospace",
   },
   actions: {
     display: 'flex',
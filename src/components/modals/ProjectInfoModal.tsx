@@ -6,6 +6,7 @@ import { useState, useEffect } from 'react';
 import { theme } from '../../config/theme';
 import Modal from '../Modal';
 import { getAvailableProjectTypes } from '../../config/projectTemplates';
+import { DEFAULT_WORKING_CALENDAR } from '../../config/constants';
 import type { ProjectMeta, ProjectType, ExperienceLevel, ProjectStatus } from '../../types';
 
 interface ProjectInfoModalProps {
@@ -25,6 +26,8 @@ const inputStyle = {
   fontSize: '0.95rem',
 };
 
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
 export default function ProjectInfoModal({
   show,
   onClose,
@@ -41,6 +44,10 @@ export default function ProjectInfoModal({
   const [targetEndDate, setTargetEndDate] = useState('');
   const [budget, setBudget] = useState('');
   const [timeline, setTimeline] = useState('');
+  const [workingDays, setWorkingDays] = useState<number[]>(DEFAULT_WORKING_CALENDAR.workingDays);
+  const [hoursPerDay, setHoursPerDay] = useState(String(DEFAULT_WORKING_CALENDAR.hoursPerDay));
+  const [holidays, setHolidays] = useState<string[]>([]);
+  const [newHoliday, setNewHoliday] = useState('');
 
   const projectTypes = getAvailableProjectTypes();
 
@@ -57,16 +64,45 @@ export default function ProjectInfoModal({
       setTargetEndDate(projectMeta.targetEndDate || '');
       setBudget(projectMeta.budget?.toString() || '');
       setTimeline(projectMeta.timeline || '');
+
+      const calendar = projectMeta.calendar || DEFAULT_WORKING_CALENDAR;
+      setWorkingDays(calendar.workingDays);
+      setHoursPerDay(String(calendar.hoursPerDay));
+      setHolidays(calendar.holidays);
+      setNewHoliday('');
     }
   }, [projectMeta]);
 
+  const toggleWorkingDay = (day: number) => {
+    setWorkingDays(prev => prev.includes(day)
+      ? prev.filter(d => d !== day)
+      : [...prev, day].sort((a, b) => a - b));
+  };
+
+  const handleAddHoliday = () => {
+    if (!newHoliday || holidays.includes(newHoliday)) return;
+    setHolidays([...holidays, newHoliday].sort());
+    setNewHoliday('');
+  };
+
   const handleSave = () => {
     if (!name.trim()) {
       alert('Please enter a project name');
       return;
     }
 
+    const parsedHours = parseFloat(hoursPerDay);
+    if (workingDays.length === 0) {
+      alert('Please select at least one working day');
+      return;
+    }
+    if (isNaN(parsedHours) || parsedHours <= 0 || parsedHours > 24) {
+      alert('Hours per day must be between 0 and 24');
+      return;
+    }
+
     const updatedMeta: ProjectMeta = {
+      ...projectMeta, // Preserve sync and sharing fields (revision, accessRole, ...)
       id: projectMeta.id, // Preserve the project ID
       name: name.trim(),
       projectType,
@@ -84,6 +120,7 @@ export default function ProjectInfoModal({
       createdAt: projectMeta.createdAt, // Preserve creation date
       updatedAt: new Date().toISOString(), // Update modification date
       archived: projectMeta.archived, // Preserve archived status
+      calendar: { workingDays, hoursPerDay: parsedHours, holidays },
     };
 
     onSave(updatedMeta);
@@ -263,6 +300,111 @@ export default function ProjectInfoModal({
         </div>
       </div>
 
+      {/* Working Calendar */}
+      <div style={{ marginBottom: '1.5rem', padding: '1rem', background: theme.bgTertiary, borderRadius: '8px' }}>
+        <h4 style={{ margin: '0 0 0.25rem 0', color: theme.textPrimary }}>📅 Working Calendar</h4>
+        <p style={{ margin: '0 0 1rem 0', color: theme.textMuted, fontSize: '0.85rem' }}>
+          Used to forecast task dates. Team members can override hours per day in Manage Team.
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '1rem', marginBottom: '1rem' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', color: theme.textMuted, fontWeight: '600' }}>
+              Working Days
+            </label>
+            <div style={{ display: 'flex', gap: '0.35rem', flexWrap: 'wrap' }}>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWorkingDay(day)}
+                  style={{
+                    padding: '0.4rem 0.6rem',
+                    background: workingDays.includes(day) ? theme.accentBlue : theme.bgSecondary,
+                    color: workingDays.includes(day) ? '#fff' : theme.textSecondary,
+                    border: `1px solid ${theme.border}`,
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '0.85rem',
+                  }}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label style={{ display: 'block', marginBottom: '0.5rem', color: theme.textMuted, fontWeight: '600' }}>
+              Hours per Day
+            </label>
+            <input
+              type="number"
+              value={hoursPerDay}
+              onChange={(e) => setHoursPerDay(e.target.value)}
+              min="0.5"
+              max="24"
+              step="0.5"
+              style={inputStyle}
+            />
+          </div>
+        </div>
+
+        <label style={{ display: 'block', marginBottom: '0.5rem', color: theme.textMuted, fontWeight: '600' }}>
+          Holidays
+        </label>
+        <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+          <input
+            type="date"
+            value={newHoliday}
+            onChange={(e) => setNewHoliday(e.target.value)}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            type="button"
+            onClick={handleAddHoliday}
+            disabled={!newHoliday}
+            style={{
+              padding: '0.75rem 1rem',
+              background: newHoliday ? theme.accentGreen : theme.bgSecondary,
+              color: newHoliday ? '#fff' : theme.textMuted,
+              border: 'none',
+              borderRadius: '6px',
+              cursor: newHoliday ? 'pointer' : 'not-allowed',
+              fontWeight: '600',
+            }}>
+            Add
+          </button>
+        </div>
+        {holidays.length > 0 && (
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            {holidays.map(holiday => (
+              <span
+                key={holiday}
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '0.35rem',
+                  padding: '0.25rem 0.6rem',
+                  background: theme.bgSecondary,
+                  border: `1px solid ${theme.border}`,
+                  borderRadius: '12px',
+                  fontSize: '0.85rem',
+                  color: theme.textPrimary,
+                }}>
+                {holiday}
+                <button
+                  type="button"
+                  onClick={() => setHolidays(holidays.filter(h => h !== holiday))}
+                  title="Remove holiday"
+                  style={{ background: 'none', border: 'none', color: theme.textMuted, cursor: 'pointer', padding: 0 }}>
+                  ✕
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Action Buttons */}
       <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end' }}>
         <button
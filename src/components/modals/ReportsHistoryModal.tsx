@@ -14,6 +14,9 @@ export interface ProgressSnapshot {
   blockedTasks: number;
   totalEstHours: number;
   totalActualHours: number;
+  openRisks?: number;             // Risk register at the time (missing on older snapshots)
+  highRisks?: number;
+  riskExposure?: number;          // Sum of likelihood x impact over open risks
   note?: string;
 }
 
@@ -45,6 +48,14 @@ export default function ReportsHistoryModal({
     (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
   );
 
+  // Change in risk exposure since the snapshot before this one
+  const getRiskChange = (index: number): number | null => {
+    const current = sortedSnapshots[index].riskExposure;
+    const previous = sortedSnapshots.slice(index + 1).find(s => s.riskExposure !== undefined);
+    if (current === undefined || !previous) return null;
+    return current - previous.riskExposure!;
+  };
+
   return (
     <Modal show={show} onClose={onClose} title="📊 Progress Reports History" width="800px">
       {sortedSnapshots.length === 0 ? (
@@ -55,7 +66,9 @@ export default function ReportsHistoryModal({
         </div>
       ) : (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
-          {sortedSnapshots.map((snapshot) => (
+          {sortedSnapshots.map((snapshot, index) => {
+            const riskChange = getRiskChange(index);
+            return (
             <div
               key={snapshot.timestamp}
               style={{
@@ -202,9 +215,35 @@ export default function ReportsHistoryModal({
                   </div>
                   <div style={{ fontSize: '0.85rem', color: theme.textMuted }}>Actual Hours</div>
                 </div>
+
+                {snapshot.riskExposure !== undefined && (
+                  <div style={{
+                    textAlign: 'center',
+                    padding: '0.75rem',
+                    background: theme.bgTertiary,
+                    borderRadius: '6px',
+                  }}>
+                    <div style={{ fontSize: '1.5rem', fontWeight: '600', color: theme.accentOrange }}>
+                      {snapshot.riskExposure}
+                      {riskChange !== null && riskChange !== 0 && (
+                        <span style={{
+                          fontSize: '0.85rem',
+                          marginLeft: '0.35rem',
+                          color: riskChange > 0 ? theme.accentRed : theme.accentGreen,
+                        }}>
+                          {riskChange > 0 ? '▲' : '▼'} {Math.abs(riskChange)}
+                        </span>
+                      )}
+                    </div>
+                    <div style={{ fontSize: '0.85rem', color: theme.textMuted }}>
+                      Risk Exposure ({snapshot.openRisks} open, {snapshot.highRisks} high)
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
       )}
 
@@ -0,0 +1,607 @@
+// ============================================
+// Universal Project Manager - Risk Register Modal
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { theme } from '../../config/theme';
+import Modal from '../Modal';
+import { aiService } from '../../services/aiService';
+import { saveProjectReport } from '../../services/projectApiService';
+import { getProjectTimeLogs } from '../../services/timeLogService';
+import { buildReportMetrics } from '../../utils/reportDiff';
+import {
+  createRisk,
+  updateRisk,
+  seedRisksFromAI,
+  getRiskScore,
+  isRiskOpen,
+  getRiskTrend,
+  describeRiskTrend,
+  HIGH_RISK_SCORE,
+  RISK_LEVELS,
+  RISK_STATUS_LABELS,
+} from '../../utils/riskRegister';
+import type { Risk, RiskLevel, RiskMitigationStatus, Task, TaskState, ProjectMeta } from '../../types';
+
+interface RiskRegisterModalProps {
+  show: boolean;
+  onClose: () => void;
+  risks: Risk[];
+  onSave: (risks: Risk[]) => void;
+  tasks: Task[];
+  taskStates: { [key: string]: TaskState };
+  projectMeta: ProjectMeta;
+  readOnly?: boolean;
+}
+
+type RiskDraft = Pick<Risk,
+  'title' | 'description' | 'category' | 'owner' | 'likelihood' | 'impact' |
+  'mitigation' | 'mitigationStatus' | 'linkedTaskIds'>;
+
+const EMPTY_DRAFT: RiskDraft = {
+  title: '',
+  description: '',
+  category: 'General',
+  owner: undefined,
+  likelihood: 'medium',
+  impact: 'medium',
+  mitigation: '',
+  mitigationStatus: 'not_started',
+  linkedTaskIds: [],
+};
+
+const SOURCE_LABELS: { [source in Risk['source']]: string } = {
+  ai_analysis: 'AI analysis',
+  ai_report: 'AI report',
+  manual: 'Added manually',
+};
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.75rem',
+  borderRadius: '6px',
+  border: `1px solid ${theme.border}`,
+  background: theme.bgTertiary,
+  color: theme.textPrimary,
+  fontSize: '0.95rem',
+};
+
+const labelStyle = {
+  display: 'block',
+  marginBottom: '0.5rem',
+  color: theme.textMuted,
+  fontWeight: '600',
+  fontSize: '0.9rem',
+};
+
+const scoreColor = (score: number) =>
+  score >= HIGH_RISK_SCORE ? theme.accentRed : score >= 3 ? theme.statusInProgress : theme.accentGreen;
+
+export default function RiskRegisterModal({
+  show,
+  onClose,
+  risks,
+  onSave,
+  tasks,
+  taskStates,
+  projectMeta,
+  readOnly = false,
+}: RiskRegisterModalProps) {
+  const [localRisks, setLocalRisks] = useState<Risk[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding
+  const [draft, setDraft] = useState<RiskDraft>(EMPTY_DRAFT);
+  const [showClosed, setShowClosed] = useState(false);
+  const [reviewing, setReviewing] = useState(false);
+
+  useEffect(() => {
+    setLocalRisks([...risks]);
+    setEditingId(null);
+  }, [risks, show]);
+
+  const collaborators = projectMeta.collaborators || [];
+  const trend = getRiskTrend(localRisks);
+  const maxExposure = Math.max(1, ...trend.map(point => point.exposure));
+
+  const visibleRisks = localRisks
+    .filter(risk => showClosed || isRiskOpen(risk.mitigationStatus))
+    .sort((a, b) =>
+      Number(isRiskOpen(b.mitigationStatus)) - Number(isRiskOpen(a.mitigationStatus)) ||
+      getRiskScore(b) - getRiskScore(a)
+    );
+  const closedCount = localRisks.filter(risk => !isRiskOpen(risk.mitigationStatus)).length;
+
+  const startEdit = (risk?: Risk) => {
+    setEditingId(risk ? risk.id : 'new');
+    setDraft(risk ? {
+      title: risk.title,
+      description: risk.description,
+      category: risk.category,
+      owner: risk.owner,
+      likelihood: risk.likelihood,
+      impact: risk.impact,
+      mitigation: risk.mitigation,
+      mitigationStatus: risk.mitigationStatus,
+      linkedTaskIds: risk.linkedTaskIds,
+    } : EMPTY_DRAFT);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft.title.trim()) {
+      alert('Please enter a title');
+      return;
+    }
+
+    const fields = { ...draft, title: draft.title.trim(), category: draft.category.trim() || 'General' };
+    if (editingId === 'new') {
+      setLocalRisks([...localRisks, createRisk(fields)]);
+    } else {
+      setLocalRisks(localRisks.map(risk => (risk.id === editingId ? updateRisk(risk, fields) : risk)));
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Remove this risk from the register? Its history will be lost.')) {
+      setLocalRisks(localRisks.filter(risk => risk.id !== id));
+      if (editingId === id) setEditingId(null);
+    }
+  };
+
+  const toggleLinkedTask = (taskId: string) => {
+    setDraft({
+      ...draft,
+      linkedTaskIds: draft.linkedTaskIds.includes(taskId)
+        ? draft.linkedTaskIds.filter(id => id !== taskId)
+        : [...draft.linkedTaskIds, taskId],
+    });
+  };
+
+  // Ask for a progress report and add any risks it raises that aren't in the register yet
+  // The report is kept in the project's AI report history as well.
+  const handleReviewWithAI = async () => {
+    setReviewing(true);
+    try {
+      const entries = await getProjectTimeLogs(projectMeta.id);
+      const report = await aiService.generateProgressReport(projectMeta, tasks, taskStates, localRisks, entries);
+      saveProjectReport(projectMeta.id, report, buildReportMetrics(tasks, taskStates, localRisks, entries))
+        .catch(() => { /* Logged by saveProjectReport; the review itself still succeeded */ });
+      const { risks: seeded, added } = seedRisksFromAI(localRisks, report.predictiveInsights?.riskAreas, 'ai_report');
+      setLocalRisks(seeded);
+      alert(added > 0
+        ? `Added ${added} new risk${added === 1 ? '' : 's'} from the AI report. Save to keep them.`
+        : 'The AI report found no risks that aren\'t already in the register.');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to review risks with AI.');
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const handleSave = () => {
+    onSave(localRisks);
+    onClose();
+  };
+
+  const ownerName = (id?: string) => collaborators.find(c => c.id === id)?.name;
+  const taskName = (id: string) => tasks.find(t => t.id === id)?.task;
+
+  const renderForm = () => (
+    <div style={{
+      padding: '1rem',
+      background: theme.bgSecondary,
+      borderRadius: '8px',
+      border: `1px solid ${theme.border}`,
+      marginBottom: '1.5rem',
+    }}>
+      <h3 style={{ margin: '0 0 1rem 0', color: theme.textPrimary }}>
+        {editingId === 'new' ? 'Add Risk' : 'Edit Risk'}
+      </h3>
+
+      <div style={{ marginBottom: '0.75rem' }}>
+        <label style={labelStyle}>
+          Title <span style={{ color: theme.accentRed }}>*</span>
+        </label>
+        <input
+          type="text"
+          value={draft.title}
+          onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+          placeholder="e.g., Key supplier misses delivery date"
+          style={inputStyle}
+        />
+      </div>
+
+      <div style={{ marginBottom: '0.75rem' }}>
+        <label style={labelStyle}>Description</label>
+        <textarea
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          rows={2}
+          style={{ ...inputStyle, resize: 'vertical' }}
+        />
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+        <div>
+          <label style={labelStyle}>Category</label>
+          <input
+            type="text"
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            placeholder="e.g., Schedule"
+            style={inputStyle}
+          />
+        </div>
+        <div>
+          <label style={labelStyle}>Owner</label>
+          <select
+            value={draft.owner || ''}
+            onChange={(e) => setDraft({ ...draft, owner: e.target.value || undefined })}
+            style={inputStyle}
+          >
+            <option value="">Unassigned</option>
+            {collaborators.map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.75rem', marginBottom: '0.75rem' }}>
+        <div>
+          <label style={labelStyle}>Likelihood</label>
+          <select
+            value={draft.likelihood}
+            onChange={(e) => setDraft({ ...draft, likelihood: e.target.value as RiskLevel })}
+            style={{ ...inputStyle, textTransform: 'capitalize' }}
+          >
+            {RISK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>Impact</label>
+          <select
+            value={draft.impact}
+            onChange={(e) => setDraft({ ...draft, impact: e.target.value as RiskLevel })}
+            style={{ ...inputStyle, textTransform: 'capitalize' }}
+          >
+            {RISK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </div>
+        <div>
+          <label style={labelStyle}>Mitigation Status</label>
+          <select
+            value={draft.mitigationStatus}
+            onChange={(e) => setDraft({ ...draft, mitigationStatus: e.target.value as RiskMitigationStatus })}
+            style={inputStyle}
+          >
+            {Object.entries(RISK_STATUS_LABELS).map(([status, label]) => (
+              <option key={status} value={status}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '0.75rem' }}>
+        <label style={labelStyle}>Mitigation</label>
+        <textarea
+          value={draft.mitigation}
+          onChange={(e) => setDraft({ ...draft, mitigation: e.target.value })}
+          rows={2}
+          placeholder="How the team will reduce or respond to this risk"
+          style={{ ...inputStyle, resize: 'vertical' }}
+        />
+      </div>
+
+      <div style={{ marginBottom: '1rem' }}>
+        <label style={labelStyle}>Linked Tasks ({draft.linkedTaskIds.length})</label>
+        <div style={{
+          maxHeight: '150px',
+          overflowY: 'auto',
+          padding: '0.5rem',
+          background: theme.bgTertiary,
+          borderRadius: '6px',
+          border: `1px solid ${theme.border}`,
+        }}>
+          {tasks.length === 0 ? (
+            <div style={{ color: theme.textMuted, fontSize: '0.9rem' }}>No tasks in this project</div>
+          ) : tasks.map(task => (
+            <label key={task.id} style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.5rem',
+              padding: '0.25rem 0',
+              color: theme.textPrimary,
+              fontSize: '0.9rem',
+              cursor: 'pointer',
+            }}>
+              <input
+                type="checkbox"
+                checked={draft.linkedTaskIds.includes(task.id)}
+                onChange={() => toggleLinkedTask(task.id)}
+              />
+              {task.task}
+              <span style={{ color: theme.textMuted, fontSize: '0.8rem' }}>({task.phaseTitle})</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+        <button
+          onClick={() => setEditingId(null)}
+          style={{
+            padding: '0.6rem 1.25rem',
+            background: theme.bgTertiary,
+            color: theme.textPrimary,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '6px',
+            cursor: 'pointer',
+            fontWeight: '600',
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSaveDraft}
+          style={{
+            padding: '0.6rem 1.25rem',
+            background: theme.accentGreen,
+            color: '#fff',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            fontWeight: '600',
+          }}
+        >
+          {editingId === 'new' ? '+ Add Risk' : 'Update Risk'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal show={show} onClose={onClose} title="⚠️ Risk Register" width="800px">
+      {/* Trend */}
+      <div style={{
+        padding: '1rem',
+        background: theme.bgSecondary,
+        borderRadius: '8px',
+        border: `1px solid ${theme.border}`,
+        marginBottom: '1.5rem',
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+          <span style={{ color: theme.textPrimary, fontWeight: '600' }}>Risk Trend (8 weeks)</span>
+          <span style={{ color: theme.textMuted, fontSize: '0.9rem' }}>{describeRiskTrend(trend)}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'flex-end', gap: '0.5rem', height: '60px' }}>
+          {trend.map(point => (
+            <div
+              key={point.date}
+              title={`${point.date}: exposure ${point.exposure}, ${point.openRisks} open, ${point.highRisks} high`}
+              style={{
+                flex: 1,
+                height: `${Math.max(4, (point.exposure / maxExposure) * 100)}%`,
+                background: point.highRisks > 0 ? theme.accentRed : theme.accentOrange,
+                opacity: point.exposure > 0 ? 1 : 0.3,
+                borderRadius: '3px 3px 0 0',
+              }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Toolbar */}
+      <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        {!readOnly && (
+          <>
+            <button
+              onClick={() => startEdit()}
+              disabled={editingId !== null}
+              style={{
+                padding: '0.6rem 1rem',
+                background: theme.accentGreen,
+                color: '#fff',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: editingId !== null ? 'not-allowed' : 'pointer',
+                opacity: editingId !== null ? 0.6 : 1,
+                fontWeight: '600',
+              }}
+            >
+              + Add Risk
+            </button>
+            <button
+              onClick={handleReviewWithAI}
+              disabled={reviewing}
+              style={{
+                padding: '0.6rem 1rem',
+                background: theme.accentPurple,
+                color: '#fff',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: reviewing ? 'wait' : 'pointer',
+                opacity: reviewing ? 0.6 : 1,
+                fontWeight: '600',
+              }}
+            >
+              {reviewing ? '⏳ Reviewing...' : '🤖 Review with AI'}
+            </button>
+          </>
+        )}
+        <label style={{ marginLeft: 'auto', color: theme.textMuted, fontSize: '0.9rem', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={showClosed}
+            onChange={(e) => setShowClosed(e.target.checked)}
+            style={{ marginRight: '0.4rem' }}
+          />
+          Show mitigated and accepted ({closedCount})
+        </label>
+      </div>
+
+      {editingId === 'new' && renderForm()}
+
+      {/* Risk List */}
+      {visibleRisks.length === 0 ? (
+        <div style={{
+          textAlign: 'center',
+          padding: '2rem',
+          background: theme.bgSecondary,
+          borderRadius: '8px',
+          color: theme.textMuted,
+        }}>
+          {localRisks.length === 0
+            ? 'No risks recorded yet. Risks found by AI analysis are added here automatically.'
+            : 'No open risks.'}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          {visibleRisks.map(risk => {
+            if (editingId === risk.id) {
+              return <div key={risk.id}>{renderForm()}</div>;
+            }
+
+            const score = getRiskScore(risk);
+            const open = isRiskOpen(risk.mitigationStatus);
+            return (
+              <div
+                key={risk.id}
+                style={{
+                  padding: '1rem',
+                  background: theme.bgSecondary,
+                  borderRadius: '8px',
+                  border: `1px solid ${theme.border}`,
+                  borderLeft: `4px solid ${open ? scoreColor(score) : theme.statusPending}`,
+                  opacity: open ? 1 : 0.7,
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '1rem' }}>
+                  <div style={{ flex: 1 }}>
+                    <div style={{ color: theme.textPrimary, fontWeight: '600', marginBottom: '0.25rem' }}>
+                      {risk.title}
+                    </div>
+                    {risk.description && risk.description !== risk.title && (
+                      <div style={{ color: theme.textSecondary, fontSize: '0.9rem', marginBottom: '0.5rem' }}>
+                        {risk.description}
+                      </div>
+                    )}
+                    <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', fontSize: '0.85rem', color: theme.textMuted }}>
+                      <span>{risk.category}</span>
+                      <span>Likelihood: <strong style={{ textTransform: 'capitalize' }}>{risk.likelihood}</strong></span>
+                      <span>Impact: <strong style={{ textTransform: 'capitalize' }}>{risk.impact}</strong></span>
+                      <span>{RISK_STATUS_LABELS[risk.mitigationStatus]}</span>
+                      <span>Owner: {ownerName(risk.owner) || 'Unassigned'}</span>
+                      <span>{SOURCE_LABELS[risk.source]}</span>
+                    </div>
+                    {risk.mitigation && (
+                      <div style={{ marginTop: '0.5rem', fontSize: '0.9rem', color: theme.textSecondary }}>
+                        🛡️ {risk.mitigation}
+                      </div>
+                    )}
+                    {risk.linkedTaskIds.length > 0 && (
+                      <div style={{ display: 'flex', gap: '0.4rem', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+                        {risk.linkedTaskIds.map(id => (
+                          <span key={id} style={{
+                            padding: '0.15rem 0.5rem',
+                            background: theme.bgTertiary,
+                            borderRadius: '4px',
+                            fontSize: '0.8rem',
+                            color: theme.textPrimary,
+                          }}>
+                            🔗 {taskName(id) || 'Deleted task'}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '0.5rem' }}>
+                    <div
+                      title="Likelihood x impact"
+                      style={{
+                        minWidth: '2.5rem',
+                        padding: '0.25rem 0.5rem',
+                        textAlign: 'center',
+                        background: open ? scoreColor(score) : theme.statusPending,
+                        color: '#fff',
+                        borderRadius: '6px',
+                        fontWeight: '700',
+                      }}
+                    >
+                      {score}
+                    </div>
+                    {!readOnly && (
+                      <div style={{ display: 'flex', gap: '0.4rem' }}>
+                        <button
+                          onClick={() => startEdit(risk)}
+                          disabled={editingId !== null}
+                          style={{
+                            padding: '0.35rem 0.6rem',
+                            background: theme.accentBlue,
+                            color: '#fff',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                          }}
+                        >
+                          ✏️
+                        </button>
+                        <button
+                          onClick={() => handleDelete(risk.id)}
+                          style={{
+                            padding: '0.35rem 0.6rem',
+                            background: theme.accentRed,
+                            color: '#fff',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                          }}
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end', marginTop: '1.5rem' }}>
+        <button
+          onClick={onClose}
+          style={{
+            padding: '0.75rem 1.5rem',
+            background: theme.bgTertiary,
+            color: theme.textPrimary,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '6px',
+            cursor: 'pointer',
+            fontWeight: '600',
+          }}
+        >
+          {readOnly ? 'Close' : 'Cancel'}
+        </button>
+        {!readOnly && (
+          <button
+            onClick={handleSave}
+            style={{
+              padding: '0.75rem 1.5rem',
+              background: theme.accentBlue,
+              color: '#fff',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontWeight: '600',
+            }}
+          >
+            Save Register
+          </button>
+        )}
+      </div>
+    </Modal>
+  );
+}
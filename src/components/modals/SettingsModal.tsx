@@ -4,6 +4,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { theme } from '../../config/theme';
+import { aiService } from '../../services/aiService';
+import { getTimerWarningHours, setTimerWarningHours } from '../../services/timeLogService';
+import type { AIProviderSettings } from '../../types';
 
 interface SettingsModalProps {
   show: boolean;
@@ -15,9 +18,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
   const [showKey, setShowKey] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [providerSettings, setProviderSettings] = useState<AIProviderSettings | null>(null);
+  const [providerMessage, setProviderMessage] = useState<string | null>(null);
+  const [timerWarningHours, setTimerWarningHoursInput] = useState('');
 
   useEffect(() => {
     if (show) {
+      setProviderMessage(null);
+      aiService.getProviderSettings()
+        .then(setProviderSettings)
+        .catch(error => {
+          console.error('Error loading AI providers:', error);
+          setProviderSettings(null);
+        });
+
+      setTimerWarningHoursInput(String(getTimerWarningHours()));
+
       // Load API key from localStorage
       const savedKey = localStorage.getItem('anthropic_api_key');
       if (savedKey) {
@@ -80,6 +96,31 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
     }
   };
 
+  const handleProviderChange = async (provider: string) => {
+    if (!providerSettings) return;
+
+    const selected = provider || null;
+    setProviderMessage(null);
+    try {
+      await aiService.setProvider(selected);
+      setProviderSettings({ ...providerSettings, selected });
+      setProviderMessage('AI provider saved');
+    } catch (error) {
+      setProviderMessage((error as Error).message);
+    }
+  };
+
+  const providerLabel = (id: string) =>
+    providerSettings?.providers.find(p => p.id === id)?.label || id;
+
+  const handleTimerWarningChange = (value: string) => {
+    setTimerWarningHoursInput(value);
+    const hours = parseFloat(value);
+    if (hours > 0) {
+      setTimerWarningHours(hours);
+    }
+  };
+
   const handleClear = () => {
     if (confirm('Are you sure you want to clear the saved API key?')) {
       localStorage.removeItem('anthropic_api_key');
@@ -149,6 +190,37 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
           overflowY: 'auto',
           flex: 1,
         }}>
+          {providerSettings && (
+            <div style={{ marginBottom: '1.5rem', paddingBottom: '1.5rem', borderBottom: '1px solid #e0e0e0' }}>
+              <h3 style={{ marginTop: 0, fontSize: '1.1rem', color: '#333' }}>
+                AI Provider
+              </h3>
+              <p style={{ fontSize: '0.9rem', color: '#666', lineHeight: '1.6' }}>
+                Which AI service answers your requests. The API key below is only used with Anthropic Claude.
+              </p>
+              <select
+                value={providerSettings.selected || ''}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                style={{
+                  width: '100%',
+                  padding: '0.75rem',
+                  border: '1px solid #ccc',
+                  borderRadius: '4px',
+                  fontSize: '0.95rem',
+                }}>
+                <option value="">Server default ({providerLabel(providerSettings.default)})</option>
+                {providerSettings.providers.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))}
+              </select>
+              {providerMessage && (
+                <div style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: '#666' }}>
+                  {providerMessage}
+                </div>
+              )}
+            </div>
+          )}
+
           <h3 style={{ marginTop: 0, fontSize: '1.1rem', color: '#333' }}>
             Anthropic API Key
           </h3>
@@ -281,6 +353,32 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ show, onClose }) => {
               <li>Clear the key to use the default from .env file instead</li>
             </ul>
           </div>
+
+          <div style={{ marginTop: '1.5rem', paddingTop: '1.5rem', borderTop: '1px solid #e0e0e0' }}>
+            <h3 style={{ marginTop: 0, fontSize: '1.1rem', color: '#333' }}>
+              Task Timer
+            </h3>
+            <p style={{ fontSize: '0.9rem', color: '#666', lineHeight: '1.6' }}>
+              Warn when a timer has been running this long, in case it was left on by mistake.
+            </p>
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+              <input
+                type="number"
+                value={timerWarningHours}
+                onChange={(e) => handleTimerWarningChange(e.target.value)}
+                min="0.5"
+                step="0.5"
+                style={{
+                  width: '100px',
+                  padding: '0.75rem',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  fontSize: '0.9rem',
+                }}
+              />
+              <span style={{ fontSize: '0.9rem', color: '#666' }}>hours</span>
+            </div>
+          </div>
         </div>
 
         {/* Footer */}
@@ -22,7 +22,7 @@ export const TeamInvitationModal: React.FC<TeamInvitationModalProps> = ({
   projectName,
 }) => {
   const [email, setEmail] = useState('');
-  const [role, setRole] = useState<'viewer' | 'editor' | 'owner'>('editor');
+  const [role, setRole] = useState<'viewer' | 'editor' | 'approver' | 'owner'>('editor');
   const [message, setMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState('');
@@ -168,11 +168,13 @@ export const TeamInvitationModal: React.FC<TeamInvitationModalProps> = ({
           >
             <option value="viewer">Viewer - Can view only</option>
             <option value="editor">Editor - Can view and edit</option>
+            <option value="approver">Approver - Can edit and approve timesheets</option>
             <option value="owner">Owner - Full access</option>
           </select>
           <div style={{ marginTop: '0.5rem', fontSize: '0.85rem', color: theme.textMuted }}>
             {role === 'viewer' && '👁️ Can view tasks and project details'}
             {role === 'editor' && '✏️ Can create, edit, and update tasks'}
+            {role === 'approver' && '✅ Can edit tasks and approve or reject timesheets'}
             {role === 'owner' && '👑 Full project control including deletion'}
           </div>
         </div>
@@ -49,7 +49,7 @@ export const TimeLogViewerModal: React.FC<TimeLogViewerModalProps> = ({
     applyFilters();
   };
 
-  const applyFilters = () => {
+  const applyFilters = async () => {
     const filter: TimeLogFilter = {};
 
     if (selectedProjects.length > 0) {
@@ -72,8 +72,12 @@ export const TimeLogViewerModal: React.FC<TimeLogViewerModalProps> = ({
       filter.searchQuery = searchQuery.trim();
     }
 
-    const filtered = getFilteredTimeLogs(filter);
-    setLogs(filtered);
+    try {
+      setLogs(await getFilteredTimeLogs(filter));
+    } catch (error) {
+      console.error('Error loading time logs:', error);
+      setLogs([]);
+    }
   };
 
   const handleProjectToggle = (projectId: string) => {
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Task, TaskState } from '../../types';
+import type { TimeLogEntry } from '../../services/timeLogService';
+import { getLoggedHours } from '../../utils/loggedHours';
 
 interface TimeTrackingModalProps {
   show: boolean;
@@ -8,6 +10,7 @@ interface TimeTrackingModalProps {
   taskStates: { [key: string]: TaskState };
   phases: { [key: string]: string };
   phaseColors: { [key: string]: string };
+  timeLogs?: TimeLogEntry[];       // The project's time log entries
 }
 
 export const TimeTrackingModal: React.FC<TimeTrackingModalProps> = ({
@@ -17,6 +20,7 @@ export const TimeTrackingModal: React.FC<TimeTrackingModalProps> = ({
   taskStates,
   phases,
   phaseColors,
+  timeLogs = [],
 }) => {
   if (!show) return null;
 
@@ -27,18 +31,16 @@ export const TimeTrackingModal: React.FC<TimeTrackingModalProps> = ({
 
     tasks.forEach(task => {
       if (task.subtasks && task.subtasks.length > 0) {
-        // Aggregate from subtasks
+        // Aggregate estimates from subtasks
         task.subtasks.forEach(st => {
           totalEst += st.estHours || 0;
-          totalActual += st.actualHours || 0;
         });
       } else {
         // Use task-level estimates
         const state = taskStates[task.id];
         totalEst += state?.estHours || task.adjustedEstHours || 0;
-        const actualHours = parseFloat(state?.actualHours || '0');
-        totalActual += actualHours;
       }
+      totalActual += getLoggedHours(task, taskStates[task.id], timeLogs);
     });
 
     return { totalEst, totalActual };
@@ -56,14 +58,12 @@ export const TimeTrackingModal: React.FC<TimeTrackingModalProps> = ({
       if (task.subtasks && task.subtasks.length > 0) {
         task.subtasks.forEach(st => {
           phaseHours[task.phase].est += st.estHours || 0;
-          phaseHours[task.phase].actual += st.actualHours || 0;
         });
       } else {
         const state = taskStates[task.id];
         phaseHours[task.phase].est += state?.estHours || task.adjustedEstHours || 0;
-        const actualHours = parseFloat(state?.actualHours || '0');
-        phaseHours[task.phase].actual += actualHours;
       }
+      phaseHours[task.phase].actual += getLoggedHours(task, taskStates[task.id], timeLogs);
     });
 
     return phaseHours;
@@ -73,17 +73,15 @@ export const TimeTrackingModal: React.FC<TimeTrackingModalProps> = ({
   const calculateTaskHours = () => {
     return tasks.map(task => {
       let est = 0;
-      let actual = 0;
+      const actual = getLoggedHours(task, taskStates[task.id], timeLogs);
 
       if (task.subtasks && task.subtasks.length > 0) {
         task.subtasks.forEach(st => {
           est += st.estHours || 0;
-          actual += st.actualHours || 0;
         });
       } else {
         const state = taskStates[task.id];
         est = state?.estHours || task.adjustedEstHours || 0;
-        actual = parseFloat(state?.actualHours || '0');
       }
 
       return {
@@ -0,0 +1,584 @@
+// ============================================
+// Universal Project Manager - Weekly Timesheet Modal
+// ============================================
+
+import { useState, useEffect } from 'react';
+import { theme } from '../../config/theme';
+import Modal from '../Modal';
+import { getAllProjects } from '../../services/projectStorage';
+import { getActiveUsers } from '../../services/userService';
+import {
+  getFilteredTimeLogs,
+  createTimeLog,
+  updateTimeLog,
+  deleteTimeLog,
+  type TimeLogEntry,
+  type TimesheetStatus,
+} from '../../services/timeLogService';
+import {
+  getTimesheets,
+  submitTimesheet,
+  approveTimesheet,
+  rejectTimesheet,
+  type Timesheet,
+} from '../../services/timesheetService';
+import {
+  buildTimesheetRows,
+  getTimesheetDayTotals,
+  getTimesheetRowKey,
+  getWeekDates,
+  getWeekStart,
+  shiftWeek,
+  type TimesheetRow,
+} from '../../utils/timesheet';
+import { parseDay } from '../../utils/ganttSchedule';
+import type { SavedProject } from '../../types';
+
+interface TimesheetModalProps {
+  show: boolean;
+  onClose: () => void;
+  projectId: string | null;          // Project to open on
+}
+
+interface Person {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+const STATUS_STYLES: { [status in TimesheetStatus]: { label: string; color: string } } = {
+  submitted: { label: '⏳ Waiting for approval', color: theme.accentOrange },
+  approved: { label: '✅ Approved', color: theme.accentGreen },
+  rejected: { label: '↩️ Rejected', color: theme.accentRed },
+};
+
+const inputStyle = {
+  padding: '0.5rem',
+  borderRadius: '6px',
+  border: `1px solid ${theme.border}`,
+  background: theme.bgTertiary,
+  color: theme.textPrimary,
+  fontSize: '0.9rem',
+};
+
+const buttonStyle = {
+  padding: '0.5rem 1rem',
+  borderRadius: '6px',
+  border: 'none',
+  cursor: 'pointer',
+  fontWeight: '600',
+  fontSize: '0.9rem',
+};
+
+const cellStyle = {
+  padding: '0.4rem',
+  borderBottom: `1px solid ${theme.border}`,
+  textAlign: 'center' as const,
+};
+
+const formatHours = (hours: number) => (hours ? `${Math.round(hours * 100) / 100}` : '');
+
+const formatDayLabel = (date: string) =>
+  parseDay(date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' });
+
+// Approvers and owners review timesheets; local-only projects belong to the user
+const getProjectRole = (project?: SavedProject) => project?.meta.accessRole || 'owner';
+
+export default function TimesheetModal({ show, onClose, projectId: initialProjectId }: TimesheetModalProps) {
+  const [tab, setTab] = useState<'week' | 'approvals'>('week');
+  const [projects, setProjects] = useState<SavedProject[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [userId, setUserId] = useState('');
+  const [weekStart, setWeekStart] = useState(getWeekStart(new Date()));
+
+  const [entries, setEntries] = useState<TimeLogEntry[]>([]);
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [addedRows, setAddedRows] = useState<TimesheetRow[]>([]);
+  const [drafts, setDrafts] = useState<{ [cell: string]: string }>({});
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+  const [pendingApprovals, setPendingApprovals] = useState<Timesheet[]>([]);
+
+  useEffect(() => {
+    if (!show) return;
+
+    const allProjects = getAllProjects();
+    const users = getActiveUsers();
+    const savedUserId = localStorage.getItem('current_user_id');
+    setProjects(allProjects);
+    setPeople(users.map(u => ({ id: u.id, name: u.name, email: u.email })));
+    setProjectId(initialProjectId || allProjects[0]?.meta.id || '');
+    setUserId(users.find(u => u.id === savedUserId)?.id || users[0]?.id || '');
+    setWeekStart(getWeekStart(new Date()));
+    setTab('week');
+  }, [show]);
+
+  const project = projects.find(p => p.meta.id === projectId);
+  const role = getProjectRole(project);
+  const canEdit = role !== 'viewer';
+  const canApprove = role === 'owner' || role === 'approver';
+  const locked = timesheet?.status === 'submitted' || timesheet?.status === 'approved';
+  const editable = canEdit && !locked;
+  const person = people.find(p => p.id === userId);
+  const weekDates = getWeekDates(weekStart);
+
+  const loadWeek = async () => {
+    if (!projectId || !userId) {
+      setEntries([]);
+      setTimesheet(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [weekEntries, sheets] = await Promise.all([
+        getFilteredTimeLogs({
+          projectIds: [projectId],
+          userIds: [userId],
+          startDate: weekDates[0],
+          endDate: weekDates[6],
+        }),
+        getTimesheets({ projectIds: [projectId], userIds: [userId], weekStart }),
+      ]);
+      setEntries(weekEntries);
+      setTimesheet(sheets[0] || null);
+    } catch (err) {
+      console.error('Error loading timesheet:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!show) return;
+    setAddedRows([]);
+    setDrafts({});
+    setReviewComment('');
+    loadWeek();
+  }, [show, projectId, userId, weekStart]);
+
+  const loadApprovals = async () => {
+    try {
+      const sheets = await getTimesheets({ statuses: ['submitted'] });
+      const reviewable = new Set(
+        getAllProjects()
+          .filter(p => ['owner', 'approver'].includes(getProjectRole(p)))
+          .map(p => p.meta.id)
+      );
+      setPendingApprovals(sheets.filter(sheet => reviewable.has(sheet.projectId)));
+    } catch (err) {
+      console.error('Error loading timesheets for approval:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load timesheets');
+    }
+  };
+
+  useEffect(() => {
+    if (show && tab === 'approvals') loadApprovals();
+  }, [show, tab]);
+
+  const rows = buildTimesheetRows(entries, weekStart);
+  const rowKeys = new Set(rows.map(row => row.key));
+  const allRows = [...rows, ...addedRows.filter(row => !rowKeys.has(row.key))];
+  const dayTotals = getTimesheetDayTotals(allRows, weekStart);
+  const weekTotal = Object.values(dayTotals).reduce((sum, hours) => sum + hours, 0);
+
+  // Tasks and subtasks of the project that don't have a row yet
+  const rowOptions: TimesheetRow[] = (project?.tasks || []).flatMap(task => [
+    { key: getTimesheetRowKey(task.id), taskId: task.id, taskName: task.task, cells: {}, totalHours: 0 },
+    ...(task.subtasks || []).map(st => ({
+      key: getTimesheetRowKey(task.id, st.id),
+      taskId: task.id,
+      taskName: task.task,
+      subtaskId: st.id,
+      subtaskName: st.name,
+      cells: {},
+      totalHours: 0,
+    })),
+  ]).filter(option => !allRows.some(row => row.key === option.key));
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Timesheet action failed:', err);
+      setError(err instanceof Error ? err.message : 'Timesheet action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddRow = (key: string) => {
+    const option = rowOptions.find(o => o.key === key);
+    if (option) setAddedRows([...addedRows, option]);
+  };
+
+  const saveCell = (row: TimesheetRow, date: string) => {
+    const cell = `${row.key}@${date}`;
+    const value = drafts[cell];
+    if (value === undefined) return;
+
+    const { [cell]: _, ...rest } = drafts;
+    setDrafts(rest);
+
+    const cellEntries = row.cells[date] || [];
+    const current = cellEntries.reduce((sum, entry) => sum + entry.hours, 0);
+    const hours = value.trim() === '' ? 0 : parseFloat(value);
+    if (isNaN(hours) || hours < 0 || hours > 24) {
+      setError('Enter between 0 and 24 hours');
+      return;
+    }
+    if (hours === current) return;
+
+    run(async () => {
+      if (cellEntries.length === 0) {
+        await createTimeLog({
+          projectId,
+          projectName: project?.meta.name || '',
+          taskId: row.taskId,
+          taskName: row.taskName,
+          subtaskId: row.subtaskId,
+          subtaskName: row.subtaskName,
+          userId,
+          userName: person?.name || '',
+          date,
+          hours,
+        });
+      } else if (hours === 0) {
+        await deleteTimeLog(cellEntries[0]);
+      } else {
+        await updateTimeLog(cellEntries[0], { hours });
+      }
+      await loadWeek();
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!confirm(`Submit ${formatHours(weekTotal) || 0}h for the week of ${weekDates[0]}? The week's time can't be changed while it's waiting for approval.`)) return;
+    run(async () => {
+      setTimesheet(await submitTimesheet({
+        projectId,
+        userId,
+        userName: person?.name || '',
+        userEmail: person?.email,
+        weekStart,
+      }));
+      await loadWeek();
+    });
+  };
+
+  const handleReview = (approve: boolean) => {
+    if (!timesheet) return;
+    if (!approve && !reviewComment.trim()) {
+      setError('Add a comment saying what needs fixing');
+      return;
+    }
+    run(async () => {
+      setTimesheet(approve
+        ? await approveTimesheet(timesheet.id, reviewComment.trim() || undefined)
+        : await rejectTimesheet(timesheet.id, reviewComment.trim()));
+      setReviewComment('');
+      await loadWeek();
+    });
+  };
+
+  // Open a submitted timesheet in the grid to review it
+  const openTimesheet = (sheet: Timesheet) => {
+    if (!people.some(p => p.id === sheet.userId)) {
+      setPeople([...people, { id: sheet.userId, name: sheet.userName || sheet.userId }]);
+    }
+    setProjectId(sheet.projectId);
+    setUserId(sheet.userId);
+    setWeekStart(sheet.weekStart);
+    setTab('week');
+  };
+
+  const renderCell = (row: TimesheetRow, date: string) => {
+    const cellEntries = row.cells[date] || [];
+    const hours = cellEntries.reduce((sum, entry) => sum + entry.hours, 0);
+    const cell = `${row.key}@${date}`;
+
+    // A cell made up of several entries is changed entry by entry in the Time Log Viewer
+    if (!editable || cellEntries.length > 1) {
+      return (
+        <span
+          title={cellEntries.map(e => `${e.hours}h${e.notes ? ` – ${e.notes}` : ''}`).join('\n') || undefined}
+          style={{ color: hours ? theme.textPrimary : theme.textMuted }}
+        >
+          {formatHours(hours) || '–'}
+        </span>
+      );
+    }
+
+    return (
+      <input
+        type="number"
+        value={drafts[cell] ?? formatHours(hours)}
+        onChange={(e) => setDrafts({ ...drafts, [cell]: e.target.value })}
+        onBlur={() => saveCell(row, date)}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        min="0"
+        max="24"
+        step="0.25"
+        title={cellEntries[0]?.notes}
+        disabled={busy}
+        style={{ ...inputStyle, width: '60px', padding: '0.3rem', textAlign: 'center' }}
+      />
+    );
+  };
+
+  const statusStyle = timesheet ? STATUS_STYLES[timesheet.status] : null;
+
+  return (
+    <Modal show={show} onClose={onClose} title="🗓️ Weekly Timesheet" width="1000px">
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+        {(['week', 'approvals'] as const).map(t => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            style={{
+              ...buttonStyle,
+              background: tab === t ? theme.accentBlue : theme.bgTertiary,
+              color: tab === t ? '#fff' : theme.textPrimary,
+            }}
+          >
+            {t === 'week' ? '📅 Week' : '✅ Approvals'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div style={{
+          padding: '0.75rem 1rem',
+          marginBottom: '1rem',
+          border: `1px solid ${theme.accentRed}`,
+          borderRadius: '8px',
+          color: theme.accentRed,
+        }}>
+          {error}
+        </div>
+      )}
+
+      {tab === 'approvals' ? (
+        pendingApprovals.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '2rem', color: theme.textMuted }}>
+            No timesheets are waiting for your approval.
+          </div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: theme.textMuted, textAlign: 'left' }}>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>Week of</th>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>Project</th>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>Person</th>
+                <th style={cellStyle}>Hours</th>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>Submitted</th>
+                <th style={cellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {pendingApprovals.map(sheet => (
+                <tr key={sheet.id} style={{ color: theme.textPrimary }}>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>{sheet.weekStart}</td>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>{sheet.projectName}</td>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>{sheet.userName}</td>
+                  <td style={cellStyle}>{formatHours(sheet.totalHours) || 0}h</td>
+                  <td style={{ ...cellStyle, textAlign: 'left', color: theme.textMuted, fontSize: '0.85rem' }}>
+                    {sheet.submittedByName}
+                    {sheet.submittedAt && ` · ${new Date(sheet.submittedAt).toLocaleDateString()}`}
+                  </td>
+                  <td style={cellStyle}>
+                    <button
+                      onClick={() => openTimesheet(sheet)}
+                      style={{ ...buttonStyle, background: theme.accentBlue, color: '#fff', padding: '0.35rem 0.75rem' }}
+                    >
+                      Review
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'center', marginBottom: '1rem' }}>
+            <select value={projectId} onChange={(e) => setProjectId(e.target.value)} style={inputStyle}>
+              {projects.map(p => (
+                <option key={p.meta.id} value={p.meta.id}>{p.meta.icon} {p.meta.name}</option>
+              ))}
+            </select>
+            <select value={userId} onChange={(e) => setUserId(e.target.value)} style={inputStyle}>
+              {people.length === 0 && <option value="">No team members</option>}
+              {people.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <div style={{ display: 'flex', gap: '0.25rem', alignItems: 'center', marginLeft: 'auto' }}>
+              <button
+                onClick={() => setWeekStart(shiftWeek(weekStart, -1))}
+                style={{ ...buttonStyle, background: theme.bgTertiary, color: theme.textPrimary }}
+              >
+                ←
+              </button>
+              <span style={{ color: theme.textPrimary, minWidth: '150px', textAlign: 'center' }}>
+                Week of {parseDay(weekStart).toLocaleDateString()}
+              </span>
+              <button
+                onClick={() => setWeekStart(shiftWeek(weekStart, 1))}
+                style={{ ...buttonStyle, background: theme.bgTertiary, color: theme.textPrimary }}
+              >
+                →
+              </button>
+              <button
+                onClick={() => setWeekStart(getWeekStart(new Date()))}
+                style={{ ...buttonStyle, background: theme.bgTertiary, color: theme.textPrimary }}
+              >
+                This Week
+              </button>
+            </div>
+          </div>
+
+          {timesheet && statusStyle && (
+            <div style={{
+              padding: '0.75rem 1rem',
+              marginBottom: '1rem',
+              borderRadius: '8px',
+              border: `1px solid ${statusStyle.color}`,
+              background: theme.bgTertiary,
+              fontSize: '0.9rem',
+            }}>
+              <div style={{ color: statusStyle.color, fontWeight: '600' }}>
+                {statusStyle.label}
+                <span style={{ color: theme.textMuted, fontWeight: 'normal' }}>
+                  {' '}· {formatHours(timesheet.totalHours) || 0}h submitted
+                  {timesheet.submittedByName && ` by ${timesheet.submittedByName}`}
+                  {timesheet.reviewedByName && ` · reviewed by ${timesheet.reviewedByName}`}
+                </span>
+              </div>
+              {timesheet.reviewComment && (
+                <div style={{ marginTop: '0.35rem', color: theme.textPrimary }}>💬 {timesheet.reviewComment}</div>
+              )}
+            </div>
+          )}
+
+          {loading ? (
+            <div style={{ textAlign: 'center', padding: '2rem', color: theme.textMuted }}>⏳ Loading timesheet...</div>
+          ) : (
+            <div style={{ overflowX: 'auto', marginBottom: '1rem' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ color: theme.textMuted }}>
+                    <th style={{ ...cellStyle, textAlign: 'left' }}>Task</th>
+                    {weekDates.map(date => (
+                      <th key={date} style={cellStyle}>{formatDayLabel(date)}</th>
+                    ))}
+                    <th style={cellStyle}>Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {allRows.length === 0 && (
+                    <tr>
+                      <td colSpan={9} style={{ ...cellStyle, color: theme.textMuted, padding: '1.5rem' }}>
+                        No time logged this week{editable ? ' — add a task below' : ''}.
+                      </td>
+                    </tr>
+                  )}
+                  {allRows.map(row => (
+                    <tr key={row.key} style={{ color: theme.textPrimary }}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>
+                        {row.taskName}
+                        {row.subtaskName && <span style={{ color: theme.textMuted }}> › {row.subtaskName}</span>}
+                      </td>
+                      {weekDates.map(date => (
+                        <td key={date} style={cellStyle}>{renderCell(row, date)}</td>
+                      ))}
+                      <td style={{ ...cellStyle, fontWeight: '600' }}>{formatHours(row.totalHours) || 0}</td>
+                    </tr>
+                  ))}
+                  <tr style={{ color: theme.textPrimary, fontWeight: '600' }}>
+                    <td style={{ ...cellStyle, textAlign: 'left' }}>Total</td>
+                    {weekDates.map(date => (
+                      <td key={date} style={cellStyle}>{formatHours(dayTotals[date]) || 0}</td>
+                    ))}
+                    <td style={cellStyle}>{formatHours(weekTotal) || 0}h</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {editable && rowOptions.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleAddRow(e.target.value)}
+              style={{ ...inputStyle, marginBottom: '1rem' }}
+            >
+              <option value="">+ Add a task row...</option>
+              {rowOptions.map(option => (
+                <option key={option.key} value={option.key}>
+                  {option.subtaskName ? `${option.taskName} › ${option.subtaskName}` : option.taskName}
+                </option>
+              ))}
+            </select>
+          )}
+
+          {timesheet?.status === 'submitted' && canApprove && (
+            <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem' }}>
+              <input
+                type="text"
+                value={reviewComment}
+                onChange={(e) => setReviewComment(e.target.value)}
+                placeholder="Comment (required to reject)"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <button
+                onClick={() => handleReview(false)}
+                disabled={busy}
+                style={{ ...buttonStyle, background: theme.accentRed, color: '#fff' }}
+              >
+                ↩️ Reject
+              </button>
+              <button
+                onClick={() => handleReview(true)}
+                disabled={busy}
+                style={{ ...buttonStyle, background: theme.accentGreen, color: '#fff' }}
+              >
+                ✅ Approve
+              </button>
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '1rem', justifyContent: 'flex-end', paddingTop: '1rem', borderTop: `1px solid ${theme.border}` }}>
+            <button
+              onClick={onClose}
+              style={{ ...buttonStyle, background: theme.textMuted, color: theme.bgPrimary }}
+            >
+              Close
+            </button>
+            {canEdit && (!timesheet || timesheet.status === 'rejected') && (
+              <button
+                onClick={handleSubmit}
+                disabled={busy || loading || !projectId || !userId}
+                style={{
+                  ...buttonStyle,
+                  background: theme.accentBlue,
+                  color: '#fff',
+                  opacity: busy || loading || !projectId || !userId ? 0.6 : 1,
+                }}
+              >
+                📤 {timesheet ? 'Resubmit Week' : 'Submit Week'}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+}
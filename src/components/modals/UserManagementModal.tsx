@@ -10,7 +10,8 @@ import {
   importUsers,
   User
 } from '../../services/userService';
-import { getAllTimeLogs } from '../../services/timeLogService';
+import { getAllTimeLogs, type TimeLogEntry } from '../../services/timeLogService';
+import { formatCost } from '../../utils/costTracking';
 
 interface UserManagementModalProps {
   show: boolean;
@@ -22,12 +23,14 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
   onClose,
 }) => {
   const [users, setUsers] = useState<User[]>([]);
+  const [timeLogs, setTimeLogs] = useState<TimeLogEntry[]>([]);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     role: '',
+    hourlyRate: '',
     color: generateUserColor(),
   });
 
@@ -39,21 +42,36 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
 
   const loadUsers = () => {
     setUsers(getAllUsers());
+    getAllTimeLogs()
+      .then(setTimeLogs)
+      .catch(error => console.error('Error loading time logs:', error));
   };
 
   const getUserStats = (userId: string) => {
-    const logs = getAllTimeLogs().filter(l => l.userId === userId);
+    const logs = timeLogs.filter(l => l.userId === userId);
     const totalHours = logs.reduce((sum, l) => sum + l.hours, 0);
     const projects = new Set(logs.map(l => l.projectId)).size;
 
     return { totalHours, projectCount: projects, logCount: logs.length };
   };
 
+  // Blank means no rate; a negative one is refused (null)
+  const parseHourlyRate = (): number | undefined | null => {
+    if (!formData.hourlyRate.trim()) return undefined;
+    const rate = parseFloat(formData.hourlyRate);
+    return isNaN(rate) || rate < 0 ? null : rate;
+  };
+
   const handleAdd = () => {
     if (!formData.name.trim()) {
       alert('Name is required');
       return;
     }
+    const hourlyRate = parseHourlyRate();
+    if (hourlyRate === null) {
+      alert('Hourly rate can\'t be negative');
+      return;
+    }
 
     const initials = generateInitials(formData.name);
 
@@ -61,12 +79,13 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
       name: formData.name.trim(),
       email: formData.email.trim() || undefined,
       role: formData.role.trim() || undefined,
+      hourlyRate,
       initials,
       color: formData.color,
       active: true,
     });
 
-    setFormData({ name: '', email: '', role: '', color: generateUserColor() });
+    setFormData({ name: '', email: '', role: '', hourlyRate: '', color: generateUserColor() });
     setShowAddForm(false);
     loadUsers();
   };
@@ -78,6 +97,11 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
       alert('Name is required');
       return;
     }
+    const hourlyRate = parseHourlyRate();
+    if (hourlyRate === null) {
+      alert('Hourly rate can\'t be negative');
+      return;
+    }
 
     const initials = generateInitials(formData.name);
 
@@ -85,12 +109,13 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
       name: formData.name.trim(),
       email: formData.email.trim() || undefined,
       role: formData.role.trim() || undefined,
+      hourlyRate,
       initials,
       color: formData.color,
     });
 
     setEditingUser(null);
-    setFormData({ name: '', email: '', role: '', color: generateUserColor() });
+    setFormData({ name: '', email: '', role: '', hourlyRate: '', color: generateUserColor() });
     loadUsers();
   };
 
@@ -121,6 +146,7 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
       name: user.name,
       email: user.email || '',
       role: user.role || '',
+      hourlyRate: user.hourlyRate?.toString() || '',
       color: user.color,
     });
     setShowAddForm(false);
@@ -129,7 +155,7 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
   const handleCancelEdit = () => {
     setEditingUser(null);
     setShowAddForm(false);
-    setFormData({ name: '', email: '', role: '', color: generateUserColor() });
+    setFormData({ name: '', email: '', role: '', hourlyRate: '', color: generateUserColor() });
   };
 
   const handleExport = () => {
@@ -183,7 +209,7 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
               onClick={() => {
                 setShowAddForm(true);
                 setEditingUser(null);
-                setFormData({ name: '', email: '', role: '', color: generateUserColor() });
+                setFormData({ name: '', email: '', role: '', hourlyRate: '', color: generateUserColor() });
               }}
               style={styles.btnAdd}>
               + Add User
@@ -235,6 +261,19 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
                     style={styles.input}
                   />
                 </div>
+                <div style={styles.formGroup}>
+                  <label style={styles.label}>Hourly Rate ($)</label>
+                  <input
+                    type="number"
+                    value={formData.hourlyRate}
+                    onChange={(e) => setFormData({ ...formData, hourlyRate: e.target.value })}
+                    placeholder="e.g., 85"
+                    min="0"
+                    step="5"
+                    title="Default rate for costing their time; projects can override it per collaborator"
+                    style={styles.input}
+                  />
+                </div>
                 <div style={styles.formGroup}>
                   <label style={styles.label}>Color</label>
                   <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
@@ -307,6 +346,9 @@ export const UserManagementModal: React.FC<UserManagementModalProps> = ({
                           {user.role && (
                             <div style={styles.userRole}>{user.role}</div>
                           )}
+                          {user.hourlyRate !== undefined && (
+                            <div style={styles.userRole}>{formatCost(user.hourlyRate)}/hour</div>
+                          )}
                         </div>
                       </div>
 
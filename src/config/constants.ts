@@ -2,7 +2,7 @@
 // Universal Project Manager - Constants
 // ============================================
 
-import type { ProjectMeta, Task } from '../types';
+import type { ProjectMeta, Task, WorkingCalendar } from '../types';
 import { TASK_CATEGORIES } from './categories';
 
 /**
@@ -21,6 +21,15 @@ export const DEFAULT_PROJECT_META: ProjectMeta = {
   updatedAt: new Date().toISOString(),
 };
 
+/**
+ * Working calendar used until a project sets its own (Mon-Fri, 8h days)
+ */
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  workingDays: [1, 2, 3, 4, 5],
+  hoursPerDay: 8,
+  holidays: [],
+};
+
 /**
  * Experience level time multipliers
  */
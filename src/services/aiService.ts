@@ -5,15 +5,27 @@
 import type {
   AIAnalysisRequest,
   AIAnalysisResponse,
+  AIRequestOptions,
+  AIStreamProgress,
   AIReport,
   Task,
   ProjectMeta,
   TaskState,
   SavedProject,
   IterationResponse,
+  AIProviderSettings,
+  Risk,
+  TaskCommand,
+  Subtask,
+  SubtaskHourMode,
 } from '../types';
 import { EXPERIENCE_MULTIPLIERS, AI_CONFIG } from '../config/constants';
 import { TASK_CATEGORIES } from '../config/categories';
+import { getRiskScore, getRiskTrend, describeRiskTrend, RISK_STATUS_LABELS } from '../utils/riskRegister';
+import { calculateEarnedValue, getTaskActualHours } from '../utils/calculations';
+import type { TimeLogEntry } from './timeLogService';
+import { validateTaskCommand, TASK_STATUS_LABELS, type TaskCommandContext } from '../utils/taskCommands';
+import { validateSubtaskBreakdown, fitSubtaskHours, getBreakdownTargetHours } from '../utils/subtaskBreakdown';
 
 // Backend API URL
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
@@ -31,17 +43,20 @@ console.log('  USE_MOCK:', USE_MOCK);
 console.log('  Custom API key set:', !!getApiKey());
 
 /**
- * Real AI service using Anthropic Claude
+ * Real AI service, answered by the backend's AI provider (Claude by default)
  */
 export const aiService = {
   /**
    * Analyze project description and generate comprehensive task list
+   * The reply is streamed; onProgress reports phases and tasks as they arrive
+   * and aborting the signal cancels the request (rejects with an AbortError).
    */
   async analyzeProjectAndGenerateTasks(
-    request: AIAnalysisRequest
+    request: AIAnalysisRequest,
+    options: AIRequestOptions = {}
   ): Promise<AIAnalysisResponse> {
     if (USE_MOCK) {
-      return mockAIService.analyzeProjectAndGenerateTasks(request);
+      return mockAIService.analyzeProjectAndGenerateTasks(request, options);
     }
 
     const prompt = buildProjectAnalysisPrompt(request);
@@ -58,13 +73,16 @@ export const aiService = {
         headers: {
           'Content-Type': 'application/json',
         },
+        credentials: 'include', // The session picks the user's provider and quota
         body: JSON.stringify({
           prompt,
           model: AI_CONFIG.model,
           maxTokens: AI_CONFIG.maxTokens,
           timeout: AI_CONFIG.timeout,
           apiKey: getApiKey(), // Send custom API key if set in localStorage
+          stream: true,
         }),
+        signal: options.signal,
       });
 
       if (!response.ok) {
@@ -72,15 +90,35 @@ export const aiService = {
         throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json();
+      let content = '';
+      let received = '';
+      await readEventStream(response, (event, data) => {
+        if (event === 'delta') {
+          received += data.text;
+          options.onProgress?.(summarizeAnalysisProgress(received));
+        } else if (event === 'done') {
+          content = data.content;
+        } else if (event === 'error') {
+          throw new Error(data.error || `HTTP ${data.status}`);
+        }
+      });
+
+      if (!content) {
+        throw new Error('Connection closed before the analysis finished');
+      }
       console.log('✅ Received response from backend API');
 
       // Parse the JSON response from Claude
-      const analysisResult = parseAnalysisResponse(data.content);
+      const analysisResult = parseAnalysisResponse(content);
 
       // Adjust task estimates based on experience level
       return adjustForExperience(analysisResult, request.experienceLevel);
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('🛑 Analysis cancelled');
+        throw error;
+      }
+
       console.error('❌ Error calling backend API:', error);
 
       // Log more details about the error
@@ -96,7 +134,11 @@ export const aiService = {
         if (error.message.includes('timeout') || error.message.includes('timed out')) {
           throw new Error('Request timed out. Your project description may be very long. Try shortening it or try again.');
         }
-        if (error.message.includes('rate_limit') || error.message.includes('429')) {
+        // The server's quota message already says what to do
+        if (error.message.includes('AI quota')) {
+          throw error;
+        }
+        if (error.message.includes('Rate limit') || error.message.includes('429')) {
           throw new Error('API rate limit reached. Please wait a moment and try again.');
         }
         if (error.message.includes('Invalid API key') || error.message.includes('401')) {
@@ -113,17 +155,21 @@ export const aiService = {
 
   /**
    * Generate AI-powered progress report and recommendations
+   * Pass the project's risk register so the report can assess its trend, and
+   * its time log entries for the hours worked.
    */
   async generateProgressReport(
     projectMeta: ProjectMeta,
     tasks: Task[],
-    taskStates: { [key: string]: TaskState }
+    taskStates: { [key: string]: TaskState },
+    risks: Risk[] = [],
+    entries: TimeLogEntry[] = []
   ): Promise<AIReport> {
     if (USE_MOCK) {
       return mockAIService.generateProgressReport(projectMeta, tasks, taskStates);
     }
 
-    const prompt = buildProgressReportPrompt(projectMeta, tasks, taskStates);
+    const prompt = buildProgressReportPrompt(projectMeta, tasks, taskStates, risks, entries);
 
     try {
       const response = await fetch(`${BACKEND_URL}/api/ai/report`, {
@@ -131,6 +177,7 @@ export const aiService = {
         headers: {
           'Content-Type': 'application/json',
         },
+        credentials: 'include',
         body: JSON.stringify({
           prompt,
           model: AI_CONFIG.model,
@@ -148,35 +195,26 @@ export const aiService = {
       return parseProgressReport(data.content, projectMeta.name);
     } catch (error) {
       console.error('Error generating AI report:', error);
+      if (error instanceof Error && error.message.includes('AI quota')) {
+        throw error;
+      }
       throw new Error('Failed to generate progress report.');
     }
   },
 
   /**
    * Iterate/refine an existing project with AI assistance
-   * NOTE: Currently uses mock implementation - backend endpoint not yet implemented
+   * The backend validates each suggested change against the project's tasks
+   * and reports the ones it dropped in `warnings`.
    */
   async iterateProject(
     userRequest: string,
     currentProject: SavedProject
   ): Promise<IterationResponse> {
-    // Always use mock for now until backend endpoint is implemented
-    // TODO: Implement /api/ai/iterate endpoint in backend, then use this check:
-    // if (USE_MOCK) {
-    //   return mockAIService.iterateProject(userRequest, currentProject);
-    // }
-
-    console.log('🤖 Using mock AI iteration (backend endpoint not yet implemented)');
-
-    // Prevent "unused" warnings for functions that will be used when backend is ready
-    if (false as boolean) {
-      const prompt = buildIterationPrompt(userRequest, currentProject);
-      return parseIterationResponse(prompt);
+    if (USE_MOCK) {
+      return mockAIService.iterateProject(userRequest, currentProject);
     }
 
-    return mockAIService.iterateProject(userRequest, currentProject);
-
-    /* Backend implementation (uncomment when endpoint is ready):
     const prompt = buildIterationPrompt(userRequest, currentProject);
 
     console.log('🚀 Sending iteration request to backend API...');
@@ -187,11 +225,13 @@ export const aiService = {
         headers: {
           'Content-Type': 'application/json',
         },
+        credentials: 'include',
         body: JSON.stringify({
           prompt,
           model: AI_CONFIG.model,
           maxTokens: AI_CONFIG.maxTokens,
           apiKey: getApiKey(),
+          taskIds: currentProject.tasks.map(t => t.id),
         }),
       });
 
@@ -201,9 +241,13 @@ export const aiService = {
       }
 
       const data = await response.json();
-      console.log('✅ Received iteration response from backend API');
+      const iteration: IterationResponse = data.iteration;
+      console.log(`✅ Received iteration response with ${iteration.changes.length} changes`);
+      if (iteration.warnings?.length) {
+        console.warn('⚠️ Skipped invalid changes:', iteration.warnings);
+      }
 
-      return parseIterationResponse(data.content);
+      return iteration;
     } catch (error) {
       console.error('❌ Error in iteration request:', error);
 
@@ -214,11 +258,141 @@ export const aiService = {
         if (error.message.includes('timeout') || error.message.includes('timed out')) {
           throw new Error('Request timed out. Please try a simpler request.');
         }
+        if (error.message.includes('Invalid API key') || error.message.includes('401')) {
+          throw new Error('Authentication failed. Please check your API key.');
+        }
+        if (error.message.includes('AI quota')) {
+          throw error;
+        }
+        if (error.message.includes('Rate limit') || error.message.includes('429')) {
+          throw new Error('API rate limit reached. Please wait a moment and try again.');
+        }
+        if (error.message.includes('iteration response')) {
+          throw new Error('The AI returned suggestions in an unexpected format. Please try again.');
+        }
       }
 
       throw new Error('Failed to generate iteration suggestions. Please try again.');
     }
-    */
+  },
+
+  /**
+   * Interpret a command bar entry as a task filter or bulk edit
+   * @returns The command, or null when the AI couldn't map it onto the project
+   */
+  async parseTaskCommand(input: string, context: TaskCommandContext): Promise<TaskCommand | null> {
+    if (USE_MOCK) {
+      return null;
+    }
+
+    const response = await fetch(`${BACKEND_URL}/api/ai/command`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        prompt: buildTaskCommandPrompt(input, context),
+        model: AI_CONFIG.model,
+        maxTokens: 1000,
+        apiKey: getApiKey(),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const jsonMatch = String(data.content || '').match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return null;
+
+    try {
+      return validateTaskCommand(JSON.parse(jsonMatch[0]), context);
+    } catch (error) {
+      console.error('Error parsing task command:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Propose subtasks for a task, ready for the user to edit before inserting
+   * Their hours are fitted to what the task's estimate leaves uncovered by
+   * existing subtasks (see getBreakdownTargetHours).
+   */
+  async breakDownTask(
+    task: Task,
+    existingSubtasks: Subtask[],
+    hourMode: SubtaskHourMode
+  ): Promise<Subtask[]> {
+    const targetHours = getBreakdownTargetHours(task, existingSubtasks, hourMode);
+
+    if (USE_MOCK) {
+      return mockAIService.breakDownTask(task, existingSubtasks, targetHours);
+    }
+
+    const response = await fetch(`${BACKEND_URL}/api/ai/breakdown`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({
+        prompt: buildTaskBreakdownPrompt(task, existingSubtasks, targetHours),
+        model: AI_CONFIG.model,
+        maxTokens: 2000,
+        targetHours,
+        apiKey: getApiKey(),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const jsonMatch = String(data.content || '').match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No subtasks in AI response');
+    }
+
+    const subtasks = validateSubtaskBreakdown(JSON.parse(jsonMatch[0]).subtasks, existingSubtasks);
+    if (subtasks.length === 0) {
+      throw new Error('No subtasks in AI response');
+    }
+    return fitSubtaskHours(subtasks, targetHours);
+  },
+
+  /**
+   * List the backend's AI providers with the user's choice
+   */
+  async getProviderSettings(): Promise<AIProviderSettings> {
+    const response = await fetch(`${BACKEND_URL}/api/ai/providers`, { credentials: 'include' });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+    return data;
+  },
+
+  /**
+   * Choose the AI provider for the signed-in user (null follows the server default)
+   */
+  async setProvider(provider: string | null): Promise<void> {
+    const response = await fetch(`${BACKEND_URL}/api/ai/provider`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ provider }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw new Error(errorData.error || `HTTP ${response.status}`);
+    }
   },
 
   /**
@@ -240,6 +414,75 @@ export const aiService = {
   },
 };
 
+/**
+ * Check whether an error came from aborting a request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Read a Server-Sent Events response body, calling onEvent for each event
+ * Throwing from onEvent stops reading and rejects.
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        const dataLines: string[] = [];
+        frame.split('\n').forEach(line => {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+        });
+        if (dataLines.length > 0) {
+          onEvent(event, JSON.parse(dataLines.join('\n')));
+        }
+
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Summarize a partially received analysis reply for progress display
+ * The JSON isn't complete yet, so this scans for task names and phase titles.
+ */
+function summarizeAnalysisProgress(partial: string): AIStreamProgress {
+  const taskNames = Array.from(partial.matchAll(/"task"\s*:\s*"((?:[^"\\]|\\.)*)"/g), m => m[1]);
+  const phases = new Set(Array.from(partial.matchAll(/"phaseTitle"\s*:\s*"((?:[^"\\]|\\.)*)"/g), m => m[1]));
+
+  return {
+    characters: partial.length,
+    phases: Array.from(phases),
+    tasksParsed: taskNames.length,
+    lastTask: taskNames[taskNames.length - 1],
+  };
+}
+
 /**
  * Build prompt for project analysis
  */
@@ -283,7 +526,9 @@ Requirements:
 function buildProgressReportPrompt(
   projectMeta: ProjectMeta,
   tasks: Task[],
-  taskStates: { [key: string]: TaskState }
+  taskStates: { [key: string]: TaskState },
+  risks: Risk[] = [],
+  entries: TimeLogEntry[] = []
 ): string {
   const completedTasks = tasks.filter(t => taskStates[t.id]?.status === 'complete').length;
   const totalTasks = tasks.length;
@@ -293,12 +538,19 @@ function buildProgressReportPrompt(
   let totalActual = 0;
   tasks.forEach(task => {
     const state = taskStates[task.id];
-    if (state) {
-      totalEstimated += state.estHours || 0;
-      totalActual += parseFloat(state.actualHours || '0');
-    }
+    totalEstimated += state?.estHours || 0;
+    totalActual += getTaskActualHours(task, state, entries);
   });
 
+  const ev = calculateEarnedValue(tasks, taskStates, {
+    baseline: projectMeta.baseline,
+    projectStartDate: projectMeta.startDate,
+    hoursPerDay: projectMeta.calendar?.hoursPerDay,
+    entries,
+  });
+  const hours = (value: number) => value.toFixed(1);
+  const index = (value: number | null) => (value === null ? 'n/a' : value.toFixed(2));
+
   return `You are a project analyst. Analyze this project's progress and provide insights.
 
 PROJECT: ${projectMeta.name}
@@ -313,9 +565,29 @@ PROGRESS METRICS:
 - Variance: ${totalActual - totalEstimated} hours
 - Blocked Tasks: ${blockedTasks.length}
 
+EARNED VALUE (in hours, as of ${ev.asOf}; ${ev.fromBaseline
+  ? `measured against the baseline set ${projectMeta.baseline!.setAt.split('T')[0]}${ev.unbaselinedTasks > 0 ? `, ${ev.unbaselinedTasks} tasks added since are not included` : ''}`
+  : 'no baseline set, so measured against the current plan'}):
+- Budget at Completion (BAC): ${hours(ev.bac)}
+- Planned Value (PV): ${hours(ev.pv)} (${Math.round(ev.percentPlanned)}% of the work scheduled by now)
+- Earned Value (EV): ${hours(ev.ev)} (${Math.round(ev.percentComplete)}% of the work done)
+- Actual Cost (AC): ${hours(ev.ac)}
+- Schedule Variance (SV): ${hours(ev.sv)}, SPI: ${index(ev.spi)}
+- Cost Variance (CV): ${hours(ev.cv)}, CPI: ${index(ev.cpi)}
+- Estimate at Completion (EAC): ${hours(ev.eac)}, Estimate to Complete (ETC): ${hours(ev.etc)}
+- Variance at Completion (VAC): ${hours(ev.vac)}
+
+Base schedulePerformance on SPI and SV, costPerformance on CPI and CV, and the forecasts on EAC and ETC (SPI or CPI below 1 means behind schedule or over budget).
+
 BLOCKED TASKS:
 ${blockedTasks.map(t => `- ${t.task}: ${taskStates[t.id]?.blockedReason || 'Not specified'}`).join('\n')}
 
+RISK REGISTER (likelihood x impact, 1-9):
+- Trend over the last 8 weeks: ${describeRiskTrend(getRiskTrend(risks))}
+${risks.map(r => `- [${RISK_STATUS_LABELS[r.mitigationStatus]}] ${r.description || r.title} (${r.category}): likelihood ${r.likelihood}, impact ${r.impact}, score ${getRiskScore(r)}${r.mitigation ? `; mitigation: ${r.mitigation}` : ''}`).join('\n') || '- No risks recorded'}
+
+In riskAreas, list risks that are new or have grown since the register was last reviewed. Use the same description wording for risks already in the register.
+
 Please provide a comprehensive analysis in JSON format:
 {
   "generatedAt": "${new Date().toISOString()}",
@@ -351,9 +623,75 @@ Please provide a comprehensive analysis in JSON format:
 }`;
 }
 
+/**
+ * Build prompt for the task command bar
+ */
+function buildTaskCommandPrompt(input: string, context: TaskCommandContext): string {
+  return `You translate a project manager's command into a task filter or a bulk edit.
+
+COMMAND: ${JSON.stringify(input)}
+
+PROJECT:
+- Statuses: ${Object.entries(TASK_STATUS_LABELS).map(([id, label]) => `${id} (${label})`).join(', ')}
+- Phases, in order: ${context.phases.map((p, i) => `${p.phaseId} (phase ${i + 1}: ${p.phaseTitle})`).join(', ') || 'none'}
+- People: ${context.collaborators.map(c => `${c.id} (${c.name})`).join(', ') || 'none'}
+- Categories: ${context.categories.join(', ') || 'none'}
+
+Reply with JSON only, using IDs from the lists above:
+{
+  "kind": "filter" or "bulk_edit" (or "unknown" if the command can't be expressed this way),
+  "query": {
+    "statuses": ["status id"],
+    "phaseIds": ["phase id"],
+    "assigneeIds": ["person id"],
+    "unassigned": true,
+    "categories": ["category"],
+    "criticalPath": true,
+    "text": "words the task name must contain"
+  },
+  "mutation": {
+    "status": "status id",
+    "assignedTo": "person id, or null to unassign",
+    "phase": "phase id",
+    "category": "category"
+  }
+}
+Leave out every query and mutation field the command doesn't mention. "mutation" is only for bulk_edit.`;
+}
+
+/**
+ * Build prompt for breaking a task into subtasks
+ */
+function buildTaskBreakdownPrompt(task: Task, existingSubtasks: Subtask[], targetHours: number): string {
+  const existing = existingSubtasks.length > 0
+    ? existingSubtasks.map(st => `- ${st.name}${st.estHours ? ` (${st.estHours}h)` : ''}`).join('\n')
+    : 'None';
+  const hours = targetHours > 0
+    ? `The new subtasks' estHours must add up to ${targetHours} hours.`
+    : 'Estimate each new subtask realistically; they add to the task\'s current estimate.';
+
+  return `Break this project task into concrete subtasks.
+
+TASK: ${task.task}
+PHASE: ${task.phaseTitle}
+CATEGORY: ${task.category}
+ESTIMATE: ${task.adjustedEstHours} hours
+${task.notes ? `NOTES: ${task.notes}\n` : ''}
+EXISTING SUBTASKS:
+${existing}
+
+Propose 3 to 8 new subtasks that together finish the task, in the order they'd be done, without repeating existing ones. Each should be a single piece of work someone can tick off. ${hours} Use multiples of 0.25 hours.
+
+Reply with JSON only:
+{
+  "subtasks": [
+    { "name": "Short imperative description", "estHours": 1.5, "notes": "Optional detail" }
+  ]
+}`;
+}
+
 /**
  * Build prompt for project iteration
- * NOTE: Will be used when backend endpoint is implemented
  */
 function buildIterationPrompt(userRequest: string, project: SavedProject): string {
   const projectContext = {
@@ -367,9 +705,11 @@ function buildIterationPrompt(userRequest: string, project: SavedProject): strin
     tasks: project.tasks.map(t => ({
       id: t.id,
       name: t.task,
+      phaseId: t.phase,
       phase: t.phaseTitle,
       category: t.category,
       estimatedHours: t.adjustedEstHours,
+      dependencies: t.dependencies || [],
       subtaskCount: t.subtasks?.length || 0,
       hasSubtasks: !!t.subtasks && t.subtasks.length > 0
     }))
@@ -399,7 +739,11 @@ INSTRUCTIONS:
       "data": {
         // Specific change data based on type
         // For add_subtask: { subtasks: [{name: "...", estHours: 0.13, status: "pending", order: 0}], hourMode: "auto" }
-        // For add_task: { task: "...", phase: "...", phaseTitle: "...", baseEstHours: 5, category: "..." }
+        // For add_task: { task: "...", phase: "...", phaseTitle: "...", baseEstHours: 5, category: "...", dependencies: ["task_id"] }
+        // For modify_task: any of { task, category, notes, phase, phaseTitle, sopReference }
+        // For add_phase: { phaseId: "...", phaseTitle: "...", description: "..." }
+        // For update_estimate: { oldEstimate: 4, newEstimate: 6 }
+        // For add_dependency: { dependencies: ["task_id the target waits for"] }
       },
       "reasoning": "Why this change makes sense"
     }
@@ -433,6 +777,7 @@ RULES:
 - If parsing a list of items, create one subtask per item
 - If user provides hours, use them; otherwise estimate reasonably
 - ALWAYS include taskId references for existing tasks
+- "target" must be an existing task id for add_subtask, modify_task, update_estimate and add_dependency
 - For subtasks, generate unique IDs using format: "subtask_\${timestamp}_\${index}"
 - Return ONLY valid JSON, no markdown formatting or code blocks
 
@@ -518,53 +863,6 @@ function parseProgressReport(content: string, projectId: string): AIReport {
   }
 }
 
-/**
- * Parse iteration response from AI
- * NOTE: Will be used when backend endpoint is implemented
- */
-function parseIterationResponse(content: string): IterationResponse {
-  try {
-    // Remove markdown code blocks if present
-    let cleanedContent = content.trim();
-    cleanedContent = cleanedContent.replace(/^```json\s*/i, '').replace(/^```\s*/, '').replace(/```\s*$/, '');
-
-    // Extract JSON from response
-    const firstBrace = cleanedContent.indexOf('{');
-    const lastBrace = cleanedContent.lastIndexOf('}');
-
-    if (firstBrace === -1 || lastBrace === -1) {
-      console.error('Response content:', content);
-      throw new Error('No JSON found in iteration response');
-    }
-
-    const jsonStr = cleanedContent.substring(firstBrace, lastBrace + 1);
-    const parsed = JSON.parse(jsonStr);
-
-    // Validate required fields
-    if (!parsed.changes || !Array.isArray(parsed.changes)) {
-      throw new Error('Invalid response: missing changes array');
-    }
-
-    console.log(`✅ Successfully parsed iteration response with ${parsed.changes.length} changes`);
-
-    return {
-      success: parsed.success !== false,
-      changes: parsed.changes,
-      explanation: parsed.explanation || 'AI suggested changes to your project',
-      previewData: parsed.previewData || {
-        summary: '',
-        affectedTasks: [],
-        newTasks: [],
-        newSubtasks: []
-      }
-    };
-  } catch (error) {
-    console.error('❌ Error parsing iteration response:', error);
-    console.error('Response content:', content.substring(0, 500) + '...');
-    throw new Error('Failed to parse AI iteration response. Please try again.');
-  }
-}
-
 /**
  * Adjust task estimates based on experience level
  */
@@ -588,10 +886,17 @@ function adjustForExperience(
  */
 export const mockAIService = {
   async analyzeProjectAndGenerateTasks(
-    _request: AIAnalysisRequest
+    _request: AIAnalysisRequest,
+    options: AIRequestOptions = {}
   ): Promise<AIAnalysisResponse> {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    // Simulate API delay (cancellable, like the real request)
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, 2000);
+      options.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Analysis cancelled', 'AbortError'));
+      });
+    });
 
     return {
       suggestedTasks: [
@@ -796,6 +1101,21 @@ export const mockAIService = {
     };
   },
 
+  async breakDownTask(
+    task: Task,
+    existingSubtasks: Subtask[],
+    targetHours: number
+  ): Promise<Subtask[]> {
+    await new Promise(resolve => setTimeout(resolve, 800));
+
+    const subtasks = validateSubtaskBreakdown([
+      { name: `Plan ${task.task}`, estHours: 1 },
+      { name: `Complete ${task.task}`, estHours: 4 },
+      { name: `Review ${task.task}`, estHours: 1 },
+    ], existingSubtasks);
+    return fitSubtaskHours(subtasks, targetHours);
+  },
+
   async iterateProject(
     userRequest: string,
     currentProject: SavedProject
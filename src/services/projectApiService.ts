@@ -3,7 +3,23 @@
  * Handles all project-related API calls to sync with the backend database
  */
 
-import type { SavedProject, Task, Phase } from '../types';
+import type {
+  SavedProject,
+  Task,
+  TaskState,
+  Phase,
+  Risk,
+  Subtask,
+  TimeLog,
+  Collaborator,
+  WorkingCalendar,
+  ProjectBaseline,
+  ProjectPatch,
+  ProjectChangeFeed,
+  AIReport,
+  ReportMetrics,
+  SavedAIReport,
+} from '../types';
 
 const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 
@@ -17,10 +33,52 @@ interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
   error?: string;
+  conflict?: boolean;
   project?: T;
   projects?: T[];
   task?: T;
   tasks?: T[];
+  report?: T;
+  reports?: T[];
+  cursor?: string;
+}
+
+/**
+ * Outcome of one patch in a POST /api/projects/changes batch
+ * Failed patches carry either a SyncConflictError, notFound (the project is
+ * not on the server yet and needs a full sync) or forbidden (the user may only view it).
+ */
+export interface ProjectPatchResult {
+  projectId: string;
+  success: boolean;
+  revision?: number;
+  notFound?: boolean;
+  forbidden?: boolean;
+  error?: Error;
+}
+
+/**
+ * Error thrown when the server rejects a save because the project changed
+ * since baseRevision. Carries the server's current copy for merging.
+ */
+export interface SyncConflictError extends Error {
+  serverProject: SavedProject;
+}
+
+/**
+ * Check whether an error is a 409 sync conflict
+ */
+export function isSyncConflictError(error: any): error is SyncConflictError {
+  return !!error && error.message === 'Sync conflict' && !!error.serverProject;
+}
+
+/**
+ * Build a SyncConflictError from a 409 response body
+ */
+function createSyncConflictError(data: ApiResponse): SyncConflictError {
+  const error = new Error('Sync conflict') as SyncConflictError;
+  error.serverProject = transformProjectFromApi(data.project, data.project.tasks || [], data.project.timeLogs || []);
+  return error;
 }
 
 /**
@@ -41,67 +99,154 @@ function transformProjectToApi(project: SavedProject) {
     startDate: meta.startDate || null,
     targetEndDate: meta.targetEndDate || null,
     phases: project.phases || [],
+    risks: project.risks || [],
+    calendar: meta.calendar,
+    baseline: meta.baseline,
     archived: meta.archived || false,
   };
 }
 
 /**
- * Transform backend project to frontend SavedProject format
+ * Parse a JSONB column that may arrive as a string or an already-parsed value
+ */
+function parseJsonArray<T>(value: any): T[] {
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Parse a JSONB object column that may arrive as a string or an already-parsed value
  */
-function transformProjectFromApi(apiProject: any, tasks: any[] = []): SavedProject {
-  // Parse phases if they're stored as JSON string
-  let phases: Phase[] = [];
-  if (typeof apiProject.phases === 'string') {
+function parseJsonObject<T>(value: any): T | undefined {
+  if (typeof value === 'string') {
     try {
-      phases = JSON.parse(apiProject.phases);
+      return JSON.parse(value);
     } catch (e) {
-      phases = [];
+      return undefined;
     }
-  } else if (Array.isArray(apiProject.phases)) {
-    phases = apiProject.phases;
   }
+  return value && typeof value === 'object' ? value : undefined;
+}
+
+/**
+ * Parse a DECIMAL column (pg returns these as strings)
+ */
+function parseHours(value: any): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Map backend status to frontend status
+ */
+function fromApiStatus(status: string | null): string {
+  if (!status || status === 'not-started') {
+    return 'pending'; // Map backend 'not-started' to frontend 'pending'
+  }
+  return status;
+}
+
+/**
+ * Transform backend project to frontend SavedProject format
+ * Task rows with a parent_task_id are folded back into Task.subtasks and
+ * time log rows into TaskState.timeLogs.
+ */
+function transformProjectFromApi(apiProject: any, tasks: any[] = [], timeLogs: any[] = []): SavedProject {
+  // Parse phases and collaborators if they're stored as JSON strings
+  const phases = parseJsonArray<Phase>(apiProject.phases);
+  const risks = parseJsonArray<Risk>(apiProject.risks);
+  const collaborators = parseJsonArray<Collaborator>(apiProject.collaborators);
 
   // Transform tasks and build taskStates
   const frontendTasks: Task[] = [];
-  const taskStates: { [taskId: string]: any } = {};
+  const taskStates: { [taskId: string]: TaskState } = {};
+  const subtasksByParent: { [parentId: string]: Subtask[] } = {};
 
   tasks.forEach((task: any) => {
-    const taskId = task.id;
+    // Frontend IDs are kept in client_id; tasks created through the REST routes only have a UUID
+    const taskId = task.client_id || task.id;
+
+    if (task.parent_task_id) {
+      const parentId = task.parent_client_id || task.parent_task_id;
+      (subtasksByParent[parentId] = subtasksByParent[parentId] || []).push({
+        id: taskId,
+        name: task.name,
+        estHours: parseHours(task.estimated_hours),
+        actualHours: parseHours(task.actual_hours),
+        status: fromApiStatus(task.status) as Subtask['status'],
+        notes: task.notes || undefined,
+        completedDate: task.completed_date || undefined,
+        order: task.order || 0,
+      });
+      return;
+    }
 
     // Build the Task object (using frontend Task interface fields)
     frontendTasks.push({
       id: taskId,
       task: task.name, // Backend 'name' -> frontend 'task'
       phase: task.phase_id || '',
-      phaseTitle: '', // Will be populated by frontend
+      phaseTitle: task.phase_title || '',
       category: task.category || 'other',
-      adjustedEstHours: task.estimated_hours || 0,
+      baseEstHours: parseHours(task.base_estimated_hours),
+      rawEstHours: parseHours(task.raw_estimated_hours),
+      adjustedEstHours: parseHours(task.estimated_hours) || 0,
+      sopReference: task.sop_reference || undefined,
       dependencies: task.dependencies || [],
-      subtasks: [],
+      criticalPath: task.critical_path || false,
+      aiGenerated: task.ai_generated || false,
+      assignedTo: task.assigned_to || undefined,
+      subtaskHourMode: task.subtask_hour_mode || undefined,
+      startDate: task.start_date || undefined,
       notes: task.description || '', // Backend 'description' -> frontend 'notes'
     });
 
-    // Build the TaskState object - map backend status to frontend status
-    let frontendStatus = task.status || 'pending';
-    if (frontendStatus === 'not-started') {
-      frontendStatus = 'pending'; // Map backend 'not-started' to frontend 'pending'
-    }
-
     taskStates[taskId] = {
-      status: frontendStatus,
+      estHours: parseHours(task.state_estimated_hours),
+      status: fromApiStatus(task.status) as TaskState['status'],
       notes: task.notes || '',
       actualHours: task.actual_hours?.toString() || '0',
       blockedReason: task.blocked_reason || '',
-      completedDate: task.completed_date || null,
+      completedDate: task.completed_date || undefined,
       timeLogs: [],
     };
   });
 
+  frontendTasks.forEach(task => {
+    const subtasks = subtasksByParent[task.id];
+    if (subtasks) {
+      task.subtasks = subtasks.sort((a, b) => a.order - b.order);
+    }
+  });
+
+  timeLogs.forEach((log: any) => {
+    const state = taskStates[log.task_client_id];
+    if (!state) return;
+
+    const timeLog: TimeLog = {
+      id: log.client_id || log.id,
+      date: log.date,
+      hours: parseHours(log.hours) || 0,
+      notes: log.notes || undefined,
+      loggedBy: log.logged_by || undefined,
+      billable: log.billable === false ? false : undefined,
+    };
+    state.timeLogs!.push(timeLog);
+  });
+
   return {
     meta: {
       id: apiProject.id,
       name: apiProject.name,
       description: apiProject.description || '',
+      initialPrompt: apiProject.initial_prompt || undefined,
       projectType: apiProject.project_type || 'other',
       experienceLevel: apiProject.experience_level || 'intermediate',
       status: apiProject.status || 'active',
@@ -112,24 +257,41 @@ function transformProjectFromApi(apiProject: any, tasks: any[] = []): SavedProje
       updatedAt: apiProject.updated_at,
       startDate: apiProject.start_date,
       targetEndDate: apiProject.target_end_date,
-      budget: apiProject.budget,
+      budget: parseHours(apiProject.budget),
       timeline: apiProject.timeline || '',
-      collaborators: [],
+      collaborators,
+      calendar: parseJsonObject<WorkingCalendar>(apiProject.calendar),
+      baseline: parseJsonObject<ProjectBaseline>(apiProject.baseline),
+      revision: apiProject.revision,
+      accessRole: apiProject.access_role || undefined,
+      sharedBy: apiProject.shared_by || undefined,
     },
     tasks: frontendTasks,
     taskStates,
     phases,
+    risks,
   };
 }
 
 /**
- * Get all projects for the current user
+ * Get all projects for the current user, including their tasks and time logs
  */
 export async function getAllProjects(includeArchived: boolean = false): Promise<SavedProject[]> {
+  const { projects } = await getProjectSnapshot(includeArchived);
+  return projects;
+}
+
+/**
+ * Get all projects along with the sync cursor they are current as of
+ * Pass the cursor to getProjectChanges to pull only later changes.
+ */
+export async function getProjectSnapshot(
+  includeArchived: boolean = false
+): Promise<{ projects: SavedProject[]; cursor: string }> {
   try {
     const url = includeArchived
-      ? `${API_URL}/api/projects`
-      : `${API_URL}/api/projects?archived=false`;
+      ? `${API_URL}/api/projects?include=tasks`
+      : `${API_URL}/api/projects?archived=false&include=tasks`;
 
     const response = await fetch(url, {
       credentials: 'include',
@@ -148,16 +310,100 @@ export async function getAllProjects(includeArchived: boolean = false): Promise<
       throw new Error(data.error || 'Failed to fetch projects');
     }
 
-    // For each project, we need to fetch its tasks
-    // For now, we'll return projects with empty tasks
-    // In a real scenario, you might want to fetch tasks separately or use a different endpoint
-    return data.projects.map(proj => transformProjectFromApi(proj, []));
+    return {
+      projects: data.projects.map(proj => transformProjectFromApi(proj, proj.tasks || [], proj.timeLogs || [])),
+      cursor: data.cursor || '0',
+    };
   } catch (error: any) {
     console.error('Error fetching projects:', error);
     throw error;
   }
 }
 
+/**
+ * Get everything that changed in the user's projects since a sync cursor
+ */
+export async function getProjectChanges(since: string): Promise<ProjectChangeFeed> {
+  try {
+    const response = await fetch(`${API_URL}/api/projects/changes?since=${encodeURIComponent(since)}`, {
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Not authenticated');
+      }
+      throw new Error('Failed to fetch project changes');
+    }
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch project changes');
+    }
+
+    return {
+      cursor: data.cursor,
+      changes: data.changes.map((change: any) => ({
+        project: transformProjectFromApi(change.project, change.tasks || [], change.timeLogs || []),
+        deletedTaskIds: change.deletedTaskIds || [],
+        taskOrder: change.taskOrder || [],
+      })),
+      deletedProjectIds: data.deletedProjectIds || [],
+      projectIds: data.projectIds || [],
+    };
+  } catch (error: any) {
+    console.error('Error fetching project changes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send a batch of incremental project patches
+ * Each patch succeeds or fails on its own; see ProjectPatchResult.
+ */
+export async function patchProjects(patches: ProjectPatch[]): Promise<ProjectPatchResult[]> {
+  try {
+    const response = await fetch(`${API_URL}/api/projects/changes`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ patches }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Not authenticated');
+      }
+      throw new Error('Failed to sync project changes');
+    }
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to sync project changes');
+    }
+
+    return data.results.map((result: any) => ({
+      projectId: result.projectId,
+      success: result.success,
+      revision: result.revision,
+      notFound: result.notFound,
+      forbidden: result.forbidden,
+      error: result.success
+        ? undefined
+        : result.conflict
+          ? createSyncConflictError(result)
+          : new Error(result.error || 'Failed to sync project changes'),
+    }));
+  } catch (error: any) {
+    console.error('Error patching projects:', error);
+    throw error;
+  }
+}
+
 /**
  * Get a single project with all its tasks
  */
@@ -183,8 +429,8 @@ export async function getProject(projectId: string): Promise<SavedProject> {
       throw new Error(data.error || 'Failed to fetch project');
     }
 
-    // Backend returns project with tasks included
-    return transformProjectFromApi(data.project, data.project.tasks || []);
+    // Backend returns project with tasks and time logs included
+    return transformProjectFromApi(data.project, data.project.tasks || [], data.project.timeLogs || []);
   } catch (error: any) {
     console.error('Error fetching project:', error);
     throw error;
@@ -242,10 +488,11 @@ export async function createProject(project: SavedProject): Promise<SavedProject
 
 /**
  * Update an existing project
+ * When baseRevision is given, a concurrent change on the server raises a SyncConflictError
  */
-export async function updateProject(project: SavedProject): Promise<SavedProject> {
+export async function updateProject(project: SavedProject, baseRevision?: number): Promise<SavedProject> {
   try {
-    const apiProject = transformProjectToApi(project);
+    const apiProject = { ...transformProjectToApi(project), baseRevision };
 
     const response = await fetch(`${API_URL}/api/projects/${project.meta.id}`, {
       method: 'PUT',
@@ -263,6 +510,9 @@ export async function updateProject(project: SavedProject): Promise<SavedProject
       if (response.status === 404) {
         throw new Error('Project not found');
       }
+      if (response.status === 409) {
+        throw createSyncConflictError(await response.json());
+      }
       throw new Error('Failed to update project');
     }
 
@@ -311,6 +561,37 @@ export async function deleteProject(projectId: string): Promise<void> {
   }
 }
 
+/**
+ * Stop collaborating on a project shared with the current user
+ */
+export async function leaveProject(projectId: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_URL}/api/projects/${projectId}/leave`, {
+      method: 'POST',
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Not authenticated');
+      }
+      if (response.status === 404) {
+        throw new Error('Project not found');
+      }
+      throw new Error('Failed to leave project');
+    }
+
+    const data: ApiResponse = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to leave project');
+    }
+  } catch (error: any) {
+    console.error('Error leaving project:', error);
+    throw error;
+  }
+}
+
 /**
  * Create a task for a project
  */
@@ -457,91 +738,157 @@ export async function deleteTask(projectId: string, taskId: string): Promise<voi
 }
 
 /**
- * Sync local project with server
- * This is a convenience function that either creates or updates based on whether the project exists
+ * Transform a backend ai_reports row to a frontend SavedAIReport
+ */
+function transformReportFromApi(apiReport: any): SavedAIReport {
+  return {
+    id: apiReport.id,
+    projectId: apiReport.project_id,
+    report: parseJsonObject<AIReport>(apiReport.report)!,
+    rawMetrics: parseJsonObject<ReportMetrics>(apiReport.raw_metrics)!,
+    createdAt: apiReport.created_at,
+    createdByName: apiReport.created_by_name || undefined,
+  };
+}
+
+/**
+ * Get a project's saved AI reports, newest first
  */
-export async function syncProject(project: SavedProject): Promise<SavedProject> {
+export async function getProjectReports(projectId: string): Promise<SavedAIReport[]> {
   try {
-    console.log(`Syncing project ${project.meta.id} with ${project.tasks.length} tasks`);
+    const response = await fetch(`${API_URL}/api/projects/${projectId}/reports`, {
+      credentials: 'include',
+    });
 
-    // Try to get the project first by ID
-    let existingProject: SavedProject | null = null;
-    let projectExists = false;
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Not authenticated');
+      }
+      if (response.status === 404) {
+        throw new Error('Project not found on the server. Sync it to keep a report history.');
+      }
+      throw new Error('Failed to fetch reports');
+    }
 
-    try {
-      existingProject = await getProject(project.meta.id);
-      projectExists = true;
-      console.log('Project exists on server (matched by ID), updating...');
-    } catch (error: any) {
-      if (error.message === 'Project not found') {
-        // ID not found, but project might exist with different ID
-        // Check if we already created this project by looking at all projects
-        const allProjects = await getAllProjects(false);
-        existingProject = allProjects.find(p =>
-          p.meta.name === project.meta.name &&
-          Math.abs(new Date(p.meta.createdAt!).getTime() - new Date(project.meta.createdAt!).getTime()) < 120000 // Within 2 minutes
-        ) || null;
-
-        if (existingProject) {
-          projectExists = true;
-          console.log(`Project exists on server with different ID (matched by name): ${existingProject.meta.id}`);
-          // Use the server's ID going forward
-          project.meta.id = existingProject.meta.id;
-        } else {
-          projectExists = false;
-          console.log('Project not found on server, creating...');
-        }
-      } else {
-        throw error;
+    const data: ApiResponse = await response.json();
+
+    if (!data.success || !data.reports) {
+      throw new Error(data.error || 'Failed to fetch reports');
+    }
+
+    return data.reports.map(transformReportFromApi);
+  } catch (error: any) {
+    console.error('Error fetching reports:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save an AI report to a project's history
+ */
+export async function saveProjectReport(
+  projectId: string,
+  report: AIReport,
+  rawMetrics: ReportMetrics
+): Promise<SavedAIReport> {
+  try {
+    const response = await fetch(`${API_URL}/api/projects/${projectId}/reports`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ report, rawMetrics }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Not authenticated');
       }
+      if (response.status === 404) {
+        throw new Error('Project not found on the server. Sync it to keep a report history.');
+      }
+      throw new Error('Failed to save report');
     }
 
-    let savedProject: SavedProject;
+    const data: ApiResponse = await response.json();
 
-    if (projectExists) {
-      // Update existing project
-      savedProject = await updateProject(project);
+    if (!data.success || !data.report) {
+      throw new Error(data.error || 'Failed to save report');
+    }
 
-      // Now sync all tasks
-      // Get existing task IDs from server
-      const existingTaskIds = new Set(existingProject!.tasks.map(t => t.id));
+    return transformReportFromApi(data.report);
+  } catch (error: any) {
+    console.error('Error saving report:', error);
+    throw error;
+  }
+}
 
-      for (const task of project.tasks) {
-        const taskState = project.taskStates[task.id];
+/**
+ * Delete a saved AI report
+ */
+export async function deleteProjectReport(projectId: string, reportId: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_URL}/api/projects/${projectId}/reports/${reportId}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
 
-        if (existingTaskIds.has(task.id)) {
-          // Update existing task
-          try {
-            await updateTask(project.meta.id, task.id, task, taskState);
-          } catch (err) {
-            console.error(`Failed to update task ${task.id}:`, err);
-          }
-        } else {
-          // Create new task
-          try {
-            await createTask(project.meta.id, task, taskState);
-          } catch (err) {
-            console.error(`Failed to create task ${task.id}:`, err);
-          }
-        }
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Not authenticated');
       }
+      throw new Error('Failed to delete report');
+    }
+
+    const data: ApiResponse = await response.json();
 
-      // Delete tasks that no longer exist locally
-      const localTaskIds = new Set(project.tasks.map(t => t.id));
-      for (const existingTask of existingProject!.tasks) {
-        if (!localTaskIds.has(existingTask.id)) {
-          try {
-            await deleteTask(project.meta.id, existingTask.id);
-          } catch (err) {
-            console.error(`Failed to delete task ${existingTask.id}:`, err);
-          }
-        }
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to delete report');
+    }
+  } catch (error: any) {
+    console.error('Error deleting report:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sync local project with server
+ * Sends the complete project (tasks, subtasks, task states and time logs) to
+ * POST /api/projects/sync, which creates or updates it in a single transaction.
+ * When baseRevision is given, a concurrent change on the server raises a SyncConflictError
+ */
+export async function syncProject(project: SavedProject, baseRevision?: number): Promise<SavedProject> {
+  try {
+    console.log(`Syncing project ${project.meta.id} with ${project.tasks.length} tasks`);
+
+    const response = await fetch(`${API_URL}/api/projects/sync`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify({ ...project, baseRevision }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Not authenticated');
+      }
+      if (response.status === 409) {
+        throw createSyncConflictError(await response.json());
       }
-    } else {
-      // Create new project (createProject already handles tasks)
-      savedProject = await createProject(project);
+      throw new Error('Failed to sync project');
     }
 
+    const data: ApiResponse = await response.json();
+
+    if (!data.success || !data.project) {
+      throw new Error(data.error || 'Failed to sync project');
+    }
+
+    const savedProject = transformProjectFromApi(data.project, data.project.tasks || [], data.project.timeLogs || []);
+
     console.log(`Successfully synced project ${savedProject.meta.id}`);
     return savedProject;
   } catch (error: any) {
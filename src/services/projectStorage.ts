@@ -2,18 +2,58 @@
 // Universal Project Manager - Project Storage Service
 // ============================================
 
-import { SavedProject, ProjectMeta } from '../types';
+import { SavedProject, ProjectMeta, MergeConflict, ConflictResolution, ProjectPatch } from '../types';
 import * as projectApi from './projectApiService';
+import { uploadLocalTimeLogs, sendTimeLogUpdate, sendTimeLogDelete, type TimeLogEntry } from './timeLogService';
+import { mergeProjects, applyConflictResolutions } from '../utils/projectMerge';
+import { diffProject, applyProjectChanges } from '../utils/projectDelta';
+import { getLoggedHours } from '../utils/loggedHours';
+import {
+  getOutbox,
+  getPendingCount,
+  enqueueOperation,
+  startOperation,
+  completeOperation,
+  failOperation,
+  resetBackoff,
+  setOutboxChangeCallback,
+  isProjectOperation,
+  isProjectRemoval,
+  type OutboxOperation,
+} from './syncOutbox';
 
 const PROJECTS_STORAGE_KEY = 'upm_projects';
 const CURRENT_PROJECT_KEY = 'upm_current_project_id';
 const SYNC_ENABLED_KEY = 'upm_sync_enabled';
 const LAST_SYNC_TIME_KEY = 'upm_last_sync_time';
+const SYNC_BASES_KEY = 'upm_sync_bases';
+const SYNC_CURSOR_KEY = 'upm_sync_cursor';
 
 // Sync status callback type
-type SyncStatusCallback = (status: 'syncing' | 'synced' | 'error', error?: string) => void;
+type SyncStatusCallback = (status: 'syncing' | 'synced' | 'error' | 'offline', error?: string) => void;
 let syncStatusCallback: SyncStatusCallback | null = null;
 
+// Pending changes callback type - called with the number of queued operations
+type PendingChangesCallback = (pendingCount: number) => void;
+let pendingChangesCallback: PendingChangesCallback | null = null;
+
+// Pulls triggered by realtime change events
+let isPullingRemoteChanges = false;
+let remotePullQueued = false;
+
+// Outbox replay state
+let isFlushingOutbox = false;
+let outboxRetryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Merge callback type - called when server changes were merged into a project
+type ProjectMergeCallback = (project: SavedProject, conflicts: MergeConflict[]) => void;
+let projectMergeCallback: ProjectMergeCallback | null = null;
+
+// Merges waiting for the user to resolve conflicts, keyed by project ID
+const pendingMerges: {
+  [projectId: string]: { merged: SavedProject; conflicts: MergeConflict[]; remote: SavedProject };
+} = {};
+
 /**
  * Set a callback to be notified of sync status changes
  */
@@ -21,6 +61,79 @@ export function setSyncStatusCallback(callback: SyncStatusCallback | null): void
   syncStatusCallback = callback;
 }
 
+/**
+ * Set a callback to be notified when the number of queued changes changes
+ */
+export function setPendingChangesCallback(callback: PendingChangesCallback | null): void {
+  pendingChangesCallback = callback;
+  callback?.(getPendingCount());
+}
+
+/**
+ * Set a callback to be notified when a concurrent server change was merged
+ * into a project. conflicts is empty when the merge was applied automatically.
+ */
+export function setProjectMergeCallback(callback: ProjectMergeCallback | null): void {
+  projectMergeCallback = callback;
+}
+
+/**
+ * Get the last copy of each project acknowledged by the server
+ * These are the common ancestors used for three-way merges
+ */
+function getSyncBases(): { [projectId: string]: SavedProject } {
+  try {
+    const stored = localStorage.getItem(SYNC_BASES_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error loading sync bases:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the last server-acknowledged copy of a project
+ */
+function getSyncBase(projectId: string): SavedProject | null {
+  return getSyncBases()[projectId] || null;
+}
+
+/**
+ * Record the server-acknowledged copy of a project
+ */
+function setSyncBase(project: SavedProject): void {
+  const bases = getSyncBases();
+  bases[project.meta.id] = project;
+  localStorage.setItem(SYNC_BASES_KEY, JSON.stringify(bases));
+}
+
+/**
+ * Forget the server-acknowledged copy of a project
+ */
+function removeSyncBase(projectId: string): void {
+  const bases = getSyncBases();
+  delete bases[projectId];
+  localStorage.setItem(SYNC_BASES_KEY, JSON.stringify(bases));
+}
+
+/**
+ * Get the server change cursor the local projects are current as of
+ */
+function getSyncCursor(): string | null {
+  return localStorage.getItem(SYNC_CURSOR_KEY);
+}
+
+/**
+ * Record the server change cursor after pulling projects or changes
+ */
+function setSyncCursor(cursor: string | null): void {
+  if (cursor) {
+    localStorage.setItem(SYNC_CURSOR_KEY, cursor);
+  } else {
+    localStorage.removeItem(SYNC_CURSOR_KEY);
+  }
+}
+
 /**
  * Get the last sync time
  */
@@ -48,6 +161,11 @@ export function isSyncEnabled(): boolean {
  */
 export function setSyncEnabled(enabled: boolean): void {
   localStorage.setItem(SYNC_ENABLED_KEY, enabled.toString());
+
+  // Changes made while sync is off aren't tracked, so the next sync pulls everything
+  if (!enabled) {
+    setSyncCursor(null);
+  }
 }
 
 /**
@@ -66,7 +184,9 @@ export function getAllProjects(): SavedProject[] {
 
 /**
  * Sync projects from server to localStorage
- * This should be called after login to fetch user's projects from the database
+ * This should be called after login to fetch user's projects from the database.
+ * The first sync downloads every project; later ones only pull what changed
+ * since the stored cursor.
  */
 export async function syncFromServer(): Promise<SavedProject[]> {
   try {
@@ -75,46 +195,22 @@ export async function syncFromServer(): Promise<SavedProject[]> {
       return getAllProjects();
     }
 
+    // Push queued local changes first so they aren't replaced by older server copies
+    await flushOutbox();
+
     // Notify start of sync
     syncStatusCallback?.('syncing');
 
-    console.log('Syncing projects from server...');
-    const serverProjects = await projectApi.getAllProjects(false);
-
-    // Get local projects
-    const localProjects = getAllProjects();
-
-    // Try to match local projects with server projects by name and update IDs
-    const currentProjectId = getCurrentProjectId();
-
-    localProjects.forEach(localProject => {
-      // Find matching server project by name and approximate creation time
-      const serverMatch = serverProjects.find(sp =>
-        sp.meta.name === localProject.meta.name &&
-        Math.abs(new Date(sp.meta.createdAt!).getTime() - new Date(localProject.meta.createdAt!).getTime()) < 60000 // Within 1 minute
-      );
-
-      if (serverMatch && serverMatch.meta.id !== localProject.meta.id) {
-        console.log(`Matched local project "${localProject.meta.name}" (${localProject.meta.id}) with server ID ${serverMatch.meta.id}`);
-
-        // Update current project ID if needed
-        if (currentProjectId === localProject.meta.id) {
-          setCurrentProjectId(serverMatch.meta.id);
-          console.log(`Updated current project ID: ${currentProjectId} -> ${serverMatch.meta.id}`);
-        }
-      }
-    });
-
-    // Replace localStorage with server projects (server is source of truth)
-    localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(serverProjects));
+    const cursor = getSyncCursor();
+    const projects = cursor ? await pullChanges(cursor) : await pullAllProjects();
     setLastSyncTime();
 
-    console.log(`Synced ${serverProjects.length} projects from server`);
-
     // Notify sync success
-    syncStatusCallback?.('synced');
+    if (getPendingCount() === 0) {
+      syncStatusCallback?.('synced');
+    }
 
-    return serverProjects;
+    return projects;
   } catch (error: any) {
     console.error('Error syncing from server:', error);
 
@@ -126,8 +222,195 @@ export async function syncFromServer(): Promise<SavedProject[]> {
   }
 }
 
+/**
+ * React to a change event pushed by the server for a project
+ * Pulls the changes unless this device already has that revision. Events that
+ * arrive while a pull is running are folded into one more pull afterwards.
+ */
+export async function handleRemoteChange(projectId: string, revision?: number): Promise<void> {
+  if (!isSyncEnabled()) return;
+
+  const base = getSyncBase(projectId);
+  if (base && revision !== undefined && (base.meta.revision ?? -1) >= revision) return;
+
+  if (isPullingRemoteChanges) {
+    remotePullQueued = true;
+    return;
+  }
+
+  isPullingRemoteChanges = true;
+  try {
+    do {
+      remotePullQueued = false;
+      await syncFromServer();
+    } while (remotePullQueued);
+  } finally {
+    isPullingRemoteChanges = false;
+  }
+}
+
+/**
+ * Replace local projects with every project on the server
+ */
+async function pullAllProjects(): Promise<SavedProject[]> {
+  console.log('Syncing projects from server...');
+  const { projects: serverProjects, cursor } = await projectApi.getProjectSnapshot(false);
+
+  // Get local projects
+  const localProjects = getAllProjects();
+
+  // Try to match local projects with server projects by name and update IDs
+  const currentProjectId = getCurrentProjectId();
+
+  localProjects.forEach(localProject => {
+    // Find matching server project by name and approximate creation time
+    const serverMatch = serverProjects.find(sp =>
+      sp.meta.name === localProject.meta.name &&
+      Math.abs(new Date(sp.meta.createdAt!).getTime() - new Date(localProject.meta.createdAt!).getTime()) < 60000 // Within 1 minute
+    );
+
+    if (serverMatch && serverMatch.meta.id !== localProject.meta.id) {
+      console.log(`Matched local project "${localProject.meta.name}" (${localProject.meta.id}) with server ID ${serverMatch.meta.id}`);
+
+      // Update current project ID if needed
+      if (currentProjectId === localProject.meta.id) {
+        setCurrentProjectId(serverMatch.meta.id);
+        console.log(`Updated current project ID: ${currentProjectId} -> ${serverMatch.meta.id}`);
+      }
+    }
+  });
+
+  // Replace localStorage with server projects (server is source of truth),
+  // except for projects whose changes are still queued in the outbox
+  const outbox = getOutbox();
+  const queuedProjectIds = new Set(outbox.filter(isProjectOperation).map(op => op.projectId));
+  const projects = serverProjects.filter(p => !queuedProjectIds.has(p.meta.id));
+  localProjects.forEach(localProject => {
+    if (outbox.some(op => op.type === 'save_project' && op.projectId === localProject.meta.id)) {
+      projects.push(localProject);
+    }
+  });
+  localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
+
+  // Queued projects keep their old base so the replay still detects concurrent edits
+  const bases = getSyncBases();
+  serverProjects.forEach(p => {
+    if (!queuedProjectIds.has(p.meta.id)) {
+      bases[p.meta.id] = p;
+    }
+  });
+  localStorage.setItem(SYNC_BASES_KEY, JSON.stringify(bases));
+  setSyncCursor(cursor);
+
+  console.log(`Synced ${serverProjects.length} projects from server (${queuedProjectIds.size} with queued changes)`);
+
+  return projects;
+}
+
+/**
+ * Apply the server changes made since a cursor to the local projects
+ * Projects with queued local changes get a three-way merge; projects with
+ * unresolved conflicts are left alone until the user resolves them.
+ */
+async function pullChanges(cursor: string): Promise<SavedProject[]> {
+  console.log(`Pulling project changes since ${cursor}...`);
+  const feed = await projectApi.getProjectChanges(cursor);
+
+  const queuedProjectIds = new Set(getOutbox().filter(isProjectOperation).map(op => op.projectId));
+  // Deleted or left here but not on the server yet, so don't download them again
+  const removedLocallyIds = new Set(getOutbox().filter(isProjectRemoval).map(op => op.projectId));
+  const isBusy = (projectId: string) => queuedProjectIds.has(projectId) || !!pendingMerges[projectId];
+
+  let projects = getAllProjects();
+  const bases = getSyncBases();
+  const updatedProjects: SavedProject[] = [];
+
+  // Projects deleted on the server, or shared projects the user lost access to
+  const accessibleIds = new Set(feed.projectIds);
+  const removedProjectIds = [
+    ...feed.deletedProjectIds,
+    ...Object.keys(bases).filter(projectId => !accessibleIds.has(projectId)),
+  ];
+
+  removedProjectIds.forEach(projectId => {
+    if (isBusy(projectId)) return;
+    projects = projects.filter(p => p.meta.id !== projectId);
+    delete bases[projectId];
+    if (getCurrentProjectId() === projectId) {
+      setCurrentProjectId(null);
+    }
+  });
+
+  for (const change of feed.changes) {
+    const projectId = change.project.meta.id;
+    if (pendingMerges[projectId] || removedLocallyIds.has(projectId)) continue;
+
+    const index = projects.findIndex(p => p.meta.id === projectId);
+    const base = bases[projectId];
+    let updated: SavedProject;
+
+    if (index >= 0 && queuedProjectIds.has(projectId) && base) {
+      // Local changes are still queued - merge the server's changes into them
+      const remote = applyProjectChanges(base, change);
+      const { merged, conflicts } = mergeProjects(base, projects[index], remote);
+      bases[projectId] = remote;
+
+      if (conflicts.length > 0) {
+        console.log(`Merge of project ${projectId} has ${conflicts.length} conflict(s)`);
+        pendingMerges[projectId] = { merged, conflicts, remote };
+        syncStatusCallback?.('error', `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'} need review`);
+        projectMergeCallback?.(merged, conflicts);
+        continue;
+      }
+
+      updated = merged;
+      projects[index] = updated;
+    } else if (index >= 0) {
+      updated = applyProjectChanges(projects[index], change);
+      projects[index] = updated;
+      bases[projectId] = updated;
+    } else {
+      // New to this device - the feed only carries changed tasks, so fetch it whole
+      if (change.project.meta.archived) continue;
+      updated = await projectApi.getProject(projectId);
+      projects.push(updated);
+      bases[projectId] = updated;
+    }
+
+    updatedProjects.push(updated);
+  }
+
+  // Projects shared with the user since the last pull don't show up as changes
+  const changedIds = new Set(feed.changes.map(change => change.project.meta.id));
+  const newlySharedIds = feed.projectIds.filter(projectId =>
+    !changedIds.has(projectId) && !bases[projectId] && !projects.some(p => p.meta.id === projectId)
+      && !removedLocallyIds.has(projectId)
+  );
+  for (const projectId of newlySharedIds) {
+    const shared = await projectApi.getProject(projectId);
+    // Archived projects only get a base, so they aren't fetched again on every pull
+    bases[projectId] = shared;
+    if (!shared.meta.archived) {
+      projects.push(shared);
+    }
+  }
+
+  localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
+  localStorage.setItem(SYNC_BASES_KEY, JSON.stringify(bases));
+  setSyncCursor(feed.cursor);
+
+  // Let an open project pick up the changes
+  updatedProjects.forEach(project => projectMergeCallback?.(project, []));
+
+  console.log(`Pulled changes for ${feed.changes.length} projects (${removedProjectIds.length} removed, ${newlySharedIds.length} newly shared)`);
+
+  return projects;
+}
+
 /**
  * Sync a single project to server
+ * If someone else saved the project in the meantime, their changes are merged
+ * with ours; conflicting edits are held back until resolveConflicts is called.
  */
 export async function syncToServer(project: SavedProject): Promise<SavedProject | null> {
   try {
@@ -136,17 +419,10 @@ export async function syncToServer(project: SavedProject): Promise<SavedProject
       return null;
     }
 
-    // Notify start of sync
-    syncStatusCallback?.('syncing');
-
-    console.log(`Syncing project ${project.meta.id} to server...`);
-    await projectApi.syncProject(project);
-    setLastSyncTime();
-
-    console.log(`Successfully synced project ${project.meta.id}`);
+    const errors = await pushProjects([project]);
+    if (errors[project.meta.id]) throw errors[project.meta.id];
 
-    // Notify sync success
-    syncStatusCallback?.('synced');
+    return getSyncBase(project.meta.id);
   } catch (error: any) {
     console.error('Error syncing to server:', error);
 
@@ -158,6 +434,374 @@ export async function syncToServer(project: SavedProject): Promise<SavedProject
   }
 }
 
+/**
+ * Send projects to the server
+ * Projects the server has acknowledged before go as incremental patches in a single
+ * batch; new projects are uploaded whole. Patches rejected because someone else saved
+ * in the meantime are merged with the server copy.
+ * Throws when the server can't be reached at all.
+ * @returns Errors for the projects that could not be synced, keyed by project ID
+ */
+async function pushProjects(projects: SavedProject[]): Promise<{ [projectId: string]: Error }> {
+  const errors: { [projectId: string]: Error } = {};
+
+  const toSync = projects.filter(project => {
+    if (pendingMerges[project.meta.id]) {
+      console.log(`Project ${project.meta.id} has unresolved conflicts, skipping server sync`);
+      return false;
+    }
+    return true;
+  });
+  if (toSync.length === 0) return errors;
+
+  // Notify start of sync
+  syncStatusCallback?.('syncing');
+
+  const patches: ProjectPatch[] = [];
+  const fullUploads: SavedProject[] = [];
+
+  toSync.forEach(project => {
+    const base = getSyncBase(project.meta.id);
+    if (!base) {
+      fullUploads.push(project);
+      return;
+    }
+    const patch = diffProject(base, project);
+    if (patch) {
+      patches.push(patch);
+    }
+  });
+
+  if (patches.length > 0) {
+    console.log(`Syncing changes to ${patches.length} project(s)...`);
+    const results = await projectApi.patchProjects(patches);
+
+    for (const result of results) {
+      const project = toSync.find(p => p.meta.id === result.projectId)!;
+      try {
+        if (result.success) {
+          setSyncBase({ ...project, meta: { ...project.meta, revision: result.revision } });
+        } else if (result.notFound) {
+          fullUploads.push(project);
+        } else if (result.forbidden) {
+          // Our role was lowered to viewer - drop the local edits in favour of the server copy
+          const serverProject = await projectApi.getProject(project.meta.id);
+          storeProjectLocally(serverProject);
+          setSyncBase(serverProject);
+          projectMergeCallback?.(serverProject, []);
+        } else if (projectApi.isSyncConflictError(result.error)) {
+          await mergeWithServer(project, getSyncBase(project.meta.id), result.error.serverProject);
+        } else {
+          throw result.error;
+        }
+      } catch (error: any) {
+        errors[result.projectId] = error;
+      }
+    }
+  }
+
+  for (const project of fullUploads) {
+    try {
+      await uploadProject(project);
+    } catch (error: any) {
+      errors[project.meta.id] = error;
+    }
+  }
+
+  if (Object.keys(errors).length === 0) {
+    setLastSyncTime();
+    console.log(`Successfully synced ${toSync.length} project(s)`);
+
+    // Notify sync success
+    syncStatusCallback?.('synced');
+  }
+
+  return errors;
+}
+
+/**
+ * Upload a complete project (used when the server doesn't have it yet)
+ */
+async function uploadProject(project: SavedProject): Promise<void> {
+  console.log(`Uploading project ${project.meta.id} to server...`);
+  const base = getSyncBase(project.meta.id);
+
+  try {
+    const serverProject = await projectApi.syncProject(project, base?.meta.revision);
+    setSyncBase(serverProject);
+  } catch (error) {
+    if (!projectApi.isSyncConflictError(error)) throw error;
+    await mergeWithServer(project, base, error.serverProject);
+  }
+}
+
+/**
+ * Check whether an error means the server could not be reached
+ */
+function isNetworkError(error: any): boolean {
+  return error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine);
+}
+
+/**
+ * Replay a queued time log operation
+ * Changes the server turns down (e.g. the entry's week was locked meanwhile) are
+ * dropped, as retrying them can't succeed.
+ */
+async function replayTimeLogOperation(operation: OutboxOperation): Promise<void> {
+  try {
+    if (operation.type === 'upload_time_logs') {
+      await uploadLocalTimeLogs();
+    } else if (operation.type === 'update_time_log') {
+      await sendTimeLogUpdate(operation.timeLogId!, operation.timeLogUpdates || {});
+    } else {
+      await sendTimeLogDelete(operation.timeLogId!);
+    }
+  } catch (error: any) {
+    if (error.status >= 400 && error.status < 500 && error.status !== 401) {
+      console.warn(`Server refused queued ${operation.type} for ${operation.timeLogId || operation.projectId}, dropping it:`, error.message);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replay a batch of queued operations against the server
+ * A batch is either a single delete or leave, a single time log operation or several project saves.
+ * @returns Errors for the operations that failed, keyed by project ID
+ */
+async function replayOperations(operations: OutboxOperation[]): Promise<{ [projectId: string]: Error }> {
+  const [first] = operations;
+
+  if (!isProjectOperation(first)) {
+    await replayTimeLogOperation(first);
+    return {};
+  }
+
+  if (first.type === 'delete_project' || first.type === 'leave_project') {
+    try {
+      if (first.type === 'delete_project') {
+        await projectApi.deleteProject(first.projectId);
+      } else {
+        await projectApi.leaveProject(first.projectId);
+      }
+    } catch (error: any) {
+      // Never reached the server, already deleted there, or access already lost
+      if (error.message !== 'Project not found') throw error;
+    }
+    return {};
+  }
+
+  // Send the latest local copies - they include every change queued since
+  const projectIds = Array.from(new Set(operations.map(op => op.projectId)));
+  const projects = projectIds
+    .map(projectId => getProject(projectId))
+    .filter((project): project is SavedProject => !!project);
+
+  return await pushProjects(projects);
+}
+
+// Start replaying as soon as anything is queued, here or by the time log service
+setOutboxChangeCallback(() => {
+  pendingChangesCallback?.(getPendingCount());
+  flushOutbox();
+});
+
+/**
+ * Schedule the next outbox replay
+ */
+function scheduleOutboxRetry(delay: number): void {
+  if (outboxRetryTimer) clearTimeout(outboxRetryTimer);
+  outboxRetryTimer = setTimeout(() => {
+    outboxRetryTimer = null;
+    flushOutbox();
+  }, delay);
+}
+
+/**
+ * Replay queued operations in order until the outbox is empty or one fails
+ * A failed operation stays at the head of the queue and is retried with backoff.
+ */
+export async function flushOutbox(): Promise<void> {
+  if (!isSyncEnabled() || isFlushingOutbox) return;
+
+  isFlushingOutbox = true;
+  try {
+    for (;;) {
+      const outbox = getOutbox();
+      const [operation] = outbox;
+      if (!operation) break;
+
+      const waitMs = operation.nextAttemptAt ? new Date(operation.nextAttemptAt).getTime() - Date.now() : 0;
+      if (waitMs > 0) {
+        scheduleOutboxRetry(waitMs);
+        break;
+      }
+
+      // Consecutive saves at the head of the queue go to the server as one batch
+      const batch = [operation];
+      if (operation.type === 'save_project') {
+        for (const next of outbox.slice(1)) {
+          if (next.type !== 'save_project' || next.nextAttemptAt) break;
+          batch.push(next);
+        }
+      }
+
+      batch.forEach(op => startOperation(op.id));
+      let errors: { [projectId: string]: Error };
+      try {
+        errors = await replayOperations(batch);
+      } catch (error: any) {
+        errors = {};
+        batch.forEach(op => {
+          errors[op.projectId] = error;
+        });
+      }
+
+      let retryDelay = 0;
+      let firstError: any = null;
+      batch.forEach(op => {
+        const error = errors[op.projectId];
+        if (!error) {
+          completeOperation(op.id);
+          return;
+        }
+        const message = error.message || 'Failed to sync to server';
+        const delay = failOperation(op.id, message);
+        console.warn(`Sync of ${op.type} for ${op.projectId} failed, retrying in ${delay / 1000}s:`, message);
+        retryDelay = Math.max(retryDelay, delay);
+        firstError = firstError || error;
+      });
+      pendingChangesCallback?.(getPendingCount());
+
+      if (firstError) {
+        if (isNetworkError(firstError)) {
+          syncStatusCallback?.('offline', 'Offline - changes will sync when the connection returns');
+        } else {
+          syncStatusCallback?.('error', firstError.message || 'Failed to sync to server');
+        }
+        scheduleOutboxRetry(retryDelay);
+        break;
+      }
+    }
+  } finally {
+    isFlushingOutbox = false;
+  }
+}
+
+/**
+ * Start replaying the outbox now and whenever connectivity returns
+ * @returns Cleanup function that stops listening
+ */
+export function startOutboxReplay(): () => void {
+  const handleOnline = () => {
+    console.log('Connection restored, replaying queued changes...');
+    // Retry immediately instead of waiting out the backoff
+    resetBackoff();
+    if (outboxRetryTimer) clearTimeout(outboxRetryTimer);
+    outboxRetryTimer = null;
+    flushOutbox();
+  };
+  const handleOffline = () => {
+    syncStatusCallback?.('offline', 'Offline - changes will sync when the connection returns');
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  flushOutbox();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    if (outboxRetryTimer) clearTimeout(outboxRetryTimer);
+    outboxRetryTimer = null;
+  };
+}
+
+/**
+ * Three-way merge a project that the server rejected with a conflict
+ * Clean merges are stored and pushed right away; otherwise the merge waits
+ * for the user to pick a side for each conflict.
+ */
+async function mergeWithServer(
+  local: SavedProject,
+  base: SavedProject | null,
+  remote: SavedProject
+): Promise<SavedProject | null> {
+  console.log(`Project ${local.meta.id} changed on the server, merging...`);
+  const { merged, conflicts } = mergeProjects(base, local, remote);
+
+  if (conflicts.length > 0) {
+    console.log(`Merge of project ${local.meta.id} has ${conflicts.length} conflict(s)`);
+    pendingMerges[local.meta.id] = { merged, conflicts, remote };
+    syncStatusCallback?.('error', `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'} need review`);
+    projectMergeCallback?.(merged, conflicts);
+    return null;
+  }
+
+  storeProjectLocally(merged);
+  projectMergeCallback?.(merged, []);
+
+  // Only our side of the merge needs to go back to the server
+  const patch = diffProject(remote, merged);
+  let synced = remote;
+  if (patch) {
+    const [result] = await projectApi.patchProjects([patch]);
+    if (!result.success) throw result.error || new Error('Failed to sync merged project');
+    synced = { ...merged, meta: { ...merged.meta, revision: result.revision } };
+  }
+  setSyncBase(synced);
+  setLastSyncTime();
+
+  console.log(`Merged and synced project ${local.meta.id}`);
+  syncStatusCallback?.('synced');
+
+  return synced;
+}
+
+/**
+ * Get the unresolved conflicts for a project, if any
+ */
+export function getPendingConflicts(projectId: string): MergeConflict[] {
+  return pendingMerges[projectId]?.conflicts || [];
+}
+
+/**
+ * Resolve the pending conflicts of a project and save the result
+ * Conflicts without a choice keep the local value.
+ */
+export function resolveConflicts(projectId: string, resolution: ConflictResolution): SavedProject | null {
+  const pending = pendingMerges[projectId];
+  if (!pending) return null;
+
+  const resolved = applyConflictResolutions(pending.merged, pending.conflicts, resolution);
+  delete pendingMerges[projectId];
+
+  // The server copy we merged against becomes the base for the next sync
+  setSyncBase(pending.remote);
+  saveProject(resolved);
+
+  return resolved;
+}
+
+/**
+ * Write a project to localStorage without syncing it
+ */
+function storeProjectLocally(project: SavedProject): void {
+  const projects = getAllProjects();
+  const existingIndex = projects.findIndex(p => p.meta.id === project.meta.id);
+
+  if (existingIndex >= 0) {
+    // Update existing project
+    projects[existingIndex] = project;
+  } else {
+    // Add new project
+    projects.push(project);
+  }
+
+  localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
+}
+
 /**
  * Get a single project by ID
  */
@@ -171,9 +815,6 @@ export function getProject(projectId: string): SavedProject | null {
  */
 export function saveProject(project: SavedProject): void {
   try {
-    const projects = getAllProjects();
-    const existingIndex = projects.findIndex(p => p.meta.id === project.meta.id);
-
     // Update timestamps
     const now = new Date().toISOString();
     project.meta.updatedAt = now;
@@ -181,36 +822,12 @@ export function saveProject(project: SavedProject): void {
       project.meta.createdAt = now;
     }
 
-    if (existingIndex >= 0) {
-      // Update existing project
-      projects[existingIndex] = project;
-    } else {
-      // Add new project
-      projects.push(project);
-    }
-
-    localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(projects));
+    storeProjectLocally(project);
 
-    // Async sync to server (don't wait for it, but handle ID updates)
-    if (isSyncEnabled()) {
-      syncToServer(project).then((serverProject) => {
-        // If the server returned a different ID, update localStorage
-        if (serverProject && serverProject.meta.id !== project.meta.id) {
-          console.log(`Server assigned new ID: ${project.meta.id} -> ${serverProject.meta.id}`);
-
-          // Update current project ID if this is the active project
-          if (getCurrentProjectId() === project.meta.id) {
-            setCurrentProjectId(serverProject.meta.id);
-          }
-
-          // Remove old project and add with new ID
-          const updatedProjects = getAllProjects().filter(p => p.meta.id !== project.meta.id);
-          updatedProjects.push(serverProject);
-          localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(updatedProjects));
-        }
-      }).catch(err => {
-        console.error('Background sync failed:', err);
-      });
+    // Queue for the server and replay in the background (survives offline periods and reloads).
+    // Viewers can't change shared projects, so their copy stays local.
+    if (isSyncEnabled() && project.meta.accessRole !== 'viewer') {
+      enqueueOperation('save_project', project.meta.id);
     }
   } catch (error) {
     console.error('Error saving project:', error);
@@ -224,19 +841,21 @@ export function saveProject(project: SavedProject): void {
 export function deleteProject(projectId: string): void {
   try {
     const projects = getAllProjects();
+    const project = projects.find(p => p.meta.id === projectId);
     const filtered = projects.filter(p => p.meta.id !== projectId);
     localStorage.setItem(PROJECTS_STORAGE_KEY, JSON.stringify(filtered));
+    removeSyncBase(projectId);
+    delete pendingMerges[projectId];
 
     // If this was the current project, clear it
     if (getCurrentProjectId() === projectId) {
       setCurrentProjectId(null);
     }
 
-    // Async sync to server (don't wait for it)
+    // Queue for the server and replay in the background. Only owners can delete
+    // a shared project; collaborators leave it instead, so it isn't shared with them again.
     if (isSyncEnabled()) {
-      projectApi.deleteProject(projectId).catch(err => {
-        console.error('Failed to delete project from server:', err);
-      });
+      enqueueOperation(project?.meta.sharedBy ? 'leave_project' : 'delete_project', projectId);
     }
   } catch (error) {
     console.error('Error deleting project:', error);
@@ -307,8 +926,10 @@ export function createNewProject(meta: ProjectMeta): SavedProject {
 
 /**
  * Calculate project statistics
+ * Actual hours are those logged on its tasks (see collectLoggedTime), given
+ * the project's time log entries.
  */
-export function calculateProjectStats(project: SavedProject) {
+export function calculateProjectStats(project: SavedProject, entries: TimeLogEntry[] = []) {
   const tasks = project.tasks;
   const taskStates = project.taskStates;
 
@@ -325,20 +946,16 @@ export function calculateProjectStats(project: SavedProject) {
     if (status === 'complete') completed++;
     if (status === 'in-progress') inProgress++;
 
-    // Calculate hours from subtasks if they exist, otherwise use task-level hours
+    // Estimate from subtasks if they exist, otherwise use the task's own
     if (task.subtasks && task.subtasks.length > 0) {
       task.subtasks.forEach(st => {
         totalEstHours += st.estHours || 0;
-        totalActualHours += st.actualHours || 0;
       });
     } else {
       totalEstHours += task.adjustedEstHours || 0;
-
-      // Calculate actual hours from time logs
-      if (state?.timeLogs) {
-        totalActualHours += state.timeLogs.reduce((sum, log) => sum + log.hours, 0);
-      }
     }
+
+    totalActualHours += getLoggedHours(task, state, entries);
   });
 
   const progress = total > 0 ? Math.round((completed / total) * 100) : 0;
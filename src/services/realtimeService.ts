@@ -0,0 +1,63 @@
+/**
+ * Realtime Service
+ * Subscribes to a project's Server-Sent Events stream to receive live change
+ * notifications and presence (who else has the project open)
+ */
+
+import type { ProjectViewer, ProjectChangeEvent } from '../types';
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+interface ProjectEventHandlers {
+  onChange: (event: ProjectChangeEvent) => void;
+  onPresence: (viewers: ProjectViewer[]) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+/**
+ * Open the event stream for a project
+ * The browser reconnects automatically after network errors.
+ * @returns Function that closes the stream
+ */
+export function subscribeToProject(projectId: string, handlers: ProjectEventHandlers): () => void {
+  if (typeof EventSource === 'undefined') {
+    console.warn('[Realtime] EventSource not supported, live updates disabled');
+    return () => {};
+  }
+
+  const source = new EventSource(`${API_URL}/api/projects/${encodeURIComponent(projectId)}/events`, {
+    withCredentials: true,
+  });
+
+  const parse = (event: Event) => {
+    try {
+      return JSON.parse((event as MessageEvent).data);
+    } catch (error) {
+      console.error('[Realtime] Invalid event data:', error);
+      return null;
+    }
+  };
+
+  source.addEventListener('connected', () => {
+    console.log(`[Realtime] Subscribed to project ${projectId}`);
+    handlers.onConnectionChange?.(true);
+  });
+
+  source.addEventListener('change', event => {
+    const data = parse(event);
+    if (data) handlers.onChange(data);
+  });
+
+  source.addEventListener('presence', event => {
+    const data = parse(event);
+    if (data) handlers.onPresence(data.viewers || []);
+  });
+
+  source.onerror = () => {
+    handlers.onConnectionChange?.(false);
+  };
+
+  return () => {
+    source.close();
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Sync Outbox tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getOutbox,
+  enqueueOperation,
+  startOperation,
+  completeOperation,
+  failOperation,
+  resetBackoff,
+} from './syncOutbox';
+
+// The outbox lives in localStorage, which Node doesn't have
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, String(value)); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-03-02T09:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('enqueueOperation', () => {
+  it('collapses repeated saves and uploads of a project into one operation', () => {
+    enqueueOperation('save_project', 'p1');
+    enqueueOperation('save_project', 'p1');
+    enqueueOperation('upload_time_logs', 'p1');
+    enqueueOperation('upload_time_logs', 'p1');
+    enqueueOperation('save_project', 'p2');
+
+    expect(getOutbox().map(op => `${op.type}:${op.projectId}`)).toEqual([
+      'save_project:p1',
+      'upload_time_logs:p1',
+      'save_project:p2',
+    ]);
+  });
+
+  it('queues a new save behind one already on its way to the server', () => {
+    enqueueOperation('save_project', 'p1');
+    startOperation(getOutbox()[0].id);
+    enqueueOperation('save_project', 'p1');
+
+    const operations = getOutbox();
+    expect(operations).toHaveLength(2);
+    expect(operations.map(op => !!op.inFlight)).toEqual([true, false]);
+  });
+
+  it('drops everything queued for a project when it is deleted or left', () => {
+    enqueueOperation('save_project', 'p1');
+    enqueueOperation('update_time_log', 'p1', { id: 'log1', updates: { hours: 2 } });
+    enqueueOperation('save_project', 'p2');
+    enqueueOperation('leave_project', 'p1');
+
+    expect(getOutbox().map(op => `${op.type}:${op.projectId}`)).toEqual(['save_project:p2', 'leave_project:p1']);
+  });
+
+  it('merges repeated edits of a time log entry, latest value winning', () => {
+    enqueueOperation('update_time_log', 'p1', { id: 'log1', updates: { hours: 2, notes: 'Draft' } });
+    enqueueOperation('update_time_log', 'p1', { id: 'log1', updates: { hours: 3 } });
+    enqueueOperation('update_time_log', 'p1', { id: 'log2', updates: { billable: false } });
+
+    const operations = getOutbox();
+    expect(operations).toHaveLength(2);
+    expect(operations[0].timeLogUpdates).toEqual({ hours: 3, notes: 'Draft' });
+    expect(operations[1].timeLogUpdates).toEqual({ billable: false });
+  });
+
+  it('drops a time log entry\'s queued edits when it is deleted, but not one in flight', () => {
+    enqueueOperation('update_time_log', 'p1', { id: 'log1', updates: { hours: 2 } });
+    startOperation(getOutbox()[0].id);
+    enqueueOperation('update_time_log', 'p1', { id: 'log1', updates: { hours: 3 } });
+    enqueueOperation('delete_time_log', 'p1', { id: 'log1' });
+
+    expect(getOutbox().map(op => `${op.type}:${op.timeLogUpdates?.hours ?? ''}`)).toEqual([
+      'update_time_log:2',
+      'delete_time_log:',
+    ]);
+  });
+});
+
+describe('failOperation', () => {
+  it('backs off 2s, 4s, 8s ... up to 5 minutes between attempts', () => {
+    enqueueOperation('save_project', 'p1');
+    const id = getOutbox()[0].id;
+
+    const delays = Array.from({ length: 10 }, () => failOperation(id, 'Server unreachable'));
+
+    expect(delays).toEqual([2000, 4000, 8000, 16000, 32000, 64000, 128000, 256000, 300000, 300000]);
+    const operation = getOutbox()[0];
+    expect(operation).toMatchObject({ attempts: 10, inFlight: false, lastError: 'Server unreachable' });
+    expect(operation.nextAttemptAt).toBe(new Date(Date.now() + 300000).toISOString());
+  });
+
+  it('ignores an operation that is no longer queued', () => {
+    expect(failOperation('op_missing', 'Gone')).toBe(0);
+  });
+});
+
+describe('resetBackoff', () => {
+  it('makes failed operations eligible for replay right away, keeping their attempts', () => {
+    enqueueOperation('save_project', 'p1');
+    const id = getOutbox()[0].id;
+    failOperation(id, 'Server unreachable');
+
+    resetBackoff();
+
+    const operation = getOutbox()[0];
+    expect(operation.attempts).toBe(1);
+    expect(operation.nextAttemptAt).toBeUndefined();
+  });
+});
+
+describe('completeOperation', () => {
+  it('removes only the accepted operation', () => {
+    enqueueOperation('save_project', 'p1');
+    enqueueOperation('save_project', 'p2');
+    completeOperation(getOutbox()[0].id);
+
+    expect(getOutbox().map(op => op.projectId)).toEqual(['p2']);
+  });
+});
@@ -0,0 +1,207 @@
+// ============================================
+// Universal Project Manager - Sync Outbox
+// ============================================
+
+import type { TimeLogEntry } from './timeLogService';
+
+/**
+ * Pending server operations, persisted so they survive reloads and offline periods.
+ * Project saves carry the whole project (tasks, subtasks, task states and time logs),
+ * so a single save_project entry covers every task edit made since the last sync.
+ * leave_project stands in for deleting a project shared with the user.
+ * Time log entries logged offline wait in the browser and go up with upload_time_logs;
+ * offline edits and deletes of entries already on the server are queued one by one.
+ */
+export type OutboxOperationType =
+  | 'save_project'
+  | 'delete_project'
+  | 'leave_project'
+  | 'upload_time_logs'
+  | 'update_time_log'
+  | 'delete_time_log';
+
+export type TimeLogUpdates = Partial<Pick<TimeLogEntry, 'date' | 'hours' | 'notes' | 'billable' | 'userId' | 'userName'>>;
+
+export interface OutboxOperation {
+  id: string;
+  type: OutboxOperationType;
+  projectId: string;
+  timeLogId?: string;               // Entry changed by update_time_log / delete_time_log
+  timeLogUpdates?: TimeLogUpdates;  // Changes made by update_time_log
+  queuedAt: string;
+  attempts: number;                 // Failed replay attempts so far
+  inFlight?: boolean;               // Currently being sent to the server
+  nextAttemptAt?: string;           // Earliest time to retry (backoff)
+  lastError?: string;
+}
+
+const OUTBOX_KEY = 'upm_sync_outbox';
+
+// Outbox change callback - called whenever an operation is queued
+type OutboxChangeCallback = () => void;
+let outboxChangeCallback: OutboxChangeCallback | null = null;
+
+// Retry backoff: 2s, 4s, 8s ... capped at 5 minutes
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+/**
+ * Get all pending operations in replay order
+ */
+export function getOutbox(): OutboxOperation[] {
+  try {
+    const data = localStorage.getItem(OUTBOX_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error loading sync outbox:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the outbox to localStorage
+ */
+function saveOutbox(operations: OutboxOperation[]): void {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(operations));
+  } catch (error) {
+    console.error('Error saving sync outbox:', error);
+  }
+}
+
+/**
+ * Set a callback to be notified when an operation is queued
+ */
+export function setOutboxChangeCallback(callback: OutboxChangeCallback | null): void {
+  outboxChangeCallback = callback;
+}
+
+/**
+ * Whether an operation saves, deletes or leaves a whole project (as opposed to a time log)
+ */
+export function isProjectOperation(operation: OutboxOperation): boolean {
+  return operation.type === 'save_project' || isProjectRemoval(operation);
+}
+
+/**
+ * Whether an operation removes a project from the user's projects (delete or leave)
+ */
+export function isProjectRemoval(operation: OutboxOperation): boolean {
+  return operation.type === 'delete_project' || operation.type === 'leave_project';
+}
+
+/**
+ * Number of operations waiting to reach the server
+ */
+export function getPendingCount(): number {
+  return getOutbox().length;
+}
+
+/**
+ * Check if a project has changes waiting to reach the server
+ */
+export function hasPendingOperations(projectId: string): boolean {
+  return getOutbox().some(op => op.projectId === projectId);
+}
+
+/**
+ * Queue an operation
+ * Repeated saves of the same project collapse into one entry (the latest local copy
+ * is read at replay time); a delete or leave supersedes anything queued for that project.
+ * Time log uploads collapse the same way, repeated edits of an entry merge, and
+ * deleting an entry drops its queued edits.
+ */
+export function enqueueOperation(
+  type: OutboxOperationType,
+  projectId: string,
+  timeLog?: { id: string; updates?: TimeLogUpdates }
+): void {
+  let operations = getOutbox();
+  // An operation already on its way to the server read its data before this change, so don't merge into it
+  const pending = operations.filter(op => op.type === type && op.projectId === projectId && !op.inFlight);
+
+  if ((type === 'save_project' || type === 'upload_time_logs') && pending.length > 0) {
+    return;
+  }
+
+  const queuedUpdate = pending.find(op => op.timeLogId === timeLog?.id);
+  if (type === 'update_time_log' && queuedUpdate) {
+    queuedUpdate.timeLogUpdates = { ...queuedUpdate.timeLogUpdates, ...timeLog?.updates };
+    saveOutbox(operations);
+    outboxChangeCallback?.();
+    return;
+  }
+
+  if (type === 'delete_project' || type === 'leave_project') {
+    operations = operations.filter(op => op.projectId !== projectId);
+  }
+  if (type === 'delete_time_log') {
+    operations = operations.filter(op => !(op.type === 'update_time_log' && op.timeLogId === timeLog?.id && !op.inFlight));
+  }
+
+  operations.push({
+    id: `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    projectId,
+    timeLogId: timeLog?.id,
+    timeLogUpdates: timeLog?.updates,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  });
+
+  saveOutbox(operations);
+  outboxChangeCallback?.();
+}
+
+/**
+ * Mark an operation as being replayed
+ */
+export function startOperation(operationId: string): void {
+  const operations = getOutbox();
+  const operation = operations.find(op => op.id === operationId);
+  if (!operation) return;
+
+  operation.inFlight = true;
+  saveOutbox(operations);
+}
+
+/**
+ * Remove an operation once the server has accepted it
+ */
+export function completeOperation(operationId: string): void {
+  saveOutbox(getOutbox().filter(op => op.id !== operationId));
+}
+
+/**
+ * Record a failed replay attempt and schedule the next one
+ * @returns Milliseconds until the operation should be retried
+ */
+export function failOperation(operationId: string, error: string): number {
+  const operations = getOutbox();
+  const operation = operations.find(op => op.id === operationId);
+  if (!operation) return 0;
+
+  operation.inFlight = false;
+  operation.attempts += 1;
+  operation.lastError = error;
+
+  const delay = Math.min(RETRY_BASE_MS * Math.pow(2, operation.attempts - 1), RETRY_MAX_MS);
+  operation.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+
+  saveOutbox(operations);
+  return delay;
+}
+
+/**
+ * Make every operation eligible for replay right away (e.g. when the connection returns)
+ */
+export function resetBackoff(): void {
+  saveOutbox(getOutbox().map(op => ({ ...op, nextAttemptAt: undefined })));
+}
+
+/**
+ * Clear all pending operations (e.g. on logout)
+ */
+export function clearOutbox(): void {
+  localStorage.removeItem(OUTBOX_KEY);
+}
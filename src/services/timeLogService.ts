@@ -2,6 +2,8 @@
 // Universal Project Manager - Time Log Service
 // ============================================
 
+import { enqueueOperation, getOutbox, type TimeLogUpdates } from './syncOutbox';
+
 export interface TimeLogEntry {
   id: string;
   projectId: string;
@@ -15,19 +17,50 @@ export interface TimeLogEntry {
   date: string; // ISO date string
   hours: number;
   notes?: string;
+  billable?: boolean;                 // false for non-billable time; billable when unset
   createdAt: string;
   updatedAt?: string;
+  timesheetStatus?: TimesheetStatus;  // Status of the entry's week, once its timesheet is submitted
 }
 
+/**
+ * Where a person's week on a project stands. Submitted and approved weeks
+ * are read-only; a rejected week can be corrected and submitted again.
+ */
+export type TimesheetStatus = 'submitted' | 'approved' | 'rejected';
+
 export interface TimeLogFilter {
   projectIds?: string[];
   taskIds?: string[];
+  subtaskIds?: string[];
   userIds?: string[];
   startDate?: string;
   endDate?: string;
   searchQuery?: string;
 }
 
+/**
+ * The user's task timer, kept on the server so it survives reloads and
+ * follows them to other devices
+ */
+export interface ActiveTimer {
+  projectId: string;
+  projectName: string;
+  taskId: string;
+  taskName: string;
+  subtaskId?: string;
+  subtaskName?: string;
+  userId: string;                 // Person the time is logged for
+  userName: string;
+  startedAt: string;              // First started (ISO timestamp)
+  running: boolean;               // False while paused
+  elapsedSeconds: number;         // Timed so far, as of fetchedAt
+  fetchedAt: number;              // When the server reported elapsedSeconds (ms, local clock)
+}
+
+export type TimerTarget = Pick<ActiveTimer,
+  'projectId' | 'taskId' | 'taskName' | 'subtaskId' | 'subtaskName' | 'userId' | 'userName'>;
+
 export interface TimeLogStats {
   totalHours: number;
   totalEntries: number;
@@ -36,94 +69,294 @@ export interface TimeLogStats {
   byDate: { [date: string]: number };
 }
 
+// Entries not on the server yet: ones logged before time logs were stored
+// there, or while the server couldn't be reached. uploadLocalTimeLogs moves them.
 const TIME_LOGS_KEY = 'upm_time_logs';
 
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+const TIMER_WARNING_HOURS_KEY = 'upm_timer_warning_hours';
+export const DEFAULT_TIMER_WARNING_HOURS = 8;
+
 /**
- * Get all time log entries
+ * Entry waiting in the browser for upload
  */
-export function getAllTimeLogs(): TimeLogEntry[] {
-  try {
-    const data = localStorage.getItem(TIME_LOGS_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch (error) {
-    console.error('Error loading time logs:', error);
-    return [];
+function isLocalTimeLog(logId: string): boolean {
+  return getLocalTimeLogs().some(l => l.id === logId);
+}
+
+/**
+ * Convert a time_logs row from the API to a TimeLogEntry
+ */
+function transformTimeLogFromApi(row: any): TimeLogEntry {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    projectName: row.project_name || '',
+    taskId: row.task_client_id,
+    taskName: row.task_name || '',
+    subtaskId: row.subtask_client_id || undefined,
+    subtaskName: row.subtask_name || undefined,
+    userId: row.logged_by,
+    userName: row.logged_by_name || '',
+    date: row.date,
+    hours: parseFloat(row.hours) || 0,
+    notes: row.notes || undefined,
+    billable: row.billable !== false,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at || undefined,
+    timesheetStatus: row.timesheet_status || undefined,
+  };
+}
+
+/**
+ * Read a failed response's error message
+ * The error carries the response status, so callers can tell a refusal from a server failure.
+ */
+async function responseError(response: Response, fallback: string): Promise<Error & { status: number }> {
+  const data = await response.json().catch(() => ({}));
+  return Object.assign(new Error(data.error || fallback), { status: response.status });
+}
+
+/**
+ * Whether an entry's week is submitted or approved, so it can't change
+ */
+export function isTimeLogLocked(log: Pick<TimeLogEntry, 'timesheetStatus'>): boolean {
+  return log.timesheetStatus === 'submitted' || log.timesheetStatus === 'approved';
+}
+
+/**
+ * Refuse changes to an entry in a submitted or approved week
+ */
+function assertTimeLogEditable(log: TimeLogEntry): void {
+  if (isTimeLogLocked(log)) {
+    throw new Error(log.timesheetStatus === 'approved'
+      ? 'This week\'s timesheet is approved, so its time can\'t be changed'
+      : 'This week\'s timesheet is waiting for approval, so its time can\'t be changed');
   }
 }
 
 /**
- * Get a single time log entry by ID
+ * Get all time log entries
  */
-export function getTimeLog(logId: string): TimeLogEntry | undefined {
-  const logs = getAllTimeLogs();
-  return logs.find(l => l.id === logId);
+export async function getAllTimeLogs(): Promise<TimeLogEntry[]> {
+  return getFilteredTimeLogs({});
 }
 
 /**
  * Create a new time log entry
+ * Kept in the browser for a later upload when the server can't take it yet
+ * (offline, logged out, or the project isn't synced).
  */
-export function createTimeLog(log: Omit<TimeLogEntry, 'id' | 'createdAt'>): TimeLogEntry {
-  const logs = getAllTimeLogs();
+export async function createTimeLog(log: Omit<TimeLogEntry, 'id' | 'createdAt'>): Promise<TimeLogEntry> {
+  let response: Response | null = null;
+  try {
+    response = await fetch(`${API_URL}/api/time-logs`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'include',
+      body: JSON.stringify(log),
+    });
+  } catch (error) {
+    console.warn('Server unreachable, keeping time log locally:', error);
+  }
+
+  if (response?.ok) {
+    const data = await response.json();
+    return transformTimeLogFromApi(data.timeLog);
+  }
+  if (response && response.status !== 401 && response.status !== 404) {
+    throw await responseError(response, 'Failed to log time');
+  }
 
   const newLog: TimeLogEntry = {
     ...log,
     id: `timelog_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     createdAt: new Date().toISOString(),
   };
-
-  logs.push(newLog);
-  saveTimeLogs(logs);
+  saveLocalTimeLogs([...getLocalTimeLogs(), newLog]);
+  enqueueOperation('upload_time_logs', log.projectId);
 
   return newLog;
 }
 
 /**
  * Update an existing time log entry
+ * Entries in a submitted or approved week are read-only. The change is queued
+ * in the sync outbox when the server can't be reached.
+ */
+export async function updateTimeLog(log: TimeLogEntry, updates: Partial<TimeLogEntry>): Promise<TimeLogEntry | null> {
+  assertTimeLogEditable(log);
+  const logId = log.id;
+
+  if (isLocalTimeLog(logId)) {
+    const logs = getLocalTimeLogs();
+    const index = logs.findIndex(l => l.id === logId);
+    logs[index] = {
+      ...logs[index],
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    saveLocalTimeLogs(logs);
+    return logs[index];
+  }
+
+  const changes = pickTimeLogUpdates(updates);
+  try {
+    return await sendTimeLogUpdate(logId, changes);
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error;
+    console.warn('Server unreachable, queueing time log change:', error);
+    enqueueOperation('update_time_log', log.projectId, { id: logId, updates: changes });
+    return { ...log, ...changes, updatedAt: new Date().toISOString() };
+  }
+}
+
+/**
+ * The fields of an update the server accepts, leaving out unset ones
  */
-export function updateTimeLog(logId: string, updates: Partial<TimeLogEntry>): TimeLogEntry | null {
-  const logs = getAllTimeLogs();
-  const index = logs.findIndex(l => l.id === logId);
+function pickTimeLogUpdates(updates: Partial<TimeLogEntry>): TimeLogUpdates {
+  const changes: TimeLogUpdates = {};
+  (['date', 'hours', 'notes', 'billable', 'userId', 'userName'] as const).forEach(field => {
+    if (updates[field] !== undefined) (changes as any)[field] = updates[field];
+  });
+  return changes;
+}
 
-  if (index === -1) return null;
+/**
+ * Send changes to an entry on the server (also used to replay queued changes)
+ * @returns The updated entry, or null if it no longer exists
+ */
+export async function sendTimeLogUpdate(logId: string, updates: TimeLogUpdates): Promise<TimeLogEntry | null> {
+  const response = await fetch(`${API_URL}/api/time-logs/${encodeURIComponent(logId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(updates),
+  });
 
-  logs[index] = {
-    ...logs[index],
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
-  saveTimeLogs(logs);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to update time log');
+  }
 
-  return logs[index];
+  const data = await response.json();
+  return transformTimeLogFromApi(data.timeLog);
 }
 
 /**
  * Delete a time log entry
+ * Entries in a submitted or approved week are read-only. The delete is queued
+ * in the sync outbox when the server can't be reached.
  */
-export function deleteTimeLog(logId: string): boolean {
-  const logs = getAllTimeLogs();
-  const filtered = logs.filter(l => l.id !== logId);
+export async function deleteTimeLog(log: TimeLogEntry): Promise<boolean> {
+  assertTimeLogEditable(log);
+  const logId = log.id;
 
-  if (filtered.length === logs.length) return false;
+  if (isLocalTimeLog(logId)) {
+    saveLocalTimeLogs(getLocalTimeLogs().filter(l => l.id !== logId));
+    return true;
+  }
+
+  try {
+    return await sendTimeLogDelete(logId);
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error;
+    console.warn('Server unreachable, queueing time log delete:', error);
+    enqueueOperation('delete_time_log', log.projectId, { id: logId });
+    return true;
+  }
+}
 
-  saveTimeLogs(filtered);
+/**
+ * Delete an entry on the server (also used to replay queued deletes)
+ * @returns false if it no longer exists
+ */
+export async function sendTimeLogDelete(logId: string): Promise<boolean> {
+  const response = await fetch(`${API_URL}/api/time-logs/${encodeURIComponent(logId)}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to delete time log');
+  }
   return true;
 }
 
 /**
  * Get filtered time logs
+ * Entries from the server plus any still waiting in the browser, newest first.
+ * Only the browser's entries when the server can't be asked (offline or logged out).
+ */
+export async function getFilteredTimeLogs(filter: TimeLogFilter): Promise<TimeLogEntry[]> {
+  const params = new URLSearchParams();
+  if (filter.projectIds && filter.projectIds.length > 0) params.set('projectIds', filter.projectIds.join(','));
+  if (filter.taskIds && filter.taskIds.length > 0) params.set('taskIds', filter.taskIds.join(','));
+  if (filter.subtaskIds && filter.subtaskIds.length > 0) params.set('subtaskIds', filter.subtaskIds.join(','));
+  if (filter.userIds && filter.userIds.length > 0) params.set('userIds', filter.userIds.join(','));
+  if (filter.startDate) params.set('startDate', filter.startDate);
+  if (filter.endDate) params.set('endDate', filter.endDate);
+  if (filter.searchQuery) params.set('search', filter.searchQuery);
+
+  let response: Response | null = null;
+  try {
+    response = await fetch(`${API_URL}/api/time-logs?${params.toString()}`, {
+      credentials: 'include',
+    });
+  } catch (error) {
+    console.warn('Server unreachable, showing locally kept time logs only:', error);
+  }
+
+  if (response && !response.ok && response.status !== 401 && response.status !== 404) {
+    throw await responseError(response, 'Failed to fetch time logs');
+  }
+
+  const data = response?.ok ? await response.json() : {};
+  const logs: TimeLogEntry[] = [
+    ...applyQueuedChanges((data.timeLogs || []).map(transformTimeLogFromApi)),
+    ...filterTimeLogs(getLocalTimeLogs(), filter),
+  ];
+
+  // Sort by date (most recent first)
+  logs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  return logs;
+}
+
+/**
+ * Show server entries with the edits and deletes still queued for them
  */
-export function getFilteredTimeLogs(filter: TimeLogFilter): TimeLogEntry[] {
-  let logs = getAllTimeLogs();
+function applyQueuedChanges(logs: TimeLogEntry[]): TimeLogEntry[] {
+  const queued = getOutbox();
+  return logs
+    .filter(log => !queued.some(op => op.type === 'delete_time_log' && op.timeLogId === log.id))
+    .map(log => queued
+      .filter(op => op.type === 'update_time_log' && op.timeLogId === log.id)
+      .reduce((updated, op) => ({ ...updated, ...op.timeLogUpdates }), log));
+}
 
+/**
+ * Apply a filter to entries held in the browser
+ */
+function filterTimeLogs(logs: TimeLogEntry[], filter: TimeLogFilter): TimeLogEntry[] {
   // Filter by project IDs
   if (filter.projectIds && filter.projectIds.length > 0) {
     logs = logs.filter(l => filter.projectIds!.includes(l.projectId));
   }
 
-  // Filter by task IDs
+  // Filter by task and subtask IDs
   if (filter.taskIds && filter.taskIds.length > 0) {
     logs = logs.filter(l => filter.taskIds!.includes(l.taskId));
   }
+  if (filter.subtaskIds && filter.subtaskIds.length > 0) {
+    logs = logs.filter(l => !!l.subtaskId && filter.subtaskIds!.includes(l.subtaskId));
+  }
 
   // Filter by user IDs
   if (filter.userIds && filter.userIds.length > 0) {
@@ -148,38 +381,35 @@ export function getFilteredTimeLogs(filter: TimeLogFilter): TimeLogEntry[] {
     );
   }
 
-  // Sort by date (most recent first)
-  logs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
   return logs;
 }
 
 /**
  * Get time logs for a specific project
  */
-export function getProjectTimeLogs(projectId: string): TimeLogEntry[] {
-  return getAllTimeLogs().filter(l => l.projectId === projectId);
+export function getProjectTimeLogs(projectId: string): Promise<TimeLogEntry[]> {
+  return getFilteredTimeLogs({ projectIds: [projectId] });
 }
 
 /**
  * Get time logs for a specific task
  */
-export function getTaskTimeLogs(taskId: string): TimeLogEntry[] {
-  return getAllTimeLogs().filter(l => l.taskId === taskId);
+export function getTaskTimeLogs(taskId: string): Promise<TimeLogEntry[]> {
+  return getFilteredTimeLogs({ taskIds: [taskId] });
 }
 
 /**
  * Get time logs for a specific subtask
  */
-export function getSubtaskTimeLogs(subtaskId: string): TimeLogEntry[] {
-  return getAllTimeLogs().filter(l => l.subtaskId === subtaskId);
+export function getSubtaskTimeLogs(subtaskId: string): Promise<TimeLogEntry[]> {
+  return getFilteredTimeLogs({ subtaskIds: [subtaskId] });
 }
 
 /**
  * Get time logs for a specific user
  */
-export function getUserTimeLogs(userId: string): TimeLogEntry[] {
-  return getAllTimeLogs().filter(l => l.userId === userId);
+export function getUserTimeLogs(userId: string): Promise<TimeLogEntry[]> {
+  return getFilteredTimeLogs({ userIds: [userId] });
 }
 
 /**
@@ -223,56 +453,43 @@ export function calculateTimeLogStats(logs: TimeLogEntry[]): TimeLogStats {
 /**
  * Get time logs for a date range
  */
-export function getTimeLogsInDateRange(startDate: string, endDate: string): TimeLogEntry[] {
-  return getAllTimeLogs().filter(l => l.date >= startDate && l.date <= endDate);
+export function getTimeLogsInDateRange(startDate: string, endDate: string): Promise<TimeLogEntry[]> {
+  return getFilteredTimeLogs({ startDate, endDate });
 }
 
 /**
  * Get recent time logs (last N entries)
  */
-export function getRecentTimeLogs(limit: number = 10): TimeLogEntry[] {
-  const logs = getAllTimeLogs();
+export async function getRecentTimeLogs(limit: number = 10): Promise<TimeLogEntry[]> {
+  const logs = await getAllTimeLogs();
   return logs
     .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
     .slice(0, limit);
 }
 
 /**
- * Delete all time logs for a project
+ * Entries waiting in the browser
  */
-export function deleteProjectTimeLogs(projectId: string): number {
-  const logs = getAllTimeLogs();
-  const filtered = logs.filter(l => l.projectId !== projectId);
-  const deletedCount = logs.length - filtered.length;
-
-  if (deletedCount > 0) {
-    saveTimeLogs(filtered);
-  }
-
-  return deletedCount;
-}
-
-/**
- * Delete all time logs for a task
- */
-export function deleteTaskTimeLogs(taskId: string): number {
-  const logs = getAllTimeLogs();
-  const filtered = logs.filter(l => l.taskId !== taskId);
-  const deletedCount = logs.length - filtered.length;
-
-  if (deletedCount > 0) {
-    saveTimeLogs(filtered);
+function getLocalTimeLogs(): TimeLogEntry[] {
+  try {
+    const data = localStorage.getItem(TIME_LOGS_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error loading time logs:', error);
+    return [];
   }
-
-  return deletedCount;
 }
 
 /**
- * Save time logs to localStorage
+ * Save entries waiting in the browser
  */
-function saveTimeLogs(logs: TimeLogEntry[]): void {
+function saveLocalTimeLogs(logs: TimeLogEntry[]): void {
   try {
-    localStorage.setItem(TIME_LOGS_KEY, JSON.stringify(logs));
+    if (logs.length > 0) {
+      localStorage.setItem(TIME_LOGS_KEY, JSON.stringify(logs));
+    } else {
+      localStorage.removeItem(TIME_LOGS_KEY);
+    }
   } catch (error) {
     console.error('Error saving time logs:', error);
     throw new Error('Failed to save time logs');
@@ -280,10 +497,35 @@ function saveTimeLogs(logs: TimeLogEntry[]): void {
 }
 
 /**
- * Clear all time logs (use with caution)
+ * Upload entries waiting in the browser
+ * Run after login: the first time, this migrates every entry from before time
+ * logs were stored on the server. Entries the server can't take yet (their
+ * project isn't synced) stay in the browser for the next run.
+ * @returns Number of entries uploaded
  */
-export function clearAllTimeLogs(): void {
-  localStorage.removeItem(TIME_LOGS_KEY);
+export async function uploadLocalTimeLogs(): Promise<number> {
+  const logs = getLocalTimeLogs();
+  if (logs.length === 0) return 0;
+
+  const response = await fetch(`${API_URL}/api/time-logs/import`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify({ entries: logs }),
+  });
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to upload time logs');
+  }
+
+  const data: { imported: string[]; skipped: { id: string; error: string }[] } = await response.json();
+  const imported = new Set(data.imported);
+  data.skipped.forEach(entry => console.warn(`Time log ${entry.id} kept locally: ${entry.error}`));
+
+  // Re-read in case more were logged while uploading
+  saveLocalTimeLogs(getLocalTimeLogs().filter(l => !imported.has(l.id)));
+  return imported.size;
 }
 
 /**
@@ -297,6 +539,7 @@ export function exportTimeLogsToCSV(logs: TimeLogEntry[]): string {
     'Subtask',
     'User',
     'Hours',
+    'Billable',
     'Notes',
     'Created At'
   ];
@@ -308,6 +551,7 @@ export function exportTimeLogsToCSV(logs: TimeLogEntry[]): string {
     log.subtaskName || '',
     log.userName,
     log.hours.toString(),
+    log.billable === false ? 'No' : 'Yes',
     log.notes || '',
     new Date(log.createdAt).toLocaleString()
   ]);
@@ -330,18 +574,142 @@ export function exportTimeLogsToJSON(logs: TimeLogEntry[]): string {
 /**
  * Get daily totals for a date range
  */
-export function getDailyTotals(startDate: string, endDate: string): Array<{ date: string; hours: number }> {
-  const logs = getTimeLogsInDateRange(startDate, endDate);
-  const dailyTotals: { [date: string]: number } = {};
+export async function getDailyTotals(
+  startDate: string,
+  endDate: string,
+  filter: TimeLogFilter = {}
+): Promise<Array<{ date: string; hours: number }>> {
+  const logs = await getFilteredTimeLogs({ ...filter, startDate, endDate });
+  const { byDate } = calculateTimeLogStats(logs);
+
+  return Object.entries(byDate)
+    .map(([date, hours]) => ({ date, hours }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
 
-  logs.forEach(log => {
-    if (!dailyTotals[log.date]) {
-      dailyTotals[log.date] = 0;
-    }
-    dailyTotals[log.date] += log.hours;
+// ==========================
+// Task Timer
+// ==========================
+
+/**
+ * Convert an active_timers row from the API to an ActiveTimer
+ */
+function transformTimerFromApi(row: any): ActiveTimer | null {
+  if (!row) return null;
+  return {
+    projectId: row.project_id,
+    projectName: row.project_name || '',
+    taskId: row.task_client_id,
+    taskName: row.task_name,
+    subtaskId: row.subtask_client_id || undefined,
+    subtaskName: row.subtask_name || undefined,
+    userId: row.logged_by,
+    userName: row.logged_by_name || '',
+    startedAt: row.started_at,
+    running: !!row.running,
+    elapsedSeconds: Number(row.elapsed_seconds) || 0,
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * Send a timer request and read back the timer
+ */
+async function timerRequest(path: string, method: string, body?: object): Promise<ActiveTimer | null> {
+  const response = await fetch(`${API_URL}/api/time-logs/timer${path}`, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    credentials: 'include',
+    body: body ? JSON.stringify(body) : undefined,
   });
+  if (!response.ok) {
+    throw await responseError(response, 'Timer request failed');
+  }
 
-  return Object.entries(dailyTotals)
-    .map(([date, hours]) => ({ date, hours }))
-    .sort((a, b) => a.date.localeCompare(b.date));
+  const data = await response.json();
+  return transformTimerFromApi(data.timer);
+}
+
+/**
+ * Get the user's timer, if one is running or paused
+ */
+export function getActiveTimer(): Promise<ActiveTimer | null> {
+  return timerRequest('', 'GET');
+}
+
+/**
+ * Start a timer on a task or subtask (fails while another timer exists)
+ */
+export async function startTimer(target: TimerTarget): Promise<ActiveTimer> {
+  return (await timerRequest('', 'POST', target))!;
+}
+
+/**
+ * Pause the running timer
+ */
+export async function pauseTimer(): Promise<ActiveTimer> {
+  return (await timerRequest('/pause', 'POST'))!;
+}
+
+/**
+ * Resume the paused timer
+ */
+export async function resumeTimer(): Promise<ActiveTimer> {
+  return (await timerRequest('/resume', 'POST'))!;
+}
+
+/**
+ * Discard the timer without logging its time
+ */
+export async function discardTimer(): Promise<void> {
+  await timerRequest('', 'DELETE');
+}
+
+/**
+ * Stop the timer and log its time
+ * @param options.hours - Hours to log instead of the measured time (which is capped at 24)
+ * @returns The new entry, or null if the timer ran for under 0.01 hours
+ */
+export async function stopTimer(options: { hours?: number; notes?: string; billable?: boolean } = {}): Promise<TimeLogEntry | null> {
+  const today = new Date();
+  const date = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+
+  const response = await fetch(`${API_URL}/api/time-logs/timer/stop`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify({ ...options, date }),
+  });
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to stop timer');
+  }
+
+  const data = await response.json();
+  return data.timeLog ? transformTimeLogFromApi(data.timeLog) : null;
+}
+
+/**
+ * Seconds on a timer now, counting from when the server last reported it
+ */
+export function getTimerElapsedSeconds(timer: ActiveTimer, now: number = Date.now()): number {
+  return timer.running
+    ? timer.elapsedSeconds + Math.max(0, Math.floor((now - timer.fetchedAt) / 1000))
+    : timer.elapsedSeconds;
+}
+
+/**
+ * Hours after which a running timer is flagged as possibly forgotten
+ */
+export function getTimerWarningHours(): number {
+  const saved = parseFloat(localStorage.getItem(TIMER_WARNING_HOURS_KEY) || '');
+  return saved > 0 ? saved : DEFAULT_TIMER_WARNING_HOURS;
+}
+
+/**
+ * Set the forgotten timer warning threshold
+ */
+export function setTimerWarningHours(hours: number): void {
+  localStorage.setItem(TIMER_WARNING_HOURS_KEY, String(hours));
 }
@@ -0,0 +1,119 @@
+// ============================================
+// Universal Project Manager - Timesheet Service
+// ============================================
+
+import type { TimesheetStatus } from './timeLogService';
+
+/**
+ * A person's week of time log entries on one project, submitted for approval
+ */
+export interface Timesheet {
+  id: string;
+  projectId: string;
+  projectName: string;
+  userId: string;                  // Person the time is logged for
+  userName: string;
+  weekStart: string;               // Monday (YYYY-MM-DD)
+  status: TimesheetStatus;
+  totalHours: number;              // Hours in the week when it was submitted
+  submittedAt?: string;
+  submittedByName?: string;
+  reviewedAt?: string;
+  reviewedByName?: string;
+  reviewComment?: string;
+}
+
+export interface TimesheetFilter {
+  projectIds?: string[];
+  userIds?: string[];
+  statuses?: TimesheetStatus[];
+  weekStart?: string;              // Any day of the week
+}
+
+const API_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+/**
+ * Convert a timesheets row from the API to a Timesheet
+ */
+function transformTimesheetFromApi(row: any): Timesheet {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    projectName: row.project_name || '',
+    userId: row.logged_by,
+    userName: row.logged_by_name || '',
+    weekStart: row.week_start,
+    status: row.status,
+    totalHours: parseFloat(row.total_hours) || 0,
+    submittedAt: row.submitted_at || undefined,
+    submittedByName: row.submitted_by_name || undefined,
+    reviewedAt: row.reviewed_at || undefined,
+    reviewedByName: row.reviewed_by_name || undefined,
+    reviewComment: row.review_comment || undefined,
+  };
+}
+
+/**
+ * Send a timesheet request and read back the timesheet
+ */
+async function timesheetRequest(path: string, body: object, fallback: string): Promise<Timesheet> {
+  const response = await fetch(`${API_URL}/api/timesheets${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallback);
+  }
+  return transformTimesheetFromApi(data.timesheet);
+}
+
+/**
+ * Get timesheets in the user's projects, latest week first
+ */
+export async function getTimesheets(filter: TimesheetFilter = {}): Promise<Timesheet[]> {
+  const params = new URLSearchParams();
+  if (filter.projectIds && filter.projectIds.length > 0) params.set('projectIds', filter.projectIds.join(','));
+  if (filter.userIds && filter.userIds.length > 0) params.set('userIds', filter.userIds.join(','));
+  if (filter.statuses && filter.statuses.length > 0) params.set('status', filter.statuses.join(','));
+  if (filter.weekStart) params.set('weekStart', filter.weekStart);
+
+  const response = await fetch(`${API_URL}/api/timesheets?${params.toString()}`, {
+    credentials: 'include',
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to fetch timesheets');
+  }
+
+  return (data.timesheets || []).map(transformTimesheetFromApi);
+}
+
+/**
+ * Submit a person's week on a project for approval, locking its entries
+ * The person's email ties the week to their account, so they can't approve it themselves.
+ */
+export function submitTimesheet(
+  timesheet: Pick<Timesheet, 'projectId' | 'userId' | 'userName' | 'weekStart'> & { userEmail?: string }
+): Promise<Timesheet> {
+  return timesheetRequest('/submit', timesheet, 'Failed to submit timesheet');
+}
+
+/**
+ * Approve a submitted timesheet (approvers and project owners)
+ */
+export function approveTimesheet(timesheetId: string, comment?: string): Promise<Timesheet> {
+  return timesheetRequest(`/${encodeURIComponent(timesheetId)}/approve`, { comment }, 'Failed to approve timesheet');
+}
+
+/**
+ * Send a submitted timesheet back with what needs fixing, unlocking its entries
+ */
+export function rejectTimesheet(timesheetId: string, comment: string): Promise<Timesheet> {
+  return timesheetRequest(`/${encodeURIComponent(timesheetId)}/reject`, { comment }, 'Failed to reject timesheet');
+}
@@ -11,6 +11,7 @@ export interface User {
   initials: string;
   color: string;
   role?: string;
+  hourlyRate?: number;             // Default rate; projects can override it per collaborator
   avatar?: string;
   createdAt: string;
   active: boolean;
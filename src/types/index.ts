@@ -54,8 +54,19 @@ export interface ProjectMeta {
   budget?: number;
   timeline?: string;
   collaborators?: Collaborator[];      // Team members who can be assigned tasks
+  calendar?: WorkingCalendar;          // Working days and holidays used for forecasting
+  baseline?: ProjectBaseline | null;   // Plan that earned value is measured against (null once cleared)
+  revision?: number;                   // Server revision this copy is based on
+  accessRole?: ProjectRole;            // Current user's role (set for synced projects)
+  sharedBy?: string;                   // Owner's name, for projects shared with the current user
 }
 
+/**
+ * What a user may do with a project: viewers read, editors also change
+ * tasks and metadata, owners also delete and manage sharing
+ */
+export type ProjectRole = 'owner' | 'approver' | 'editor' | 'viewer';
+
 /**
  * Collaborator/Team member
  */
@@ -66,6 +77,36 @@ export interface Collaborator {
   role?: string;
   color?: string;                       // Color for avatar/badges
   initials?: string;                    // e.g., "JD" for John Doe
+  capacityHoursPerDay?: number;         // Hours per working day; defaults to the project calendar
+  hourlyRate?: number;                  // Rate on this project; overrides the person's own rate
+}
+
+/**
+ * Project working calendar
+ */
+export interface WorkingCalendar {
+  workingDays: number[];                // Days of the week worked (0 = Sunday ... 6 = Saturday)
+  hoursPerDay: number;                  // Default daily capacity per person
+  holidays: string[];                   // Non-working dates (YYYY-MM-DD)
+}
+
+/**
+ * Planned hours and timing of one task when the baseline was set
+ */
+export interface BaselineTask {
+  hours: number;
+  startDay: number;                     // Days from the baseline start date
+  endDay: number;
+}
+
+/**
+ * Snapshot of the plan (estimates and Gantt schedule) that earned value is
+ * measured against
+ */
+export interface ProjectBaseline {
+  setAt: string;                        // When the baseline was set (ISO)
+  startDate: string;                    // YYYY-MM-DD; task days count from here
+  tasks: { [taskId: string]: BaselineTask };
 }
 
 /**
@@ -77,6 +118,7 @@ export interface TimeLog {
   hours: number;                        // Hours worked in this session
   notes?: string;                       // What was done in this session
   loggedBy?: string;                    // Collaborator ID who logged the time
+  billable?: boolean;                   // false for non-billable time; billable when unset
 }
 
 /**
@@ -114,6 +156,7 @@ export interface Task {
   category: string;
   baseEstHours?: number;           // Base time estimate before experience adjustment
   adjustedEstHours: number;        // Adjusted for experience level
+  rawEstHours?: number;            // Estimate before calibration from past actuals
   sopReference?: string;           // Standard Operating Procedure reference
   dependencies?: string[];         // IDs of tasks this depends on
   criticalPath?: boolean;          // Is this on the critical path?
@@ -122,6 +165,7 @@ export interface Task {
   assignedTo?: string;             // Collaborator ID assigned to this task
   subtasks?: Subtask[];            // Array of subtasks for hierarchical breakdown
   subtaskHourMode?: SubtaskHourMode; // How to calculate hours: 'manual' or 'auto' (sum of subtasks)
+  startDate?: string;              // Scheduled start (YYYY-MM-DD); never before dependencies finish
 }
 
 /**
@@ -159,6 +203,61 @@ export interface RiskFactor {
   mitigation: string;
 }
 
+/**
+ * Likelihood or impact rating of a risk
+ */
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Where a risk stands in being dealt with
+ */
+export type RiskMitigationStatus = 'not_started' | 'in_progress' | 'mitigated' | 'accepted';
+
+/**
+ * Where a risk came from
+ */
+export type RiskSource = 'ai_analysis' | 'ai_report' | 'manual';
+
+/**
+ * A risk's rating at one point in time
+ */
+export interface RiskAssessment {
+  date: string;                    // ISO date string
+  likelihood: RiskLevel;
+  impact: RiskLevel;
+  mitigationStatus: RiskMitigationStatus;
+}
+
+/**
+ * Entry in a project's risk register
+ */
+export interface Risk {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  owner?: string;                  // Collaborator ID responsible for the risk
+  likelihood: RiskLevel;
+  impact: RiskLevel;
+  mitigation: string;              // Planned response
+  mitigationStatus: RiskMitigationStatus;
+  linkedTaskIds: string[];         // Tasks affected by or addressing the risk
+  source: RiskSource;
+  createdAt: string;
+  updatedAt: string;
+  history: RiskAssessment[];       // Every rating, oldest first (includes the current one)
+}
+
+/**
+ * Risk exposure of a project at one point in time
+ */
+export interface RiskTrendPoint {
+  date: string;                    // YYYY-MM-DD
+  openRisks: number;
+  highRisks: number;               // Open risks scoring 6 or more
+  exposure: number;                // Sum of likelihood x impact over open risks
+}
+
 /**
  * AI Analysis Request
  */
@@ -171,6 +270,41 @@ export interface AIAnalysisRequest {
   teamSize?: number;
 }
 
+/**
+ * What has arrived so far while an AI analysis streams in
+ */
+export interface AIStreamProgress {
+  characters: number;              // Characters of the reply received
+  phases: string[];                // Phase titles seen so far
+  tasksParsed: number;             // Tasks seen so far
+  lastTask?: string;               // Most recent task name
+}
+
+/**
+ * Options for a cancellable, streamed AI request
+ */
+export interface AIRequestOptions {
+  signal?: AbortSignal;                              // Abort to cancel the upstream request
+  onProgress?: (progress: AIStreamProgress) => void;
+}
+
+/**
+ * Backend AI provider (anthropic, openai, local)
+ */
+export interface AIProviderOption {
+  id: string;
+  label: string;
+}
+
+/**
+ * Available AI providers with the user's choice and the server default
+ */
+export interface AIProviderSettings {
+  providers: AIProviderOption[];
+  selected: string | null;     // null follows the server default
+  default: string;
+}
+
 /**
  * AI Analysis Response
  */
@@ -198,6 +332,100 @@ export interface Stats {
   overruns: number;
 }
 
+/**
+ * Earned value management metrics, in hours
+ * Indexes are null while there is nothing to divide by (no planned or logged time yet).
+ */
+export interface EarnedValueMetrics {
+  asOf: string;                    // YYYY-MM-DD
+  fromBaseline: boolean;           // false when measured against the current plan
+  bac: number;                     // Budget at completion: planned hours of all the work
+  pv: number;                      // Planned value: hours of work scheduled by asOf
+  ev: number;                      // Earned value: planned hours of the work done
+  ac: number;                      // Actual cost: hours logged
+  sv: number;                      // Schedule variance (EV - PV)
+  cv: number;                      // Cost variance (EV - AC)
+  spi: number | null;              // Schedule performance index (EV / PV)
+  cpi: number | null;              // Cost performance index (EV / AC)
+  eac: number;                     // Estimate at completion (BAC / CPI)
+  etc: number;                     // Estimate to complete (EAC - AC)
+  vac: number;                     // Variance at completion (BAC - EAC)
+  percentComplete: number;         // EV / BAC (0-100)
+  percentPlanned: number;          // PV / BAC (0-100)
+  unbaselinedTasks: number;        // Tasks added since the baseline, left out of the metrics
+}
+
+/**
+ * Critical path (CPM) timing of a single task, in hours from project start
+ */
+export interface TaskSchedule {
+  duration: number;                // Estimated hours
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  totalFloat: number;              // Hours the task can slip without delaying the project
+  isCritical: boolean;             // Zero float - any delay delays the project
+}
+
+/**
+ * Result of a critical path analysis
+ */
+export interface CriticalPathResult {
+  schedules: { [taskId: string]: TaskSchedule }; // Tasks outside dependency cycles
+  criticalTaskIds: string[];       // Critical tasks in dependency order
+  projectDuration: number;         // Hours from start to the last finish
+  cycles: string[][];              // Dependency cycles (task IDs), which can't be scheduled
+  unscheduledTaskIds: string[];    // Tasks in or depending on a cycle
+}
+
+/**
+ * Actual/estimate history for one calibration level
+ */
+export interface CalibrationStat {
+  samples: number;                 // Completed tasks seen
+  sumLogRatio: number;             // Sum of ln(actual / estimate)
+}
+
+/**
+ * Actual/estimate ratios learned from completed tasks
+ */
+export interface CalibrationModel {
+  byTypeCategory: { [key: string]: CalibrationStat }; // "projectType:category"
+  byCategory: { [category: string]: CalibrationStat };
+  byProjectType: { [projectType: string]: CalibrationStat };
+  totalSamples: number;
+}
+
+/**
+ * Multiplier to apply to a new estimate, and where it came from
+ */
+export interface CalibrationFactor {
+  factor: number;                  // 1 when there isn't enough history
+  samples: number;
+  label: string;                   // e.g. "12 completed Development tasks"
+}
+
+/**
+ * Dated working window the resource scheduler assigns to a task
+ */
+export interface TaskWindow {
+  taskId: string;
+  start: string;                   // First working day (YYYY-MM-DD)
+  end: string;                     // Last working day (YYYY-MM-DD)
+  hours: number;                   // Remaining hours scheduled
+  assignedTo?: string;             // Collaborator whose capacity was used
+}
+
+/**
+ * Result of resource-aware scheduling
+ */
+export interface ResourceSchedule {
+  windows: { [taskId: string]: TaskWindow }; // Incomplete tasks that could be scheduled
+  finishDate: string | null;       // Last day of remaining work, null when nothing is left
+  unscheduledTaskIds: string[];    // Tasks in a dependency cycle or without any capacity
+}
+
 /**
  * AI-generated progress report
  */
@@ -227,6 +455,128 @@ export interface AIReport {
   };
 }
 
+/**
+ * Project figures captured when an AI report was generated
+ */
+export interface ReportMetrics {
+  totalTasks: number;
+  completedTasks: number;
+  inProgressTasks: number;
+  blockedTasks: number;
+  percentComplete: number;
+  totalEstHours: number;
+  totalActualHours: number;
+  hoursVariance: number;           // Actual minus estimated
+  openRisks: number;
+  riskExposure: number;            // Sum of likelihood x impact over open risks
+}
+
+/**
+ * AI report stored in a project's report history
+ */
+export interface SavedAIReport {
+  id: string;
+  projectId: string;
+  report: AIReport;
+  rawMetrics: ReportMetrics;
+  createdAt: string;
+  createdByName?: string;
+}
+
+/**
+ * Whether a piece of a report appears in the older report, the newer one, or both
+ */
+export type ReportChange = 'added' | 'removed' | 'unchanged';
+
+/**
+ * A word or list item in a report comparison
+ */
+export interface ReportDiffPart {
+  text: string;
+  change: ReportChange;
+}
+
+/**
+ * How one free-text section (assessment or forecast) changed between two reports
+ */
+export interface ReportTextDiff {
+  label: string;
+  before: ReportDiffPart[];        // Older text; removed words marked
+  after: ReportDiffPart[];         // Newer text; added words marked
+  changed: boolean;
+}
+
+/**
+ * How one list (recommendations, risk areas) changed between two reports
+ */
+export interface ReportListDiff {
+  label: string;
+  items: ReportDiffPart[];         // Newer items first, then items dropped since the older report
+}
+
+/**
+ * How one metric changed between two reports
+ */
+export interface ReportMetricDiff {
+  key: keyof ReportMetrics;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/**
+ * Comparison of two AI reports, older first
+ */
+export interface ReportDiff {
+  texts: ReportTextDiff[];
+  lists: ReportListDiff[];
+  metrics: ReportMetricDiff[];
+}
+
+/**
+ * Which tasks a command applies to (all conditions must match)
+ */
+export interface TaskQuery {
+  statuses?: TaskStatus[];
+  phaseIds?: string[];
+  assigneeIds?: string[];          // Collaborator IDs
+  unassigned?: boolean;            // Only tasks with no one assigned
+  categories?: string[];
+  criticalPath?: boolean;
+  text?: string;                   // Task name or notes contain this (case-insensitive)
+}
+
+/**
+ * Change a bulk edit command makes to every matching task
+ */
+export interface TaskMutation {
+  status?: TaskStatus;
+  assignedTo?: string | null;      // Collaborator ID; null unassigns
+  phase?: string;                  // Phase ID to move the tasks to
+  category?: string;
+}
+
+/**
+ * A command bar entry parsed into a filter or a bulk edit
+ */
+export interface TaskCommand {
+  kind: 'filter' | 'bulk_edit';
+  query: TaskQuery;
+  mutation?: TaskMutation;         // Set for bulk edits
+  description: string;             // How the command was understood, shown to the user
+  source: 'ai' | 'local';          // Parsed by the AI or by the built-in grammar
+}
+
+/**
+ * One task's before/after values in a bulk edit preview
+ */
+export interface TaskMutationPreview {
+  taskId: string;
+  taskName: string;
+  changes: { field: string; before: string; after: string }[];
+}
+
 /**
  * Project template
  */
@@ -265,6 +615,102 @@ export interface SavedProject {
   tasks: Task[];
   taskStates: { [taskId: string]: TaskState };
   phases: Phase[];
+  risks?: Risk[];
+}
+
+/**
+ * Where a merge conflict was found
+ */
+export type MergeConflictScope = 'meta' | 'task' | 'taskState';
+
+/**
+ * A field changed differently on this device and on the server since the last sync
+ */
+export interface MergeConflict {
+  id: string;                  // Unique key, e.g. "task:task-123:adjustedEstHours"
+  scope: MergeConflictScope;
+  taskId?: string;             // Set for task and taskState conflicts
+  field: string;               // Field name, or '*' when one side deleted the task
+  label: string;               // Human-readable description for the resolution dialog
+  localValue: any;             // Value on this device (undefined = deleted)
+  remoteValue: any;            // Value on the server (undefined = deleted)
+}
+
+/**
+ * Which side to keep for each conflict, keyed by MergeConflict.id
+ */
+export type ConflictResolution = { [conflictId: string]: 'local' | 'remote' };
+
+/**
+ * Result of a three-way merge between the last synced, local and server projects
+ */
+export interface ProjectMergeResult {
+  merged: SavedProject;        // Non-conflicting changes merged; conflicts keep the local value
+  conflicts: MergeConflict[];
+}
+
+/**
+ * A task written by an incremental sync, with its state and position
+ */
+export interface ProjectTaskUpsert {
+  task: Task;                  // Includes all of the task's subtasks
+  state?: TaskState;           // Includes all of the task's time logs
+  order: number;
+}
+
+/**
+ * Changes to one project since the last server-acknowledged copy
+ */
+export interface ProjectPatch {
+  projectId: string;
+  baseRevision?: number;
+  meta?: ProjectMeta;          // Set (with phases and risks) when any of them changed
+  phases?: Phase[];
+  risks?: Risk[];
+  upsertTasks: ProjectTaskUpsert[];
+  deleteTaskIds: string[];
+  taskOrder?: string[];        // Set when tasks were added, removed or reordered
+}
+
+/**
+ * Changes to one project pulled from the server change feed
+ */
+export interface ProjectChangeSet {
+  project: SavedProject;       // Current meta, phases and risks, but only the changed tasks
+  deletedTaskIds: string[];
+  taskOrder: string[];         // Every task ID in the project, in order
+}
+
+/**
+ * Everything that changed in the user's projects since a sync cursor
+ */
+export interface ProjectChangeFeed {
+  cursor: string;
+  changes: ProjectChangeSet[];
+  deletedProjectIds: string[];
+  projectIds: string[];        // Every project the user can currently access
+}
+
+/**
+ * Someone with a project open, as reported by the realtime event stream
+ */
+export interface ProjectViewer {
+  id: string;                  // User ID
+  name: string;
+  initials?: string;
+  color?: string;
+  connections: number;         // Open tabs/devices
+}
+
+/**
+ * A project was changed on the server by another client
+ */
+export interface ProjectChangeEvent {
+  projectId: string;
+  revision?: number;           // New revision (missing for task-level REST edits)
+  userId: string;              // Who made the change
+  deleted?: boolean;
+  changedAt: string;
 }
 
 /**
@@ -320,4 +766,21 @@ export interface IterationResponse {
   changes: ProjectChange[];
   explanation: string;
   previewData: IterationPreviewData;
+  warnings?: string[];       // Suggested changes dropped because they failed validation
+}
+
+/**
+ * What an applied AI iteration did, so it can be reverted as one unit
+ */
+export interface IterationUndoEntry {
+  id: string;
+  appliedAt: string;
+  summary: string;
+  changeCount: number;
+  addedTaskIds: string[];
+  addedSubtaskIds: { [taskId: string]: string[] };
+  addedDependencies: { [taskId: string]: string[] };
+  previousTaskFields: { [taskId: string]: Partial<Task> };  // Values before the iteration changed them
+  previousEstHours: { [taskId: string]: number | undefined }; // TaskState.estHours before update_estimate
+  addedPhaseIds: string[];                                  // Phase colors the iteration registered
 }
@@ -0,0 +1,107 @@
+/**
+ * Earned Value tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateEarnedValue } from './calculations';
+import type { ProjectBaseline, Task } from '../types';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+function makeTask(id: string, hours: number): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase: 'p1',
+    phaseTitle: 'Phase 1',
+    category: 'general',
+    adjustedEstHours: hours,
+  };
+}
+
+function makeEntry(taskId: string, hours: number): TimeLogEntry {
+  return {
+    id: `entry_${taskId}_${hours}`,
+    projectId: 'project_1',
+    projectName: 'Launch',
+    taskId,
+    taskName: `Task ${taskId}`,
+    userId: 'user_1',
+    userName: 'Sam',
+    date: '2026-03-02',
+    hours,
+    createdAt: '2026-03-02T17:00:00Z',
+  };
+}
+
+// Two 8h tasks of two days each, back to back from Monday 2 March
+const baseline: ProjectBaseline = {
+  setAt: '2026-02-27T12:00:00Z',
+  startDate: '2026-03-02',
+  tasks: {
+    a: { hours: 8, startDay: 0, endDay: 2 },
+    b: { hours: 8, startDay: 2, endDay: 4 },
+  },
+};
+const tasks = [makeTask('a', 8), makeTask('b', 8)];
+
+describe('calculateEarnedValue', () => {
+  it('compares the work done and the hours logged with the plan', () => {
+    const ev = calculateEarnedValue(tasks, { a: { status: 'complete' } }, {
+      baseline,
+      asOf: new Date(2026, 2, 3),
+      entries: [makeEntry('a', 10)],
+    });
+
+    expect(ev).toMatchObject({
+      asOf: '2026-03-03',
+      fromBaseline: true,
+      bac: 16,
+      pv: 8,
+      ev: 8,
+      ac: 10,
+      sv: 0,
+      cv: -2,
+      spi: 1,
+      cpi: 0.8,
+      eac: 20,
+      etc: 10,
+      vac: -4,
+      percentComplete: 50,
+      percentPlanned: 50,
+    });
+  });
+
+  it('has no SPI before any work is planned', () => {
+    const ev = calculateEarnedValue(tasks, {}, {
+      baseline,
+      asOf: new Date(2026, 2, 1),
+      entries: [makeEntry('a', 2)],
+    });
+
+    expect(ev).toMatchObject({ pv: 0, ev: 2, ac: 2, spi: null, cpi: 1, eac: 16 });
+  });
+
+  it('has no CPI before any hours are logged, and assumes the rest goes to plan', () => {
+    const ev = calculateEarnedValue(tasks, {}, { baseline, asOf: new Date(2026, 2, 2) });
+
+    expect(ev).toMatchObject({ pv: 4, ev: 0, ac: 0, spi: 0, cpi: null, eac: 16, etc: 16, vac: 0 });
+  });
+
+  it('leaves out tasks added after the baseline was set', () => {
+    const ev = calculateEarnedValue([...tasks, makeTask('c', 20)], {}, {
+      baseline,
+      asOf: new Date(2026, 2, 2),
+      entries: [makeEntry('c', 5)],
+    });
+
+    expect(ev).toMatchObject({ bac: 16, ac: 0, unbaselinedTasks: 1 });
+  });
+
+  it('measures against the current plan when there is no baseline', () => {
+    const ev = calculateEarnedValue(tasks, {}, { projectStartDate: '2026-03-02', asOf: new Date(2026, 2, 2) });
+
+    expect(ev.fromBaseline).toBe(false);
+    expect(ev.bac).toBe(16);
+  });
+});
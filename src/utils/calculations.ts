@@ -2,14 +2,31 @@
 // Universal Project Manager - Calculation Utilities
 // ============================================
 
-import type { Task, TaskState, Stats } from '../types';
+import type {
+  Task,
+  TaskState,
+  Stats,
+  WorkingCalendar,
+  Collaborator,
+  ProjectBaseline,
+  BaselineTask,
+  EarnedValueMetrics,
+} from '../types';
+import { DEFAULT_WORKING_CALENDAR } from '../config/constants';
+import { computeCriticalPath, getTaskDuration } from './criticalPath';
+import { scheduleResources } from './resourceScheduler';
+import { parseDay, formatDay, daysBetween, scheduleTasks, getTimelineStart } from './ganttSchedule';
+import { getLoggedHours } from './loggedHours';
+import type { TimeLogEntry } from '../services/timeLogService';
 
 /**
  * Calculate comprehensive project statistics
+ * Actual hours are the hours logged on each task (see getTaskActualHours).
  */
 export function calculateProgress(
   tasks: Task[],
-  taskStates: { [key: string]: TaskState }
+  taskStates: { [key: string]: TaskState },
+  entries: TimeLogEntry[] = []
 ): Stats {
   const total = tasks.length;
   const completed = tasks.filter(t => taskStates[t.id]?.status === 'complete').length;
@@ -22,17 +39,15 @@ export function calculateProgress(
 
   tasks.forEach(task => {
     const state = taskStates[task.id];
-    if (state) {
-      const estHours = state.estHours || 0;
-      const actualHours = parseFloat(state.actualHours || '0');
+    const estHours = state?.estHours || 0;
+    const actualHours = getTaskActualHours(task, state, entries);
 
-      totalEst += estHours;
-      totalActual += actualHours;
+    totalEst += estHours;
+    totalActual += actualHours;
 
-      // Count tasks that went over estimate
-      if (actualHours > estHours) {
-        overruns++;
-      }
+    // Count tasks that went over estimate
+    if (actualHours > estHours) {
+      overruns++;
     }
   });
 
@@ -78,10 +93,11 @@ export function calculateTimeVariancePercent(totalActual: number, totalEst: numb
 export function getPhaseStats(
   tasks: Task[],
   taskStates: { [key: string]: TaskState },
-  phaseId: string
+  phaseId: string,
+  entries: TimeLogEntry[] = []
 ) {
   const phaseTasks = tasks.filter(t => t.phase === phaseId);
-  return calculateProgress(phaseTasks, taskStates);
+  return calculateProgress(phaseTasks, taskStates, entries);
 }
 
 /**
@@ -90,33 +106,26 @@ export function getPhaseStats(
 export function getCategoryStats(
   tasks: Task[],
   taskStates: { [key: string]: TaskState },
-  category: string
+  category: string,
+  entries: TimeLogEntry[] = []
 ) {
   const categoryTasks = tasks.filter(t => t.category === category);
-  return calculateProgress(categoryTasks, taskStates);
+  return calculateProgress(categoryTasks, taskStates, entries);
 }
 
 /**
- * Calculate estimated completion date based on current progress
+ * Estimate the completion date by scheduling the remaining work against the
+ * working calendar and each assignee's capacity
  */
 export function estimateCompletionDate(
   tasks: Task[],
   taskStates: { [key: string]: TaskState },
-  hoursPerDay: number = 8
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR,
+  collaborators: Collaborator[] = [],
+  entries: TimeLogEntry[] = []
 ): Date | null {
-  const stats = calculateProgress(tasks, taskStates);
-
-  if (stats.overall.completed === 0) {
-    return null; // Not enough data
-  }
-
-  const remainingHours = stats.totalEst - stats.totalActual;
-  const daysRemaining = Math.ceil(remainingHours / hoursPerDay);
-
-  const completionDate = new Date();
-  completionDate.setDate(completionDate.getDate() + daysRemaining);
-
-  return completionDate;
+  const schedule = scheduleResources(tasks, taskStates, calendar, collaborators, new Date(), entries);
+  return schedule.finishDate ? parseDay(schedule.finishDate) : null;
 }
 
 /**
@@ -124,24 +133,29 @@ export function estimateCompletionDate(
  */
 export function getAtRiskTasks(
   tasks: Task[],
-  taskStates: { [key: string]: TaskState }
+  taskStates: { [key: string]: TaskState },
+  entries: TimeLogEntry[] = []
 ): Task[] {
   return tasks.filter(task => {
     const state = taskStates[task.id];
     if (!state) return false;
 
     const estHours = state.estHours || 0;
-    const actualHours = parseFloat(state.actualHours || '0');
+    const actualHours = getTaskActualHours(task, state, entries);
 
     return actualHours > estHours;
   });
 }
 
 /**
- * Get critical path tasks
+ * Get critical path tasks (computed from dependencies and estimates), in dependency order
  */
-export function getCriticalPathTasks(tasks: Task[]): Task[] {
-  return tasks.filter(t => t.criticalPath === true);
+export function getCriticalPathTasks(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState } = {}
+): Task[] {
+  const { criticalTaskIds } = computeCriticalPath(tasks, taskStates);
+  return criticalTaskIds.map(taskId => tasks.find(t => t.id === taskId)!);
 }
 
 /**
@@ -154,3 +168,140 @@ export function calculateBurnRate(
   if (daysSinceStart === 0) return 0;
   return totalActual / daysSinceStart;
 }
+
+/**
+ * Hours logged on a task and its subtasks: its time log entries, plus any
+ * time recorded on the task before entries existed (see collectLoggedTime)
+ */
+export function getTaskActualHours(task: Task, state?: TaskState, entries: TimeLogEntry[] = []): number {
+  return getLoggedHours(task, state, entries);
+}
+
+/**
+ * How much of a task is done (0-1)
+ * A complete task counts in full. Otherwise progress comes from its completed
+ * subtasks (weighted by their estimates when they have any), or from the hours
+ * logged against its estimate, capped at 90% until the task is marked complete.
+ */
+export function getTaskPercentComplete(task: Task, state?: TaskState, entries: TimeLogEntry[] = []): number {
+  if (state?.status === 'complete') return 1;
+
+  const subtasks = task.subtasks || [];
+  if (subtasks.length > 0) {
+    const byHours = subtasks.some(st => st.estHours);
+    const weight = (hours?: number) => (byHours ? hours || 0 : 1);
+    const total = subtasks.reduce((sum, st) => sum + weight(st.estHours), 0);
+    const done = subtasks
+      .filter(st => st.status === 'completed')
+      .reduce((sum, st) => sum + weight(st.estHours), 0);
+    return total > 0 ? done / total : 0;
+  }
+
+  const estimate = getTaskDuration(task, state);
+  if (estimate <= 0) return 0;
+  return Math.min(getTaskActualHours(task, state, entries) / estimate, 0.9);
+}
+
+/**
+ * Capture the current plan as a baseline: each task's estimate and its place
+ * on the Gantt schedule
+ */
+export function createBaseline(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  projectStartDate?: string,
+  hoursPerDay: number = DEFAULT_WORKING_CALENDAR.hoursPerDay
+): ProjectBaseline {
+  const start = getTimelineStart(tasks, projectStartDate);
+  const bars = scheduleTasks(tasks, taskStates, start, hoursPerDay);
+
+  const baselineTasks: { [taskId: string]: BaselineTask } = {};
+  tasks.forEach(task => {
+    baselineTasks[task.id] = {
+      hours: getTaskDuration(task, taskStates[task.id]),
+      startDay: bars[task.id]?.startDay ?? 0,
+      endDay: bars[task.id]?.endDay ?? 0,
+    };
+  });
+
+  return {
+    setAt: new Date().toISOString(),
+    startDate: formatDay(start),
+    tasks: baselineTasks,
+  };
+}
+
+/**
+ * Calculate earned value metrics (in hours) as of a day
+ * Planned value spreads each task's baseline hours evenly over its baseline
+ * dates; earned value is the baseline hours of the work done so far (see
+ * getTaskPercentComplete) and actual cost the hours logged. Without a
+ * baseline the current plan stands in for one. Tasks added after the
+ * baseline was set are left out.
+ */
+export function calculateEarnedValue(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  options: {
+    baseline?: ProjectBaseline | null;
+    projectStartDate?: string;
+    hoursPerDay?: number;
+    asOf?: Date;
+    entries?: TimeLogEntry[];        // The project's time log entries
+  } = {}
+): EarnedValueMetrics {
+  const baseline = options.baseline
+    || createBaseline(tasks, taskStates, options.projectStartDate, options.hoursPerDay);
+  const asOf = formatDay(options.asOf || new Date());
+  // Work scheduled up to the end of the as-of day counts as planned
+  const elapsedDays = daysBetween(parseDay(baseline.startDate), parseDay(asOf)) + 1;
+
+  let bac = 0;
+  let pv = 0;
+  let ev = 0;
+  let ac = 0;
+  let unbaselinedTasks = 0;
+
+  tasks.forEach(task => {
+    const planned = baseline.tasks[task.id];
+    if (!planned) {
+      unbaselinedTasks++;
+      return;
+    }
+
+    const state = taskStates[task.id];
+    const duration = planned.endDay - planned.startDay;
+    const scheduled = duration > 0
+      ? Math.min(Math.max((elapsedDays - planned.startDay) / duration, 0), 1)
+      : (elapsedDays >= planned.endDay ? 1 : 0);
+
+    bac += planned.hours;
+    pv += planned.hours * scheduled;
+    ev += planned.hours * getTaskPercentComplete(task, state, options.entries);
+    ac += getTaskActualHours(task, state, options.entries);
+  });
+
+  const spi = pv > 0 ? ev / pv : null;
+  const cpi = ac > 0 ? ev / ac : null;
+  // Until some work has been earned, assume the remaining work goes to plan
+  const eac = cpi ? bac / cpi : ac + (bac - ev);
+
+  return {
+    asOf,
+    fromBaseline: !!options.baseline,
+    bac,
+    pv,
+    ev,
+    ac,
+    sv: ev - pv,
+    cv: ev - ac,
+    spi,
+    cpi,
+    eac,
+    etc: Math.max(eac - ac, 0),
+    vac: bac - eac,
+    percentComplete: bac > 0 ? (ev / bac) * 100 : 0,
+    percentPlanned: bac > 0 ? (pv / bac) * 100 : 0,
+    unbaselinedTasks,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Cost Tracking tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildCostReport, getHourlyRate } from './costTracking';
+import type { ProjectMeta, Task } from '../types';
+import type { User } from '../services/userService';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+function makeTask(id: string, phase: string): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase,
+    phaseTitle: `Phase ${phase}`,
+    category: 'general',
+    adjustedEstHours: 8,
+  };
+}
+
+function makeUser(id: string, hourlyRate?: number): User {
+  return { id, name: id, initials: id.slice(0, 2).toUpperCase(), color: '#00A3FF', hourlyRate, createdAt: '2026-01-01T00:00:00Z', active: true };
+}
+
+function makeEntry(taskId: string, userId: string, date: string, hours: number, billable?: boolean): TimeLogEntry {
+  return {
+    id: `entry_${taskId}_${userId}_${date}_${hours}`,
+    projectId: 'project_1',
+    projectName: 'Launch',
+    taskId,
+    taskName: `Task ${taskId}`,
+    userId,
+    userName: userId,
+    date,
+    hours,
+    billable,
+    createdAt: `${date}T17:00:00Z`,
+  };
+}
+
+const meta: ProjectMeta = {
+  id: 'project_1',
+  name: 'Launch',
+  projectType: 'custom',
+  experienceLevel: 'intermediate',
+  status: 'active',
+  budget: 1000,
+  // Sam's rate on this project overrides their own
+  collaborators: [{ id: 'sam', name: 'Sam', hourlyRate: 100 }],
+};
+const users = [makeUser('sam', 50), makeUser('ana', 80), makeUser('kim')];
+
+describe('getHourlyRate', () => {
+  it('prefers the project rate over the person\'s own', () => {
+    expect(getHourlyRate('sam', meta.collaborators, users)).toBe(100);
+    expect(getHourlyRate('ana', meta.collaborators, users)).toBe(80);
+    expect(getHourlyRate('kim', meta.collaborators, users)).toBeUndefined();
+    expect(getHourlyRate(undefined, meta.collaborators, users)).toBeUndefined();
+  });
+});
+
+describe('buildCostReport', () => {
+  const tasks = [makeTask('t1', 'p1'), makeTask('t2', 'p2')];
+  const entries = [
+    makeEntry('t1', 'sam', '2026-03-02', 2),
+    makeEntry('t1', 'sam', '2026-03-02', 1, false),
+    makeEntry('t2', 'ana', '2026-03-03', 3),
+    makeEntry('t2', 'kim', '2026-03-03', 4),
+  ];
+
+  it('splits billable, non-billable and unrated time', () => {
+    const report = buildCostReport(tasks, {}, meta, entries, users);
+
+    expect(report.total).toEqual({
+      billableHours: 9,
+      nonBillableHours: 1,
+      unratedHours: 4,
+      cost: 440,
+      nonBillableCost: 100,
+    });
+    expect(report.byTask.t1).toMatchObject({ billableHours: 2, nonBillableHours: 1, cost: 200, nonBillableCost: 100 });
+    expect(report.byPhase.p2).toMatchObject({ billableHours: 7, unratedHours: 4, cost: 240 });
+  });
+
+  it('tracks the billable cost spent by day against the budget', () => {
+    const report = buildCostReport(tasks, {}, meta, entries, users);
+
+    expect(report.burn).toEqual([
+      { date: '2026-03-02', cost: 200 },
+      { date: '2026-03-03', cost: 440 },
+    ]);
+    expect(report.budgetRemaining).toBe(560);
+    expect(report.budgetUsedPercent).toBe(44);
+  });
+
+  it('counts legacy actual hours as billable time with no one to price it', () => {
+    const report = buildCostReport(tasks, { t1: { actualHours: '5' } }, meta, [], users);
+
+    expect(report.total).toEqual({
+      billableHours: 5,
+      nonBillableHours: 0,
+      unratedHours: 5,
+      cost: 0,
+      nonBillableCost: 0,
+    });
+    expect(report.burn).toEqual([]);
+  });
+
+  it('leaves the budget figures out when the project has no budget', () => {
+    const report = buildCostReport(tasks, {}, { ...meta, budget: undefined }, entries, users);
+
+    expect(report.budget).toBeUndefined();
+    expect(report.budgetRemaining).toBeUndefined();
+    expect(report.budgetUsedPercent).toBeUndefined();
+  });
+});
@@ -0,0 +1,139 @@
+// ============================================
+// Universal Project Manager - Cost Tracking
+// ============================================
+
+import type { Task, TaskState, Collaborator, ProjectMeta } from '../types';
+import type { User } from '../services/userService';
+import type { TimeLogEntry } from '../services/timeLogService';
+import { collectLoggedTime, type LoggedTime } from './loggedHours';
+
+/**
+ * Hours and cost of a task, phase or the whole project
+ * Billable time counts toward `cost` (what is charged against the budget);
+ * non-billable time is priced on its own. Time whose person has no rate
+ * can't be priced and is counted in `unratedHours` instead.
+ */
+export interface CostSummary {
+  billableHours: number;
+  nonBillableHours: number;
+  unratedHours: number;
+  cost: number;
+  nonBillableCost: number;
+}
+
+/**
+ * Billable cost spent by the end of a day
+ */
+export interface BudgetBurnPoint {
+  date: string;                    // YYYY-MM-DD
+  cost: number;                    // Cumulative
+}
+
+export interface ProjectCostReport {
+  total: CostSummary;
+  byTask: { [taskId: string]: CostSummary };
+  byPhase: { [phaseId: string]: CostSummary };
+  burn: BudgetBurnPoint[];
+  budget?: number;
+  budgetRemaining?: number;
+  budgetUsedPercent?: number;
+}
+
+/**
+ * Hourly rate of a person on a project
+ * The project's collaborator rate wins over the person's own default rate.
+ */
+export function getHourlyRate(
+  personId: string | undefined,
+  collaborators: Collaborator[] = [],
+  users: User[] = []
+): number | undefined {
+  if (!personId) return undefined;
+  const projectRate = collaborators.find(c => c.id === personId)?.hourlyRate;
+  if (projectRate !== undefined) return projectRate;
+  return users.find(u => u.id === personId)?.hourlyRate;
+}
+
+/**
+ * An empty cost summary
+ */
+function emptySummary(): CostSummary {
+  return { billableHours: 0, nonBillableHours: 0, unratedHours: 0, cost: 0, nonBillableCost: 0 };
+}
+
+/**
+ * Add one log's hours and cost to a summary
+ */
+function addToSummary(summary: CostSummary, log: LoggedTime, rate: number | undefined): void {
+  if (log.billable) {
+    summary.billableHours += log.hours;
+  } else {
+    summary.nonBillableHours += log.hours;
+  }
+
+  if (rate === undefined) {
+    summary.unratedHours += log.hours;
+  } else if (log.billable) {
+    summary.cost += log.hours * rate;
+  } else {
+    summary.nonBillableCost += log.hours * rate;
+  }
+}
+
+/**
+ * Roll up the cost of a project per task, per phase and in total, and
+ * compare it with the project budget
+ */
+export function buildCostReport(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  projectMeta: ProjectMeta,
+  entries: TimeLogEntry[] = [],
+  users: User[] = []
+): ProjectCostReport {
+  const phaseOf = new Map(tasks.map(t => [t.id, t.phase]));
+  const total = emptySummary();
+  const byTask: { [taskId: string]: CostSummary } = {};
+  const byPhase: { [phaseId: string]: CostSummary } = {};
+  const costByDate = new Map<string, number>();
+
+  collectLoggedTime(tasks, taskStates, entries).forEach(log => {
+    const rate = getHourlyRate(log.personId, projectMeta.collaborators, users);
+    const phase = phaseOf.get(log.taskId) || '';
+
+    addToSummary(total, log, rate);
+    addToSummary(byTask[log.taskId] = byTask[log.taskId] || emptySummary(), log, rate);
+    addToSummary(byPhase[phase] = byPhase[phase] || emptySummary(), log, rate);
+
+    if (log.billable && rate !== undefined && log.date) {
+      costByDate.set(log.date, (costByDate.get(log.date) || 0) + log.hours * rate);
+    }
+  });
+
+  let spent = 0;
+  const burn = [...costByDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, cost]) => {
+      spent += cost;
+      return { date, cost: spent };
+    });
+
+  const budget = projectMeta.budget || undefined;
+  return {
+    total,
+    byTask,
+    byPhase,
+    burn,
+    budget,
+    budgetRemaining: budget !== undefined ? budget - total.cost : undefined,
+    budgetUsedPercent: budget !== undefined ? (total.cost / budget) * 100 : undefined,
+  };
+}
+
+/**
+ * Format an amount of money, e.g. "$1,234.50"
+ */
+export function formatCost(value: number): string {
+  const amount = Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${value < 0 ? '-' : ''}$${amount}`;
+}
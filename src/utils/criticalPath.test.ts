@@ -0,0 +1,107 @@
+/**
+ * Critical Path tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeCriticalPath, getTaskDuration } from './criticalPath';
+import type { Task } from '../types';
+
+function makeTask(id: string, hours: number, dependencies: string[] = []): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase: 'p1',
+    phaseTitle: 'Phase 1',
+    category: 'general',
+    adjustedEstHours: hours,
+    dependencies,
+  };
+}
+
+describe('computeCriticalPath', () => {
+  it('finds the longest chain and the float of the tasks off it', () => {
+    const result = computeCriticalPath([
+      makeTask('a', 4),
+      makeTask('b', 2, ['a']),
+      makeTask('c', 1),
+    ]);
+
+    expect(result.projectDuration).toBe(6);
+    expect(result.criticalTaskIds).toEqual(['a', 'b']);
+    expect(result.schedules.b).toMatchObject({ earliestStart: 4, earliestFinish: 6, totalFloat: 0, isCritical: true });
+    expect(result.schedules.c).toMatchObject({ earliestStart: 0, latestStart: 5, totalFloat: 5, isCritical: false });
+    expect(result.cycles).toEqual([]);
+    expect(result.unscheduledTaskIds).toEqual([]);
+  });
+
+  it('uses the task state\'s estimate over the task\'s own', () => {
+    const result = computeCriticalPath([makeTask('a', 4)], { a: { estHours: 10 } });
+
+    expect(result.projectDuration).toBe(10);
+  });
+
+  it('ignores dependencies on tasks that don\'t exist, and repeated ones', () => {
+    const result = computeCriticalPath([
+      makeTask('a', 3),
+      makeTask('b', 2, ['a', 'a', 'deleted-task']),
+    ]);
+
+    expect(result.schedules.b).toMatchObject({ earliestStart: 3, earliestFinish: 5 });
+    expect(result.criticalTaskIds).toEqual(['a', 'b']);
+    expect(result.unscheduledTaskIds).toEqual([]);
+  });
+
+  it('reports a cycle and leaves the tasks in and behind it unscheduled', () => {
+    const result = computeCriticalPath([
+      makeTask('a', 2, ['b']),
+      makeTask('b', 2, ['a']),
+      makeTask('c', 1, ['a']),
+      makeTask('d', 5),
+    ]);
+
+    expect(result.cycles).toHaveLength(1);
+    expect([...result.cycles[0]].sort()).toEqual(['a', 'b']);
+    expect(result.unscheduledTaskIds).toEqual(['a', 'b', 'c']);
+    expect(Object.keys(result.schedules)).toEqual(['d']);
+    expect(result.criticalTaskIds).toEqual(['d']);
+    expect(result.projectDuration).toBe(5);
+  });
+
+  it('reports a task that depends on itself as a cycle of one', () => {
+    const result = computeCriticalPath([makeTask('a', 2, ['a'])]);
+
+    expect(result.cycles).toEqual([['a']]);
+    expect(result.unscheduledTaskIds).toEqual(['a']);
+    expect(result.projectDuration).toBe(0);
+  });
+
+  it('lists each of several separate cycles once', () => {
+    const result = computeCriticalPath([
+      makeTask('a', 1, ['b']),
+      makeTask('b', 1, ['a']),
+      makeTask('c', 1, ['d']),
+      makeTask('d', 1, ['c']),
+    ]);
+
+    expect(result.cycles.map(cycle => [...cycle].sort())).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('getTaskDuration', () => {
+  it('sums subtask estimates in auto mode and falls back to the task estimate otherwise', () => {
+    const task: Task = {
+      ...makeTask('a', 4),
+      subtaskHourMode: 'auto',
+      subtasks: [
+        { id: 's1', name: 'One', estHours: 1.5, status: 'pending', order: 0 },
+        { id: 's2', name: 'Two', status: 'pending', order: 1 },
+        { id: 's3', name: 'Three', estHours: 2, status: 'completed', order: 2 },
+      ],
+    };
+
+    expect(getTaskDuration(task)).toBe(3.5);
+    expect(getTaskDuration({ ...task, subtaskHourMode: 'manual' })).toBe(4);
+    expect(getTaskDuration({ ...task, subtaskHourMode: 'manual' }, { estHours: 6 })).toBe(6);
+  });
+});
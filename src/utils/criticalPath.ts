@@ -0,0 +1,157 @@
+// ============================================
+// Universal Project Manager - Critical Path Method
+// ============================================
+
+import type { Task, TaskState, TaskSchedule, CriticalPathResult } from '../types';
+
+// Floating point slack when comparing float to zero
+const FLOAT_EPSILON = 1e-6;
+
+/**
+ * Estimated duration of a task in hours (same figure the task list shows)
+ */
+export function getTaskDuration(task: Task, taskState?: TaskState): number {
+  if (task.subtaskHourMode === 'auto' && task.subtasks && task.subtasks.length > 0) {
+    return task.subtasks.reduce((sum, st) => sum + (st.estHours || 0), 0);
+  }
+  return taskState?.estHours || task.adjustedEstHours || 0;
+}
+
+/**
+ * Find the dependency cycles among a set of tasks
+ * Each cycle is listed once, starting from the task first reached.
+ */
+function findCycles(taskIds: string[], predecessors: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (taskId: string) => {
+    state.set(taskId, 'visiting');
+    stack.push(taskId);
+
+    for (const predecessorId of predecessors.get(taskId) || []) {
+      const predecessorState = state.get(predecessorId);
+      if (predecessorState === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(predecessorId)).reverse());
+      } else if (!predecessorState) {
+        visit(predecessorId);
+      }
+    }
+
+    stack.pop();
+    state.set(taskId, 'done');
+  };
+
+  taskIds.forEach(taskId => {
+    if (!state.has(taskId)) visit(taskId);
+  });
+
+  return cycles;
+}
+
+/**
+ * Run the critical path method over the task dependency graph
+ * Forward pass gives earliest start/finish, backward pass latest start/finish;
+ * tasks with zero total float form the critical path. Dependencies on unknown
+ * tasks are ignored. Tasks in (or downstream of) a dependency cycle can't be
+ * scheduled and are reported instead.
+ */
+export function computeCriticalPath(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState } = {}
+): CriticalPathResult {
+  const taskIds = new Set(tasks.map(t => t.id));
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  const durations = new Map<string, number>();
+
+  tasks.forEach(task => {
+    const deps = Array.from(new Set(task.dependencies || []))
+      .filter(depId => taskIds.has(depId));
+    predecessors.set(task.id, deps);
+    deps.forEach(depId => {
+      successors.set(depId, [...(successors.get(depId) || []), task.id]);
+    });
+    durations.set(task.id, getTaskDuration(task, taskStates[task.id]));
+  });
+
+  // Topological order (Kahn); whatever is left over sits in or behind a cycle
+  const remaining = new Map<string, number>();
+  tasks.forEach(task => remaining.set(task.id, predecessors.get(task.id)!.length));
+  const order: string[] = [];
+  const queue = tasks.filter(task => remaining.get(task.id) === 0).map(task => task.id);
+
+  while (queue.length > 0) {
+    const taskId = queue.shift()!;
+    order.push(taskId);
+    (successors.get(taskId) || []).forEach(successorId => {
+      const count = remaining.get(successorId)! - 1;
+      remaining.set(successorId, count);
+      if (count === 0) queue.push(successorId);
+    });
+  }
+
+  const scheduled = new Set(order);
+  const unscheduledTaskIds = tasks.map(t => t.id).filter(taskId => !scheduled.has(taskId));
+  const cycles = findCycles(unscheduledTaskIds, predecessors);
+
+  // Forward pass
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  order.forEach(taskId => {
+    const start = Math.max(0, ...predecessors.get(taskId)!.map(depId => earliestFinish.get(depId)!));
+    earliestStart.set(taskId, start);
+    earliestFinish.set(taskId, start + durations.get(taskId)!);
+  });
+
+  const projectDuration = Math.max(0, ...order.map(taskId => earliestFinish.get(taskId)!));
+
+  // Backward pass (successors in a cycle don't constrain their predecessors)
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+  [...order].reverse().forEach(taskId => {
+    const scheduledSuccessors = (successors.get(taskId) || []).filter(id => scheduled.has(id));
+    const finish = Math.min(projectDuration, ...scheduledSuccessors.map(id => latestStart.get(id)!));
+    latestFinish.set(taskId, finish);
+    latestStart.set(taskId, finish - durations.get(taskId)!);
+  });
+
+  const schedules: { [taskId: string]: TaskSchedule } = {};
+  order.forEach(taskId => {
+    const totalFloat = latestStart.get(taskId)! - earliestStart.get(taskId)!;
+    schedules[taskId] = {
+      duration: durations.get(taskId)!,
+      earliestStart: earliestStart.get(taskId)!,
+      earliestFinish: earliestFinish.get(taskId)!,
+      latestStart: latestStart.get(taskId)!,
+      latestFinish: latestFinish.get(taskId)!,
+      totalFloat: Math.abs(totalFloat) < FLOAT_EPSILON ? 0 : totalFloat,
+      isCritical: Math.abs(totalFloat) < FLOAT_EPSILON,
+    };
+  });
+
+  return {
+    schedules,
+    criticalTaskIds: order.filter(taskId => schedules[taskId].isCritical),
+    projectDuration,
+    cycles,
+    unscheduledTaskIds,
+  };
+}
+
+/**
+ * Set each task's criticalPath flag from a critical path analysis
+ * Returns the original array when no flag changed, so it is safe to call on every render.
+ */
+export function applyCriticalPath(tasks: Task[], result: CriticalPathResult): Task[] {
+  const critical = new Set(result.criticalTaskIds);
+  const changed = tasks.some(task => !!task.criticalPath !== critical.has(task.id));
+  if (!changed) return tasks;
+
+  return tasks.map(task => (
+    !!task.criticalPath === critical.has(task.id)
+      ? task
+      : { ...task, criticalPath: critical.has(task.id) }
+  ));
+}
@@ -3,6 +3,16 @@
 // ============================================
 
 import type { Task, TaskState, ProjectMeta, Stats } from '../types';
+import type { TimeLogEntry } from '../services/timeLogService';
+import { getLoggedHours } from './loggedHours';
+
+/**
+ * A task's logged hours for a CSV cell (blank when none were logged)
+ */
+function formatActualHours(task: Task, state: TaskState | undefined, entries: TimeLogEntry[]): string {
+  const hours = getLoggedHours(task, state, entries);
+  return hours > 0 ? String(Math.round(hours * 100) / 100) : '';
+}
 
 /**
  * Export project data to CSV format
@@ -11,7 +21,8 @@ export function exportToCSV(
   tasks: Task[],
   taskStates: { [key: string]: TaskState },
   projectMeta: ProjectMeta,
-  stats: Stats
+  stats: Stats,
+  entries: TimeLogEntry[] = []
 ): void {
   let csv = '';
 
@@ -63,7 +74,7 @@ export function exportToCSV(
     const critical = task.criticalPath ? 'Yes' : 'No';
 
     csv += `"${task.phaseTitle}","${task.task}","${task.category}",`;
-    csv += `"${state.estHours || 0}","${state.actualHours || ''}",`;
+    csv += `"${state.estHours || 0}","${formatActualHours(task, taskStates[task.id], entries)}",`;
     csv += `"${state.status || 'pending'}","${state.notes || ''}",`;
     csv += `"${deps}","${critical}"\n`;
   });
@@ -92,14 +103,15 @@ function downloadCSV(csvContent: string, filename: string): void {
  */
 export function exportTasksToCSV(
   tasks: Task[],
-  taskStates: { [key: string]: TaskState }
+  taskStates: { [key: string]: TaskState },
+  entries: TimeLogEntry[] = []
 ): void {
   let csv = 'Task,Phase,Category,Estimated Hours,Actual Hours,Status,Notes\n';
 
   tasks.forEach(task => {
     const state = taskStates[task.id] || {};
     csv += `"${task.task}","${task.phaseTitle}","${task.category}",`;
-    csv += `"${state.estHours || 0}","${state.actualHours || ''}",`;
+    csv += `"${state.estHours || 0}","${formatActualHours(task, taskStates[task.id], entries)}",`;
     csv += `"${state.status || 'pending'}","${state.notes || ''}"\n`;
   });
 
@@ -0,0 +1,178 @@
+/**
+ * Estimate Calibration tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildCalibrationModel, getCalibrationFactor, calibrateTasks } from './estimateCalibration';
+import type { SavedProject, ProjectType, Task, TaskState } from '../types';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+function makeTask(id: string, category: string, hours: number, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase: 'p1',
+    phaseTitle: 'Phase 1',
+    category,
+    adjustedEstHours: hours,
+    ...overrides,
+  };
+}
+
+function makeProject(id: string, projectType: ProjectType, tasks: Task[], taskStates: { [taskId: string]: TaskState }): SavedProject {
+  return {
+    meta: {
+      id,
+      name: `Project ${id}`,
+      projectType,
+      experienceLevel: 'intermediate',
+      status: 'active',
+    },
+    tasks,
+    taskStates,
+    phases: [],
+    risks: [],
+  };
+}
+
+/** A project whose `count` completed tasks each took `ratio` times their 4h estimate */
+function makeHistory(id: string, projectType: ProjectType, category: string, count: number, ratio: number): SavedProject {
+  const tasks = Array.from({ length: count }, (_, i) => makeTask(`${id}_${i}`, category, 4));
+  const taskStates: { [taskId: string]: TaskState } = {};
+  tasks.forEach(task => {
+    taskStates[task.id] = { status: 'complete', actualHours: String(4 * ratio) };
+  });
+  return makeProject(id, projectType, tasks, taskStates);
+}
+
+describe('getCalibrationFactor', () => {
+  // 3 backend tasks in software projects that took twice as long
+  const model = buildCalibrationModel([makeHistory('p1', 'software_development', 'backend', 3, 2)]);
+
+  it('uses this category in this kind of project when there is enough history', () => {
+    // exp(3 * ln 2 / (3 + 2)) = 2^0.6
+    expect(getCalibrationFactor(model, 'software_development', 'backend')).toEqual({
+      factor: 1.52,
+      samples: 3,
+      label: '3 completed backend tasks in software development projects',
+    });
+  });
+
+  it('falls back to this category in any kind of project', () => {
+    expect(getCalibrationFactor(model, 'marketing_campaign', 'backend')).toMatchObject({
+      factor: 1.52,
+      label: '3 completed backend tasks',
+    });
+  });
+
+  it('falls back to any category in this kind of project', () => {
+    expect(getCalibrationFactor(model, 'software_development', 'design')).toMatchObject({
+      factor: 1.52,
+      label: '3 completed software development projects',
+    });
+  });
+
+  it('skips a level with fewer completed tasks than it needs', () => {
+    const mixed = buildCalibrationModel([
+      makeHistory('p1', 'software_development', 'backend', 3, 2),
+      makeHistory('p2', 'marketing_campaign', 'backend', 2, 0.5),
+    ]);
+
+    // 2 marketing backend tasks aren't enough, so all 5 backend tasks are used:
+    // exp((3 * ln 2 - 2 * ln 2) / (5 + 2)) = 2^(1/7)
+    expect(getCalibrationFactor(mixed, 'marketing_campaign', 'backend')).toEqual({
+      factor: 1.1,
+      samples: 5,
+      label: '5 completed backend tasks',
+    });
+  });
+
+  it('leaves estimates alone without enough history anywhere', () => {
+    expect(getCalibrationFactor(model, 'event_planning', 'design')).toEqual({
+      factor: 1,
+      samples: 0,
+      label: 'Not enough completed tasks yet',
+    });
+  });
+});
+
+describe('buildCalibrationModel', () => {
+  it('learns only from completed tasks with an estimate and logged hours', () => {
+    const project = makeProject(
+      'p1',
+      'software_development',
+      [
+        makeTask('done', 'backend', 4),
+        makeTask('open', 'backend', 4),
+        makeTask('unlogged', 'backend', 4),
+        makeTask('unestimated', 'backend', 0),
+      ],
+      {
+        done: { status: 'complete', actualHours: '8' },
+        open: { status: 'in-progress', actualHours: '8' },
+        unlogged: { status: 'complete' },
+        unestimated: { status: 'complete', actualHours: '8' },
+      }
+    );
+
+    const model = buildCalibrationModel([project]);
+
+    expect(model.totalSamples).toBe(1);
+    expect(model.byCategory.backend).toEqual({ samples: 1, sumLogRatio: Math.log(2) });
+  });
+
+  it('judges a task against its estimate before calibration', () => {
+    const project = makeProject(
+      'p1',
+      'software_development',
+      [makeTask('t1', 'backend', 6, { rawEstHours: 3 })],
+      { t1: { status: 'complete', actualHours: '6' } }
+    );
+
+    expect(buildCalibrationModel([project]).byCategory.backend.sumLogRatio).toBeCloseTo(Math.log(2));
+  });
+
+  it('counts only the time log entries of each project', () => {
+    const entry = (projectId: string, hours: number): TimeLogEntry => ({
+      id: `entry_${projectId}`,
+      projectId,
+      projectName: `Project ${projectId}`,
+      taskId: 't1',
+      taskName: 'Task t1',
+      userId: 'user_1',
+      userName: 'Sam',
+      date: '2026-03-02',
+      hours,
+      createdAt: '2026-03-02T17:00:00Z',
+    });
+    const project = (id: string) =>
+      makeProject(id, 'software_development', [makeTask('t1', 'backend', 4)], { t1: { status: 'complete' } });
+
+    const model = buildCalibrationModel([project('p1'), project('p2')], [entry('p1', 2), entry('p2', 8)]);
+
+    expect(model.totalSamples).toBe(2);
+    expect(model.byCategory.backend.sumLogRatio).toBeCloseTo(Math.log(0.5) + Math.log(2));
+  });
+
+  it('caps how far a single task can pull the model', () => {
+    const model = buildCalibrationModel([makeHistory('p1', 'software_development', 'backend', 1, 50)]);
+
+    expect(model.byCategory.backend.sumLogRatio).toBeCloseTo(Math.log(10));
+  });
+});
+
+describe('calibrateTasks', () => {
+  it('scales estimates and keeps the original in rawEstHours', () => {
+    const model = buildCalibrationModel([makeHistory('p1', 'software_development', 'backend', 3, 2)]);
+
+    const [calibrated, untouched] = calibrateTasks(
+      [makeTask('t1', 'backend', 10), makeTask('t2', 'design', 10)],
+      model,
+      'marketing_campaign'
+    );
+
+    expect(calibrated).toMatchObject({ adjustedEstHours: 15.2, rawEstHours: 10 });
+    expect(untouched).toEqual(makeTask('t2', 'design', 10));
+  });
+});
@@ -0,0 +1,136 @@
+// ============================================
+// Universal Project Manager - Estimate Calibration
+// ============================================
+
+import type {
+  Task,
+  TaskState,
+  SavedProject,
+  ProjectType,
+  CalibrationModel,
+  CalibrationStat,
+  CalibrationFactor,
+} from '../types';
+import type { TimeLogEntry } from '../services/timeLogService';
+import { getLoggedHours } from './loggedHours';
+
+// A level needs this many completed tasks before it's trusted
+const MIN_SAMPLES = 3;
+// Pulls factors toward 1.0 as if this many tasks had come in exactly on estimate
+const PRIOR_WEIGHT = 2;
+// Single tasks way off their estimate shouldn't dominate
+const MIN_RATIO = 0.1;
+const MAX_RATIO = 10;
+
+/**
+ * Hours actually spent on a task: its time log entries, plus time recorded on
+ * it before entries existed
+ */
+export function getActualHours(task: Task, state: TaskState | undefined, entries: TimeLogEntry[] = []): number {
+  return getLoggedHours(task, state, entries);
+}
+
+/**
+ * The estimate a completed task should be judged against: the one made before
+ * calibration, so the model learns from its inputs and not its own output
+ */
+function getUncalibratedEstimate(task: Task, state: TaskState | undefined): number {
+  return task.rawEstHours ?? (state?.estHours || task.adjustedEstHours || 0);
+}
+
+const addSample = (stats: { [key: string]: CalibrationStat }, key: string, logRatio: number) => {
+  const stat = stats[key] || { samples: 0, sumLogRatio: 0 };
+  stats[key] = { samples: stat.samples + 1, sumLogRatio: stat.sumLogRatio + logRatio };
+};
+
+/**
+ * Learn actual/estimate ratios from the completed tasks of every project
+ * Ratios are averaged in log space so a task taking twice as long and one
+ * taking half as long cancel out.
+ * @param entries - Time log entries of those projects
+ */
+export function buildCalibrationModel(projects: SavedProject[], entries: TimeLogEntry[] = []): CalibrationModel {
+  const model: CalibrationModel = {
+    byTypeCategory: {},
+    byCategory: {},
+    byProjectType: {},
+    totalSamples: 0,
+  };
+
+  projects.forEach(project => {
+    const projectType = project.meta.projectType;
+    const projectEntries = entries.filter(entry => entry.projectId === project.meta.id);
+
+    project.tasks.forEach(task => {
+      const state = project.taskStates[task.id];
+      if (state?.status !== 'complete') return;
+
+      const estimate = getUncalibratedEstimate(task, state);
+      const actual = getActualHours(task, state, projectEntries);
+      if (estimate <= 0 || actual <= 0) return;
+
+      const ratio = Math.min(MAX_RATIO, Math.max(MIN_RATIO, actual / estimate));
+      const logRatio = Math.log(ratio);
+
+      addSample(model.byTypeCategory, `${projectType}:${task.category}`, logRatio);
+      addSample(model.byCategory, task.category, logRatio);
+      addSample(model.byProjectType, projectType, logRatio);
+      model.totalSamples++;
+    });
+  });
+
+  return model;
+}
+
+/**
+ * Pick the calibration factor for a new task
+ * Uses the most specific level with enough history: this category in this
+ * kind of project, then this category anywhere, then this kind of project.
+ */
+export function getCalibrationFactor(
+  model: CalibrationModel,
+  projectType: ProjectType,
+  category: string
+): CalibrationFactor {
+  const levels: { stat?: CalibrationStat; label: string }[] = [
+    { stat: model.byTypeCategory[`${projectType}:${category}`], label: `${category} tasks in ${projectType.replace(/_/g, ' ')} projects` },
+    { stat: model.byCategory[category], label: `${category} tasks` },
+    { stat: model.byProjectType[projectType], label: `${projectType.replace(/_/g, ' ')} projects` },
+  ];
+
+  const level = levels.find(l => l.stat && l.stat.samples >= MIN_SAMPLES);
+  if (!level || !level.stat) {
+    return { factor: 1, samples: 0, label: 'Not enough completed tasks yet' };
+  }
+
+  const factor = Math.exp(level.stat.sumLogRatio / (level.stat.samples + PRIOR_WEIGHT));
+  return {
+    factor: Math.round(factor * 100) / 100,
+    samples: level.stat.samples,
+    label: `${level.stat.samples} completed ${level.label}`,
+  };
+}
+
+/**
+ * Scale an estimate by a calibration factor (rounded to 0.1h)
+ */
+export function calibrateEstimate(hours: number, factor: number): number {
+  return Math.round(hours * factor * 10) / 10;
+}
+
+/**
+ * Calibrate new tasks, keeping their original estimate in rawEstHours
+ * Tasks without usable history are returned unchanged.
+ */
+export function calibrateTasks(tasks: Task[], model: CalibrationModel, projectType: ProjectType): Task[] {
+  return tasks.map(task => {
+    const { factor } = getCalibrationFactor(model, projectType, task.category);
+    if (factor === 1 || !task.adjustedEstHours) return task;
+
+    return {
+      ...task,
+      rawEstHours: task.adjustedEstHours,
+      adjustedEstHours: calibrateEstimate(task.adjustedEstHours, factor),
+    };
+  });
+}
@@ -0,0 +1,114 @@
+// ============================================
+// Universal Project Manager - Gantt Scheduling
+// ============================================
+
+import type { Task, TaskState } from '../types';
+import { getTaskDuration } from './criticalPath';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Position of a task on the Gantt timeline, in days from the project start
+ */
+export interface GanttBar {
+  taskId: string;
+  startDay: number;
+  endDay: number;
+  pinned: boolean;                 // Start was set explicitly (Task.startDate)
+}
+
+/**
+ * Parse a YYYY-MM-DD (or ISO) date as local midnight
+ */
+export function parseDay(date: string): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Format a date as YYYY-MM-DD
+ */
+export function formatDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add whole days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Whole days from one date to another
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Pick the date the timeline starts at: the project start date, else the
+ * earliest task start date, else today
+ */
+export function getTimelineStart(tasks: Task[], projectStartDate?: string): Date {
+  if (projectStartDate) return parseDay(projectStartDate);
+
+  const pinned = tasks.filter(t => t.startDate).map(t => parseDay(t.startDate!).getTime());
+  if (pinned.length > 0) return new Date(Math.min(...pinned));
+
+  const today = new Date();
+  return new Date(today.getFullYear(), today.getMonth(), today.getDate());
+}
+
+/**
+ * Lay tasks out on a timeline
+ * A task starts when all of its dependencies have finished, or on its own
+ * start date if that is later. Durations are estimated hours spread over
+ * hoursPerDay. Dependencies forming a cycle are ignored where the cycle closes.
+ */
+export function scheduleTasks(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  timelineStart: Date,
+  hoursPerDay: number = 8
+): { [taskId: string]: GanttBar } {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const bars: { [taskId: string]: GanttBar } = {};
+  const visiting = new Set<string>();
+
+  const place = (task: Task): GanttBar | null => {
+    if (bars[task.id]) return bars[task.id];
+    if (visiting.has(task.id)) return null; // Cycle
+    visiting.add(task.id);
+
+    let startDay = 0;
+    (task.dependencies || []).forEach(depId => {
+      const dep = byId.get(depId);
+      const depBar = dep ? place(dep) : null;
+      if (depBar) startDay = Math.max(startDay, depBar.endDay);
+    });
+
+    const pinned = !!task.startDate;
+    if (pinned) {
+      startDay = Math.max(startDay, daysBetween(timelineStart, parseDay(task.startDate!)));
+    }
+
+    const durationDays = getTaskDuration(task, taskStates[task.id]) / hoursPerDay;
+
+    visiting.delete(task.id);
+    bars[task.id] = {
+      taskId: task.id,
+      startDay,
+      endDay: startDay + durationDays,
+      pinned,
+    };
+    return bars[task.id];
+  };
+
+  tasks.forEach(place);
+  return bars;
+}
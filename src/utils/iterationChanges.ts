@@ -0,0 +1,192 @@
+// ============================================
+// Universal Project Manager - AI Iteration Changes
+// ============================================
+
+import type {
+  Task,
+  TaskState,
+  ProjectChange,
+  IterationUndoEntry,
+} from '../types';
+
+/**
+ * The parts of a project an iteration can change
+ */
+export interface IterationTarget {
+  tasks: Task[];
+  taskStates: { [key: string]: TaskState };
+  phaseColors: { [key: string]: string };
+}
+
+/**
+ * Apply a set of AI-proposed changes
+ * Returns the updated project parts together with everything needed to
+ * revert exactly these changes later as a single unit.
+ */
+export function applyIterationChanges(
+  target: IterationTarget,
+  changes: ProjectChange[],
+  summary: string
+): IterationTarget & { undo: IterationUndoEntry } {
+  const tasks = [...target.tasks];
+  const taskStates = { ...target.taskStates };
+  const phaseColors = { ...target.phaseColors };
+
+  const undo: IterationUndoEntry = {
+    id: `iteration_${Date.now()}`,
+    appliedAt: new Date().toISOString(),
+    summary,
+    changeCount: changes.length,
+    addedTaskIds: [],
+    addedSubtaskIds: {},
+    addedDependencies: {},
+    previousTaskFields: {},
+    previousEstHours: {},
+    addedPhaseIds: [],
+  };
+
+  // Keep the value from before the iteration when a field is touched twice
+  const rememberFields = (task: Task, fields: (keyof Task)[]) => {
+    const previous = undo.previousTaskFields[task.id] || {};
+    fields.forEach(field => {
+      if (!(field in previous)) (previous as any)[field] = task[field];
+    });
+    undo.previousTaskFields[task.id] = previous;
+  };
+
+  changes.forEach((change, index) => {
+    const taskIndex = tasks.findIndex(t => t.id === change.target);
+    const existing = taskIndex !== -1 ? tasks[taskIndex] : undefined;
+
+    switch (change.type) {
+      case 'add_task': {
+        const newTask: Task = {
+          id: `task-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 5)}`,
+          task: change.data.task,
+          phase: change.data.phase,
+          phaseTitle: change.data.phaseTitle,
+          category: change.data.category,
+          baseEstHours: change.data.baseEstHours,
+          adjustedEstHours: change.data.adjustedEstHours || change.data.baseEstHours,
+          rawEstHours: change.data.rawEstHours,
+          notes: change.data.notes,
+          dependencies: change.data.dependencies,
+          aiGenerated: true
+        };
+        tasks.push(newTask);
+        taskStates[newTask.id] = {
+          estHours: newTask.adjustedEstHours,
+          actualHours: '0',
+          status: 'pending',
+          notes: '',
+        };
+        undo.addedTaskIds.push(newTask.id);
+        break;
+      }
+
+      case 'add_subtask': {
+        if (!existing) break;
+        rememberFields(existing, ['subtaskHourMode']);
+        tasks[taskIndex] = {
+          ...existing,
+          subtasks: [...(existing.subtasks || []), ...change.data.subtasks],
+          subtaskHourMode: change.data.hourMode || 'auto'
+        };
+        undo.addedSubtaskIds[existing.id] = [
+          ...(undo.addedSubtaskIds[existing.id] || []),
+          ...change.data.subtasks.map((st: { id: string }) => st.id),
+        ];
+        break;
+      }
+
+      case 'modify_task': {
+        if (!existing) break;
+        rememberFields(existing, Object.keys(change.data) as (keyof Task)[]);
+        tasks[taskIndex] = { ...existing, ...change.data };
+        break;
+      }
+
+      case 'update_estimate': {
+        if (!existing) break;
+        rememberFields(existing, ['baseEstHours', 'adjustedEstHours']);
+        if (!(existing.id in undo.previousEstHours)) {
+          undo.previousEstHours[existing.id] = taskStates[existing.id]?.estHours;
+        }
+        tasks[taskIndex] = {
+          ...existing,
+          baseEstHours: change.data.newEstimate,
+          adjustedEstHours: change.data.newEstimate,
+        };
+        taskStates[existing.id] = { ...taskStates[existing.id], estHours: change.data.newEstimate };
+        break;
+      }
+
+      case 'add_phase': {
+        // Phases are derived from tasks; register the color so tasks added to it pick it up
+        const phaseId = change.data.phaseId;
+        if (change.data.color && !phaseColors[phaseId]) {
+          phaseColors[phaseId] = change.data.color;
+          undo.addedPhaseIds.push(phaseId);
+        }
+        break;
+      }
+
+      case 'add_dependency': {
+        if (!existing) break;
+        const existingDeps = existing.dependencies || [];
+        const added = (change.data.dependencies as string[]).filter(id => !existingDeps.includes(id));
+        tasks[taskIndex] = { ...existing, dependencies: [...existingDeps, ...added] };
+        undo.addedDependencies[existing.id] = [...(undo.addedDependencies[existing.id] || []), ...added];
+        break;
+      }
+    }
+  });
+
+  return { tasks, taskStates, phaseColors, undo };
+}
+
+/**
+ * Revert an applied iteration
+ * Only what the iteration did is undone: tasks it added are removed, subtasks
+ * and dependencies it added are taken off again, and fields it changed get
+ * their previous values back. Other edits made since are kept.
+ */
+export function revertIterationChanges(
+  target: IterationTarget,
+  undo: IterationUndoEntry
+): IterationTarget {
+  const addedTasks = new Set(undo.addedTaskIds);
+
+  const tasks = target.tasks
+    .filter(task => !addedTasks.has(task.id))
+    .map(task => {
+      const previous = undo.previousTaskFields[task.id];
+      const subtaskIds = undo.addedSubtaskIds[task.id];
+      const dependencyIds = undo.addedDependencies[task.id];
+      if (!previous && !subtaskIds && !dependencyIds) return task;
+
+      const reverted: Task = { ...task, ...previous };
+      if (subtaskIds) {
+        reverted.subtasks = (task.subtasks || []).filter(st => !subtaskIds.includes(st.id));
+      }
+      if (dependencyIds) {
+        reverted.dependencies = (task.dependencies || []).filter(id => !dependencyIds.includes(id));
+      }
+      return reverted;
+    });
+
+  const taskStates = { ...target.taskStates };
+  undo.addedTaskIds.forEach(taskId => delete taskStates[taskId]);
+  Object.entries(undo.previousEstHours).forEach(([taskId, estHours]) => {
+    if (taskStates[taskId]) {
+      taskStates[taskId] = { ...taskStates[taskId], estHours };
+    }
+  });
+
+  const phaseColors = { ...target.phaseColors };
+  undo.addedPhaseIds.forEach(phaseId => {
+    if (!tasks.some(t => t.phase === phaseId)) delete phaseColors[phaseId];
+  });
+
+  return { tasks, taskStates, phaseColors };
+}
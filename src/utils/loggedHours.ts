@@ -0,0 +1,144 @@
+// ============================================
+// Universal Project Manager - Logged Hours
+// ============================================
+
+import type { Task, TaskState, TimeLog } from '../types';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+/**
+ * Time worked on a task or one of its subtasks
+ */
+export interface LoggedTime {
+  taskId: string;
+  subtaskId?: string;
+  date?: string;                   // Unset for legacy actual hours
+  hours: number;
+  personId?: string;               // Collaborator / user ID
+  billable: boolean;
+}
+
+/**
+ * Find the entry a task time log was copied from, if any
+ * Timers used to copy their entry into TaskState.timeLogs: with the entry's
+ * ID, or before that with the same date, hours and person.
+ * @param candidates - Entries on the task itself not yet matched to a log
+ */
+function findCopiedEntry(log: TimeLog, entries: TimeLogEntry[], candidates: TimeLogEntry[]): TimeLogEntry | undefined {
+  return entries.find(entry => entry.id === log.id)
+    || candidates.find(entry => entry.date === log.date && entry.hours === log.hours && entry.userId === log.loggedBy);
+}
+
+/**
+ * A task's own time logs from before entries existed
+ * Copies of entries that timers used to leave in TaskState.timeLogs are left
+ * out; each entry on the task itself accounts for at most one copy.
+ */
+export function getLegacyTimeLogs(task: Task, state: TaskState | undefined, entries: TimeLogEntry[] = []): TimeLog[] {
+  const uncopied = entries.filter(entry => entry.taskId === task.id && !entry.subtaskId);
+  return (state?.timeLogs || []).filter(log => {
+    const copied = findCopiedEntry(log, entries, uncopied);
+    if (!copied) return true;
+    const index = uncopied.indexOf(copied);
+    if (index >= 0) uncopied.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Gather the time worked on a project's tasks
+ * Time log entries (timer, timesheet grid, task and subtask time) are the
+ * record of logged time. Work from before entries existed still counts: a
+ * task's TaskState.timeLogs, apart from copies of entries that timers used to
+ * leave there, and the legacy actualHours of tasks and subtasks that have
+ * neither logs nor entries.
+ */
+export function collectLoggedTime(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  entries: TimeLogEntry[] = []
+): LoggedTime[] {
+  const logs: LoggedTime[] = [];
+
+  tasks.forEach(task => {
+    const taskEntries = entries.filter(entry => entry.taskId === task.id);
+    taskEntries.forEach(entry => {
+      logs.push({
+        taskId: task.id,
+        subtaskId: entry.subtaskId,
+        date: entry.date,
+        hours: entry.hours,
+        personId: entry.userId,
+        billable: entry.billable !== false,
+      });
+    });
+
+    const state = taskStates[task.id];
+    getLegacyTimeLogs(task, state, entries).forEach(log => {
+      logs.push({
+        taskId: task.id,
+        date: log.date,
+        hours: log.hours,
+        personId: log.loggedBy,
+        billable: log.billable !== false,
+      });
+    });
+
+    const legacyHours = parseFloat(state?.actualHours || '0') || 0;
+    const hasOwnEntries = taskEntries.some(entry => !entry.subtaskId);
+    if (legacyHours > 0 && !state?.timeLogs?.length && !hasOwnEntries) {
+      logs.push({ taskId: task.id, hours: legacyHours, billable: true });
+    }
+
+    (task.subtasks || []).forEach(st => {
+      if (!st.actualHours || st.actualHours <= 0) return;
+      if (taskEntries.some(entry => entry.subtaskId === st.id)) return;
+      logs.push({ taskId: task.id, subtaskId: st.id, hours: st.actualHours, billable: true });
+    });
+  });
+
+  return logs;
+}
+
+/**
+ * Hours logged on a task, including its subtasks
+ */
+export function getLoggedHours(task: Task, state: TaskState | undefined, entries: TimeLogEntry[] = []): number {
+  return collectLoggedTime([task], state ? { [task.id]: state } : {}, entries)
+    .reduce((sum, log) => sum + log.hours, 0);
+}
+
+/**
+ * Hours logged on each of a task's subtasks
+ */
+export function getSubtaskLoggedHours(task: Task, entries: TimeLogEntry[] = []): { [subtaskId: string]: number } {
+  const hours: { [subtaskId: string]: number } = {};
+  collectLoggedTime([task], {}, entries).forEach(log => {
+    if (log.subtaskId) hours[log.subtaskId] = (hours[log.subtaskId] || 0) + log.hours;
+  });
+  return hours;
+}
+
+/**
+ * Drop the task time logs that timers copied from an entry under the entry's ID
+ * Returns taskStates itself when there's nothing to drop.
+ */
+export function dropCopiedTimeLogs(
+  taskStates: { [key: string]: TaskState },
+  entries: TimeLogEntry[]
+): { [key: string]: TaskState } {
+  const entryIds = new Set(entries.map(entry => entry.id));
+  let changed = false;
+  const result: { [key: string]: TaskState } = {};
+
+  Object.entries(taskStates).forEach(([taskId, state]) => {
+    const timeLogs = state.timeLogs?.filter(log => !entryIds.has(log.id));
+    if (timeLogs && timeLogs.length !== state.timeLogs!.length) {
+      changed = true;
+      result[taskId] = { ...state, timeLogs };
+    } else {
+      result[taskId] = state;
+    }
+  });
+
+  return changed ? result : taskStates;
+}
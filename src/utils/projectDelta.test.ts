@@ -0,0 +1,137 @@
+/**
+ * Incremental Sync tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffProject, applyProjectChanges } from './projectDelta';
+import type { SavedProject, Task, TaskState } from '../types';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase: 'p1',
+    phaseTitle: 'Phase 1',
+    category: 'general',
+    adjustedEstHours: 4,
+    ...overrides,
+  };
+}
+
+function makeProject(tasks: Task[], taskStates: { [taskId: string]: TaskState } = {}): SavedProject {
+  return {
+    meta: {
+      id: 'project_1',
+      name: 'Launch',
+      projectType: 'custom',
+      experienceLevel: 'intermediate',
+      status: 'active',
+      revision: 3,
+    },
+    tasks,
+    taskStates,
+    phases: [],
+    risks: [],
+  };
+}
+
+describe('diffProject', () => {
+  it('returns null when nothing but save timestamps changed', () => {
+    const base = makeProject([makeTask('t1')]);
+    const local = makeProject([makeTask('t1')]);
+    local.meta.updatedAt = '2026-03-02T09:00:00Z';
+    local.meta.accessRole = 'owner';
+
+    expect(diffProject(base, local)).toBeNull();
+  });
+
+  it('sends only the tasks that changed, whole, with their state and position', () => {
+    const base = makeProject([makeTask('t1'), makeTask('t2')], { t2: { status: 'pending' } });
+    const local = makeProject([makeTask('t1'), makeTask('t2')], { t2: { status: 'complete' } });
+
+    const patch = diffProject(base, local);
+
+    expect(patch).toEqual({
+      projectId: 'project_1',
+      baseRevision: 3,
+      upsertTasks: [{ task: makeTask('t2'), state: { status: 'complete' }, order: 1 }],
+      deleteTaskIds: [],
+    });
+  });
+
+  it('lists removed tasks and the new order when tasks are added, removed or moved', () => {
+    const base = makeProject([makeTask('t1'), makeTask('t2'), makeTask('t3')]);
+    const local = makeProject([makeTask('t3'), makeTask('t1'), makeTask('t4')]);
+
+    const patch = diffProject(base, local)!;
+
+    expect(patch.upsertTasks.map(u => u.task.id)).toEqual(['t4']);
+    expect(patch.deleteTaskIds).toEqual(['t2']);
+    expect(patch.taskOrder).toEqual(['t3', 't1', 't4']);
+    expect(patch.meta).toBeUndefined();
+  });
+
+  it('sends the meta with phases and risks when any of them changed', () => {
+    const base = makeProject([makeTask('t1')]);
+    const local = makeProject([makeTask('t1')]);
+    local.phases = [{ phaseId: 'p1', phaseTitle: 'Phase 1', description: '', color: '#00A3FF', typicalDuration: 5 }];
+
+    const patch = diffProject(base, local)!;
+
+    expect(patch.meta).toEqual(local.meta);
+    expect(patch.phases).toEqual(local.phases);
+    expect(patch.risks).toEqual([]);
+    expect(patch.upsertTasks).toEqual([]);
+    expect(patch.taskOrder).toBeUndefined();
+  });
+});
+
+describe('applyProjectChanges', () => {
+  it('replaces the changed tasks and keeps the others as they are, in the server\'s order', () => {
+    const project = makeProject(
+      [makeTask('t1'), makeTask('t2', { notes: 'Local notes' })],
+      { t1: { status: 'pending' }, t2: { status: 'in-progress' } }
+    );
+    const changed = makeProject([makeTask('t1', { task: 'Renamed' })], { t1: { status: 'complete' } });
+    changed.meta.revision = 4;
+
+    const result = applyProjectChanges(project, {
+      project: changed,
+      deletedTaskIds: [],
+      taskOrder: ['t2', 't1'],
+    });
+
+    expect(result.tasks).toEqual([makeTask('t2', { notes: 'Local notes' }), makeTask('t1', { task: 'Renamed' })]);
+    expect(result.taskStates).toEqual({ t1: { status: 'complete' }, t2: { status: 'in-progress' } });
+    expect(result.meta.revision).toBe(4);
+  });
+
+  it('drops tasks that are no longer in the server\'s order, with their state', () => {
+    const project = makeProject([makeTask('t1'), makeTask('t2')], { t2: { status: 'pending' } });
+
+    const result = applyProjectChanges(project, {
+      project: makeProject([]),
+      deletedTaskIds: ['t2'],
+      taskOrder: ['t1'],
+    });
+
+    expect(result.tasks.map(t => t.id)).toEqual(['t1']);
+    expect(result.taskStates).toEqual({});
+  });
+
+  it('round-trips a local change through a diff and back', () => {
+    const base = makeProject([makeTask('t1'), makeTask('t2')], { t1: { status: 'pending' } });
+    const local = makeProject([makeTask('t2'), makeTask('t1', { adjustedEstHours: 6 })], { t1: { status: 'in-progress' } });
+    const patch = diffProject(base, local)!;
+
+    const result = applyProjectChanges(base, {
+      project: makeProject(patch.upsertTasks.map(u => u.task), { t1: patch.upsertTasks[0].state! }),
+      deletedTaskIds: patch.deleteTaskIds,
+      taskOrder: patch.taskOrder!,
+    });
+
+    expect(result.tasks).toEqual(local.tasks);
+    expect(result.taskStates).toEqual(local.taskStates);
+  });
+});
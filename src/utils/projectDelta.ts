@@ -0,0 +1,102 @@
+// ============================================
+// Universal Project Manager - Incremental Sync Utilities
+// ============================================
+
+import type {
+  SavedProject,
+  Task,
+  ProjectMeta,
+  ProjectPatch,
+  ProjectTaskUpsert,
+  ProjectChangeSet,
+} from '../types';
+import { valuesEqual } from './projectMerge';
+
+/**
+ * Meta fields that change on every save or are derived by the server, and are
+ * not worth sending on their own
+ */
+const IGNORED_META_FIELDS: (keyof ProjectMeta)[] = ['updatedAt', 'createdAt', 'revision', 'accessRole', 'sharedBy'];
+
+function comparableMeta(meta: ProjectMeta): Partial<ProjectMeta> {
+  const copy: Partial<ProjectMeta> = { ...meta };
+  IGNORED_META_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+}
+
+/**
+ * Work out what changed in a project since the last server-acknowledged copy
+ * A task is sent whole (with its subtasks, state and time logs) if any part of it changed.
+ * @returns The patch, or null when nothing changed
+ */
+export function diffProject(base: SavedProject, local: SavedProject): ProjectPatch | null {
+  const metaChanged =
+    !valuesEqual(comparableMeta(base.meta), comparableMeta(local.meta)) ||
+    !valuesEqual(base.phases, local.phases) ||
+    !valuesEqual(base.risks || [], local.risks || []);
+
+  const baseTasks = new Map(base.tasks.map(t => [t.id, t]));
+  const upsertTasks: ProjectTaskUpsert[] = [];
+
+  local.tasks.forEach((task, order) => {
+    const baseTask = baseTasks.get(task.id);
+    const state = local.taskStates[task.id];
+    if (!baseTask || !valuesEqual(baseTask, task) || !valuesEqual(base.taskStates[task.id], state)) {
+      upsertTasks.push({ task, state, order });
+    }
+  });
+
+  const localTaskIds = local.tasks.map(t => t.id);
+  const localIdSet = new Set(localTaskIds);
+  const deleteTaskIds = base.tasks.filter(t => !localIdSet.has(t.id)).map(t => t.id);
+  const orderChanged = !valuesEqual(base.tasks.map(t => t.id), localTaskIds);
+
+  if (!metaChanged && upsertTasks.length === 0 && deleteTaskIds.length === 0 && !orderChanged) {
+    return null;
+  }
+
+  const patch: ProjectPatch = {
+    projectId: local.meta.id,
+    baseRevision: base.meta.revision,
+    upsertTasks,
+    deleteTaskIds,
+  };
+  if (metaChanged) {
+    patch.meta = local.meta;
+    patch.phases = local.phases;
+    patch.risks = local.risks || [];
+  }
+  if (orderChanged) {
+    patch.taskOrder = localTaskIds;
+  }
+  return patch;
+}
+
+/**
+ * Apply changes pulled from the server feed to a project
+ * Tasks not mentioned in the change set are kept as they are.
+ */
+export function applyProjectChanges(project: SavedProject, change: ProjectChangeSet): SavedProject {
+  const changedTasks = new Map(change.project.tasks.map(t => [t.id, t]));
+  const currentTasks = new Map(project.tasks.map(t => [t.id, t]));
+
+  const tasks = change.taskOrder
+    .map(taskId => changedTasks.get(taskId) || currentTasks.get(taskId))
+    .filter((task): task is Task => !!task);
+
+  const taskStates: SavedProject['taskStates'] = {};
+  tasks.forEach(task => {
+    const state = changedTasks.has(task.id)
+      ? change.project.taskStates[task.id]
+      : project.taskStates[task.id];
+    if (state) taskStates[task.id] = state;
+  });
+
+  return {
+    meta: { ...project.meta, ...change.project.meta },
+    tasks,
+    taskStates,
+    phases: change.project.phases,
+    risks: change.project.risks,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Project Merge tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeProjects, applyConflictResolutions, valuesEqual } from './projectMerge';
+import type { SavedProject, Task, TaskState } from '../types';
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase: 'p1',
+    phaseTitle: 'Phase 1',
+    category: 'general',
+    adjustedEstHours: 4,
+    ...overrides,
+  };
+}
+
+function makeProject(tasks: Task[], taskStates: { [taskId: string]: TaskState } = {}, revision = 1): SavedProject {
+  return {
+    meta: {
+      id: 'project_1',
+      name: 'Launch',
+      projectType: 'custom',
+      experienceLevel: 'intermediate',
+      status: 'active',
+      revision,
+    },
+    tasks,
+    taskStates,
+    phases: [],
+    risks: [],
+  };
+}
+
+describe('mergeProjects', () => {
+  it('keeps changes made to different fields on each side', () => {
+    const base = makeProject([makeTask('t1')]);
+    const local = makeProject([makeTask('t1', { task: 'Write brief' })]);
+    const remote = makeProject([makeTask('t1', { adjustedEstHours: 6 })], {}, 2);
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.tasks[0]).toMatchObject({ task: 'Write brief', adjustedEstHours: 6 });
+    expect(merged.meta.revision).toBe(2);
+  });
+
+  it('reports a field both sides changed differently and keeps the local value', () => {
+    const base = makeProject([makeTask('t1')]);
+    const local = makeProject([makeTask('t1', { adjustedEstHours: 5 })]);
+    const remote = makeProject([makeTask('t1', { adjustedEstHours: 8 })]);
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      id: 'task:t1:adjustedEstHours',
+      scope: 'task',
+      localValue: 5,
+      remoteValue: 8,
+    });
+    expect(merged.tasks[0].adjustedEstHours).toBe(5);
+  });
+
+  it('ignores save timestamps and empty-vs-missing differences', () => {
+    const base = makeProject([makeTask('t1')]);
+    const local = makeProject([makeTask('t1', { notes: '' })]);
+    local.meta.updatedAt = '2026-01-02T10:00:00Z';
+    const remote = makeProject([makeTask('t1')]);
+    remote.meta.updatedAt = '2026-01-03T10:00:00Z';
+
+    expect(mergeProjects(base, local, remote).conflicts).toEqual([]);
+  });
+
+  it('keeps tasks added on either side, local ones first', () => {
+    const base = makeProject([makeTask('t1')]);
+    const local = makeProject([makeTask('t1'), makeTask('t2')]);
+    const remote = makeProject([makeTask('t1'), makeTask('t3')]);
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.tasks.map(t => t.id)).toEqual(['t1', 't2', 't3']);
+  });
+
+  it('drops a task deleted on one side and left alone on the other', () => {
+    const base = makeProject([makeTask('t1'), makeTask('t2')], { t2: { status: 'pending' } });
+    const local = makeProject([makeTask('t1'), makeTask('t2')], { t2: { status: 'pending' } });
+    const remote = makeProject([makeTask('t1')]);
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.tasks.map(t => t.id)).toEqual(['t1']);
+    expect(merged.taskStates.t2).toBeUndefined();
+  });
+
+  it('reports a task deleted on the server but changed here', () => {
+    const base = makeProject([makeTask('t1')]);
+    const local = makeProject([makeTask('t1', { notes: 'Started' })]);
+    const remote = makeProject([]);
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ id: 'task:t1:*', field: '*', remoteValue: undefined });
+    expect(merged.tasks.map(t => t.id)).toEqual(['t1']);
+  });
+
+  it('merges subtasks and time logs item by item', () => {
+    const subtask = { id: 's1', name: 'Outline', status: 'pending' as const, order: 0 };
+    const log = { id: 'log1', date: '2026-03-02', hours: 2 };
+    const base = makeProject([makeTask('t1', { subtasks: [subtask] })], { t1: { timeLogs: [log] } });
+    const local = makeProject(
+      [makeTask('t1', { subtasks: [subtask, { id: 's2', name: 'Draft', status: 'pending', order: 1 }] })],
+      { t1: { timeLogs: [log, { id: 'log2', date: '2026-03-03', hours: 1 }] } }
+    );
+    const remote = makeProject(
+      [makeTask('t1', { subtasks: [{ ...subtask, status: 'completed' }] })],
+      { t1: { timeLogs: [] } }
+    );
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+
+    expect(conflicts).toEqual([]);
+    expect(merged.tasks[0].subtasks).toEqual([
+      { ...subtask, status: 'completed' },
+      { id: 's2', name: 'Draft', status: 'pending', order: 1 },
+    ]);
+    expect(merged.taskStates.t1.timeLogs?.map(l => l.id)).toEqual(['log2']);
+  });
+
+  it('treats every difference as a conflict when there is no common ancestor', () => {
+    const local = makeProject([makeTask('t1', { adjustedEstHours: 5 })]);
+    const remote = makeProject([makeTask('t1', { adjustedEstHours: 8 })]);
+
+    const { conflicts } = mergeProjects(null, local, remote);
+
+    expect(conflicts.map(c => c.id)).toEqual(['task:t1:adjustedEstHours']);
+  });
+});
+
+describe('applyConflictResolutions', () => {
+  it('takes the server value for conflicts resolved remote and keeps local for the rest', () => {
+    const base = makeProject([makeTask('t1')], { t1: { status: 'pending' } });
+    base.meta.name = 'Launch';
+    const local = makeProject([makeTask('t1', { adjustedEstHours: 5 })], { t1: { status: 'in-progress' } });
+    local.meta.name = 'Launch v2';
+    const remote = makeProject([makeTask('t1', { adjustedEstHours: 8 })], { t1: { status: 'blocked' } });
+    remote.meta.name = 'Product launch';
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+    expect(conflicts.map(c => c.id).sort()).toEqual(['meta:name', 'task:t1:adjustedEstHours', 'taskState:t1:status']);
+
+    const resolved = applyConflictResolutions(merged, conflicts, {
+      'meta:name': 'remote',
+      'task:t1:adjustedEstHours': 'local',
+      'taskState:t1:status': 'remote',
+    });
+
+    expect(resolved.meta.name).toBe('Product launch');
+    expect(resolved.tasks[0].adjustedEstHours).toBe(5);
+    expect(resolved.taskStates.t1.status).toBe('blocked');
+  });
+
+  it('removes a task and its state when the server\'s delete wins', () => {
+    const base = makeProject([makeTask('t1')], { t1: { status: 'pending' } });
+    const local = makeProject([makeTask('t1', { notes: 'Started' })], { t1: { status: 'pending' } });
+    const remote = makeProject([]);
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+    const resolved = applyConflictResolutions(merged, conflicts, { 'task:t1:*': 'remote' });
+
+    expect(resolved.tasks).toEqual([]);
+    expect(resolved.taskStates.t1).toBeUndefined();
+  });
+
+  it('replaces a single subtask or time log with the server\'s version', () => {
+    const base = makeProject(
+      [makeTask('t1', { subtasks: [{ id: 's1', name: 'Outline', status: 'pending', order: 0 }] })],
+      { t1: { timeLogs: [{ id: 'log1', date: '2026-03-02', hours: 2 }] } }
+    );
+    const local = makeProject(
+      [makeTask('t1', { subtasks: [{ id: 's1', name: 'Outline v2', status: 'pending', order: 0 }] })],
+      { t1: { timeLogs: [{ id: 'log1', date: '2026-03-02', hours: 3 }] } }
+    );
+    const remote = makeProject(
+      [makeTask('t1', { subtasks: [{ id: 's1', name: 'Rough outline', status: 'pending', order: 0 }] })],
+      { t1: { timeLogs: [{ id: 'log1', date: '2026-03-02', hours: 1.5 }] } }
+    );
+
+    const { merged, conflicts } = mergeProjects(base, local, remote);
+    expect(conflicts.map(c => c.id).sort()).toEqual(['task:t1:subtasks:s1', 'taskState:t1:timeLogs:log1']);
+
+    const resolved = applyConflictResolutions(merged, conflicts, {
+      'task:t1:subtasks:s1': 'remote',
+      'taskState:t1:timeLogs:log1': 'remote',
+    });
+
+    expect(resolved.tasks[0].subtasks?.[0].name).toBe('Rough outline');
+    expect(resolved.taskStates.t1.timeLogs?.[0].hours).toBe(1.5);
+  });
+});
+
+describe('valuesEqual', () => {
+  it('compares numbers that arrive as strings from the database', () => {
+    expect(valuesEqual('12.50', 12.5)).toBe(true);
+    expect(valuesEqual({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(true);
+    expect(valuesEqual(null, '')).toBe(true);
+    expect(valuesEqual(0, undefined)).toBe(false);
+  });
+});
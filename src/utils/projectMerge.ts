@@ -0,0 +1,392 @@
+// ============================================
+// Universal Project Manager - Project Merge Utilities
+// ============================================
+
+import type {
+  SavedProject,
+  Task,
+  TaskState,
+  Phase,
+  Risk,
+  MergeConflict,
+  ConflictResolution,
+  ProjectMergeResult,
+} from '../types';
+
+/**
+ * Meta fields that change on every save and never count as conflicts
+ */
+const IGNORED_META_FIELDS = ['updatedAt', 'createdAt', 'revision'];
+
+/**
+ * Task and task-state fields that hold lists merged item by item
+ */
+const TASK_LIST_FIELDS = ['subtasks'];
+const STATE_LIST_FIELDS = ['timeLogs'];
+
+/**
+ * Readable names for fields shown in the conflict dialog
+ */
+const FIELD_LABELS: { [field: string]: string } = {
+  task: 'name',
+  phaseTitle: 'phase title',
+  baseEstHours: 'base estimate',
+  adjustedEstHours: 'estimate',
+  estHours: 'estimate',
+  actualHours: 'actual hours',
+  assignedTo: 'assignee',
+  blockedReason: 'blocked reason',
+  completedDate: 'completed date',
+  criticalPath: 'critical path',
+  sopReference: 'SOP reference',
+  subtaskHourMode: 'subtask hour mode',
+  projectType: 'type',
+  experienceLevel: 'experience level',
+  startDate: 'start date',
+  targetEndDate: 'target end date',
+};
+
+function describeField(field: string): string {
+  return FIELD_LABELS[field] || field;
+}
+
+/**
+ * Treat missing, null and empty values as the same (the server normalizes them differently)
+ */
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Structural equality that ignores key order and empty-vs-missing differences
+ */
+export function valuesEqual(a: any, b: any): boolean {
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (isEmpty(a) || isEmpty(b)) return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => valuesEqual(item, b[index]));
+  }
+
+  if (typeof a === 'object' && typeof b === 'object') {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return Array.from(keys).every(key => valuesEqual(a[key], b[key]));
+  }
+
+  // Numbers may arrive as strings from the database ("12.50" vs 12.5)
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a) === Number(b);
+  }
+
+  return a === b;
+}
+
+/**
+ * Three-way merge of a single value
+ * Returns the merged value and whether both sides changed it differently
+ */
+function mergeValue(base: any, local: any, remote: any): { value: any; conflict: boolean } {
+  if (valuesEqual(local, remote)) return { value: local, conflict: false };
+  if (valuesEqual(local, base)) return { value: remote, conflict: false };
+  if (valuesEqual(remote, base)) return { value: local, conflict: false };
+  return { value: local, conflict: true };
+}
+
+/**
+ * Three-way merge of a list of items identified by a key
+ * Items added or removed on either side are kept or removed; items changed on
+ * both sides are reported through onConflict and keep the local version.
+ */
+function mergeList<T>(
+  base: T[] = [],
+  local: T[] = [],
+  remote: T[] = [],
+  getKey: (item: T) => string,
+  onConflict?: (key: string, localItem: T | undefined, remoteItem: T | undefined) => void
+): T[] {
+  const baseMap = new Map(base.map(item => [getKey(item), item]));
+  const localMap = new Map(local.map(item => [getKey(item), item]));
+  const remoteMap = new Map(remote.map(item => [getKey(item), item]));
+
+  // Local order first, then items only the server has, in server order
+  const keys = [...localMap.keys()];
+  remoteMap.forEach((_, key) => {
+    if (!localMap.has(key)) keys.push(key);
+  });
+
+  const merged: T[] = [];
+  keys.forEach(key => {
+    const { value, conflict } = mergeValue(baseMap.get(key), localMap.get(key), remoteMap.get(key));
+    if (conflict) {
+      onConflict?.(key, localMap.get(key), remoteMap.get(key));
+    }
+    if (value !== undefined) {
+      merged.push(value);
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Three-way merge of an object field by field
+ */
+function mergeFields<T extends object>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  skipFields: string[],
+  onConflict: (field: string, localValue: any, remoteValue: any) => void
+): T {
+  const merged: any = { ...local };
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(field => {
+    if (skipFields.includes(field)) return;
+
+    const { value, conflict } = mergeValue(
+      (base as any)?.[field],
+      (local as any)[field],
+      (remote as any)[field]
+    );
+    if (conflict) {
+      onConflict(field, (local as any)[field], (remote as any)[field]);
+    }
+    merged[field] = value;
+  });
+
+  return merged;
+}
+
+/**
+ * Three-way merge of a project
+ * @param base - The project as last acknowledged by the server (common ancestor)
+ * @param local - The project on this device
+ * @param remote - The project currently on the server
+ */
+export function mergeProjects(
+  base: SavedProject | null,
+  local: SavedProject,
+  remote: SavedProject
+): ProjectMergeResult {
+  const conflicts: MergeConflict[] = [];
+
+  // Project metadata
+  const meta = mergeFields(base?.meta, local.meta, remote.meta, IGNORED_META_FIELDS, (field, localValue, remoteValue) => {
+    conflicts.push({
+      id: `meta:${field}`,
+      scope: 'meta',
+      field,
+      label: `Project ${describeField(field)}`,
+      localValue,
+      remoteValue,
+    });
+  });
+  meta.revision = remote.meta.revision;
+
+  const baseTasks = new Map((base?.tasks || []).map(t => [t.id, t]));
+  const localTasks = new Map(local.tasks.map(t => [t.id, t]));
+  const remoteTasks = new Map(remote.tasks.map(t => [t.id, t]));
+
+  const taskIds = local.tasks.map(t => t.id);
+  remote.tasks.forEach(t => {
+    if (!localTasks.has(t.id)) taskIds.push(t.id);
+  });
+
+  const tasks: Task[] = [];
+  const taskStates: { [taskId: string]: TaskState } = {};
+
+  taskIds.forEach(taskId => {
+    const baseTask = baseTasks.get(taskId);
+    const localTask = localTasks.get(taskId);
+    const remoteTask = remoteTasks.get(taskId);
+    const baseState = base?.taskStates[taskId];
+    const localState = local.taskStates[taskId];
+    const remoteState = remote.taskStates[taskId];
+
+    // Added or deleted on one side only
+    if (!localTask || !remoteTask) {
+      const localEntry = localTask ? { task: localTask, state: localState } : undefined;
+      const remoteEntry = remoteTask ? { task: remoteTask, state: remoteState } : undefined;
+      const baseEntry = baseTask ? { task: baseTask, state: baseState } : undefined;
+      const { value, conflict } = mergeValue(baseEntry, localEntry, remoteEntry);
+
+      if (conflict) {
+        const name = (localTask || remoteTask)!.task;
+        conflicts.push({
+          id: `task:${taskId}:*`,
+          scope: 'task',
+          taskId,
+          field: '*',
+          label: localTask
+            ? `"${name}" was deleted on the server but changed here`
+            : `"${name}" was deleted here but changed on the server`,
+          localValue: localEntry,
+          remoteValue: remoteEntry,
+        });
+      }
+
+      if (value) {
+        tasks.push(value.task);
+        if (value.state) taskStates[taskId] = value.state;
+      }
+      return;
+    }
+
+    // Present on both sides: merge field by field
+    const task = mergeFields(baseTask, localTask, remoteTask, TASK_LIST_FIELDS, (field, localValue, remoteValue) => {
+      conflicts.push({
+        id: `task:${taskId}:${field}`,
+        scope: 'task',
+        taskId,
+        field,
+        label: `"${localTask.task}" ${describeField(field)}`,
+        localValue,
+        remoteValue,
+      });
+    });
+
+    if (localTask.subtasks || remoteTask.subtasks) {
+      task.subtasks = mergeList(
+        baseTask?.subtasks,
+        localTask.subtasks,
+        remoteTask.subtasks,
+        st => st.id,
+        (subtaskId, localValue, remoteValue) => {
+          conflicts.push({
+            id: `task:${taskId}:subtasks:${subtaskId}`,
+            scope: 'task',
+            taskId,
+            field: `subtasks:${subtaskId}`,
+            label: `"${localTask.task}" subtask "${(localValue || remoteValue)!.name}"`,
+            localValue,
+            remoteValue,
+          });
+        }
+      );
+    }
+    tasks.push(task);
+
+    if (localState || remoteState) {
+      const state = mergeFields(baseState, localState || {}, remoteState || {}, STATE_LIST_FIELDS, (field, localValue, remoteValue) => {
+        conflicts.push({
+          id: `taskState:${taskId}:${field}`,
+          scope: 'taskState',
+          taskId,
+          field,
+          label: `"${localTask.task}" ${describeField(field)}`,
+          localValue,
+          remoteValue,
+        });
+      });
+
+      if (localState?.timeLogs || remoteState?.timeLogs) {
+        state.timeLogs = mergeList(
+          baseState?.timeLogs,
+          localState?.timeLogs,
+          remoteState?.timeLogs,
+          log => log.id,
+          (logId, localValue, remoteValue) => {
+            conflicts.push({
+              id: `taskState:${taskId}:timeLogs:${logId}`,
+              scope: 'taskState',
+              taskId,
+              field: `timeLogs:${logId}`,
+              label: `"${localTask.task}" time log from ${(localValue || remoteValue)!.date}`,
+              localValue,
+              remoteValue,
+            });
+          }
+        );
+      }
+      taskStates[taskId] = state;
+    }
+  });
+
+  // Phases are derived from tasks in the project view, so keep local on conflict
+  const phases: Phase[] = mergeList(base?.phases, local.phases, remote.phases, p => p.phaseId);
+
+  // Risks are edited as a whole in the register, so keep local on conflict
+  const risks: Risk[] = mergeList(base?.risks, local.risks, remote.risks, r => r.id);
+
+  return {
+    merged: { meta, tasks, taskStates, phases, risks },
+    conflicts,
+  };
+}
+
+/**
+ * Replace (or remove, when value is undefined) an item in a keyed list
+ */
+function replaceListItem<T extends { id: string }>(list: T[] = [], id: string, value: T | undefined): T[] {
+  const index = list.findIndex(item => item.id === id);
+  if (value === undefined) {
+    return list.filter(item => item.id !== id);
+  }
+  if (index === -1) {
+    return [...list, value];
+  }
+  return list.map(item => (item.id === id ? value : item));
+}
+
+/**
+ * Apply the user's choices to a merged project
+ * Conflicts without a choice keep the local value (already in the merged project).
+ */
+export function applyConflictResolutions(
+  merged: SavedProject,
+  conflicts: MergeConflict[],
+  resolution: ConflictResolution
+): SavedProject {
+  const project: SavedProject = {
+    meta: { ...merged.meta },
+    tasks: [...merged.tasks],
+    taskStates: { ...merged.taskStates },
+    phases: merged.phases,
+    risks: merged.risks,
+  };
+
+  conflicts.forEach(conflict => {
+    if (resolution[conflict.id] !== 'remote') return;
+    const value = conflict.remoteValue;
+
+    if (conflict.scope === 'meta') {
+      (project.meta as any)[conflict.field] = value;
+      return;
+    }
+
+    const taskId = conflict.taskId!;
+
+    if (conflict.field === '*') {
+      if (value === undefined) {
+        project.tasks = project.tasks.filter(t => t.id !== taskId);
+        delete project.taskStates[taskId];
+      } else {
+        project.tasks = replaceListItem(project.tasks, taskId, value.task);
+        if (value.state) project.taskStates[taskId] = value.state;
+      }
+      return;
+    }
+
+    const [field, itemId] = conflict.field.split(':');
+
+    if (conflict.scope === 'task') {
+      project.tasks = project.tasks.map(t => {
+        if (t.id !== taskId) return t;
+        if (itemId) {
+          return { ...t, subtasks: replaceListItem(t.subtasks, itemId, value) };
+        }
+        return { ...t, [field]: value };
+      });
+      return;
+    }
+
+    const state = project.taskStates[taskId] || {};
+    project.taskStates[taskId] = itemId
+      ? { ...state, timeLogs: replaceListItem(state.timeLogs, itemId, value) }
+      : { ...state, [field]: value };
+  });
+
+  return project;
+}
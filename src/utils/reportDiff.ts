@@ -0,0 +1,189 @@
+// ============================================
+// Universal Project Manager - AI Report Comparison
+// ============================================
+
+import type {
+  AIReport,
+  Task,
+  TaskState,
+  Risk,
+  ReportMetrics,
+  ReportDiff,
+  ReportDiffPart,
+  ReportTextDiff,
+  ReportListDiff,
+  ReportMetricDiff,
+  SavedAIReport,
+} from '../types';
+import { calculateProgress, calculatePercentComplete } from './calculations';
+import { getRiskExposure } from './riskRegister';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+// Texts longer than this (in words) are compared whole rather than word by word
+const MAX_DIFF_WORDS = 600;
+
+const TEXT_SECTIONS: { label: string; get: (report: AIReport) => string | undefined }[] = [
+  { label: 'Progress Assessment', get: r => r.analysis?.progressAssessment },
+  { label: 'Schedule Performance', get: r => r.analysis?.schedulePerformance },
+  { label: 'Cost Performance', get: r => r.analysis?.costPerformance },
+  { label: 'Quality Metrics', get: r => r.analysis?.qualityMetrics },
+  { label: 'Completion Forecast', get: r => r.predictiveInsights?.completionForecast },
+  { label: 'Budget Forecast', get: r => r.predictiveInsights?.budgetForecast },
+];
+
+const LIST_SECTIONS: { label: string; get: (report: AIReport) => string[] | undefined }[] = [
+  { label: 'Immediate Recommendations', get: r => r.recommendations?.immediate },
+  { label: 'Short-Term Recommendations', get: r => r.recommendations?.shortTerm },
+  { label: 'Long-Term Recommendations', get: r => r.recommendations?.longTerm },
+  {
+    label: 'Risk Areas',
+    get: r => r.predictiveInsights?.riskAreas?.map(risk => `${risk.description} (${risk.severity})`),
+  },
+];
+
+export const REPORT_METRIC_LABELS: { [key in keyof ReportMetrics]: string } = {
+  percentComplete: '% Complete',
+  completedTasks: 'Completed Tasks',
+  totalTasks: 'Total Tasks',
+  inProgressTasks: 'In Progress',
+  blockedTasks: 'Blocked',
+  totalEstHours: 'Est. Hours',
+  totalActualHours: 'Actual Hours',
+  hoursVariance: 'Hours Variance',
+  openRisks: 'Open Risks',
+  riskExposure: 'Risk Exposure',
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Figures to store alongside a report, so later reports can be compared with it
+ */
+export function buildReportMetrics(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  risks: Risk[] = [],
+  entries: TimeLogEntry[] = [],
+  now: Date = new Date()
+): ReportMetrics {
+  const stats = calculateProgress(tasks, taskStates, entries);
+  const exposure = getRiskExposure(risks, now.toISOString().split('T')[0]);
+
+  return {
+    totalTasks: stats.overall.total,
+    completedTasks: stats.overall.completed,
+    inProgressTasks: stats.overall.inProgress,
+    blockedTasks: stats.overall.blocked,
+    percentComplete: calculatePercentComplete(stats.overall.completed, stats.overall.total),
+    totalEstHours: round(stats.totalEst),
+    totalActualHours: round(stats.totalActual),
+    hoursVariance: round(stats.totalActual - stats.totalEst),
+    openRisks: exposure.openRisks,
+    riskExposure: exposure.exposure,
+  };
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence)
+ * Whitespace is kept with the word before it so the parts join back into the
+ * original texts.
+ */
+export function diffWords(before: string, after: string): { before: ReportDiffPart[]; after: ReportDiffPart[] } {
+  const a = before.match(/\S+\s*/g) || [];
+  const b = after.match(/\S+\s*/g) || [];
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    const same = before === after;
+    return {
+      before: before ? [{ text: before, change: same ? 'unchanged' : 'removed' }] : [],
+      after: after ? [{ text: after, change: same ? 'unchanged' : 'added' }] : [],
+    };
+  }
+
+  const word = (token: string) => token.trim().toLowerCase();
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = word(a[i]) === word(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const beforeParts: ReportDiffPart[] = [];
+  const afterParts: ReportDiffPart[] = [];
+  const push = (parts: ReportDiffPart[], text: string, change: ReportDiffPart['change']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.change === change) {
+      last.text += text;
+    } else {
+      parts.push({ text, change });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && word(a[i]) === word(b[j])) {
+      push(beforeParts, a[i++], 'unchanged');
+      push(afterParts, b[j++], 'unchanged');
+    } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      push(afterParts, b[j++], 'added');
+    } else {
+      push(beforeParts, a[i++], 'removed');
+    }
+  }
+
+  return { before: beforeParts, after: afterParts };
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Items in the newer list (marked added or unchanged), then items dropped from the older one
+ */
+function diffList(before: string[] = [], after: string[] = []): ReportDiffPart[] {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+
+  return [
+    ...after.map(text => ({ text, change: beforeKeys.has(normalize(text)) ? 'unchanged' : 'added' } as ReportDiffPart)),
+    ...before
+      .filter(text => !afterKeys.has(normalize(text)))
+      .map(text => ({ text, change: 'removed' } as ReportDiffPart)),
+  ];
+}
+
+/**
+ * Compare two saved reports
+ * @param older - The earlier report
+ * @param newer - The later report
+ */
+export function diffReports(older: SavedAIReport, newer: SavedAIReport): ReportDiff {
+  const texts: ReportTextDiff[] = TEXT_SECTIONS.map(({ label, get }) => {
+    const before = get(older.report) || '';
+    const after = get(newer.report) || '';
+    return {
+      label,
+      ...diffWords(before, after),
+      changed: normalize(before) !== normalize(after),
+    };
+  });
+
+  const lists: ReportListDiff[] = LIST_SECTIONS.map(({ label, get }) => ({
+    label,
+    items: diffList(get(older.report), get(newer.report)),
+  }));
+
+  const metrics: ReportMetricDiff[] = (Object.keys(REPORT_METRIC_LABELS) as (keyof ReportMetrics)[])
+    .filter(key => older.rawMetrics?.[key] !== undefined || newer.rawMetrics?.[key] !== undefined)
+    .map(key => {
+      const before = older.rawMetrics?.[key] ?? 0;
+      const after = newer.rawMetrics?.[key] ?? 0;
+      return { key, label: REPORT_METRIC_LABELS[key], before, after, delta: round(after - before) };
+    });
+
+  return { texts, lists, metrics };
+}
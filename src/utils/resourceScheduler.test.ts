@@ -0,0 +1,137 @@
+/**
+ * Resource Scheduling tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scheduleResources, getRemainingHours, isWorkingDay } from './resourceScheduler';
+import { DEFAULT_WORKING_CALENDAR } from '../config/constants';
+import type { Task, Collaborator } from '../types';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+// A Monday
+const MONDAY = new Date(2026, 2, 2);
+
+function makeTask(id: string, hours: number, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase: 'p1',
+    phaseTitle: 'Phase 1',
+    category: 'general',
+    adjustedEstHours: hours,
+    ...overrides,
+  };
+}
+
+function makeEntry(taskId: string, hours: number): TimeLogEntry {
+  return {
+    id: `entry_${taskId}_${hours}`,
+    projectId: 'project_1',
+    projectName: 'Launch',
+    taskId,
+    taskName: `Task ${taskId}`,
+    userId: 'user_1',
+    userName: 'Sam',
+    date: '2026-02-27',
+    hours,
+    createdAt: '2026-02-27T17:00:00Z',
+  };
+}
+
+describe('scheduleResources', () => {
+  it('books work day by day and lets a dependent pick up where its dependency finished', () => {
+    const schedule = scheduleResources(
+      [makeTask('a', 12), makeTask('b', 4, { dependencies: ['a'] })],
+      {},
+      DEFAULT_WORKING_CALENDAR,
+      [],
+      MONDAY
+    );
+
+    expect(schedule.windows.a).toMatchObject({ start: '2026-03-02', end: '2026-03-03', hours: 12 });
+    expect(schedule.windows.b).toMatchObject({ start: '2026-03-03', end: '2026-03-03', hours: 4 });
+    expect(schedule.finishDate).toBe('2026-03-03');
+  });
+
+  it('skips weekends and holidays', () => {
+    const calendar = { ...DEFAULT_WORKING_CALENDAR, holidays: ['2026-03-09'] };
+    const schedule = scheduleResources([makeTask('a', 16, { startDate: '2026-03-06' })], {}, calendar, [], MONDAY);
+
+    expect(schedule.windows.a).toMatchObject({ start: '2026-03-06', end: '2026-03-10' });
+  });
+
+  it('makes tasks assigned to the same person share their capacity', () => {
+    const collaborators: Collaborator[] = [{ id: 'sam', name: 'Sam', capacityHoursPerDay: 4 }];
+    const schedule = scheduleResources(
+      [makeTask('a', 4, { assignedTo: 'sam' }), makeTask('b', 4, { assignedTo: 'sam' }), makeTask('c', 4)],
+      {},
+      DEFAULT_WORKING_CALENDAR,
+      collaborators,
+      MONDAY
+    );
+
+    expect(schedule.windows.a).toMatchObject({ start: '2026-03-02', end: '2026-03-02', assignedTo: 'sam' });
+    expect(schedule.windows.b).toMatchObject({ start: '2026-03-03', end: '2026-03-03', assignedTo: 'sam' });
+    // Unassigned work doesn't compete for anyone's time
+    expect(schedule.windows.c).toMatchObject({ start: '2026-03-02', end: '2026-03-02' });
+  });
+
+  it('only schedules the hours not logged yet, and leaves complete tasks out', () => {
+    const schedule = scheduleResources(
+      [makeTask('a', 10), makeTask('b', 8), makeTask('c', 2, { dependencies: ['b'] })],
+      { b: { status: 'complete' } },
+      DEFAULT_WORKING_CALENDAR,
+      [],
+      MONDAY,
+      [makeEntry('a', 6)]
+    );
+
+    expect(schedule.windows.a.hours).toBe(4);
+    expect(schedule.windows.b).toBeUndefined();
+    expect(schedule.windows.c).toMatchObject({ start: '2026-03-02' });
+  });
+
+  it('leaves tasks in a dependency cycle or without capacity unscheduled', () => {
+    const collaborators: Collaborator[] = [{ id: 'away', name: 'Away', capacityHoursPerDay: 0 }];
+    const schedule = scheduleResources(
+      [
+        makeTask('a', 2, { dependencies: ['b'] }),
+        makeTask('b', 2, { dependencies: ['a'] }),
+        makeTask('c', 2, { assignedTo: 'away' }),
+        makeTask('d', 2),
+      ],
+      {},
+      DEFAULT_WORKING_CALENDAR,
+      collaborators,
+      MONDAY
+    );
+
+    expect(schedule.unscheduledTaskIds.sort()).toEqual(['a', 'b', 'c']);
+    expect(Object.keys(schedule.windows)).toEqual(['d']);
+  });
+
+  it('has no finish date when nothing is left to do', () => {
+    const schedule = scheduleResources([makeTask('a', 2)], { a: { status: 'complete' } }, DEFAULT_WORKING_CALENDAR, [], MONDAY);
+
+    expect(schedule.finishDate).toBeNull();
+  });
+});
+
+describe('getRemainingHours', () => {
+  it('takes the logged hours off the estimate, never going below zero', () => {
+    expect(getRemainingHours(makeTask('a', 10), undefined, [makeEntry('a', 3)])).toBe(7);
+    expect(getRemainingHours(makeTask('a', 10), { actualHours: '4' })).toBe(6);
+    expect(getRemainingHours(makeTask('a', 2), undefined, [makeEntry('a', 3)])).toBe(0);
+    expect(getRemainingHours(makeTask('a', 10), { status: 'complete' })).toBe(0);
+  });
+});
+
+describe('isWorkingDay', () => {
+  it('treats a calendar without working days as working every day except holidays', () => {
+    const calendar = { workingDays: [], hoursPerDay: 8, holidays: ['2026-03-08'] };
+
+    expect(isWorkingDay(new Date(2026, 2, 7), calendar)).toBe(true);
+    expect(isWorkingDay(new Date(2026, 2, 8), calendar)).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+// ============================================
+// Universal Project Manager - Resource Scheduling
+// ============================================
+
+import type {
+  Task,
+  TaskState,
+  Collaborator,
+  WorkingCalendar,
+  TaskWindow,
+  ResourceSchedule,
+} from '../types';
+import { DEFAULT_WORKING_CALENDAR } from '../config/constants';
+import { getTaskDuration } from './criticalPath';
+import { parseDay, formatDay, addDays, daysBetween } from './ganttSchedule';
+import { getLoggedHours } from './loggedHours';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+// Give up on a task that can't be fitted within this many calendar days
+const MAX_SCHEDULE_DAYS = 3650;
+const HOURS_EPSILON = 1e-6;
+
+/**
+ * Check whether a date is a working day in the calendar
+ * A calendar without any working days treats every day as one.
+ */
+export function isWorkingDay(date: Date, calendar: WorkingCalendar): boolean {
+  if (calendar.holidays.includes(formatDay(date))) return false;
+  return calendar.workingDays.length === 0 || calendar.workingDays.includes(date.getDay());
+}
+
+/**
+ * Hours a task still needs: its estimate less the time already logged
+ */
+export function getRemainingHours(task: Task, state: TaskState | undefined, entries: TimeLogEntry[] = []): number {
+  if (state?.status === 'complete') return 0;
+  return Math.max(0, getTaskDuration(task, state) - getLoggedHours(task, state, entries));
+}
+
+/**
+ * Assign dated working windows to every incomplete task
+ * Tasks are placed in dependency order (list order among tasks that are
+ * ready). A task starts no earlier than the schedule start, its own start
+ * date, and the day its last dependency finishes; its remaining hours are
+ * then booked day by day against its assignee's free capacity on working
+ * days. Unassigned tasks get the calendar's hours per day without competing
+ * with other tasks. Completed tasks don't hold up their dependents.
+ */
+export function scheduleResources(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  calendar: WorkingCalendar = DEFAULT_WORKING_CALENDAR,
+  collaborators: Collaborator[] = [],
+  startDate: Date = new Date(),
+  entries: TimeLogEntry[] = []
+): ResourceSchedule {
+  const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const taskIds = new Set(tasks.map(t => t.id));
+  const capacityById = new Map(collaborators.map(c => [c.id, c.capacityHoursPerDay ?? calendar.hoursPerDay]));
+
+  // collaboratorId -> day offset -> hours already booked
+  const booked = new Map<string, Map<number, number>>();
+
+  const windows: { [taskId: string]: TaskWindow } = {};
+  const unscheduledTaskIds: string[] = [];
+
+  // Day offset from which each finished task's dependents may start
+  const readyDay = new Map<string, number>();
+
+  const place = (task: Task) => {
+    const state = taskStates[task.id];
+    let earliest = 0;
+    (task.dependencies || []).forEach(depId => {
+      earliest = Math.max(earliest, readyDay.get(depId) ?? 0);
+    });
+    if (task.startDate) {
+      earliest = Math.max(earliest, daysBetween(start, parseDay(task.startDate)));
+    }
+
+    if (state?.status === 'complete') {
+      readyDay.set(task.id, 0);
+      return;
+    }
+
+    const assignee = task.assignedTo && capacityById.has(task.assignedTo) ? task.assignedTo : undefined;
+    const capacity = assignee ? capacityById.get(assignee)! : calendar.hoursPerDay;
+    if (capacity <= 0) {
+      unscheduledTaskIds.push(task.id);
+      readyDay.set(task.id, earliest);
+      return;
+    }
+
+    const load = assignee ? booked.get(assignee) || new Map<number, number>() : new Map<number, number>();
+    if (assignee) booked.set(assignee, load);
+
+    let remaining = getRemainingHours(task, state, entries);
+    const hours = remaining;
+    let day = earliest;
+    let firstDay: number | null = null;
+    let lastDay = earliest;
+    let lastDayFull = false;
+
+    // Book hours until the task is done (a zero-hour task takes its first working day)
+    while (day - earliest < MAX_SCHEDULE_DAYS) {
+      if (isWorkingDay(addDays(start, day), calendar)) {
+        const used = load.get(day) || 0;
+        const free = capacity - used;
+        if (free > HOURS_EPSILON || remaining <= HOURS_EPSILON) {
+          const take = Math.min(Math.max(free, 0), remaining);
+          if (take > 0) load.set(day, used + take);
+          remaining -= take;
+          if (firstDay === null) firstDay = day;
+          lastDay = day;
+          lastDayFull = used + take >= capacity - HOURS_EPSILON;
+          if (remaining <= HOURS_EPSILON) break;
+        }
+      }
+      day++;
+    }
+
+    if (firstDay === null || remaining > HOURS_EPSILON) {
+      unscheduledTaskIds.push(task.id);
+      readyDay.set(task.id, earliest);
+      return;
+    }
+
+    windows[task.id] = {
+      taskId: task.id,
+      start: formatDay(addDays(start, firstDay)),
+      end: formatDay(addDays(start, lastDay)),
+      hours,
+      assignedTo: assignee,
+    };
+    // Dependents can pick up the same day if this task finished part-way through it
+    readyDay.set(task.id, lastDayFull ? lastDay + 1 : lastDay);
+  };
+
+  // Kahn's algorithm, keeping list order among tasks that are ready
+  const pending = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+  tasks.forEach(task => {
+    const deps = (task.dependencies || []).filter(depId => taskIds.has(depId));
+    pending.set(task.id, deps.length);
+    deps.forEach(depId => {
+      if (!dependents.has(depId)) dependents.set(depId, []);
+      dependents.get(depId)!.push(task.id);
+    });
+  });
+
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const placed = new Set<string>();
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const task of tasks) {
+      if (placed.has(task.id) || pending.get(task.id)! > 0) continue;
+      place(byId.get(task.id)!);
+      placed.add(task.id);
+      (dependents.get(task.id) || []).forEach(id => pending.set(id, pending.get(id)! - 1));
+      progressed = true;
+      break;
+    }
+  }
+
+  // Whatever is left sits in or behind a dependency cycle
+  tasks.forEach(task => {
+    if (!placed.has(task.id)) unscheduledTaskIds.push(task.id);
+  });
+
+  const ends = Object.values(windows).map(w => w.end).sort();
+  return {
+    windows,
+    finishDate: ends.length > 0 ? ends[ends.length - 1] : null,
+    unscheduledTaskIds,
+  };
+}
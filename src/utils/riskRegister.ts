@@ -0,0 +1,216 @@
+// ============================================
+// Universal Project Manager - Risk Register
+// ============================================
+
+import type {
+  Risk,
+  RiskAssessment,
+  RiskFactor,
+  RiskLevel,
+  RiskMitigationStatus,
+  RiskSource,
+  RiskTrendPoint,
+} from '../types';
+
+const LEVEL_SCORES: { [level in RiskLevel]: number } = { low: 1, medium: 2, high: 3 };
+
+// Likelihood x impact at or above this counts as a high risk (medium/high or worse)
+export const HIGH_RISK_SCORE = 6;
+
+export const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+export const RISK_STATUS_LABELS: { [status in RiskMitigationStatus]: string } = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  mitigated: 'Mitigated',
+  accepted: 'Accepted',
+};
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Likelihood x impact, from 1 (low/low) to 9 (high/high)
+ */
+export function getRiskScore(rating: { likelihood: RiskLevel; impact: RiskLevel }): number {
+  return (LEVEL_SCORES[rating.likelihood] || 1) * (LEVEL_SCORES[rating.impact] || 1);
+}
+
+/**
+ * Mitigated and accepted risks no longer count toward exposure
+ */
+export function isRiskOpen(status: RiskMitigationStatus): boolean {
+  return status === 'not_started' || status === 'in_progress';
+}
+
+const toDateKey = (date: Date | string) => new Date(date).toISOString().split('T')[0];
+
+const assessmentOf = (risk: Pick<Risk, 'likelihood' | 'impact' | 'mitigationStatus'>, date: string): RiskAssessment => ({
+  date,
+  likelihood: risk.likelihood,
+  impact: risk.impact,
+  mitigationStatus: risk.mitigationStatus,
+});
+
+/**
+ * Create a register entry, with its first assessment
+ */
+export function createRisk(
+  fields: Partial<Risk> & Pick<Risk, 'title'>,
+  now: Date = new Date()
+): Risk {
+  const timestamp = now.toISOString();
+  const risk: Risk = {
+    id: `risk-${now.getTime()}-${Math.random().toString(36).substr(2, 5)}`,
+    description: '',
+    category: 'General',
+    likelihood: 'medium',
+    impact: 'medium',
+    mitigation: '',
+    mitigationStatus: 'not_started',
+    linkedTaskIds: [],
+    source: 'manual',
+    ...fields,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    history: [],
+  };
+  risk.history = [assessmentOf(risk, timestamp)];
+  return risk;
+}
+
+/**
+ * Apply edits to a risk
+ * A change of likelihood, impact or mitigation status is recorded in its
+ * history; several changes on the same day keep only the last one.
+ */
+export function updateRisk(risk: Risk, changes: Partial<Risk>, now: Date = new Date()): Risk {
+  const timestamp = now.toISOString();
+  const updated: Risk = { ...risk, ...changes, id: risk.id, history: risk.history, updatedAt: timestamp };
+
+  const last = risk.history[risk.history.length - 1];
+  const rerated = !last ||
+    last.likelihood !== updated.likelihood ||
+    last.impact !== updated.impact ||
+    last.mitigationStatus !== updated.mitigationStatus;
+
+  if (rerated) {
+    const history = last && toDateKey(last.date) === toDateKey(timestamp)
+      ? risk.history.slice(0, -1)
+      : risk.history;
+    updated.history = [...history, assessmentOf(updated, timestamp)];
+  }
+  return updated;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Short title for an AI risk: its first sentence, cut to a readable length
+ */
+function titleFromDescription(description: string): string {
+  const sentence = description.split(/(?<=[.!?])\s/)[0].replace(/[.!?]$/, '');
+  return sentence.length > MAX_TITLE_LENGTH
+    ? `${sentence.slice(0, MAX_TITLE_LENGTH - 1).trim()}…`
+    : sentence;
+}
+
+/**
+ * Add AI-identified risks to a register
+ * Risks already in the register (same description, ignoring case and
+ * punctuation) are skipped, so re-running an analysis or report doesn't
+ * duplicate entries or overwrite what the team has since recorded.
+ * @returns The register with new entries appended, and how many were added
+ */
+export function seedRisksFromAI(
+  existing: Risk[],
+  factors: RiskFactor[] | undefined,
+  source: RiskSource,
+  now: Date = new Date()
+): { risks: Risk[]; added: number } {
+  const seen = new Set(existing.map(risk => normalize(risk.description || risk.title)));
+  const added: Risk[] = [];
+
+  (factors || []).forEach(factor => {
+    if (!factor?.description) return;
+    const key = normalize(factor.description);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const severity: RiskLevel = RISK_LEVELS.includes(factor.severity) ? factor.severity : 'medium';
+    added.push(createRisk({
+      title: titleFromDescription(factor.description),
+      description: factor.description,
+      category: factor.category || 'General',
+      likelihood: severity,
+      impact: severity,
+      mitigation: factor.mitigation || '',
+      source,
+    }, now));
+  });
+
+  return { risks: [...existing, ...added], added: added.length };
+}
+
+/**
+ * A risk's rating as it stood at the end of a day
+ * @returns null when the risk hadn't been raised yet
+ */
+export function getAssessmentAt(risk: Risk, date: string): RiskAssessment | null {
+  let current: RiskAssessment | null = null;
+  for (const assessment of risk.history) {
+    if (toDateKey(assessment.date) > date) break;
+    current = assessment;
+  }
+  return current;
+}
+
+/**
+ * Open risks and their combined score at the end of a day
+ * @param date - YYYY-MM-DD
+ */
+export function getRiskExposure(risks: Risk[], date: string): RiskTrendPoint {
+  const point: RiskTrendPoint = { date, openRisks: 0, highRisks: 0, exposure: 0 };
+
+  risks.forEach(risk => {
+    const assessment = getAssessmentAt(risk, date);
+    if (!assessment || !isRiskOpen(assessment.mitigationStatus)) return;
+
+    const score = getRiskScore(assessment);
+    point.openRisks++;
+    point.exposure += score;
+    if (score >= HIGH_RISK_SCORE) point.highRisks++;
+  });
+
+  return point;
+}
+
+/**
+ * Weekly risk exposure, oldest first, ending today
+ * @param weeks - Number of points
+ */
+export function getRiskTrend(risks: Risk[], weeks: number = 8, now: Date = new Date()): RiskTrendPoint[] {
+  const points: RiskTrendPoint[] = [];
+  for (let i = weeks - 1; i >= 0; i--) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - i * 7);
+    points.push(getRiskExposure(risks, toDateKey(day)));
+  }
+  return points;
+}
+
+/**
+ * One-line summary of how exposure moved across a trend, e.g.
+ * "Exposure 14 (4 open, 1 high), up from 9 on 2026-08-24"
+ */
+export function describeRiskTrend(trend: RiskTrendPoint[]): string {
+  if (trend.length === 0) return 'No risks recorded';
+
+  const first = trend[0];
+  const last = trend[trend.length - 1];
+  const current = `Exposure ${last.exposure} (${last.openRisks} open, ${last.highRisks} high)`;
+
+  if (trend.length === 1 || first.exposure === last.exposure) {
+    return `${current}, unchanged since ${first.date}`;
+  }
+  return `${current}, ${last.exposure > first.exposure ? 'up' : 'down'} from ${first.exposure} on ${first.date}`;
+}
@@ -0,0 +1,101 @@
+// ============================================
+// Universal Project Manager - Subtask Breakdown
+// ============================================
+
+import type { Task, Subtask, SubtaskHourMode } from '../types';
+
+// Subtask estimates are rounded to quarter hours, like the time log inputs
+export const BREAKDOWN_HOUR_STEP = 0.25;
+// A breakdown longer than this is really a set of tasks
+const MAX_BREAKDOWN_SUBTASKS = 15;
+
+const roundToStep = (hours: number) => Math.round(hours / BREAKDOWN_HOUR_STEP) * BREAKDOWN_HOUR_STEP;
+
+/**
+ * Hours a new breakdown should add up to
+ * The task's estimate less what its existing subtasks already cover. In
+ * 'auto' mode the estimate is the sum of the subtasks, so once a task has
+ * subtasks there's nothing left to fit and new ones simply add to it.
+ * @returns The target, or 0 when the new subtasks shouldn't be fitted to one
+ */
+export function getBreakdownTargetHours(
+  task: Pick<Task, 'adjustedEstHours'>,
+  existingSubtasks: Subtask[],
+  hourMode: SubtaskHourMode
+): number {
+  const existingHours = existingSubtasks.reduce((sum, st) => sum + (st.estHours || 0), 0);
+  if (hourMode === 'auto' && existingSubtasks.length > 0) return 0;
+  return Math.max(0, roundToStep((task.adjustedEstHours || 0) - existingHours));
+}
+
+/**
+ * Scale subtask estimates so they add up to exactly the target
+ * Keeps their proportions (an even split when none have hours), rounds to
+ * quarter hours and gives the rounding remainder to the largest subtasks.
+ * Every subtask gets at least one step when the target allows it.
+ */
+export function fitSubtaskHours(subtasks: Subtask[], targetHours: number): Subtask[] {
+  if (subtasks.length === 0 || targetHours <= 0) return subtasks;
+
+  const steps = Math.round(targetHours / BREAKDOWN_HOUR_STEP);
+  const minSteps = steps >= subtasks.length ? 1 : 0;
+  // Subtasks without hours count as an average one
+  const known = subtasks.filter(st => (st.estHours || 0) > 0).map(st => st.estHours!);
+  const average = known.length > 0 ? known.reduce((sum, h) => sum + h, 0) / known.length : 1;
+  const weights = subtasks.map(st => ((st.estHours || 0) > 0 ? st.estHours! : average));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const shares = weights.map(w => (w / totalWeight) * steps);
+
+  const allocated = shares.map(share => Math.max(minSteps, Math.floor(share)));
+  let remaining = steps - allocated.reduce((sum, s) => sum + s, 0);
+
+  // Hand out (or take back) single steps by largest remainder
+  const order = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || shares[b.index] - shares[a.index]);
+  for (let i = 0; remaining > 0; i = (i + 1) % order.length) {
+    allocated[order[i].index]++;
+    remaining--;
+  }
+  for (let i = order.length - 1; remaining < 0; i = (i - 1 + order.length) % order.length) {
+    if (allocated[order[i].index] > minSteps) {
+      allocated[order[i].index]--;
+      remaining++;
+    }
+  }
+
+  return subtasks.map((st, index) => ({ ...st, estHours: allocated[index] * BREAKDOWN_HOUR_STEP }));
+}
+
+/**
+ * Turn an AI reply into pending subtasks
+ * Drops entries without a name, repeats of a name, and anything past the
+ * first fifteen; hours that aren't a positive number are left unset.
+ * @param raw - The reply's "subtasks" array
+ * @param existingSubtasks - Subtasks the task already has (new ones are ordered after them)
+ */
+export function validateSubtaskBreakdown(raw: unknown, existingSubtasks: Subtask[] = [], now: Date = new Date()): Subtask[] {
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set(existingSubtasks.map(st => st.name.trim().toLowerCase()));
+  const firstOrder = existingSubtasks.reduce((max, st) => Math.max(max, st.order + 1), 0);
+  const subtasks: Subtask[] = [];
+
+  raw.forEach((item: any) => {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name || seen.has(name.toLowerCase()) || subtasks.length >= MAX_BREAKDOWN_SUBTASKS) return;
+    seen.add(name.toLowerCase());
+
+    const hours = Number(item.estHours);
+    subtasks.push({
+      id: `subtask-${now.getTime()}-${subtasks.length}`,
+      name,
+      estHours: Number.isFinite(hours) && hours > 0 ? roundToStep(hours) || BREAKDOWN_HOUR_STEP : undefined,
+      status: 'pending',
+      notes: typeof item.notes === 'string' ? item.notes.trim() : '',
+      order: firstOrder + subtasks.length,
+    });
+  });
+
+  return subtasks;
+}
@@ -0,0 +1,164 @@
+/**
+ * Task Command Bar tests
+ * Run with: npm test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTaskCommandLocally,
+  validateTaskCommand,
+  previewTaskMutation,
+  applyTaskMutation,
+  type TaskCommandContext,
+} from './taskCommands';
+import type { Task } from '../types';
+
+const context: TaskCommandContext = {
+  phases: [
+    { phaseId: 'design', phaseTitle: 'Design' },
+    { phaseId: 'build', phaseTitle: 'Build' },
+    { phaseId: 'test', phaseTitle: 'Testing' },
+  ],
+  collaborators: [
+    { id: 'dana', name: 'Dana Smith' },
+    { id: 'sam', name: 'Sam Lee' },
+  ],
+  categories: ['UX', 'Backend'],
+};
+
+function makeTask(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    task: `Task ${id}`,
+    phase: 'design',
+    phaseTitle: 'Design',
+    category: 'UX',
+    adjustedEstHours: 4,
+    ...overrides,
+  };
+}
+
+describe('parseTaskCommandLocally', () => {
+  it('parses a filter', () => {
+    expect(parseTaskCommandLocally('Blocked tasks assigned to Dana in phase 2', context)).toEqual({
+      kind: 'filter',
+      query: { statuses: ['blocked'], assigneeIds: ['dana'], phaseIds: ['build'] },
+      description: 'Blocked tasks assigned to Dana Smith in Build',
+      source: 'local',
+    });
+  });
+
+  it('prefers the longest status phrase', () => {
+    expect(parseTaskCommandLocally('not started tasks', context)?.query).toEqual({ statuses: ['pending'] });
+  });
+
+  it('searches for quoted or named text', () => {
+    expect(parseTaskCommandLocally('find "Launch plan"', context)?.query).toEqual({ text: 'launch plan' });
+    expect(parseTaskCommandLocally('tasks called launch plan', context)?.query).toEqual({ text: 'launch plan' });
+  });
+
+  it('parses bulk edits', () => {
+    expect(parseTaskCommandLocally('move all ux tasks to on-hold', context)).toMatchObject({
+      kind: 'bulk_edit',
+      query: { categories: ['UX'] },
+      mutation: { status: 'on-hold' },
+      description: 'UX tasks → set status to On Hold',
+    });
+    expect(parseTaskCommandLocally('assign critical tasks to Sam', context)).toMatchObject({
+      query: { criticalPath: true },
+      mutation: { assignedTo: 'sam' },
+    });
+    expect(parseTaskCommandLocally('move backend tasks to phase 3', context)).toMatchObject({
+      query: { categories: ['Backend'] },
+      mutation: { phase: 'test' },
+    });
+    expect(parseTaskCommandLocally('unassign complete tasks', context)).toMatchObject({
+      query: { statuses: ['complete'] },
+      mutation: { assignedTo: null },
+      description: 'Complete tasks → unassign',
+    });
+  });
+
+  it('gives up on commands it only partly understands', () => {
+    expect(parseTaskCommandLocally('blocked tasks assigned to Nobody', context)).toBeNull();
+    expect(parseTaskCommandLocally('move everything to phase 9', context)).toBeNull();
+    expect(parseTaskCommandLocally('make coffee', context)).toBeNull();
+    expect(parseTaskCommandLocally('   ', context)).toBeNull();
+  });
+});
+
+describe('validateTaskCommand', () => {
+  it('drops what the project doesn\'t have and matches categories case-insensitively', () => {
+    const command = validateTaskCommand({
+      kind: 'bulk_edit',
+      query: { statuses: ['blocked', 'stuck'], phaseIds: ['launch'], categories: ['backend'] },
+      mutation: { status: 'done', assignedTo: 'sam' },
+    }, context);
+
+    expect(command).toMatchObject({
+      kind: 'bulk_edit',
+      query: { statuses: ['blocked'], categories: ['Backend'] },
+      mutation: { assignedTo: 'sam' },
+      source: 'ai',
+    });
+    expect(command?.query.phaseIds).toBeUndefined();
+    expect(command?.mutation?.status).toBeUndefined();
+  });
+
+  it('rejects commands with nothing usable left', () => {
+    expect(validateTaskCommand({ kind: 'filter', query: { statuses: ['stuck'] } }, context)).toBeNull();
+    expect(validateTaskCommand({ kind: 'bulk_edit', query: {}, mutation: { phase: 'launch' } }, context)).toBeNull();
+    expect(validateTaskCommand({ kind: 'delete_everything' }, context)).toBeNull();
+    expect(validateTaskCommand(null, context)).toBeNull();
+  });
+});
+
+describe('previewTaskMutation', () => {
+  const tasks = [
+    makeTask('t1', { assignedTo: 'dana' }),
+    makeTask('t2', { phase: 'build', phaseTitle: 'Build', category: 'Backend' }),
+  ];
+
+  it('lists the changes to each matching task', () => {
+    const preview = previewTaskMutation(tasks, { t1: { status: 'blocked' } }, { statuses: ['blocked'] }, {
+      status: 'on-hold',
+      assignedTo: 'sam',
+    }, context);
+
+    expect(preview).toEqual([{
+      taskId: 't1',
+      taskName: 'Task t1',
+      changes: [
+        { field: 'Status', before: 'Blocked', after: 'On Hold' },
+        { field: 'Assignee', before: 'Dana Smith', after: 'Sam Lee' },
+      ],
+    }]);
+  });
+
+  it('leaves out tasks the edit wouldn\'t change', () => {
+    const preview = previewTaskMutation(tasks, {}, {}, { phase: 'build' }, context);
+
+    expect(preview).toEqual([{
+      taskId: 't1',
+      taskName: 'Task t1',
+      changes: [{ field: 'Phase', before: 'Design', after: 'Build' }],
+    }]);
+  });
+});
+
+describe('applyTaskMutation', () => {
+  it('changes only the selected tasks', () => {
+    const tasks = [makeTask('t1', { assignedTo: 'dana' }), makeTask('t2')];
+    const taskStates = { t1: { status: 'blocked' as const, notes: 'Waiting on copy' } };
+
+    const result = applyTaskMutation(tasks, taskStates, ['t1'], {
+      status: 'complete',
+      assignedTo: null,
+      phase: 'build',
+    }, context);
+
+    expect(result.tasks[0]).toMatchObject({ phase: 'build', phaseTitle: 'Build', assignedTo: undefined });
+    expect(result.tasks[1]).toBe(tasks[1]);
+    expect(result.taskStates).toEqual({ t1: { status: 'complete', notes: 'Waiting on copy' } });
+  });
+});
@@ -0,0 +1,475 @@
+// ============================================
+// Universal Project Manager - Task Command Bar
+// ============================================
+
+import type {
+  Task,
+  TaskState,
+  TaskStatus,
+  Collaborator,
+  TaskQuery,
+  TaskMutation,
+  TaskCommand,
+  TaskMutationPreview,
+} from '../types';
+
+/**
+ * What a command can refer to in the current project
+ */
+export interface TaskCommandContext {
+  phases: { phaseId: string; phaseTitle: string }[]; // In display order ("phase 2" is the second)
+  collaborators: Collaborator[];
+  categories: string[];
+}
+
+export const TASK_STATUS_LABELS: { [status in TaskStatus]: string } = {
+  'pending': 'Pending',
+  'in-progress': 'In Progress',
+  'complete': 'Complete',
+  'blocked': 'Blocked',
+  'on-hold': 'On Hold',
+};
+
+// Longer phrases first so "not started" wins over "started"
+const STATUS_WORDS: [string, TaskStatus][] = [
+  ['not started', 'pending'],
+  ['in progress', 'in-progress'],
+  ['in-progress', 'in-progress'],
+  ['on hold', 'on-hold'],
+  ['on-hold', 'on-hold'],
+  ['completed', 'complete'],
+  ['complete', 'complete'],
+  ['finished', 'complete'],
+  ['done', 'complete'],
+  ['blocked', 'blocked'],
+  ['pending', 'pending'],
+  ['to do', 'pending'],
+  ['todo', 'pending'],
+  ['started', 'in-progress'],
+  ['ongoing', 'in-progress'],
+  ['paused', 'on-hold'],
+];
+
+const EDIT_VERBS = /^(move|set|mark|change|put|make|assign|reassign|unassign)\b\s*/;
+
+// Words that carry no meaning in a query ("show me all the tasks ...")
+const FILLER_WORDS = /\b(show|find|list|filter|get|me|all|the|every|any|tasks?|items?|that|are|is|which|with|status|of|and)\b/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const wordPattern = (phrase: string) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(phrase)}(?=$|[^a-z0-9])`);
+
+/**
+ * Remove the first whole-word occurrence of a phrase
+ * @returns The remaining text, or null when the phrase isn't there
+ */
+function consume(text: string, phrase: string): string | null {
+  const pattern = wordPattern(phrase);
+  if (!pattern.test(text)) return null;
+  return text.replace(pattern, '$1 ');
+}
+
+const byLongest = <T>(items: T[], getText: (item: T) => string) =>
+  [...items].sort((a, b) => getText(b).length - getText(a).length);
+
+function findStatus(text: string): TaskStatus | undefined {
+  const trimmed = text.trim();
+  return STATUS_WORDS.find(([word]) => trimmed === word)?.[1];
+}
+
+/**
+ * Collaborator named in a phrase, by full name or first name
+ */
+function findCollaborator(text: string, collaborators: Collaborator[]): Collaborator | undefined {
+  const name = text.trim().replace(/'s$/, '');
+  return collaborators.find(c => c.name.toLowerCase() === name) ||
+    collaborators.find(c => c.name.toLowerCase().split(/\s+/)[0] === name);
+}
+
+/**
+ * Phase named in a phrase: "phase 2", "2", or its title
+ */
+function findPhase(text: string, context: TaskCommandContext) {
+  const trimmed = text.trim().replace(/^(the\s+)?phase\s+/, '');
+  const index = /^\d+$/.test(trimmed) ? parseInt(trimmed) - 1 : -1;
+  if (index >= 0) return context.phases[index];
+  return context.phases.find(p => p.phaseTitle.toLowerCase() === trimmed);
+}
+
+/**
+ * Parse the conditions part of a command, e.g. "blocked tasks assigned to Dana in phase 2"
+ * @returns The query, and whether any condition was recognised
+ */
+function parseQuery(input: string, context: TaskCommandContext): { query: TaskQuery; recognised: boolean } {
+  const query: TaskQuery = {};
+  let text = ` ${input} `;
+  let recognised = false;
+
+  const quoted = text.match(/"([^"]+)"|“([^”]+)”/);
+  if (quoted) {
+    query.text = quoted[1] || quoted[2];
+    text = text.replace(quoted[0], ' ');
+    recognised = true;
+  }
+
+  const named = text.match(/\b(?:named|called|containing|matching)\s+(.+?)\s*$/);
+  if (!query.text && named) {
+    query.text = named[1];
+    text = text.replace(named[0], ' ');
+    recognised = true;
+  }
+
+  const unassigned = consume(text, 'unassigned');
+  if (unassigned !== null) {
+    query.unassigned = true;
+    text = unassigned;
+    recognised = true;
+  }
+
+  // "assigned to Dana", "owned by Dana Smith", "Dana's"
+  const assignee = text.match(/\b(?:assigned to|owned by|for)\s+([a-z][\w'-]*)(\s+[a-z][\w'-]*)?/) ||
+    text.match(/\b([a-z][\w-]*)'s\b/);
+  if (assignee) {
+    const twoWords = assignee[2] ? findCollaborator(`${assignee[1]}${assignee[2]}`, context.collaborators) : undefined;
+    const collaborator = twoWords || findCollaborator(assignee[1], context.collaborators);
+    if (collaborator) {
+      query.assigneeIds = [collaborator.id];
+      const matched = twoWords ? assignee[0] : assignee[0].replace(assignee[2] || '', '');
+      text = text.replace(matched, ' ');
+      recognised = true;
+    }
+  }
+
+  // "phase 2", "in phase Design", "in Design"
+  const phaseNumber = text.match(/\bphase\s+(\d+)\b/);
+  if (phaseNumber) {
+    const phase = findPhase(phaseNumber[1], context);
+    if (phase) {
+      query.phaseIds = [phase.phaseId];
+      text = text.replace(phaseNumber[0], ' ');
+      recognised = true;
+    }
+  }
+  if (!query.phaseIds) {
+    for (const phase of byLongest(context.phases, p => p.phaseTitle)) {
+      const title = phase.phaseTitle.toLowerCase();
+      const rest = consume(text, `in phase ${title}`) ?? consume(text, `in the ${title} phase`) ??
+        consume(text, `in ${title}`) ?? consume(text, `${title} phase`);
+      if (rest !== null) {
+        query.phaseIds = [phase.phaseId];
+        text = rest;
+        recognised = true;
+        break;
+      }
+    }
+  }
+
+  const statuses: TaskStatus[] = [];
+  STATUS_WORDS.forEach(([word, status]) => {
+    const rest = consume(text, word);
+    if (rest !== null) {
+      if (!statuses.includes(status)) statuses.push(status);
+      text = rest;
+    }
+  });
+  if (statuses.length > 0) {
+    query.statuses = statuses;
+    recognised = true;
+  }
+
+  const critical = consume(text, 'critical path') ?? consume(text, 'critical');
+  if (critical !== null) {
+    query.criticalPath = true;
+    text = critical;
+    recognised = true;
+  }
+
+  const categories: string[] = [];
+  byLongest(context.categories, c => c).forEach(category => {
+    const rest = consume(text, category.toLowerCase());
+    if (rest !== null) {
+      categories.push(category);
+      text = rest;
+    }
+  });
+  if (categories.length > 0) {
+    query.categories = categories;
+    recognised = true;
+  }
+
+  // A phase title left over (not after "in") still counts, once categories had their chance
+  if (!query.phaseIds) {
+    for (const phase of byLongest(context.phases, p => p.phaseTitle)) {
+      const rest = consume(text, phase.phaseTitle.toLowerCase());
+      if (rest !== null) {
+        query.phaseIds = [phase.phaseId];
+        text = rest;
+        recognised = true;
+        break;
+      }
+    }
+  }
+
+  // Anything meaningful left over means part of the command wasn't understood
+  const leftover = text.replace(FILLER_WORDS, ' ').replace(/\b(in|to|as|on|by)\b/g, ' ').trim();
+  return { query, recognised: recognised && leftover === '' };
+}
+
+/**
+ * Parse the target of a bulk edit ("on-hold", "phase 3", "Dana")
+ */
+function parseMutation(verb: string, target: string, context: TaskCommandContext): TaskMutation | null {
+  const text = target.trim().replace(/^(status\s+)/, '');
+
+  if (verb === 'assign' || verb === 'reassign') {
+    const collaborator = findCollaborator(text, context.collaborators);
+    return collaborator ? { assignedTo: collaborator.id } : null;
+  }
+
+  const status = findStatus(text);
+  if (status) return { status };
+
+  const categoryName = text.replace(/^category\s+/, '');
+  if (text.startsWith('category ')) {
+    const category = context.categories.find(c => c.toLowerCase() === categoryName);
+    return category ? { category } : null;
+  }
+
+  const phase = findPhase(text, context);
+  if (phase) return { phase: phase.phaseId };
+
+  const collaborator = findCollaborator(text, context.collaborators);
+  if (collaborator) return { assignedTo: collaborator.id };
+
+  return null;
+}
+
+/**
+ * Parse a command with the built-in grammar
+ * Understands filters like "blocked tasks assigned to Dana in phase 2" and
+ * edits like "move all design tasks to on-hold", "assign critical tasks to
+ * Sam", "move testing tasks to phase 3" or "unassign complete tasks".
+ * @returns The command, or null when it couldn't be understood
+ */
+export function parseTaskCommandLocally(input: string, context: TaskCommandContext): TaskCommand | null {
+  const text = input.trim().toLowerCase().replace(/[.!?]+$/, '');
+  if (!text) return null;
+
+  const verbMatch = text.match(EDIT_VERBS);
+  if (!verbMatch) {
+    const { query, recognised } = parseQuery(text, context);
+    if (!recognised) return null;
+    return finishCommand({ kind: 'filter', query }, context, 'local');
+  }
+
+  const verb = verbMatch[1];
+  const rest = text.slice(verbMatch[0].length);
+
+  if (verb === 'unassign') {
+    const { query, recognised } = parseQuery(rest, context);
+    if (!recognised && rest.replace(FILLER_WORDS, '').trim() !== '') return null;
+    return finishCommand({ kind: 'bulk_edit', query, mutation: { assignedTo: null } }, context, 'local');
+  }
+
+  // The target follows the last " to " or " as " ("move X to on-hold", "mark X as done")
+  const split = Math.max(rest.lastIndexOf(' to '), rest.lastIndexOf(' as '));
+  if (split === -1) return null;
+
+  const mutation = parseMutation(verb, rest.slice(split + 4), context);
+  if (!mutation) return null;
+
+  const conditions = rest.slice(0, split);
+  const { query, recognised } = parseQuery(conditions, context);
+  if (!recognised && conditions.replace(FILLER_WORDS, '').trim() !== '') return null;
+
+  return finishCommand({ kind: 'bulk_edit', query, mutation }, context, 'local');
+}
+
+/**
+ * Check a command suggested by the AI against the project
+ * Unknown statuses, phases, people and categories are dropped.
+ * @returns The command, or null when nothing usable is left
+ */
+export function validateTaskCommand(raw: any, context: TaskCommandContext): TaskCommand | null {
+  if (!raw || (raw.kind !== 'filter' && raw.kind !== 'bulk_edit')) return null;
+
+  const statusOk = (s: any): s is TaskStatus => Object.prototype.hasOwnProperty.call(TASK_STATUS_LABELS, s);
+  const phaseIds = new Set(context.phases.map(p => p.phaseId));
+  const collaboratorIds = new Set(context.collaborators.map(c => c.id));
+  const canonicalCategory = (c: any) =>
+    typeof c === 'string' ? context.categories.find(known => known.toLowerCase() === c.toLowerCase()) : undefined;
+  const list = (value: any) => (Array.isArray(value) ? value : []);
+
+  const rawQuery = raw.query || {};
+  const query: TaskQuery = {};
+  const statuses = list(rawQuery.statuses).filter(statusOk);
+  if (statuses.length) query.statuses = statuses;
+  const phases = list(rawQuery.phaseIds).filter((id: any) => phaseIds.has(id));
+  if (phases.length) query.phaseIds = phases;
+  const assignees = list(rawQuery.assigneeIds).filter((id: any) => collaboratorIds.has(id));
+  if (assignees.length) query.assigneeIds = assignees;
+  const categories = list(rawQuery.categories).map(canonicalCategory).filter((c): c is string => !!c);
+  if (categories.length) query.categories = categories;
+  if (rawQuery.unassigned === true) query.unassigned = true;
+  if (rawQuery.criticalPath === true) query.criticalPath = true;
+  if (typeof rawQuery.text === 'string' && rawQuery.text.trim()) query.text = rawQuery.text.trim();
+
+  if (raw.kind === 'filter') {
+    if (Object.keys(query).length === 0) return null;
+    return finishCommand({ kind: 'filter', query }, context, 'ai');
+  }
+
+  const rawMutation = raw.mutation || {};
+  const mutation: TaskMutation = {};
+  if (statusOk(rawMutation.status)) mutation.status = rawMutation.status;
+  if (rawMutation.assignedTo === null || collaboratorIds.has(rawMutation.assignedTo)) {
+    mutation.assignedTo = rawMutation.assignedTo;
+  }
+  if (phaseIds.has(rawMutation.phase)) mutation.phase = rawMutation.phase;
+  const category = canonicalCategory(rawMutation.category);
+  if (category) mutation.category = category;
+
+  if (Object.keys(mutation).length === 0) return null;
+  return finishCommand({ kind: 'bulk_edit', query, mutation }, context, 'ai');
+}
+
+function finishCommand(
+  command: Pick<TaskCommand, 'kind' | 'query' | 'mutation'>,
+  context: TaskCommandContext,
+  source: TaskCommand['source']
+): TaskCommand {
+  return { ...command, description: describeTaskCommand(command, context), source };
+}
+
+/**
+ * How a command was understood, e.g.
+ * "Blocked tasks assigned to Dana in Design → set status to On Hold"
+ */
+export function describeTaskCommand(
+  command: Pick<TaskCommand, 'kind' | 'query' | 'mutation'>,
+  context: TaskCommandContext
+): string {
+  const { query, mutation } = command;
+  const phaseTitle = (id: string) => context.phases.find(p => p.phaseId === id)?.phaseTitle || id;
+  const personName = (id: string) => context.collaborators.find(c => c.id === id)?.name || id;
+
+  const parts: string[] = [];
+  const statuses = (query.statuses || []).map(s => TASK_STATUS_LABELS[s]).join(' or ');
+  const categories = (query.categories || []).join(' or ');
+  parts.push([query.criticalPath && 'Critical', statuses, categories, 'tasks'].filter(Boolean).join(' '));
+  if (query.assigneeIds?.length) parts.push(`assigned to ${query.assigneeIds.map(personName).join(' or ')}`);
+  if (query.unassigned) parts.push('with no one assigned');
+  if (query.phaseIds?.length) parts.push(`in ${query.phaseIds.map(phaseTitle).join(' or ')}`);
+  if (query.text) parts.push(`matching "${query.text}"`);
+
+  let description = parts.join(' ');
+  description = description.charAt(0).toUpperCase() + description.slice(1);
+  if (!query.statuses && !query.categories && !query.criticalPath && parts.length === 1) {
+    description = 'All tasks';
+  }
+
+  if (command.kind === 'bulk_edit' && mutation) {
+    const edits: string[] = [];
+    if (mutation.status) edits.push(`set status to ${TASK_STATUS_LABELS[mutation.status]}`);
+    if (mutation.assignedTo === null) edits.push('unassign');
+    else if (mutation.assignedTo) edits.push(`assign to ${personName(mutation.assignedTo)}`);
+    if (mutation.phase) edits.push(`move to ${phaseTitle(mutation.phase)}`);
+    if (mutation.category) edits.push(`set category to ${mutation.category}`);
+    description += ` → ${edits.join(', ')}`;
+  }
+  return description;
+}
+
+/**
+ * Whether a task matches every condition of a query
+ */
+export function matchesTaskQuery(task: Task, state: TaskState | undefined, query: TaskQuery): boolean {
+  const status = state?.status || 'pending';
+  if (query.statuses?.length && !query.statuses.includes(status)) return false;
+  if (query.phaseIds?.length && !query.phaseIds.includes(task.phase)) return false;
+  if (query.assigneeIds?.length && !query.assigneeIds.includes(task.assignedTo || '')) return false;
+  if (query.unassigned && task.assignedTo) return false;
+  if (query.categories?.length &&
+      !query.categories.some(c => c.toLowerCase() === (task.category || '').toLowerCase())) return false;
+  if (query.criticalPath && !task.criticalPath) return false;
+  if (query.text) {
+    const needle = query.text.toLowerCase();
+    const haystack = `${task.task} ${task.notes || ''} ${state?.notes || ''}`.toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
+
+/**
+ * What a bulk edit would change, task by task (tasks it wouldn't change are left out)
+ */
+export function previewTaskMutation(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  query: TaskQuery,
+  mutation: TaskMutation,
+  context: TaskCommandContext
+): TaskMutationPreview[] {
+  const phaseTitle = (id: string) => context.phases.find(p => p.phaseId === id)?.phaseTitle || id;
+  const personName = (id?: string | null) =>
+    (id && context.collaborators.find(c => c.id === id)?.name) || 'Unassigned';
+
+  return tasks
+    .filter(task => matchesTaskQuery(task, taskStates[task.id], query))
+    .map(task => {
+      const changes: TaskMutationPreview['changes'] = [];
+      const status = taskStates[task.id]?.status || 'pending';
+
+      if (mutation.status && mutation.status !== status) {
+        changes.push({ field: 'Status', before: TASK_STATUS_LABELS[status], after: TASK_STATUS_LABELS[mutation.status] });
+      }
+      if (mutation.assignedTo !== undefined && (mutation.assignedTo || undefined) !== (task.assignedTo || undefined)) {
+        changes.push({ field: 'Assignee', before: personName(task.assignedTo), after: personName(mutation.assignedTo) });
+      }
+      if (mutation.phase && mutation.phase !== task.phase) {
+        changes.push({ field: 'Phase', before: task.phaseTitle || phaseTitle(task.phase), after: phaseTitle(mutation.phase) });
+      }
+      if (mutation.category && mutation.category !== task.category) {
+        changes.push({ field: 'Category', before: task.category, after: mutation.category });
+      }
+
+      return { taskId: task.id, taskName: task.task, changes };
+    })
+    .filter(preview => preview.changes.length > 0);
+}
+
+/**
+ * Apply a bulk edit to the selected tasks
+ * @param taskIds - Tasks to change (normally those in the preview the user confirmed)
+ */
+export function applyTaskMutation(
+  tasks: Task[],
+  taskStates: { [key: string]: TaskState },
+  taskIds: string[],
+  mutation: TaskMutation,
+  context: TaskCommandContext
+): { tasks: Task[]; taskStates: { [key: string]: TaskState } } {
+  const selected = new Set(taskIds);
+  const phase = mutation.phase ? context.phases.find(p => p.phaseId === mutation.phase) : undefined;
+
+  const newTasks = tasks.map(task => {
+    if (!selected.has(task.id)) return task;
+    const updated = { ...task };
+    if (mutation.assignedTo !== undefined) updated.assignedTo = mutation.assignedTo || undefined;
+    if (phase) {
+      updated.phase = phase.phaseId;
+      updated.phaseTitle = phase.phaseTitle;
+    }
+    if (mutation.category) updated.category = mutation.category;
+    return updated;
+  });
+
+  const newStates = { ...taskStates };
+  if (mutation.status) {
+    taskIds.forEach(taskId => {
+      newStates[taskId] = { ...newStates[taskId], status: mutation.status };
+    });
+  }
+
+  return { tasks: newTasks, taskStates: newStates };
+}
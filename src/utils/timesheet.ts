@@ -0,0 +1,101 @@
+// ============================================
+// Universal Project Manager - Timesheet Grid
+// ============================================
+
+import { parseDay, formatDay, addDays } from './ganttSchedule';
+import type { TimeLogEntry } from '../services/timeLogService';
+
+/**
+ * One task (or subtask) row of a weekly timesheet
+ */
+export interface TimesheetRow {
+  key: string;                     // taskId, or taskId/subtaskId
+  taskId: string;
+  taskName: string;
+  subtaskId?: string;
+  subtaskName?: string;
+  cells: { [date: string]: TimeLogEntry[] };
+  totalHours: number;
+}
+
+/**
+ * Monday of the week a day falls in (YYYY-MM-DD), matching the server's weeks
+ */
+export function getWeekStart(date: string | Date): string {
+  const day = typeof date === 'string' ? parseDay(date) : new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const offset = (day.getDay() + 6) % 7;
+  return formatDay(addDays(day, -offset));
+}
+
+/**
+ * The seven days of a week, Monday first
+ */
+export function getWeekDates(weekStart: string): string[] {
+  const monday = parseDay(weekStart);
+  return Array.from({ length: 7 }, (_, i) => formatDay(addDays(monday, i)));
+}
+
+/**
+ * Move a week start by whole weeks
+ */
+export function shiftWeek(weekStart: string, weeks: number): string {
+  return formatDay(addDays(parseDay(weekStart), weeks * 7));
+}
+
+/**
+ * Key of the grid row an entry (or new cell) belongs to
+ */
+export function getTimesheetRowKey(taskId: string, subtaskId?: string): string {
+  return subtaskId ? `${taskId}/${subtaskId}` : taskId;
+}
+
+/**
+ * Lay a person's entries for a week out as task rows by day
+ * Rows are sorted by task, with a task's own row before its subtasks'.
+ * Entries outside the week are ignored.
+ */
+export function buildTimesheetRows(entries: TimeLogEntry[], weekStart: string): TimesheetRow[] {
+  const dates = new Set(getWeekDates(weekStart));
+  const rows = new Map<string, TimesheetRow>();
+
+  entries.forEach(entry => {
+    if (!dates.has(entry.date)) return;
+
+    const key = getTimesheetRowKey(entry.taskId, entry.subtaskId);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        taskId: entry.taskId,
+        taskName: entry.taskName,
+        subtaskId: entry.subtaskId,
+        subtaskName: entry.subtaskName,
+        cells: {},
+        totalHours: 0,
+      };
+      rows.set(key, row);
+    }
+    row.cells[entry.date] = [...(row.cells[entry.date] || []), entry];
+    row.totalHours += entry.hours;
+  });
+
+  return [...rows.values()].sort((a, b) =>
+    a.taskName.localeCompare(b.taskName) ||
+    a.taskId.localeCompare(b.taskId) ||
+    (a.subtaskName || '').localeCompare(b.subtaskName || '')
+  );
+}
+
+/**
+ * Hours logged per day of the week
+ */
+export function getTimesheetDayTotals(rows: TimesheetRow[], weekStart: string): { [date: string]: number } {
+  const totals: { [date: string]: number } = {};
+  getWeekDates(weekStart).forEach(date => {
+    totals[date] = rows.reduce(
+      (sum, row) => sum + (row.cells[date] || []).reduce((cellSum, entry) => cellSum + entry.hours, 0),
+      0
+    );
+  });
+  return totals;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -18,5 +19,9 @@ export default defineConfig(({ mode }) => {
       'import.meta.env.VITE_BACKEND_URL': JSON.stringify(env.VITE_BACKEND_URL),
       'import.meta.env.VITE_EXPORT_API_URL': JSON.stringify(env.VITE_EXPORT_API_URL),
     },
+    // Unit tests of the frontend's pure logic, next to the modules they cover
+    test: {
+      include: ['src/**/*.test.ts'],
+    },
   }
 })